@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import PerformanceReport from "@/components/analytics/performance-report";
+import CsatReport from "@/components/analytics/csat-report";
+import type { ReportParams } from "@/hooks/use-analytics-report";
+import { BarChart3 } from "lucide-react";
+import type { AnalyticsRange } from "@shared/schema";
+
+interface AnalyticsDashboardProps {
+  // Reports are for team leads and admins; everyone else gets a notice
+  canViewReports: boolean;
+}
+
+const RANGES = [
+  { days: '1', label: 'Last 24 hours' },
+  { days: '7', label: 'Last 7 days' },
+  { days: '30', label: 'Last 30 days' },
+  { days: '90', label: 'Last 90 days' },
+];
+
+// Days, weeks and hours in the reports follow the viewer's clock
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export default function AnalyticsDashboard({ canViewReports }: AnalyticsDashboardProps) {
+  const [days, setDays] = useState('30');
+  const [interval, setTrendInterval] = useState<AnalyticsRange['interval']>('day');
+
+  if (!canViewReports) {
+    return (
+      <div className="flex items-center justify-center h-full" data-testid="analytics-restricted">
+        <div className="text-center">
+          <BarChart3 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium text-foreground">Analytics Dashboard</h3>
+          <p className="text-muted-foreground">Reports are available to team leads and admins.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const params: ReportParams = { days: Number(days), interval, timeZone };
+
+  return (
+    <div className="flex-1 p-6 bg-background overflow-y-auto" data-testid="analytics-dashboard">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground" data-testid="title-analytics">
+              Analytics
+            </h2>
+            <p className="text-muted-foreground mt-2">
+              How quickly chats are answered and handled, and how customers rated them. Times are shown in {timeZone}.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-36" data-testid="select-analytics-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(range => (
+                  <SelectItem key={range.days} value={range.days}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={interval} onValueChange={(value) => setTrendInterval(value as AnalyticsRange['interval'])}>
+              <SelectTrigger className="w-28" data-testid="select-analytics-interval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Daily</SelectItem>
+                <SelectItem value="week">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <PerformanceReport params={params} />
+        <Separator />
+        <CsatReport params={params} />
+      </div>
+    </div>
+  );
+}
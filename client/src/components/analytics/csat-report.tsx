@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import StatCard from "@/components/analytics/stat-card";
+import { useAnalyticsReport, type ReportParams } from "@/hooks/use-analytics-report";
+import { Smile, Star, MessageSquare } from "lucide-react";
+import type { CsatQuery, CsatReport as CsatReportData } from "@shared/schema";
+
+const GROUP_LABELS: Record<CsatQuery['groupBy'], string> = {
+  agent: 'Agent',
+  team: 'Team',
+  tag: 'Tag',
+};
+
+const csatChartConfig = {
+  csat: { label: 'CSAT %', color: 'var(--primary)' },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value}%`;
+const formatRating = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+export default function CsatReport({ params }: { params: ReportParams }) {
+  const [groupBy, setGroupBy] = useState<CsatQuery['groupBy']>('agent');
+  const { data: csat, isLoading, error } = useAnalyticsReport<CsatReportData>('/api/analytics/csat', params, { groupBy });
+
+  return (
+    <div className="space-y-4" data-testid="section-csat">
+      <div>
+        <h3 className="text-lg font-semibold text-foreground">Customer satisfaction</h3>
+        <p className="text-sm text-muted-foreground">
+          From post-chat surveys. A response counts as satisfied at 4 stars or a thumbs up.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" data-testid="text-csat-error">
+          Could not load the report: {error.message}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <StatCard label="Survey Responses" value={csat ? String(csat.overall.responses) : '—'} icon={MessageSquare} isLoading={isLoading} testId="analytics-stat-responses" />
+        <StatCard label="CSAT" value={csat ? formatPercent(csat.overall.csat) : '—'} icon={Smile} isLoading={isLoading} testId="analytics-stat-csat" />
+        <StatCard label="Average Rating" value={csat ? formatRating(csat.overall.averageRating) : '—'} icon={Star} isLoading={isLoading} testId="analytics-stat-rating" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">CSAT over time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={csatChartConfig} className="h-64 w-full" data-testid="chart-csat-trend">
+            <LineChart data={csat?.trend ?? []} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="csat" type="monotone" stroke="var(--color-csat)" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">CSAT by {GROUP_LABELS[groupBy].toLowerCase()}</CardTitle>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as CsatQuery['groupBy'])}>
+            <SelectTrigger className="w-32" data-testid="select-analytics-group">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(GROUP_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {csat && csat.groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6" data-testid="text-csat-empty">
+              No survey responses in this period.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{GROUP_LABELS[groupBy]}</TableHead>
+                  <TableHead className="text-right">Responses</TableHead>
+                  <TableHead className="text-right">CSAT</TableHead>
+                  <TableHead className="text-right">Avg. rating</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {csat?.groups.map(group => (
+                  <TableRow key={group.key} data-testid={`row-csat-${group.key}`}>
+                    <TableCell className="font-medium">{group.label}</TableCell>
+                    <TableCell className="text-right">{group.responses}</TableCell>
+                    <TableCell className="text-right">{formatPercent(group.csat)}</TableCell>
+                    <TableCell className="text-right">{formatRating(group.averageRating)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import StatCard from "@/components/analytics/stat-card";
+import { useAnalyticsReport, type ReportParams } from "@/hooks/use-analytics-report";
+import { SLA_METRIC_LABELS } from "@/components/chat/sla-badge";
+import { MessageSquare, Timer, Hourglass, Clock, CheckCircle, ArrowRightLeft, MessagesSquare, AlarmClock } from "lucide-react";
+import { slaMetrics, type DurationStat, type PerformanceMetrics, type PerformanceReport as PerformanceReportData } from "@shared/schema";
+
+const volumeChartConfig = {
+  chats: { label: 'Chats', color: 'var(--primary)' },
+} satisfies ChartConfig;
+
+const timesChartConfig = {
+  firstResponseTime: { label: 'First response (min)', color: 'var(--primary)' },
+  handleTime: { label: 'Handle time (min)', color: 'var(--warning)' },
+} satisfies ChartConfig;
+
+// Seconds as "45s", "3m 20s" or "1h 5m"
+function formatDuration(seconds: number | null) {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+const medianHint = (stat?: DurationStat) => stat && stat.median !== null ? `Median ${formatDuration(stat.median)}` : undefined;
+const formatNumber = (value: number | null, suffix = '') => value === null ? '—' : `${value}${suffix}`;
+const toMinutes = (seconds: number | null) => seconds === null ? null : Math.round(seconds / 6) / 10;
+
+const totalBreaches = (metrics: PerformanceMetrics) =>
+  slaMetrics.reduce((sum, metric) => sum + metrics.slaBreaches[metric], 0);
+const breachHint = (metrics?: PerformanceMetrics) => metrics && totalBreaches(metrics) > 0
+  ? slaMetrics.map(metric => `${metrics.slaBreaches[metric]} ${SLA_METRIC_LABELS[metric].toLowerCase()}`).join(' · ')
+  : undefined;
+
+export default function PerformanceReport({ params }: { params: ReportParams }) {
+  const { data: report, isLoading, error } = useAnalyticsReport<PerformanceReportData>('/api/analytics/performance', params);
+  const overall = report?.overall;
+
+  const times = report?.trend.map(point => ({
+    period: point.period,
+    firstResponseTime: toMinutes(point.firstResponseTime),
+    handleTime: toMinutes(point.handleTime)
+  })) ?? [];
+
+  return (
+    <div className="space-y-4" data-testid="section-performance">
+      <div>
+        <h3 className="text-lg font-semibold text-foreground">Contact center performance</h3>
+        <p className="text-sm text-muted-foreground">
+          Chats started in this period. Response times count the agent's public replies only, not whispers or supervisors.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" data-testid="text-performance-error">
+          Could not load the report: {error.message}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Chats" value={formatNumber(overall?.chats ?? null)} icon={MessageSquare} isLoading={isLoading} testId="analytics-stat-chats" />
+        <StatCard label="First Response" value={formatDuration(overall?.firstResponseTime.average ?? null)} hint={medianHint(overall?.firstResponseTime)} icon={Timer} isLoading={isLoading} testId="analytics-stat-frt" />
+        <StatCard label="Wait Time" value={formatDuration(overall?.waitTime.average ?? null)} hint={medianHint(overall?.waitTime)} icon={Hourglass} isLoading={isLoading} testId="analytics-stat-wait" />
+        <StatCard label="Handle Time" value={formatDuration(overall?.handleTime.average ?? null)} hint={medianHint(overall?.handleTime)} icon={Clock} isLoading={isLoading} testId="analytics-stat-aht" />
+        <StatCard label="Resolution Rate" value={formatNumber(overall?.resolutionRate ?? null, '%')} icon={CheckCircle} isLoading={isLoading} testId="analytics-stat-resolution" />
+        <StatCard label="Transfers per Chat" value={formatNumber(overall?.transfersPerChat ?? null)} icon={ArrowRightLeft} isLoading={isLoading} testId="analytics-stat-transfers" />
+        <StatCard label="Messages per Chat" value={formatNumber(overall?.messagesPerChat ?? null)} icon={MessagesSquare} isLoading={isLoading} testId="analytics-stat-messages" />
+        <StatCard label="Chats Breaching SLA" value={formatNumber(overall?.breachedChats ?? null)} hint={breachHint(overall)} icon={AlarmClock} isLoading={isLoading} testId="analytics-stat-sla" />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Chat volume</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={volumeChartConfig} className="h-56 w-full" data-testid="chart-volume-trend">
+              <BarChart data={report?.trend ?? []}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="chats" fill="var(--color-chats)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Volume by hour of day</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={volumeChartConfig} className="h-56 w-full" data-testid="chart-hourly-volume">
+              <BarChart data={report?.hourly ?? []}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="hour" tickLine={false} axisLine={false} tickFormatter={(hour) => `${hour}:00`} minTickGap={12} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.hour}:00`} />} />
+                <Bar dataKey="chats" fill="var(--color-chats)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Response and handle time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={timesChartConfig} className="h-56 w-full" data-testid="chart-times-trend">
+            <LineChart data={times} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="firstResponseTime" type="monotone" stroke="var(--color-firstResponseTime)" strokeWidth={2} dot={false} connectNulls />
+              <Line dataKey="handleTime" type="monotone" stroke="var(--color-handleTime)" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Chats per agent</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report && report.agents.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6" data-testid="text-performance-empty">
+              No chats were handled in this period.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agent</TableHead>
+                  <TableHead className="text-right">Chats</TableHead>
+                  <TableHead className="text-right">First response</TableHead>
+                  <TableHead className="text-right">Handle time</TableHead>
+                  <TableHead className="text-right">Resolved</TableHead>
+                  <TableHead className="text-right">Transfers/chat</TableHead>
+                  <TableHead className="text-right">SLA misses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report?.agents.map(agent => (
+                  <TableRow key={agent.agentId} data-testid={`row-agent-${agent.agentId}`}>
+                    <TableCell className="font-medium">{agent.name}</TableCell>
+                    <TableCell className="text-right">{agent.chats}</TableCell>
+                    <TableCell className="text-right">{formatDuration(agent.firstResponseTime.average)}</TableCell>
+                    <TableCell className="text-right">{formatDuration(agent.handleTime.average)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(agent.resolutionRate, '%')}</TableCell>
+                    <TableCell className="text-right">{formatNumber(agent.transfersPerChat)}</TableCell>
+                    <TableCell className="text-right">{totalBreaches(agent)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
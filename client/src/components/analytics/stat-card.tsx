@@ -0,0 +1,30 @@
+import { Card, CardContent } from "@/components/ui/card";
+import type { LucideIcon } from "lucide-react";
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  hint?: string;
+  icon: LucideIcon;
+  isLoading?: boolean;
+  testId: string;
+}
+
+export default function StatCard({ label, value, hint, icon: Icon, isLoading, testId }: StatCardProps) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">{label}</p>
+            <p className="text-2xl font-bold text-foreground" data-testid={testId}>
+              {isLoading ? '…' : value}
+            </p>
+            {hint && !isLoading && <p className="text-xs text-muted-foreground">{hint}</p>}
+          </div>
+          <Icon className="h-8 w-8 text-muted-foreground" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCallbacks, callbacksKey } from "@/hooks/use-callbacks";
+import { callbackTiming, formatCallbackWindow, type CallbackTiming } from "@/lib/callbacks";
+import { Phone, Mail, Check, X, Hand } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CallbackWithDetails, UpdateCallback } from "@shared/schema";
+
+// Whether the callback is late only changes every so often
+const CLOCK_TICK_MS = 30000;
+
+const TIMING_BADGES: Record<CallbackTiming, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'text-muted-foreground' },
+  due: { label: 'Due now', className: 'border-warning text-warning' },
+  overdue: { label: 'Overdue', className: 'border-destructive text-destructive' },
+};
+
+export default function CallbackQueue() {
+  const [now, setNow] = useState(() => Date.now());
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const mine = useCallbacks('mine');
+  const unassigned = useCallbacks('unassigned');
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: string, update: UpdateCallback }) => {
+      const response = await apiRequest('PATCH', `/api/callbacks/${id}`, update);
+      return response.json() as Promise<CallbackWithDetails>;
+    },
+    onSuccess: (callback) => {
+      toast({
+        title: callback.status === 'completed' ? 'Callback done'
+          : callback.status === 'cancelled' ? 'Callback cancelled'
+          : 'Callback claimed'
+      });
+      queryClient.invalidateQueries({ queryKey: callbacksKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update callback", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const renderCallback = (callback: CallbackWithDetails, claimable: boolean) => {
+    const timing = TIMING_BADGES[callbackTiming(callback, now)];
+    return (
+      <div key={callback.id} className="border border-border rounded-lg p-4 space-y-2" data-testid={`callback-${callback.id}`}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="font-medium text-foreground">{callback.customerName}</div>
+            <div className="text-sm text-muted-foreground">{formatCallbackWindow(callback)}</div>
+          </div>
+          <Badge variant="outline" className={cn("text-xs shrink-0", timing.className)}>
+            {timing.label}
+          </Badge>
+        </div>
+        <p className="text-sm text-foreground whitespace-pre-wrap">{callback.reason}</p>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            {callback.phone && (
+              <a href={`tel:${callback.phone}`} className="flex items-center text-primary hover:underline">
+                <Phone className="h-3 w-3 mr-1" />
+                {callback.phone}
+              </a>
+            )}
+            {callback.email && (
+              <a href={`mailto:${callback.email}`} className="flex items-center text-primary hover:underline">
+                <Mail className="h-3 w-3 mr-1" />
+                {callback.email}
+              </a>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {claimable ? (
+              <Button
+                size="sm"
+                onClick={() => updateMutation.mutate({ id: callback.id, update: { agentId: currentUser!.id } })}
+                disabled={updateMutation.isPending || !currentUser}
+                data-testid={`button-claim-callback-${callback.id}`}
+              >
+                <Hand className="h-4 w-4 mr-1" />
+                Claim
+              </Button>
+            ) : (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateMutation.mutate({ id: callback.id, update: { status: 'cancelled' } })}
+                  disabled={updateMutation.isPending}
+                  data-testid={`button-cancel-callback-${callback.id}`}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ id: callback.id, update: { status: 'completed' } })}
+                  disabled={updateMutation.isPending}
+                  data-testid={`button-complete-callback-${callback.id}`}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Done
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderList = (callbacks: CallbackWithDetails[] | undefined, isLoading: boolean, empty: string, claimable: boolean) => {
+    if (isLoading) return <p className="text-sm text-muted-foreground">Loading…</p>;
+    if (!callbacks?.length) return <p className="text-sm text-muted-foreground text-center py-6">{empty}</p>;
+    return <div className="space-y-3">{callbacks.map(callback => renderCallback(callback, claimable))}</div>;
+  };
+
+  return (
+    <div className="flex-1 p-6 bg-background overflow-y-auto" data-testid="callback-queue">
+      <div className="space-y-6 max-w-3xl">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground" data-testid="title-callbacks">
+            My Callbacks
+          </h2>
+          <p className="text-muted-foreground mt-2">
+            Customers waiting to hear back from you, soonest first. You are reminded when each window opens.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Scheduled for me</CardTitle>
+          </CardHeader>
+          <CardContent data-testid="list-my-callbacks">
+            {renderList(mine.data, mine.isLoading, 'No callbacks scheduled.', false)}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Requested by customers</CardTitle>
+          </CardHeader>
+          <CardContent data-testid="list-unassigned-callbacks">
+            {renderList(unassigned.data, unassigned.isLoading, 'No requests waiting to be claimed.', true)}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CALLBACK_WINDOW_OPTIONS, callbackWindow, defaultCallbackStart, toDateInput, toTimeInput
+} from "@/lib/callbacks";
+
+export interface CallbackDetails {
+  windowStart: Date;
+  windowEnd: Date;
+  phone?: string;
+  email?: string;
+  reason: string;
+}
+
+interface ScheduleCallbackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerName?: string;
+  defaultEmail?: string;
+  isPending?: boolean;
+  onSubmit: (details: CallbackDetails) => void;
+}
+
+export default function ScheduleCallbackDialog({
+  open, onOpenChange, customerName, defaultEmail, isPending, onSubmit
+}: ScheduleCallbackDialogProps) {
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("");
+  const [minutes, setMinutes] = useState("60");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [reason, setReason] = useState("");
+
+  // Start from the next free quarter hour every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const start = defaultCallbackStart();
+    setDate(toDateInput(start));
+    setTime(toTimeInput(start));
+    setMinutes("60");
+    setPhone("");
+    setEmail(defaultEmail ?? "");
+    setReason("");
+  }, [open, defaultEmail]);
+
+  const slot = callbackWindow(date, time, Number(minutes));
+  const canSubmit = !!slot && !!reason.trim() && !!(phone.trim() || email.trim());
+
+  const handleSubmit = () => {
+    if (!slot || !canSubmit) return;
+    onSubmit({
+      ...slot,
+      phone: phone.trim() || undefined,
+      email: email.trim() || undefined,
+      reason: reason.trim()
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-schedule-callback">
+        <DialogHeader>
+          <DialogTitle>Schedule a callback</DialogTitle>
+          <DialogDescription>
+            {customerName ? `You will be reminded to contact ${customerName} when the window opens.` : 'You will be reminded when the window opens.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="callback-date">Date</Label>
+              <Input id="callback-date" type="date" value={date} min={toDateInput(new Date())} onChange={(e) => setDate(e.target.value)} data-testid="input-callback-date" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="callback-time">From</Label>
+              <Input id="callback-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} data-testid="input-callback-time" />
+            </div>
+            <div className="space-y-2">
+              <Label>Within</Label>
+              <Select value={minutes} onValueChange={setMinutes}>
+                <SelectTrigger data-testid="select-callback-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CALLBACK_WINDOW_OPTIONS.map(option => (
+                    <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="callback-phone">Phone</Label>
+              <Input id="callback-phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+1 555 0100" data-testid="input-callback-phone" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="callback-email">Email</Label>
+              <Input id="callback-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} data-testid="input-callback-email" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="callback-reason">Reason *</Label>
+            <Textarea
+              id="callback-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What the customer needs from us"
+              maxLength={1000}
+              rows={3}
+              data-testid="textarea-callback-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-callback">
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} data-testid="button-submit-callback">
+            Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
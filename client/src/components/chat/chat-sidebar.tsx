@@ -1,36 +1,72 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Download } from "lucide-react";
+import { Search, Download, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { ChatSession, Customer, User } from "@shared/schema";
+import SlaBadge from "@/components/chat/sla-badge";
+import type { SessionListParams } from "@/lib/chat-cache";
+import type { SessionListItem, SessionListSort, WrapUpConfig } from "@shared/schema";
+
+// Wait for a pause in typing before asking the server to search
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface ChatSidebarProps {
-  sessions: (ChatSession & { customer?: Customer; agent?: User; lastMessage?: any })[];
+  sessions: SessionListItem[];
+  filters: SessionListParams;
+  onFiltersChange: (filters: SessionListParams) => void;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
   selectedSessionId: string | null;
   onSelectSession: (sessionId: string | null) => void;
 }
 
-export default function ChatSidebar({ sessions, selectedSessionId, onSelectSession }: ChatSidebarProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [roleFilter, setRoleFilter] = useState("all");
-  const [statusFilter, setStatusFilter] = useState("all");
+export default function ChatSidebar({
+  sessions,
+  filters,
+  onFiltersChange,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  selectedSessionId,
+  onSelectSession
+}: ChatSidebarProps) {
+  const [searchQuery, setSearchQuery] = useState(filters.search ?? "");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const filteredSessions = sessions.filter(session => {
-    const matchesSearch = !searchQuery || 
-      session.customer?.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      session.customer?.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      session.lastMessage?.content.toLowerCase().includes(searchQuery.toLowerCase());
+  const { data: wrapUpConfig } = useQuery<WrapUpConfig>({
+    queryKey: ['/api/wrap-up/config']
+  });
 
-    const matchesRole = roleFilter === "all" || session.agent?.role === roleFilter;
-    const matchesStatus = statusFilter === "all" || session.status === statusFilter;
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  useEffect(() => {
+    const search = searchQuery.trim() || undefined;
+    if (search === filtersRef.current.search) return;
 
-    return matchesSearch && matchesRole && matchesStatus;
-  });
+    const timeout = setTimeout(() => onFiltersChange({ ...filtersRef.current, search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, onFiltersChange]);
+
+  // Fetch the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isLoadingMore) onLoadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
+  const setFilter = (key: 'role' | 'status' | 'tag' | 'disposition', value: string) => {
+    onFiltersChange({ ...filters, [key]: value === 'all' ? undefined : value });
+  };
 
   const getRoleColor = (role?: string) => {
     switch (role) {
@@ -111,7 +147,7 @@ export default function ChatSidebar({ sessions, selectedSessionId, onSelectSessi
           </div>
           
           <div className="flex space-x-2">
-            <Select value={roleFilter} onValueChange={setRoleFilter}>
+            <Select value={filters.role ?? 'all'} onValueChange={(value) => setFilter('role', value)}>
               <SelectTrigger className="flex-1" data-testid="select-role-filter">
                 <SelectValue placeholder="All Agents" />
               </SelectTrigger>
@@ -123,29 +159,68 @@ export default function ChatSidebar({ sessions, selectedSessionId, onSelectSessi
                 <SelectItem value="admin">Admin</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={filters.status ?? 'all'} onValueChange={(value) => setFilter('status', value)}>
               <SelectTrigger className="flex-1" data-testid="select-status-filter">
-                <SelectValue placeholder="All Status" />
+                <SelectValue placeholder="All Open" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="all">All Open</SelectItem>
                 <SelectItem value="active">Active</SelectItem>
                 <SelectItem value="waiting">Waiting</SelectItem>
                 <SelectItem value="resolved">Resolved</SelectItem>
               </SelectContent>
             </Select>
           </div>
+          {wrapUpConfig && (wrapUpConfig.tags.length > 0 || wrapUpConfig.dispositions.length > 0) && (
+            <div className="flex space-x-2">
+              <Select value={filters.tag ?? 'all'} onValueChange={(value) => setFilter('tag', value)}>
+                <SelectTrigger className="flex-1" data-testid="select-tag-filter">
+                  <SelectValue placeholder="All Tags" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tags</SelectItem>
+                  {wrapUpConfig.tags.map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id}>{entry.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.disposition ?? 'all'} onValueChange={(value) => setFilter('disposition', value)}>
+                <SelectTrigger className="flex-1" data-testid="select-disposition-filter">
+                  <SelectValue placeholder="All Dispositions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Dispositions</SelectItem>
+                  {wrapUpConfig.dispositions.map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id}>{entry.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Select
+            value={filters.sort ?? 'newest'}
+            onValueChange={(value) => onFiltersChange({ ...filters, sort: value as SessionListSort })}
+          >
+            <SelectTrigger data-testid="select-sort-order">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="oldest">Oldest first</SelectItem>
+              <SelectItem value="recent_activity">Recent activity</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
       {/* Chat List */}
       <div className="flex-1 overflow-y-auto">
-        {filteredSessions.length === 0 ? (
+        {sessions.length === 0 ? (
           <div className="flex items-center justify-center h-32 text-muted-foreground" data-testid="empty-state-sessions">
-            <p>No active chat sessions</p>
+            <p>No chat sessions found</p>
           </div>
         ) : (
-          filteredSessions.map((session) => (
+          sessions.map((session) => (
             <div
               key={session.id}
               className={cn(
@@ -167,6 +242,14 @@ export default function ChatSidebar({ sessions, selectedSessionId, onSelectSessi
                       {session.customer?.name || 'Unknown Customer'}
                     </h4>
                     <div className="flex items-center space-x-2">
+                      {!!session.unreadCount && (
+                        <Badge
+                          className="text-xs bg-destructive text-destructive-foreground"
+                          data-testid={`badge-unread-${session.sessionId}`}
+                        >
+                          {session.unreadCount}
+                        </Badge>
+                      )}
                       <Badge className={cn("text-xs", getRoleColor(session.agent?.role))}>
                         {getRoleLabel(session.agent?.role)}
                       </Badge>
@@ -183,8 +266,11 @@ export default function ChatSidebar({ sessions, selectedSessionId, onSelectSessi
                     <span className="text-xs text-muted-foreground" data-testid={`text-agent-name-${session.sessionId}`}>
                       Agent: {session.agent?.name || 'Unassigned'}
                     </span>
-                    <span className="text-xs text-muted-foreground" data-testid={`text-timestamp-${session.sessionId}`}>
-                      {formatTimeAgo(session.startTime)}
+                    <span className="flex items-center space-x-2">
+                      <SlaBadge session={session} compact />
+                      <span className="text-xs text-muted-foreground" data-testid={`text-timestamp-${session.sessionId}`}>
+                        {formatTimeAgo(session.startTime)}
+                      </span>
                     </span>
                   </div>
                 </div>
@@ -192,6 +278,11 @@ export default function ChatSidebar({ sessions, selectedSessionId, onSelectSessi
             </div>
           ))
         )}
+        {hasMore && (
+          <div ref={loadMoreRef} className="flex justify-center p-4" data-testid="sessions-load-more">
+            {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -6,21 +6,46 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { useWebSocket } from "@/hooks/use-websocket";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { useChat } from "@/hooks/use-chat";
 import CustomerInfoPanel from "./customer-info-panel";
-import MessageInput from "./message-input";
-import { ArrowRight, X, ExternalLink, Phone, ArrowUp, Undo } from "lucide-react";
+import MessageInput, { type ReplyInsertion } from "./message-input";
+import MessageAttachments from "./message-attachments";
+import DeliveryStatus, { PendingStatus } from "./delivery-status";
+import InternalNote from "./internal-note";
+import WrapUpDialog from "./wrap-up-dialog";
+import SlaBadge from "./sla-badge";
+import EscalateDialog from "./escalate-dialog";
+import ScheduleCallbackDialog, { type CallbackDetails } from "@/components/callbacks/schedule-callback-dialog";
+import { callbacksKey } from "@/hooks/use-callbacks";
+import { ArrowRight, X, ExternalLink, Phone, ArrowUp, Undo, Eye, EyeOff, Megaphone, Lock, MessageSquare, ClipboardCheck, Book } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { ChatSession, Customer, User, Message } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { hasCaption, uploadAttachment, validateAttachment } from "@/lib/attachments";
+import { addNote, clearUnread } from "@/lib/chat-cache";
+import { canManageChat } from "@shared/schema";
+import type {
+  User, Message, MessageWithAttachments, InternalNoteWithAuthor, SessionListItem, WrapUp, WrapUpConfig, ChatSession, CallbackWithDetails,
+  SopSuggestion
+} from "@shared/schema";
 
 interface ConversationViewProps {
-  session?: ChatSession & { customer?: Customer; agent?: User };
+  session?: SessionListItem;
   onSessionUpdate?: () => void;
+  // Open as a silent supervisor (see the wallboard) rather than as a participant
+  monitor?: boolean;
 }
 
-export default function ConversationView({ session, onSessionUpdate }: ConversationViewProps) {
+export default function ConversationView({ session, onSessionUpdate, monitor }: ConversationViewProps) {
   const [transferAgent, setTransferAgent] = useState<string>("");
+  // Whether the composer replies to the customer or adds an internal note
+  const [composer, setComposer] = useState<'reply' | 'note'>('reply');
+  const [pinNote, setPinNote] = useState(false);
+  const [wrapUpMode, setWrapUpMode] = useState<'end' | 'wrap_up' | null>(null);
+  const [escalating, setEscalating] = useState(false);
+  const [schedulingCallback, setSchedulingCallback] = useState(false);
+  const [replyInsertion, setReplyInsertion] = useState<ReplyInsertion | null>(null);
   const { toast } = useToast();
 
   const { data: agents = [] } = useQuery({
@@ -28,14 +53,43 @@ export default function ConversationView({ session, onSessionUpdate }: Conversat
     enabled: !!session
   });
 
-  const { data: messages = [] } = useQuery({
+  const { data: messages = [] } = useQuery<MessageWithAttachments[]>({
     queryKey: ['/api/chat/sessions', session?.sessionId, 'messages'],
-    enabled: !!session?.sessionId,
-    refetchInterval: 1000
+    enabled: !!session?.sessionId
   });
 
-  const { sendMessage } = useWebSocket('/ws');
-  const { sendChatMessage, isConnected } = useChat(session?.sessionId || '');
+  const { data: wrapUpConfig } = useQuery<WrapUpConfig>({
+    queryKey: ['/api/wrap-up/config'],
+    enabled: !!session
+  });
+
+  const { data: notes = [] } = useQuery<InternalNoteWithAuthor[]>({
+    queryKey: ['/api/chat/sessions', session?.sessionId, 'notes'],
+    enabled: !!session?.sessionId
+  });
+
+  // Notes sit between the messages they were written after
+  const timeline = [
+    ...messages.map(message => ({ kind: 'message' as const, at: message.timestamp, message })),
+    ...notes.map(note => ({ kind: 'note' as const, at: note.createdAt, note })),
+  ].sort((a, b) => new Date(a.at ?? 0).getTime() - new Date(b.at ?? 0).getTime());
+
+  const { user: currentUser } = useAuth();
+  const {
+    sendChatMessage, sendWhisper, bargeIn, joinMode, pendingMessages, retryMessage, discardMessage, markRead, isConnected
+  } = useChat(session?.sessionId || '', 'agent', undefined, monitor ? 'monitor' : undefined);
+  const isMonitoring = joinMode === 'monitor';
+
+  // Viewing the conversation marks the customer's latest message (and everything before it) as read.
+  // Monitors stay invisible, so they leave the customer's read ticks alone.
+  useEffect(() => {
+    if (!currentUser || !session || isMonitoring) return;
+    const lastCustomerMessage = [...messages].reverse().find(m => m.senderType === 'customer');
+    if (lastCustomerMessage && !(lastCustomerMessage.readBy ?? []).some(r => r.readerId === currentUser.id)) {
+      markRead(lastCustomerMessage.id);
+      clearUnread(session.sessionId);
+    }
+  }, [messages, currentUser, session?.sessionId, isMonitoring, markRead]);
 
   const transferMutation = useMutation({
     mutationFn: async ({ sessionId, newAgentId, reason }: { sessionId: string, newAgentId: string, reason: string }) => {
@@ -57,18 +111,110 @@ export default function ConversationView({ session, onSessionUpdate }: Conversat
     }
   });
 
+  const escalateMutation = useMutation({
+    mutationFn: async ({ sessionId, reason }: { sessionId: string, reason: string }) => {
+      const response = await apiRequest('POST', `/api/chat/sessions/${sessionId}/escalate`, { reason });
+      return response.json() as Promise<ChatSession>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Chat escalated",
+        description: updated.agentId ? undefined : `Waiting for the next available ${updated.escalationLevel?.replace('_', ' ')}`
+      });
+      setEscalating(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/sessions'] });
+      onSessionUpdate?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to escalate chat", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const callbackMutation = useMutation({
+    mutationFn: async ({ sessionId, details }: { sessionId: string, details: CallbackDetails }) => {
+      const response = await apiRequest('POST', '/api/callbacks', { sessionId, ...details });
+      return response.json() as Promise<CallbackWithDetails>;
+    },
+    onSuccess: () => {
+      toast({ title: "Callback scheduled", description: "It is in My Callbacks; you will be reminded when it is due." });
+      setSchedulingCallback(false);
+      queryClient.invalidateQueries({ queryKey: callbacksKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to schedule callback", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadAttachment(session!.sessionId, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/sessions', session?.sessionId, 'messages'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to attach file", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', `/api/chat/sessions/${session!.sessionId}/notes`, {
+        content,
+        pinToCustomer: pinNote
+      });
+      return response.json() as Promise<InternalNoteWithAuthor>;
+    },
+    onSuccess: (note) => {
+      addNote(session!.sessionId, note);
+      setPinNote(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to add note", variant: "destructive" });
+    }
+  });
+
+  const handleAttachFile = (file: File) => {
+    const problem = validateAttachment(file);
+    if (problem) {
+      toast({ title: "Cannot attach file", description: problem, variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  // A suggested SOP's excerpt goes into the reply, which then cites that SOP
+  const handleInsertExcerpt = (suggestion: SopSuggestion) => {
+    setComposer('reply');
+    setReplyInsertion({ id: Date.now(), content: suggestion.excerpt, sop: suggestion.sop });
+  };
+
   const endSessionMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      const response = await apiRequest('POST', `/api/chat/end/${sessionId}`, {});
+    mutationFn: async ({ sessionId, wrapUp }: { sessionId: string, wrapUp: WrapUp }) => {
+      const response = await apiRequest('POST', `/api/chat/end/${sessionId}`, wrapUp);
       return response.json();
     },
     onSuccess: () => {
       toast({ title: "Chat session ended" });
+      setWrapUpMode(null);
       queryClient.invalidateQueries({ queryKey: ['/api/chat/sessions'] });
       onSessionUpdate?.();
     },
-    onError: () => {
-      toast({ title: "Failed to end chat session", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Failed to end chat session", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const wrapUpMutation = useMutation({
+    mutationFn: async ({ sessionId, wrapUp }: { sessionId: string, wrapUp: WrapUp }) => {
+      const response = await apiRequest('PUT', `/api/chat/sessions/${sessionId}/wrap-up`, wrapUp);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Wrap-up saved" });
+      setWrapUpMode(null);
+      onSessionUpdate?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save wrap-up", description: error.message, variant: "destructive" });
     }
   });
 
@@ -85,11 +231,29 @@ export default function ConversationView({ session, onSessionUpdate }: Conversat
     });
   };
 
+  // With nothing to pick and nothing required, the chat ends without a dialog
+  const needsWrapUp = !!wrapUpConfig &&
+    (wrapUpConfig.required || wrapUpConfig.dispositions.length > 0 || wrapUpConfig.tags.length > 0);
+
   const handleEndSession = () => {
     if (!session?.sessionId) return;
-    endSessionMutation.mutate(session.sessionId);
+    if (needsWrapUp) {
+      setWrapUpMode('end');
+      return;
+    }
+    endSessionMutation.mutate({ sessionId: session.sessionId, wrapUp: { tags: [] } });
+  };
+
+  const handleWrapUpSubmit = (wrapUp: WrapUp) => {
+    if (!session?.sessionId) return;
+    const mutation = wrapUpMode === 'end' ? endSessionMutation : wrapUpMutation;
+    mutation.mutate({ sessionId: session.sessionId, wrapUp });
   };
 
+  const isEnded = session?.status === 'resolved' || session?.status === 'terminated';
+  const getCatalogLabel = (entries: WrapUpConfig['tags'] | undefined, id: string) =>
+    entries?.find(entry => entry.id === id)?.label ?? id;
+
   const formatTime = (timestamp?: Date | string) => {
     if (!timestamp) return '';
     const date = new Date(timestamp);
@@ -105,6 +269,8 @@ export default function ConversationView({ session, onSessionUpdate }: Conversat
       return session?.customer?.name || 'Customer';
     } else if (message.senderType === 'agent') {
       return session?.agent?.name || 'Agent';
+    } else if (message.senderType === 'supervisor') {
+      return (agents as User[]).find(agent => agent.id === message.senderId)?.name || 'Supervisor';
     } else {
       return 'System';
     }
@@ -130,6 +296,26 @@ export default function ConversationView({ session, onSessionUpdate }: Conversat
     }
   };
 
+  const getPresenceColor = (presence?: string | null) => {
+    switch (presence) {
+      case 'available': return 'bg-secondary';
+      case 'busy': return 'bg-destructive';
+      case 'away':
+      case 'in_break': return 'bg-warning';
+      default: return 'bg-muted-foreground';
+    }
+  };
+
+  // Agents and supervisors both write from our side of the conversation
+  const isStaffMessage = (message: Message) =>
+    message.senderType === 'agent' || message.senderType === 'supervisor';
+
+  const canManage = !!currentUser && canManageChat(currentUser, session ?? { agentId: null });
+
+  // Busy or away agents can still take a hand-over; agents on break or signed out cannot
+  const canReceiveTransfer = (presence?: string | null) =>
+    presence !== 'offline' && presence !== 'in_break';
+
   if (!session) {
     return (
       <div className="flex-1 flex items-center justify-center bg-muted/20" data-testid="empty-state-conversation">
@@ -171,116 +357,328 @@ export default function ConversationView({ session, onSessionUpdate }: Conversat
                   <span className="text-xs text-muted-foreground">
                     Started: <span data-testid="text-session-start">{formatTime(session.startTime)}</span>
                   </span>
+                  <SlaBadge session={session} />
+                  {session.escalationLevel && (
+                    <Badge variant="outline" className="text-xs border-warning text-warning capitalize" data-testid="badge-escalated">
+                      <ArrowUp className="h-3 w-3 mr-1" />
+                      Escalated · {session.escalationLevel.replace('_', ' ')}
+                    </Badge>
+                  )}
                 </div>
               </div>
             </div>
             
             <div className="flex items-center space-x-3">
               {/* Agent Transfer Controls */}
-              <div className="flex items-center space-x-2">
-                <Select value={transferAgent} onValueChange={setTransferAgent}>
-                  <SelectTrigger className="w-48" data-testid="select-transfer-agent">
-                    <SelectValue placeholder="Transfer to..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {agents.map((agent: User) => (
-                      <SelectItem key={agent.id} value={agent.id}>
-                        {agent.name} ({getRoleLabel(agent.role)})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              {canManage && !isEnded && (
+                <div className="flex items-center space-x-2">
+                  <Select value={transferAgent} onValueChange={setTransferAgent}>
+                    <SelectTrigger className="w-48" data-testid="select-transfer-agent">
+                      <SelectValue placeholder="Transfer to..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {agents.map((agent: User) => (
+                        <SelectItem
+                          key={agent.id}
+                          value={agent.id}
+                          disabled={!canReceiveTransfer(agent.presence)}
+                          data-testid={`transfer-option-${agent.id}`}
+                        >
+                          <div className="flex items-center space-x-2">
+                            <span className={`w-2 h-2 rounded-full ${getPresenceColor(agent.presence)}`}></span>
+                            <span>{agent.name} ({getRoleLabel(agent.role)})</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button 
+                    onClick={handleTransfer}
+                    disabled={!transferAgent || transferMutation.isPending}
+                    data-testid="button-initiate-transfer"
+                  >
+                    <ArrowRight className="h-4 w-4 mr-2" />
+                    Transfer
+                  </Button>
+                </div>
+              )}
+              
+              {isEnded ? (
+                <Button
+                  variant="outline"
+                  onClick={() => setWrapUpMode('wrap_up')}
+                  disabled={!wrapUpConfig}
+                  data-testid="button-wrap-up"
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  {session.disposition ? 'Edit Wrap-up' : 'Wrap Up'}
+                </Button>
+              ) : canManage && (
                 <Button 
-                  onClick={handleTransfer}
-                  disabled={!transferAgent || transferMutation.isPending}
-                  data-testid="button-initiate-transfer"
+                  variant="destructive"
+                  onClick={handleEndSession}
+                  disabled={endSessionMutation.isPending}
+                  data-testid="button-end-chat"
                 >
-                  <ArrowRight className="h-4 w-4 mr-2" />
-                  Transfer
+                  <X className="h-4 w-4 mr-2" />
+                  End Chat
                 </Button>
-              </div>
-              
-              <Button 
-                variant="destructive"
-                onClick={handleEndSession}
-                disabled={endSessionMutation.isPending}
-                data-testid="button-end-chat"
-              >
-                <X className="h-4 w-4 mr-2" />
-                End Chat
-              </Button>
+              )}
             </div>
           </div>
         </div>
 
+        {(session.disposition || (session.tags ?? []).length > 0) && (
+          <div className="flex flex-wrap items-center gap-2 bg-muted/30 border-b border-border px-6 py-2 text-xs" data-testid="wrap-up-summary">
+            {session.disposition && (
+              <Badge className="bg-accent text-accent-foreground" data-testid="badge-disposition">
+                {getCatalogLabel(wrapUpConfig?.dispositions, session.disposition)}
+              </Badge>
+            )}
+            {(session.tags ?? []).map(tag => (
+              <Badge key={tag} variant="outline" data-testid={`badge-tag-${tag}`}>
+                {getCatalogLabel(wrapUpConfig?.tags, tag)}
+              </Badge>
+            ))}
+            {session.wrapUpNotes && (
+              <span className="text-muted-foreground truncate">{session.wrapUpNotes}</span>
+            )}
+          </div>
+        )}
+
+        {isMonitoring && (
+          <div className="flex items-center justify-between bg-warning/10 border-b border-border px-6 py-2 text-sm" data-testid="banner-monitoring">
+            <span className="flex items-center text-foreground">
+              <Eye className="h-4 w-4 mr-2" />
+              Monitoring silently. Whispers are seen by the agent only.
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={bargeIn}
+              disabled={!isConnected || session.status === 'resolved'}
+              data-testid="button-barge-in"
+            >
+              <Megaphone className="h-4 w-4 mr-2" />
+              Barge in
+            </Button>
+          </div>
+        )}
+
         {/* Messages Area */}
         <div className="flex-1 overflow-y-auto p-6 space-y-4" data-testid="messages-area">
-          {messages.length === 0 ? (
+          {timeline.length === 0 && pendingMessages.length === 0 ? (
             <div className="flex items-center justify-center h-32 text-muted-foreground">
               <p>No messages in this conversation</p>
             </div>
           ) : (
-            messages.map((message: Message) => (
-              <div key={message.id} data-testid={`message-${message.id}`}>
-                {message.senderType === 'system' ? (
-                  <div className="flex justify-center my-4">
-                    <div className="bg-accent bg-opacity-10 text-accent px-3 py-2 rounded-full text-sm font-medium">
-                      <ArrowRight className="inline h-4 w-4 mr-2" />
-                      {message.content}
-                    </div>
-                  </div>
-                ) : (
-                  <div className={`flex items-start space-x-3 ${
-                    message.senderType === 'agent' ? 'flex-row-reverse' : ''
-                  }`}>
-                    <Avatar className="w-8 h-8">
-                      <AvatarFallback>
-                        {getMessageSender(message).charAt(0)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className={`max-w-md ${message.senderType === 'agent' ? 'ml-auto' : ''}`}>
-                      <div className={`rounded-2xl px-4 py-3 ${
-                        message.senderType === 'customer'
-                          ? 'bg-muted rounded-tl-sm text-foreground'
-                          : 'bg-primary text-primary-foreground rounded-tr-sm'
-                      }`}>
-                        <p>{message.content}</p>
+            timeline.map((item) => {
+              if (item.kind === 'note') {
+                return <InternalNote key={`note-${item.note.id}`} note={item.note} />;
+              }
+              const message: MessageWithAttachments = item.message;
+              return (
+                <div key={message.id} data-testid={`message-${message.id}`}>
+                  {message.senderType === 'system' ? (
+                    <div className="flex justify-center my-4">
+                      <div className="bg-accent bg-opacity-10 text-accent px-3 py-2 rounded-full text-sm font-medium">
+                        <ArrowRight className="inline h-4 w-4 mr-2" />
+                        {message.content}
                       </div>
-                      <div className={`flex items-center space-x-2 mt-2 ${
-                        message.senderType === 'agent' ? 'justify-end' : ''
-                      }`}>
-                        <span className="text-xs text-muted-foreground">
-                          {getMessageSender(message)}
-                          {message.senderType === 'agent' && session.agent && (
-                            <span className="ml-1">
-                              ({getRoleLabel(session.agent.role)})
+                    </div>
+                  ) : (
+                    <div className={`flex items-start space-x-3 ${
+                      isStaffMessage(message) ? 'flex-row-reverse' : ''
+                    }`}>
+                      <Avatar className="w-8 h-8">
+                        <AvatarFallback>
+                          {getMessageSender(message).charAt(0)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className={`max-w-md ${isStaffMessage(message) ? 'ml-auto' : ''}`}>
+                        <div className={`rounded-2xl px-4 py-3 ${
+                          message.visibility === 'staff'
+                            ? 'bg-warning/20 border border-warning text-foreground rounded-tr-sm'
+                            : message.senderType === 'customer'
+                              ? 'bg-muted rounded-tl-sm text-foreground'
+                              : 'bg-primary text-primary-foreground rounded-tr-sm'
+                        }`}>
+                          {message.visibility === 'staff' && (
+                            <div className="flex items-center text-xs font-medium mb-1" data-testid={`label-whisper-${message.id}`}>
+                              <EyeOff className="h-3 w-3 mr-1" />
+                              Whisper
+                            </div>
+                          )}
+                          {message.attachments && (
+                            <MessageAttachments sessionId={session.sessionId} attachments={message.attachments} />
+                          )}
+                          {hasCaption(message) && <p>{message.content}</p>}
+                        </div>
+                        <div className={`flex items-center space-x-2 mt-2 ${
+                          isStaffMessage(message) ? 'justify-end' : ''
+                        }`}>
+                          <span className="text-xs text-muted-foreground">
+                            {getMessageSender(message)}
+                            {message.senderType === 'agent' && session.agent && (
+                              <span className="ml-1">
+                                ({getRoleLabel(session.agent.role)})
+                              </span>
+                            )}
+                            {message.senderType === 'supervisor' && (
+                              <span className="ml-1">(Supervisor)</span>
+                            )}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {formatTime(message.timestamp)}
+                          </span>
+                          {message.sopCitation && (
+                            <span
+                              className="flex items-center text-xs text-muted-foreground"
+                              title="SOP version this reply was based on"
+                              data-testid={`sop-citation-${message.id}`}
+                            >
+                              <Book className="h-3 w-3 mr-1" />
+                              {message.sopCitation.title} · v{message.sopCitation.version}
+                            </span>
+                          )}
+                          {isStaffMessage(message) && message.visibility !== 'staff' && (
+                            <span className="text-xs text-muted-foreground">
+                              <DeliveryStatus message={message} readerType="customer" />
                             </span>
                           )}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {formatTime(message.timestamp)}
-                        </span>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            ))
+                  )}
+                </div>
+              );
+            })
           )}
+          {pendingMessages.map(entry => (
+            <div key={entry.clientMessageId} className="flex items-start space-x-3 flex-row-reverse" data-testid={`pending-message-${entry.clientMessageId}`}>
+              <Avatar className="w-8 h-8">
+                <AvatarFallback>{currentUser?.name.charAt(0) ?? 'A'}</AvatarFallback>
+              </Avatar>
+              <div className="max-w-md ml-auto">
+                <div className={`rounded-2xl px-4 py-3 rounded-tr-sm ${
+                  entry.whisper ? 'bg-warning/20 border border-warning text-foreground' : 'bg-primary text-primary-foreground'
+                } ${entry.status === 'sending' ? 'opacity-70' : ''}`}>
+                  <p>{entry.content}</p>
+                </div>
+                <div className="flex justify-end mt-2 text-xs text-muted-foreground">
+                  <PendingStatus entry={entry} onRetry={retryMessage} onDiscard={discardMessage} />
+                </div>
+              </div>
+            </div>
+          ))}
         </div>
 
         {/* Message Input */}
-        <MessageInput
-          sessionId={session.sessionId}
-          onSendMessage={sendChatMessage}
-          disabled={!isConnected || session.status !== 'active'}
-        />
+        {isMonitoring ? (
+          <MessageInput
+            sessionId={session.sessionId}
+            onSendMessage={sendWhisper}
+            placeholder="Whisper to the agent..."
+            disabled={session.status === 'resolved' || session.status === 'terminated'}
+          />
+        ) : (
+          <>
+            <div className="flex items-center justify-between bg-card border-t border-border px-4 pt-3" data-testid="composer-mode">
+              <div className="flex space-x-1">
+                <Button
+                  size="sm"
+                  variant={composer === 'reply' ? 'secondary' : 'ghost'}
+                  onClick={() => setComposer('reply')}
+                  data-testid="button-compose-reply"
+                >
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Reply
+                </Button>
+                <Button
+                  size="sm"
+                  variant={composer === 'note' ? 'secondary' : 'ghost'}
+                  onClick={() => setComposer('note')}
+                  data-testid="button-compose-note"
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Internal note
+                </Button>
+              </div>
+              {composer === 'note' && session.customerId && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="pin-note"
+                    checked={pinNote}
+                    onCheckedChange={(checked) => setPinNote(checked === true)}
+                    data-testid="checkbox-pin-note"
+                  />
+                  <Label htmlFor="pin-note" className="text-xs text-muted-foreground">
+                    Pin to customer
+                  </Label>
+                </div>
+              )}
+            </div>
+            {composer === 'note' ? (
+              <MessageInput
+                sessionId={session.sessionId}
+                onSendMessage={(content) => noteMutation.mutate(content)}
+                placeholder="Only your team sees this. Type @username to notify someone..."
+              />
+            ) : (
+              <MessageInput
+                sessionId={session.sessionId}
+                onSendMessage={sendChatMessage}
+                canCiteSop
+                insertion={replyInsertion}
+                onAttachFile={handleAttachFile}
+                isUploading={uploadMutation.isPending}
+                disabled={session.status !== 'active'}
+              />
+            )}
+          </>
+        )}
       </div>
 
+      {wrapUpConfig && (
+        <WrapUpDialog
+          open={wrapUpMode !== null}
+          onOpenChange={(open) => !open && setWrapUpMode(null)}
+          config={wrapUpConfig}
+          mode={wrapUpMode ?? 'end'}
+          isPending={endSessionMutation.isPending || wrapUpMutation.isPending}
+          onSubmit={handleWrapUpSubmit}
+        />
+      )}
+
+      <EscalateDialog
+        open={escalating}
+        onOpenChange={setEscalating}
+        isPending={escalateMutation.isPending}
+        onSubmit={(reason) => escalateMutation.mutate({ sessionId: session.sessionId, reason })}
+      />
+
+      <ScheduleCallbackDialog
+        open={schedulingCallback}
+        onOpenChange={setSchedulingCallback}
+        customerName={session.customer?.name}
+        defaultEmail={session.customer?.email}
+        isPending={callbackMutation.isPending}
+        onSubmit={(details) => callbackMutation.mutate({ sessionId: session.sessionId, details })}
+      />
+
       {/* Right Sidebar - Customer Info */}
       <CustomerInfoPanel 
         session={session}
+        onInsertExcerpt={!isMonitoring && session.status === 'active' ? handleInsertExcerpt : undefined}
         onQuickAction={(action) => {
+          if (action === 'escalate') {
+            setEscalating(true);
+            return;
+          }
+          if (action === 'schedule-callback') {
+            setSchedulingCallback(true);
+            return;
+          }
           console.log('Quick action:', action);
           // Implement quick actions
         }}
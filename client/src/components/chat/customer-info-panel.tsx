@@ -4,33 +4,42 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { ShoppingCart, Undo, ArrowUp, Phone, Search } from "lucide-react";
+import { ShoppingCart, Undo, ArrowUp, Phone, Search, CornerDownLeft } from "lucide-react";
 import { useState } from "react";
-import type { ChatSession, Customer, User } from "@shared/schema";
+import { useSessionList } from "@/hooks/use-session-list";
+import { sopSuggestionsKey } from "@/lib/chat-cache";
+import Highlighted from "@/components/sop/highlighted";
+import InternalNote from "./internal-note";
+import type { InternalNoteWithAuthor, SessionListItem, SopSuggestion, SopSuggestions } from "@shared/schema";
 
 interface CustomerInfoPanelProps {
-  session: ChatSession & { customer?: Customer; agent?: User };
+  session: SessionListItem;
   onQuickAction: (action: string) => void;
+  // Puts a suggested SOP's excerpt into the reply being written
+  onInsertExcerpt?: (suggestion: SopSuggestion) => void;
 }
 
-export default function CustomerInfoPanel({ session, onQuickAction }: CustomerInfoPanelProps) {
+export default function CustomerInfoPanel({ session, onQuickAction, onInsertExcerpt }: CustomerInfoPanelProps) {
   const [sopSearch, setSopSearch] = useState("");
 
-  const { data: quickSOPs = [] } = useQuery({
-    queryKey: ['/api/sop'],
-    select: (data: any[]) => data.slice(0, 3) // Show first 3 SOPs as quick access
+  // Matched against what the customer has been saying; the chat socket pushes updates (see useChat)
+  const { data: sopSuggestions } = useQuery<SopSuggestions>({
+    queryKey: sopSuggestionsKey(session.sessionId)
   });
+  const suggestions = sopSuggestions?.suggestions ?? [];
 
-  const { data: previousChats = [] } = useQuery({
-    queryKey: ['/api/chat/sessions'],
-    select: (data: any[]) => 
-      data.filter((s: any) => 
-        s.customerId === session.customerId && 
-        s.id !== session.id &&
-        s.status === 'resolved'
-      ).slice(0, 3)
+  const { sessions: previousChats } = useSessionList(
+    { customerId: session.customerId ?? undefined, status: 'resolved' },
+    { pageSize: 3, enabled: !!session.customerId }
+  );
+
+  // Notes pinned on any of this customer's chats
+  const { data: pinnedNotes = [] } = useQuery<InternalNoteWithAuthor[]>({
+    queryKey: ['/api/customers', session.customerId, 'notes'],
+    enabled: !!session.customerId
   });
 
+
   const formatDate = (date?: Date | string) => {
     if (!date) return 'Unknown';
     return new Date(date).toLocaleDateString('en-US', {
@@ -85,6 +94,22 @@ export default function CustomerInfoPanel({ session, onQuickAction }: CustomerIn
         </CardContent>
       </Card>
 
+      {/* Pinned Notes */}
+      {pinnedNotes.length > 0 && (
+        <Card className="rounded-none border-0 border-b">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base" data-testid="title-pinned-notes">
+              Pinned Notes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pinnedNotes.map((note) => (
+              <InternalNote key={note.id} note={note} compact />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card className="rounded-none border-0 border-b">
         <CardHeader className="pb-3">
@@ -151,21 +176,46 @@ export default function CustomerInfoPanel({ session, onQuickAction }: CustomerIn
             />
           </div>
           
-          {/* Quick SOP Links */}
-          <div className="space-y-1">
-            {quickSOPs.map((sop: any) => (
-              <Button
-                key={sop.id}
-                variant="ghost"
-                className="w-full justify-start text-sm px-2 py-2 h-auto"
-                onClick={() => onQuickAction(`sop-${sop.id}`)}
-                data-testid={`button-sop-${sop.id}`}
-              >
-                <span className="mr-2">📋</span>
-                <span className="text-left truncate">{sop.title}</span>
-              </Button>
-            ))}
-          </div>
+          {/* Suggested SOPs */}
+          {suggestions.length === 0 ? (
+            <p className="text-xs text-muted-foreground" data-testid="text-no-sop-suggestions">
+              Suggestions appear here as the customer describes their issue.
+            </p>
+          ) : (
+            <div className="space-y-2" data-testid="list-sop-suggestions">
+              <p className="text-xs text-muted-foreground truncate" data-testid="text-sop-suggestion-keywords">
+                Based on: {sopSuggestions!.keywords.join(', ')}
+              </p>
+              {suggestions.map((suggestion) => (
+                <div key={suggestion.sop.id} className="border border-border rounded-md p-2 space-y-1" data-testid={`sop-suggestion-${suggestion.sop.id}`}>
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-start text-sm px-0 py-0 h-auto font-medium"
+                    onClick={() => onQuickAction(`sop-${suggestion.sop.id}`)}
+                    data-testid={`button-sop-${suggestion.sop.id}`}
+                  >
+                    <span className="mr-2">📋</span>
+                    <span className="text-left truncate">{suggestion.sop.title}</span>
+                  </Button>
+                  <p className="text-xs text-muted-foreground line-clamp-3">
+                    <Highlighted segments={suggestion.snippet} />
+                  </p>
+                  {onInsertExcerpt && suggestion.excerpt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => onInsertExcerpt(suggestion)}
+                      data-testid={`button-insert-excerpt-${suggestion.sop.id}`}
+                    >
+                      <CornerDownLeft className="h-3 w-3 mr-1" />
+                      Insert into reply
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -182,13 +232,13 @@ export default function CustomerInfoPanel({ session, onQuickAction }: CustomerIn
               No previous chat history
             </p>
           ) : (
-            previousChats.map((chat: any) => (
+            previousChats.map((chat) => (
               <div key={chat.id} className="p-2 border border-border rounded-md" data-testid={`chat-history-${chat.id}`}>
                 <div className="font-medium text-foreground text-sm">
                   Session #{chat.sessionId}
                 </div>
                 <div className="text-muted-foreground text-xs">
-                  {formatDate(chat.startTime)} - Agent: {chat.agent?.name}
+                  {formatDate(chat.startTime ?? undefined)} - Agent: {chat.agent?.name}
                 </div>
               </div>
             ))
@@ -0,0 +1,73 @@
+import { AlertCircle, Check, CheckCheck, Clock } from "lucide-react";
+import type { Message, ReadReceipt } from "@shared/schema";
+import type { OutboxEntry } from "@/lib/outbox";
+
+interface DeliveryStatusProps {
+  message: Message;
+  // Whose receipt turns the tick into "read": the other side of the conversation
+  readerType: ReadReceipt['readerType'];
+}
+
+export default function DeliveryStatus({ message, readerType }: DeliveryStatusProps) {
+  const receipt = (message.readBy ?? []).find(r => r.readerType === readerType);
+
+  if (receipt) {
+    return (
+      <span
+        className="inline-flex text-primary"
+        title={`Read ${new Date(receipt.readAt).toLocaleTimeString()}`}
+        data-testid={`status-read-${message.id}`}
+      >
+        <CheckCheck className="h-3 w-3" />
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex" title="Delivered" data-testid={`status-delivered-${message.id}`}>
+      <Check className="h-3 w-3" />
+    </span>
+  );
+}
+
+interface PendingStatusProps {
+  entry: OutboxEntry;
+  onRetry: (clientMessageId: string) => void;
+  onDiscard: (clientMessageId: string) => void;
+}
+
+/** Status line for a message still in the outbox: "Sending…", or "Failed" with retry/discard. */
+export function PendingStatus({ entry, onRetry, onDiscard }: PendingStatusProps) {
+  if (entry.status === 'sending') {
+    return (
+      <span className="inline-flex items-center gap-1" data-testid={`status-sending-${entry.clientMessageId}`}>
+        <Clock className="h-3 w-3" />
+        Sending…
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-destructive" data-testid={`status-failed-${entry.clientMessageId}`}>
+      <AlertCircle className="h-3 w-3" />
+      Failed ·
+      <button
+        type="button"
+        className="underline hover:no-underline"
+        onClick={() => onRetry(entry.clientMessageId)}
+        data-testid={`button-retry-${entry.clientMessageId}`}
+      >
+        Retry
+      </button>
+      ·
+      <button
+        type="button"
+        className="underline hover:no-underline"
+        onClick={() => onDiscard(entry.clientMessageId)}
+        data-testid={`button-discard-${entry.clientMessageId}`}
+      >
+        Discard
+      </button>
+    </span>
+  );
+}
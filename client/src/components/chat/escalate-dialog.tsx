@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface EscalateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isPending?: boolean;
+  onSubmit: (reason: string) => void;
+}
+
+export default function EscalateDialog({ open, onOpenChange, isPending, onSubmit }: EscalateDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const trimmed = reason.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-escalate">
+        <DialogHeader>
+          <DialogTitle>Escalate chat</DialogTitle>
+          <DialogDescription>
+            The chat moves to the next level up (senior agent, then team lead). The customer is told it was escalated; only staff see the reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="escalate-reason">Reason *</Label>
+          <Textarea
+            id="escalate-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What does the customer need that you cannot give?"
+            maxLength={500}
+            rows={3}
+            data-testid="textarea-escalate-reason"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-escalate">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSubmit(trimmed)}
+            disabled={!trimmed || isPending}
+            data-testid="button-submit-escalate"
+          >
+            Escalate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
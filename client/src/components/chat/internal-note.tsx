@@ -0,0 +1,63 @@
+import { Fragment } from "react";
+import { Lock, Pin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { mentionPattern, type InternalNoteWithAuthor } from "@shared/schema";
+
+interface InternalNoteProps {
+  note: InternalNoteWithAuthor;
+  compact?: boolean;
+}
+
+// Splits the note around its @mentions so they can be highlighted
+function renderContent(content: string) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  Array.from(content.matchAll(mentionPattern)).forEach((match, index) => {
+    const start = match.index ?? 0;
+    parts.push(<Fragment key={`text-${index}`}>{content.slice(last, start)}</Fragment>);
+    parts.push(
+      <span key={`mention-${index}`} className="font-semibold text-primary">{match[0]}</span>
+    );
+    last = start + match[0].length;
+  });
+  parts.push(<Fragment key="rest">{content.slice(last)}</Fragment>);
+  return parts;
+}
+
+export default function InternalNote({ note, compact }: InternalNoteProps) {
+  const formatTime = (timestamp: Date | string) =>
+    new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border border-dashed border-warning bg-warning/10 text-foreground",
+        compact ? "p-2 text-xs" : "mx-auto max-w-lg px-4 py-3 text-sm"
+      )}
+      data-testid={`note-${note.id}`}
+    >
+      <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+        <span className="flex items-center font-medium">
+          <Lock className="h-3 w-3 mr-1" />
+          Internal note · {note.authorName}
+        </span>
+        <span className="flex items-center space-x-2">
+          {note.customerId && (
+            <span className="flex items-center" data-testid={`label-pinned-${note.id}`}>
+              <Pin className="h-3 w-3 mr-1" />
+              Customer
+            </span>
+          )}
+          <span>{formatTime(note.createdAt)}</span>
+        </span>
+      </div>
+      <p className="whitespace-pre-wrap break-words">{renderContent(note.content)}</p>
+    </div>
+  );
+}
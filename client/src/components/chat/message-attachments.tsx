@@ -0,0 +1,60 @@
+import { Download, FileText } from "lucide-react";
+import { attachmentUrl, formatFileSize, isImageAttachment } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+import type { Attachment } from "@shared/schema";
+
+interface MessageAttachmentsProps {
+  sessionId: string;
+  attachments: Attachment[];
+  customerToken?: string | null;
+  compact?: boolean;
+}
+
+export default function MessageAttachments({ sessionId, attachments, customerToken, compact }: MessageAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-2" data-testid="message-attachments">
+      {attachments.map((attachment) => {
+        const fileUrl = attachmentUrl(sessionId, attachment, "file", customerToken);
+
+        if (isImageAttachment(attachment) && attachment.thumbnailKey) {
+          return (
+            <a
+              key={attachment.id}
+              href={fileUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block"
+              data-testid={`attachment-image-${attachment.id}`}
+            >
+              <img
+                src={attachmentUrl(sessionId, attachment, "thumbnail", customerToken)}
+                alt={attachment.fileName}
+                className={cn("rounded-md border border-border object-cover", compact ? "max-h-32" : "max-h-48")}
+                loading="lazy"
+              />
+            </a>
+          );
+        }
+
+        return (
+          <a
+            key={attachment.id}
+            href={fileUrl}
+            download={attachment.fileName}
+            className="flex items-center space-x-2 rounded-md border border-border bg-background/80 p-2 text-foreground hover:bg-muted"
+            data-testid={`attachment-file-${attachment.id}`}
+          >
+            <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-xs font-medium">{attachment.fileName}</div>
+              <div className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</div>
+            </div>
+            <Download className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -12,17 +12,44 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Book, Paperclip, Zap, Smile, Send } from "lucide-react";
+import SOPSearch from "@/components/sop/sop-search";
+import { Book, Paperclip, Zap, Smile, Send, Loader2, X } from "lucide-react";
+import { attachmentMimeTypes, type SOPDocument } from "@shared/schema";
+
+// Text put into the composer from elsewhere, such as a suggested SOP's excerpt; a new id inserts it again
+export interface ReplyInsertion {
+  id: number;
+  content: string;
+  sop?: SOPDocument; // cited with the reply, when the composer can cite SOPs
+}
 
 interface MessageInputProps {
   sessionId: string;
-  onSendMessage: (content: string) => void;
+  // sopId is set when the agent cited an SOP for this reply (see canCiteSop)
+  onSendMessage: (content: string, sopId?: string) => void;
+  canCiteSop?: boolean;
+  onAttachFile?: (file: File) => void;
+  isUploading?: boolean;
   disabled?: boolean;
+  placeholder?: string;
+  insertion?: ReplyInsertion | null;
 }
 
-export default function MessageInput({ sessionId, onSendMessage, disabled }: MessageInputProps) {
+export default function MessageInput({ sessionId, onSendMessage, canCiteSop, onAttachFile, isUploading, disabled, placeholder, insertion }: MessageInputProps) {
   const [message, setMessage] = useState("");
   const [showQuickReplies, setShowQuickReplies] = useState(false);
+  const [showSopSearch, setShowSopSearch] = useState(false);
+  const [citedSop, setCitedSop] = useState<SOPDocument | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Inserted text goes after whatever the agent has typed so far
+  useEffect(() => {
+    if (!insertion) return;
+    setMessage(current => current.trim() ? `${current.trimEnd()}\n\n${insertion.content}` : insertion.content);
+    if (insertion.sop && canCiteSop) setCitedSop(insertion.sop);
+    textareaRef.current?.focus();
+  }, [insertion?.id]);
 
   const { data: quickReplies = [] } = useQuery({
     queryKey: ['/api/quick-replies']
@@ -31,8 +58,9 @@ export default function MessageInput({ sessionId, onSendMessage, disabled }: Mes
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (message.trim() && !disabled) {
-      onSendMessage(message.trim());
+      onSendMessage(message.trim(), citedSop?.id);
       setMessage("");
+      setCitedSop(null);
     }
   };
 
@@ -43,6 +71,13 @@ export default function MessageInput({ sessionId, onSendMessage, disabled }: Mes
     }
   };
 
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onAttachFile?.(file);
+    // Allow picking the same file again
+    e.target.value = "";
+  };
+
   const insertQuickReply = (content: string) => {
     setMessage(content);
     setShowQuickReplies(false);
@@ -54,19 +89,33 @@ export default function MessageInput({ sessionId, onSendMessage, disabled }: Mes
         <div className="flex items-end space-x-3">
           <div className="flex-1">
             <div className="flex items-center space-x-2 mb-2">
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button 
-                    type="button"
-                    variant="ghost" 
-                    size="icon"
-                    data-testid="button-search-sop"
-                  >
-                    <Book className="h-4 w-4" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>Search SOP</TooltipContent>
-              </Tooltip>
+              {canCiteSop && (
+                <Popover open={showSopSearch} onOpenChange={setShowSopSearch}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <PopoverTrigger asChild>
+                        <Button 
+                          type="button"
+                          variant="ghost" 
+                          size="icon"
+                          data-testid="button-search-sop"
+                        >
+                          <Book className="h-4 w-4" />
+                        </Button>
+                      </PopoverTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>Cite an SOP</TooltipContent>
+                  </Tooltip>
+                  <PopoverContent className="w-96" align="start">
+                    <SOPSearch
+                      onSelectSOP={(sop) => {
+                        setCitedSop(sop);
+                        setShowSopSearch(false);
+                      }}
+                    />
+                  </PopoverContent>
+                </Popover>
+              )}
 
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -74,13 +123,23 @@ export default function MessageInput({ sessionId, onSendMessage, disabled }: Mes
                     type="button"
                     variant="ghost" 
                     size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={disabled || !onAttachFile || isUploading}
                     data-testid="button-add-attachment"
                   >
-                    <Paperclip className="h-4 w-4" />
+                    {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>Attach File</TooltipContent>
               </Tooltip>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={attachmentMimeTypes.join(",")}
+                className="hidden"
+                onChange={handleFileSelected}
+                data-testid="input-attachment-file"
+              />
 
               <Popover open={showQuickReplies} onOpenChange={setShowQuickReplies}>
                 <PopoverTrigger asChild>
@@ -133,8 +192,25 @@ export default function MessageInput({ sessionId, onSendMessage, disabled }: Mes
               </Tooltip>
             </div>
             
+            {citedSop && (
+              <div className="flex items-center text-xs text-muted-foreground mb-2" data-testid="cited-sop">
+                <Book className="h-3 w-3 mr-1" />
+                <span className="truncate">Citing {citedSop.title} · v{citedSop.version}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 ml-1"
+                  onClick={() => setCitedSop(null)}
+                  data-testid="button-remove-cited-sop"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
             <Textarea
-              placeholder={disabled ? "Chat session ended" : "Type your message..."}
+              ref={textareaRef}
+              placeholder={disabled ? "Chat session ended" : placeholder ?? "Type your message..."}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyDown={handleKeyDown}
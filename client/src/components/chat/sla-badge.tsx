@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { AlarmClock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChatSession, SlaMetric } from "@shared/schema";
+
+interface SlaBadgeProps {
+  session: Pick<ChatSession, 'sessionId' | 'slaMetric' | 'slaDueAt' | 'slaBreaches'>;
+  compact?: boolean;
+}
+
+export const SLA_METRIC_LABELS: Record<SlaMetric, string> = {
+  first_response: 'First response',
+  next_response: 'Next response',
+  resolution: 'Resolution',
+};
+
+// Under a minute left is worth a second look
+const WARNING_MS = 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** Counts down to the chat's next SLA deadline and flags targets it has already missed. */
+export default function SlaBadge({ session, compact }: SlaBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const dueAt = session.slaDueAt ? new Date(session.slaDueAt).getTime() : null;
+  const breaches = session.slaBreaches ?? [];
+
+  useEffect(() => {
+    if (dueAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [dueAt]);
+
+  if (dueAt === null && breaches.length === 0) return null;
+
+  const remaining = dueAt === null ? null : dueAt - now;
+  const label = SLA_METRIC_LABELS[session.slaMetric as SlaMetric] ?? 'SLA';
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      {remaining !== null && (
+        <Badge
+          variant="outline"
+          className={cn(
+            "text-xs tabular-nums",
+            remaining <= 0 && "border-destructive text-destructive",
+            remaining > 0 && remaining <= WARNING_MS && "border-warning text-warning"
+          )}
+          title={`${label} due at ${new Date(dueAt!).toLocaleTimeString()}`}
+          data-testid={`badge-sla-${session.sessionId}`}
+        >
+          <AlarmClock className="h-3 w-3 mr-1" />
+          {!compact && `${label} `}
+          {remaining <= 0 ? `-${formatRemaining(remaining)}` : formatRemaining(remaining)}
+        </Badge>
+      )}
+      {breaches.length > 0 && (
+        <Badge
+          className="text-xs bg-destructive text-destructive-foreground"
+          title={breaches.map(breach => SLA_METRIC_LABELS[breach.metric]).join(', ')}
+          data-testid={`badge-sla-breached-${session.sessionId}`}
+        >
+          {compact ? `SLA ×${breaches.length}` : `${breaches.length} SLA ${breaches.length === 1 ? 'miss' : 'misses'}`}
+        </Badge>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { WrapUp, WrapUpConfig } from "@shared/schema";
+
+interface WrapUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: WrapUpConfig;
+  // Ending the chat now, or recording the wrap-up of one that has already ended
+  mode: 'end' | 'wrap_up';
+  isPending?: boolean;
+  onSubmit: (wrapUp: WrapUp) => void;
+}
+
+export default function WrapUpDialog({ open, onOpenChange, config, mode, isPending, onSubmit }: WrapUpDialogProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [disposition, setDisposition] = useState<string>("");
+  const [notes, setNotes] = useState("");
+
+  // Start from a blank form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setTags([]);
+    setDisposition("");
+    setNotes("");
+  }, [open]);
+
+  const toggleTag = (id: string) => {
+    setTags(current => current.includes(id) ? current.filter(tag => tag !== id) : [...current, id]);
+  };
+
+  const canSubmit = !config.required || !!disposition;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({ tags, disposition: disposition || undefined, notes: notes.trim() || undefined });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-wrap-up">
+        <DialogHeader>
+          <DialogTitle>{mode === 'end' ? 'Wrap up and end chat' : 'Wrap up chat'}</DialogTitle>
+          <DialogDescription>
+            Record why the customer contacted us and how the chat ended.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Disposition{config.required && ' *'}</Label>
+            <Select value={disposition} onValueChange={setDisposition}>
+              <SelectTrigger data-testid="select-disposition">
+                <SelectValue placeholder="How did this chat end?" />
+              </SelectTrigger>
+              <SelectContent>
+                {config.dispositions.map((entry) => (
+                  <SelectItem key={entry.id} value={entry.id} data-testid={`disposition-option-${entry.id}`}>
+                    {entry.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {config.tags.length > 0 && (
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              <div className="flex flex-wrap gap-2">
+                {config.tags.map((entry) => (
+                  <Badge
+                    key={entry.id}
+                    variant={tags.includes(entry.id) ? 'default' : 'outline'}
+                    className={cn("cursor-pointer select-none", !tags.includes(entry.id) && "text-muted-foreground")}
+                    onClick={() => toggleTag(entry.id)}
+                    data-testid={`tag-option-${entry.id}`}
+                  >
+                    {entry.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="wrap-up-notes">Notes</Label>
+            <Textarea
+              id="wrap-up-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Anything the next agent should know"
+              rows={3}
+              data-testid="textarea-wrap-up-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-wrap-up">
+            Cancel
+          </Button>
+          <Button
+            variant={mode === 'end' ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={!canSubmit || isPending}
+            data-testid="button-submit-wrap-up"
+          >
+            {mode === 'end' ? 'End Chat' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { Download, FileText, Users, User, Calendar, Filter } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useSessionList } from "@/hooks/use-session-list";
 import { exportUtils } from "@/lib/export-utils";
 import type { User as UserType, Customer } from "@shared/schema";
 
@@ -23,16 +24,15 @@ export default function ExportCenter() {
     queryKey: ['/api/agents']
   });
 
-  const { data: sessions = [] } = useQuery({
-    queryKey: ['/api/chat/sessions']
-  });
+  // The customer picker offers whoever appears in the most recent sessions
+  const { sessions } = useSessionList({ status: 'all' }, { pageSize: 100 });
 
   const { data: stats } = useQuery({
     queryKey: ['/api/dashboard/stats']
   });
 
   const customers = Array.from(
-    new Map(sessions.filter((s: any) => s.customer).map((s: any) => [s.customer.id, s.customer])).values()
+    new Map(sessions.filter(s => s.customer).map(s => [s.customer!.id, s.customer!])).values()
   );
 
   const handleExport = async () => {
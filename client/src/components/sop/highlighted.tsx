@@ -0,0 +1,14 @@
+import type { HighlightSegment } from "@shared/schema";
+
+// The server marks which words matched, so nothing typed by users is ever treated as a pattern
+export default function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-800">{segment.text}</mark>
+        ) : segment.text
+      )}
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { GitCompare, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SOPDocument, SOPRevisionWithAuthor, SopDiff, SopDiffRow } from "@shared/schema";
+
+interface SOPHistoryProps {
+  sop: SOPDocument;
+  canRollback: boolean;
+  onRolledBack: (sop: SOPDocument) => void;
+}
+
+const LEFT_STYLES: Record<SopDiffRow['type'], string> = {
+  same: '',
+  added: 'bg-muted/50',
+  removed: 'bg-destructive/10',
+  changed: 'bg-destructive/10',
+};
+
+const RIGHT_STYLES: Record<SopDiffRow['type'], string> = {
+  same: '',
+  added: 'bg-green-500/10',
+  removed: 'bg-muted/50',
+  changed: 'bg-green-500/10',
+};
+
+const formatTime = (date: Date | string | null) => date ? new Date(date).toLocaleString() : '';
+
+export default function SOPHistory({ sop, canRollback, onRolledBack }: SOPHistoryProps) {
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // The default query function fetches /api/sop/<id>/revisions
+  const { data: revisions = [], isLoading } = useQuery<SOPRevisionWithAuthor[]>({
+    queryKey: ['/api/sop', sop.id, 'revisions']
+  });
+
+  const { data: diff } = useQuery<SopDiff>({
+    queryKey: ['/api/sop', sop.id, 'diff', compareId],
+    enabled: !!compareId,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/sop/${sop.id}/diff?from=${encodeURIComponent(compareId!)}`);
+      return response.json();
+    }
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (revision: SOPRevisionWithAuthor) => {
+      const response = await apiRequest('POST', `/api/sop/${sop.id}/rollback`, { revisionId: revision.id });
+      return response.json() as Promise<SOPDocument>;
+    },
+    onSuccess: (updated) => {
+      toast({ title: "SOP rolled back", description: `Saved as version ${updated.version}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
+      setCompareId(null);
+      onRolledBack(updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to roll back SOP", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleRollback = (revision: SOPRevisionWithAuthor) => {
+    if (confirm(`Restore version ${revision.version} of "${sop.title}"? This is saved as a new version.`)) {
+      rollbackMutation.mutate(revision);
+    }
+  };
+
+  const current = revisions[0];
+
+  return (
+    <div className="flex h-full min-h-0">
+      <ScrollArea className="w-72 border-r border-border">
+        <div className="space-y-2 p-4" data-testid="list-sop-revisions">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+          ) : (
+            revisions.map(revision => (
+              <div
+                key={revision.id}
+                className={cn(
+                  "border border-border rounded-lg p-3 space-y-1",
+                  revision.id === compareId && "border-primary bg-primary/5"
+                )}
+                data-testid={`sop-revision-${revision.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm text-foreground">v{revision.version}</span>
+                  {revision.id === current?.id && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">{revision.authorName} · {formatTime(revision.createdAt)}</p>
+                {revision.changeNote && <p className="text-sm text-foreground">{revision.changeNote}</p>}
+                {revision.id !== current?.id && (
+                  <div className="flex gap-1 pt-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => setCompareId(revision.id)}
+                      data-testid={`button-compare-revision-${revision.id}`}
+                    >
+                      <GitCompare className="h-3 w-3 mr-1" />
+                      Compare
+                    </Button>
+                    {canRollback && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => handleRollback(revision)}
+                        disabled={rollbackMutation.isPending}
+                        data-testid={`button-rollback-revision-${revision.id}`}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <ScrollArea className="flex-1">
+        {diff && diff.from.id === compareId ? (
+          <div className="p-4" data-testid="sop-diff">
+            <div className="grid grid-cols-2 gap-2 mb-2 text-sm font-medium text-foreground">
+              <span>v{diff.from.version} · {diff.from.authorName}</span>
+              <span>v{diff.to.version} · {diff.to.authorName}</span>
+            </div>
+            <div className="border border-border rounded-lg font-mono text-xs">
+              {diff.rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 divide-x divide-border" data-testid={`sop-diff-row-${row.type}`}>
+                  <div className={cn("flex", LEFT_STYLES[row.type])}>
+                    <span className="w-8 shrink-0 text-right pr-2 text-muted-foreground select-none">{row.leftLine}</span>
+                    <span className="whitespace-pre-wrap break-words min-w-0">{row.left}</span>
+                  </div>
+                  <div className={cn("flex", RIGHT_STYLES[row.type])}>
+                    <span className="w-8 shrink-0 text-right pr-2 text-muted-foreground select-none">{row.rightLine}</span>
+                    <span className="whitespace-pre-wrap break-words min-w-0">{row.right}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Choose an earlier version to compare it with the current one.
+          </p>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
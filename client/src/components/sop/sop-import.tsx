@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CheckCircle2, Upload, XCircle } from "lucide-react";
+import {
+  MAX_SOP_IMPORT_BYTES,
+  MAX_SOP_IMPORT_DOCUMENTS,
+  MAX_SOP_IMPORT_FILES,
+  sopImportFileTypes,
+  type SopImportDocument,
+  type SopImportPreview,
+  type SopImportPreviewFile,
+  type SopImportResult,
+} from "@shared/schema";
+
+interface SOPImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: string[];
+}
+
+// A previewed document as the reviewer has edited it
+interface DraftDocument {
+  include: boolean;
+  title: string;
+  category: string;
+  keywords: string;
+}
+
+const toDraft = (document: SopImportDocument): DraftDocument => ({
+  include: true,
+  title: document.title,
+  category: document.category,
+  keywords: document.keywords.join(", "),
+});
+
+// Leaves room in each request body for the JSON around the documents
+const IMPORT_BATCH_BYTES = MAX_SOP_IMPORT_BYTES - 64 * 1024;
+
+// POST /api/sop/import takes a limited number of documents and bytes at once, so larger previews go in batches
+function importBatches(documents: SopImportDocument[]): SopImportDocument[][] {
+  const encoder = new TextEncoder();
+  const batches: SopImportDocument[][] = [];
+  let batch: SopImportDocument[] = [];
+  let bytes = 0;
+  documents.forEach(document => {
+    const size = encoder.encode(JSON.stringify(document)).length;
+    if (batch.length === MAX_SOP_IMPORT_DOCUMENTS || (batch.length > 0 && bytes + size > IMPORT_BATCH_BYTES)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(document);
+    bytes += size;
+  });
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+async function previewFiles(files: File[], category: string): Promise<SopImportPreview> {
+  const body = new FormData();
+  files.forEach(file => body.append("files", file));
+  body.append("category", category);
+
+  const response = await fetch("/api/sop/import/preview", { method: "POST", body, credentials: "include" });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+export default function SOPImport({ isOpen, onClose, categories }: SOPImportProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [category, setCategory] = useState(categories[0] ?? "General");
+  const [preview, setPreview] = useState<SopImportPreviewFile[] | null>(null);
+  const [drafts, setDrafts] = useState<(DraftDocument | null)[]>([]);
+  const [results, setResults] = useState<SopImportResult[] | null>(null);
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: () => previewFiles(files, category),
+    onSuccess: ({ files: previewed }) => {
+      setPreview(previewed);
+      setDrafts(previewed.map(file => file.document ? toDraft(file.document) : null));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to read files", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (documents: SopImportDocument[]) => {
+      // One batch failing, e.g. on a dropped connection, is reported against its documents only
+      const results: SopImportResult[] = [];
+      for (const batch of importBatches(documents)) {
+        try {
+          const response = await apiRequest('POST', '/api/sop/import', { documents: batch });
+          results.push(...await response.json() as SopImportResult[]);
+        } catch (error) {
+          results.push(...batch.map(({ sourceName }) => ({ sourceName, error: (error as Error).message })));
+        }
+      }
+      return results;
+    },
+    onSuccess: (imported) => {
+      const created = imported.filter(result => result.sop).length;
+      toast({
+        title: `Imported ${created} of ${imported.length} SOPs as drafts`,
+        description: created ? "Submit them for review to publish them to agents." : undefined,
+        variant: created ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
+      setResults(imported);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to import SOPs", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const reset = () => {
+    setFiles([]);
+    setPreview(null);
+    setDrafts([]);
+    setResults(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  // Same limits the server enforces, checked up front so the user gets a clear message
+  const handleFiles = (selected: File[]) => {
+    const tooLarge = selected.find(file => file.size > MAX_SOP_IMPORT_BYTES);
+    if (tooLarge) {
+      toast({ title: `${tooLarge.name} is larger than ${MAX_SOP_IMPORT_BYTES / (1024 * 1024)} MB`, variant: "destructive" });
+    } else if (selected.length > MAX_SOP_IMPORT_FILES) {
+      toast({ title: `Choose at most ${MAX_SOP_IMPORT_FILES} files, or put them in a zip`, variant: "destructive" });
+    } else {
+      setFiles(selected);
+    }
+  };
+
+  const updateDraft = (index: number, changes: Partial<DraftDocument>) => {
+    setDrafts(current => current.map((draft, i) => i === index && draft ? { ...draft, ...changes } : draft));
+  };
+
+  const handleImport = () => {
+    const documents = (preview ?? []).flatMap((file, index) => {
+      const draft = drafts[index];
+      if (!file.document || !draft?.include) return [];
+      return [{
+        ...file.document,
+        title: draft.title,
+        category: draft.category,
+        keywords: draft.keywords.split(",").map(k => k.trim()).filter(Boolean),
+      }];
+    });
+    importMutation.mutate(documents);
+  };
+
+  const selectedCount = drafts.filter(draft => draft?.include).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl" data-testid="sop-import-dialog">
+        <DialogHeader>
+          <DialogTitle>Import SOPs</DialogTitle>
+          <DialogDescription>
+            Markdown, HTML, Word and PDF files, or a zip of them. Markdown front matter sets the title, category
+            and keywords; imported SOPs start as drafts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {results ? (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-[50vh]">
+              <div className="space-y-2 pr-3">
+                {results.map((result, index) => (
+                  <div key={index} className="flex items-start space-x-2 text-sm" data-testid={`import-result-${index}`}>
+                    {result.sop
+                      ? <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                      : <XCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{result.sop?.title ?? result.sourceName}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {result.sop ? `${result.sourceName} · ${result.sop.category}` : result.error}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset} data-testid="button-import-more">Import more</Button>
+              <Button onClick={handleClose} data-testid="button-import-done">Done</Button>
+            </div>
+          </div>
+        ) : preview ? (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-[55vh]">
+              <div className="space-y-3 pr-3">
+                {preview.map((file, index) => {
+                  const draft = drafts[index];
+                  return (
+                    <div key={index} className="border border-border rounded-md p-3 space-y-2" data-testid={`import-file-${index}`}>
+                      <div className="flex items-center space-x-2">
+                        {draft ? (
+                          <Checkbox
+                            checked={draft.include}
+                            onCheckedChange={(checked) => updateDraft(index, { include: checked === true })}
+                            data-testid={`checkbox-import-${index}`}
+                          />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-destructive shrink-0" />
+                        )}
+                        <span className="text-sm font-medium truncate">{file.fileName}</span>
+                      </div>
+                      {file.error && <p className="text-xs text-destructive">{file.error}</p>}
+                      {draft && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            value={draft.title}
+                            onChange={(e) => updateDraft(index, { title: e.target.value })}
+                            placeholder="Title"
+                            disabled={!draft.include}
+                            data-testid={`input-import-title-${index}`}
+                          />
+                          <Input
+                            value={draft.category}
+                            onChange={(e) => updateDraft(index, { category: e.target.value })}
+                            placeholder="Category"
+                            disabled={!draft.include}
+                            data-testid={`input-import-category-${index}`}
+                          />
+                          <Input
+                            className="col-span-2"
+                            value={draft.keywords}
+                            onChange={(e) => updateDraft(index, { keywords: e.target.value })}
+                            placeholder="Keywords, separated by commas"
+                            disabled={!draft.include}
+                            data-testid={`input-import-keywords-${index}`}
+                          />
+                          <p className="col-span-2 text-xs text-muted-foreground line-clamp-2">{file.document?.content}</p>
+                        </div>
+                      )}
+                      {file.warnings.map(warning => (
+                        <p key={warning} className="flex items-center text-xs text-amber-600">
+                          <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+                          {warning}
+                        </p>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset} data-testid="button-import-back">Choose other files</Button>
+              <Button
+                onClick={handleImport}
+                disabled={selectedCount === 0 || importMutation.isPending
+                  || drafts.some(draft => draft?.include && (!draft.title.trim() || !draft.category.trim()))}
+                data-testid="button-import-sops"
+              >
+                {importMutation.isPending ? "Importing..." : `Import ${selectedCount} as drafts`}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Input
+              type="file"
+              multiple
+              accept={sopImportFileTypes.join(",")}
+              onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+              data-testid="input-import-files"
+            />
+            <div>
+              <label className="text-sm font-medium">Category for files that name none</label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className="mt-1" data-testid="select-import-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(cat => (
+                    <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">Files in a folder of a zip go to a category named after the folder.</p>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={files.length === 0 || previewMutation.isPending}
+                data-testid="button-preview-import"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {previewMutation.isPending ? "Reading files..." : "Preview"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,9 +15,15 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import SOPSearch from "./sop-search";
-import { X, Plus, Edit, Trash2, FileText, Search } from "lucide-react";
+import SOPHistory from "./sop-history";
+import SOPReview from "./sop-review";
+import SOPImport from "./sop-import";
+import SOPStatusBadge, { SOP_STATUS_LABELS } from "./sop-status-badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Plus, Edit, Archive, FileText, Search, History, MessageSquare, Upload, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { SOPDocument } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { roleRank, sopStatuses, type SOPDocument, type SopSearchResult, type SopStatus } from "@shared/schema";
 
 interface SOPModalProps {
   isOpen: boolean;
@@ -29,30 +35,39 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
   const [selectedSOP, setSelectedSOP] = useState<SOPDocument | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [detailView, setDetailView] = useState<'content' | 'history' | 'review'>('content');
+  const [statusFilter, setStatusFilter] = useState<SopStatus | 'active'>('active');
   const [searchQuery, setSearchQuery] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
   
   // Form states for create/edit
   const [title, setTitle] = useState("");
   const [category, setCategory] = useState("");
   const [content, setContent] = useState("");
   const [keywords, setKeywords] = useState("");
+  const [changeNote, setChangeNote] = useState("");
 
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  // Senior agents and up write and review SOPs, team leads approve them; agents only see published ones
+  const canReview = !!currentUser && roleRank(currentUser.role) >= roleRank('senior_agent');
+  const canApprove = !!currentUser && roleRank(currentUser.role) >= roleRank('team_lead');
+  const statusQuery = statusFilter === 'active' ? '' : `?status=${statusFilter}`;
 
-  const { data: allSOPs = [] } = useQuery({
-    queryKey: ['/api/sop']
-  });
-
-  const { data: categorySOPs = [] } = useQuery({
-    queryKey: ['/api/sop/category', selectedCategory],
-    enabled: !!selectedCategory
+  const { data: categorySOPs = [] } = useQuery<SOPDocument[]>({
+    queryKey: ['/api/sop', 'category', selectedCategory, statusFilter],
+    enabled: !!selectedCategory,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/sop/category/${encodeURIComponent(selectedCategory)}${statusQuery}`);
+      return response.json();
+    }
   });
 
-  const { data: searchResults = [] } = useQuery({
-    queryKey: ['/api/sop/search', searchQuery],
+  const { data: searchResults } = useQuery<SopSearchResult>({
+    queryKey: ['/api/sop', 'search', searchQuery, statusFilter],
     enabled: searchQuery.length > 2,
     queryFn: async () => {
-      const response = await apiRequest('POST', '/api/sop/search', { keywords: [searchQuery] });
+      const response = await apiRequest('POST', `/api/sop/search${statusQuery}`, { query: searchQuery, limit: 50 });
       return response.json();
     }
   });
@@ -60,11 +75,13 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
   const createMutation = useMutation({
     mutationFn: async (sopData: any) => {
       const response = await apiRequest('POST', '/api/sop', sopData);
-      return response.json();
+      return response.json() as Promise<SOPDocument>;
     },
-    onSuccess: () => {
-      toast({ title: "SOP document created successfully" });
+    onSuccess: (created) => {
+      toast({ title: "SOP draft created", description: "Submit it for review to publish it to agents." });
       queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
+      setSelectedSOP(created);
+      setDetailView('content');
       resetForm();
       setIsCreating(false);
     },
@@ -76,11 +93,12 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
   const updateMutation = useMutation({
     mutationFn: async ({ id, updates }: { id: string; updates: any }) => {
       const response = await apiRequest('PUT', `/api/sop/${id}`, updates);
-      return response.json();
+      return response.json() as Promise<SOPDocument>;
     },
-    onSuccess: () => {
-      toast({ title: "SOP document updated successfully" });
+    onSuccess: (updated) => {
+      toast({ title: "SOP document updated successfully", description: `Now at version ${updated.version}` });
       queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
+      setSelectedSOP(updated);
       resetForm();
       setIsEditing(false);
     },
@@ -89,18 +107,18 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
     }
   });
 
-  const deleteMutation = useMutation({
+  const archiveMutation = useMutation({
     mutationFn: async (id: string) => {
-      const response = await apiRequest('DELETE', `/api/sop/${id}`, {});
-      return response.json();
+      const response = await apiRequest('DELETE', `/api/sop/${id}`);
+      return response.json() as Promise<SOPDocument>;
     },
     onSuccess: () => {
-      toast({ title: "SOP document deleted successfully" });
+      toast({ title: "SOP document archived", description: "Agents no longer see it. It can be restored from the archive." });
       queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
       setSelectedSOP(null);
     },
     onError: () => {
-      toast({ title: "Failed to delete SOP document", variant: "destructive" });
+      toast({ title: "Failed to archive SOP document", variant: "destructive" });
     }
   });
 
@@ -117,6 +135,7 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
     setCategory("");
     setContent("");
     setKeywords("");
+    setChangeNote("");
   };
 
   const handleEdit = (sop: SOPDocument) => {
@@ -125,6 +144,8 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
     setCategory(sop.category);
     setContent(sop.content);
     setKeywords(sop.keywords?.join(", ") || "");
+    setChangeNote("");
+    setDetailView('content');
     setIsEditing(true);
   };
 
@@ -133,24 +154,23 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
       title,
       category,
       content,
-      keywords: keywords.split(",").map(k => k.trim()).filter(Boolean),
-      uploadedBy: "admin-1" // Should come from auth context
+      keywords: keywords.split(",").map(k => k.trim()).filter(Boolean)
     };
 
     if (isCreating) {
       createMutation.mutate(sopData);
     } else if (selectedSOP) {
-      updateMutation.mutate({ id: selectedSOP.id, updates: sopData });
+      updateMutation.mutate({ id: selectedSOP.id, updates: { ...sopData, changeNote: changeNote.trim() || undefined } });
     }
   };
 
-  const handleDelete = (sop: SOPDocument) => {
-    if (confirm(`Are you sure you want to delete "${sop.title}"?`)) {
-      deleteMutation.mutate(sop.id);
+  const handleArchive = (sop: SOPDocument) => {
+    if (confirm(`Archive "${sop.title}"? Agents will no longer see it.`)) {
+      archiveMutation.mutate(sop.id);
     }
   };
 
-  const displaySOPs = searchQuery.length > 2 ? searchResults : categorySOPs;
+  const displaySOPs = searchQuery.length > 2 ? searchResults?.hits.map(hit => hit.sop) ?? [] : categorySOPs;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -159,14 +179,31 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
           <div className="flex items-center justify-between">
             <DialogTitle data-testid="title-sop-library">SOP Document Library</DialogTitle>
             <div className="flex items-center space-x-2">
-              <Button 
-                onClick={() => setIsCreating(true)}
-                size="sm"
-                data-testid="button-create-sop"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create SOP
-              </Button>
+              {canReview && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setIsImporting(true)} data-testid="button-import-sop">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  {/* Archived SOPs are included, so the download is a full backup */}
+                  <Button variant="outline" size="sm" asChild data-testid="button-export-sop">
+                    <a href="/api/sop/export" download>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </a>
+                  </Button>
+                </>
+              )}
+              {canReview && (
+                <Button 
+                  onClick={() => setIsCreating(true)}
+                  size="sm"
+                  data-testid="button-create-sop"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create SOP
+                </Button>
+              )}
               <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-sop-modal">
                 <X className="h-4 w-4" />
               </Button>
@@ -189,6 +226,20 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
                   data-testid="input-search-sops"
                 />
               </div>
+
+              {canReview && (
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SopStatus | 'active')}>
+                  <SelectTrigger data-testid="select-sop-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">All but archived</SelectItem>
+                    {sopStatuses.map(status => (
+                      <SelectItem key={status} value={status}>{SOP_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               
               {/* Categories */}
               <div>
@@ -236,7 +287,10 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
                       className={`p-3 border border-border rounded-lg cursor-pointer transition-colors hover:bg-muted/50 ${
                         selectedSOP?.id === sop.id ? 'border-primary bg-primary/5' : ''
                       }`}
-                      onClick={() => setSelectedSOP(sop)}
+                      onClick={() => {
+                        setSelectedSOP(sop);
+                        setDetailView('content');
+                      }}
                       data-testid={`sop-item-${sop.id}`}
                     >
                       <div className="flex items-start justify-between">
@@ -248,6 +302,7 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
                             Version {sop.version} • {new Date(sop.lastUpdated || '').toLocaleDateString()}
                           </p>
                           <div className="flex flex-wrap gap-1 mt-2">
+                            {canReview && sop.status !== 'published' && <SOPStatusBadge status={sop.status} />}
                             {sop.keywords?.slice(0, 2).map((keyword) => (
                               <Badge key={keyword} variant="secondary" className="text-xs">
                                 {keyword}
@@ -256,30 +311,34 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
                           </div>
                         </div>
                         <div className="flex space-x-1 ml-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleEdit(sop);
-                            }}
-                            data-testid={`button-edit-sop-${sop.id}`}
-                          >
-                            <Edit className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDelete(sop);
-                            }}
-                            data-testid={`button-delete-sop-${sop.id}`}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                          {canReview && sop.status !== 'archived' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleEdit(sop);
+                              }}
+                              data-testid={`button-edit-sop-${sop.id}`}
+                            >
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {canApprove && sop.status !== 'archived' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleArchive(sop);
+                              }}
+                              data-testid={`button-archive-sop-${sop.id}`}
+                            >
+                              <Archive className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -351,6 +410,19 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
                     />
                   </div>
                   
+                  {isEditing && (
+                    <div>
+                      <label className="text-sm font-medium">Change note</label>
+                      <Input
+                        value={changeNote}
+                        onChange={(e) => setChangeNote(e.target.value)}
+                        placeholder="What changed and why"
+                        maxLength={500}
+                        data-testid="input-sop-change-note"
+                      />
+                    </div>
+                  )}
+                  
                   <div>
                     <label className="text-sm font-medium">Content</label>
                     <Textarea
@@ -365,7 +437,7 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
               </div>
             ) : selectedSOP ? (
               // View SOP Content
-              <div className="flex-1">
+              <div className="flex-1 flex flex-col min-h-0">
                 <div className="p-6 border-b border-border">
                   <div className="flex items-start justify-between">
                     <div>
@@ -375,28 +447,74 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
                       <p className="text-sm text-muted-foreground" data-testid="selected-sop-meta">
                         Last updated: {new Date(selectedSOP.lastUpdated || '').toLocaleDateString()} • Version {selectedSOP.version}
                       </p>
+                      {canReview && (
+                        <div className="flex items-center gap-2 mt-1">
+                          <SOPStatusBadge status={selectedSOP.status} />
+                          {selectedSOP.status !== 'published' && selectedSOP.publishedRevisionId && (
+                            <span className="text-xs text-muted-foreground" data-testid="text-sop-published-note">
+                              Agents see the last published version until this one is approved.
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
-                    <div className="flex space-x-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => handleEdit(selectedSOP)}
-                        data-testid="button-edit-selected-sop"
-                      >
-                        <Edit className="h-4 w-4 mr-2" />
-                        Edit
-                      </Button>
-                    </div>
+                    {canReview && (
+                      <div className="flex space-x-2">
+                        <Button 
+                          variant={detailView === 'review' ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setDetailView(detailView === 'review' ? 'content' : 'review')}
+                          data-testid="button-sop-review"
+                        >
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          Review
+                        </Button>
+                        <Button 
+                          variant={detailView === 'history' ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setDetailView(detailView === 'history' ? 'content' : 'history')}
+                          data-testid="button-sop-history"
+                        >
+                          <History className="h-4 w-4 mr-2" />
+                          History
+                        </Button>
+                        {selectedSOP.status !== 'archived' && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => handleEdit(selectedSOP)}
+                            data-testid="button-edit-selected-sop"
+                          >
+                            <Edit className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
-                <ScrollArea className="flex-1 p-6">
-                  <div className="prose max-w-none" data-testid="selected-sop-content">
-                    <div className="whitespace-pre-wrap text-foreground">
-                      {selectedSOP.content}
-                    </div>
+                {canReview && detailView === 'history' ? (
+                  <div className="flex-1 min-h-0">
+                    <SOPHistory
+                      sop={selectedSOP}
+                      canRollback={canApprove && selectedSOP.status !== 'archived'}
+                      onRolledBack={setSelectedSOP}
+                    />
+                  </div>
+                ) : canReview && detailView === 'review' ? (
+                  <div className="flex-1 min-h-0">
+                    <SOPReview sop={selectedSOP} onStatusChanged={setSelectedSOP} />
                   </div>
-                </ScrollArea>
+                ) : (
+                  <ScrollArea className="flex-1 p-6">
+                    <div className="prose max-w-none" data-testid="selected-sop-content">
+                      <div className="whitespace-pre-wrap text-foreground">
+                        {selectedSOP.content}
+                      </div>
+                    </div>
+                  </ScrollArea>
+                )}
               </div>
             ) : (
               // Empty State
@@ -410,6 +528,9 @@ export default function SOPModal({ isOpen, onClose }: SOPModalProps) {
             )}
           </div>
         </div>
+        {canReview && (
+          <SOPImport isOpen={isImporting} onClose={() => setIsImporting(false)} categories={categories} />
+        )}
       </DialogContent>
     </Dialog>
   );
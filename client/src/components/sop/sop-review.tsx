@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { MessageSquare } from "lucide-react";
+import { SOP_STATUS_LABELS } from "./sop-status-badge";
+import {
+  roleRank, sopTransitions,
+  type SOPCommentWithAuthor, type SOPDocument, type SopStatus
+} from "@shared/schema";
+
+interface SOPReviewProps {
+  sop: SOPDocument;
+  onStatusChanged: (sop: SOPDocument) => void;
+}
+
+// Archiving is offered from the SOP list, so it is left out here
+const ACTION_LABELS: Partial<Record<SopStatus, Partial<Record<SopStatus, string>>>> = {
+  draft: { in_review: 'Submit for review' },
+  in_review: { published: 'Approve and publish', draft: 'Request changes' },
+  archived: { draft: 'Restore as draft' },
+};
+
+const DONE_MESSAGES: Record<SopStatus, string> = {
+  draft: 'SOP moved back to draft',
+  in_review: 'SOP submitted for review',
+  published: 'SOP published',
+  archived: 'SOP archived',
+};
+
+const formatTime = (date: Date | string) => new Date(date).toLocaleString();
+
+export default function SOPReview({ sop, onStatusChanged }: SOPReviewProps) {
+  const [comment, setComment] = useState('');
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  // The default query function fetches /api/sop/<id>/comments
+  const { data: comments = [], isLoading } = useQuery<SOPCommentWithAuthor[]>({
+    queryKey: ['/api/sop', sop.id, 'comments']
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', `/api/sop/${sop.id}/comments`, { content });
+      return response.json() as Promise<SOPCommentWithAuthor>;
+    },
+    onSuccess: () => {
+      setComment('');
+      queryClient.invalidateQueries({ queryKey: ['/api/sop', sop.id, 'comments'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add comment", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: SopStatus) => {
+      const response = await apiRequest('PATCH', `/api/sop/${sop.id}`, { status, comment: comment.trim() || undefined });
+      return response.json() as Promise<SOPDocument>;
+    },
+    onSuccess: (updated, status) => {
+      toast({ title: DONE_MESSAGES[status] });
+      setComment('');
+      queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
+      onStatusChanged(updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to change SOP status", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const actions = Object.entries(ACTION_LABELS[sop.status as SopStatus] ?? {})
+    .map(([status, label]) => ({ status: status as SopStatus, label: label! }))
+    .filter(({ status }) => {
+      const role = sopTransitions[sop.status as SopStatus]?.[status];
+      return !!role && !!currentUser && roleRank(currentUser.role) >= roleRank(role);
+    });
+
+  const handleComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (comment.trim()) commentMutation.mutate(comment.trim());
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <ScrollArea className="flex-1">
+        <div className="space-y-3 p-4" data-testid="list-sop-comments">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : comments.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No review comments yet.</p>
+            </div>
+          ) : (
+            comments.map(item => (
+              <div key={item.id} className="border-l-2 border-border pl-3" data-testid={`sop-comment-${item.id}`}>
+                <p className="text-xs text-muted-foreground mb-1">
+                  {item.authorName} · {formatTime(item.createdAt)}
+                  {item.version && ` · v${item.version}`}
+                  {item.action && (
+                    <Badge variant="outline" className="text-xs ml-2">
+                      {SOP_STATUS_LABELS[item.action as SopStatus] ?? item.action}
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-sm text-foreground whitespace-pre-wrap">{item.content}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <form onSubmit={handleComment} className="border-t border-border p-4 space-y-2">
+        <Textarea
+          placeholder={actions.length > 0 ? "Leave a comment, or a note with your decision…" : "Leave a comment…"}
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={2000}
+          rows={3}
+          data-testid="textarea-sop-comment"
+        />
+        <div className="flex justify-end gap-2">
+          {actions.map(({ status, label }) => (
+            <Button
+              key={status}
+              type="button"
+              variant={status === 'published' ? 'default' : 'outline'}
+              onClick={() => statusMutation.mutate(status)}
+              disabled={statusMutation.isPending}
+              data-testid={`button-sop-status-${status}`}
+            >
+              {label}
+            </Button>
+          ))}
+          <Button
+            type="submit"
+            variant="secondary"
+            disabled={!comment.trim() || commentMutation.isPending}
+            data-testid="button-add-sop-comment"
+          >
+            Comment
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Search, FileText } from "lucide-react";
-import type { SOPDocument } from "@shared/schema";
+import Highlighted from "./highlighted";
+import type { SOPDocument, SopSearchResult } from "@shared/schema";
 
 interface SOPSearchProps {
   onSelectSOP: (sop: SOPDocument) => void;
@@ -14,35 +15,31 @@ interface SOPSearchProps {
 
 export default function SOPSearch({ onSelectSOP, className }: SOPSearchProps) {
   const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<string | null>(null);
   const [isSearching, setIsSearching] = useState(false);
 
-  const { data: searchResults = [], isLoading } = useQuery({
-    queryKey: ['/api/sop/search', query],
+  const { data, isLoading } = useQuery<SopSearchResult>({
+    queryKey: ['/api/sop/search', query, category],
     queryFn: async () => {
-      if (query.length < 2) return [];
-      const response = await apiRequest('POST', '/api/sop/search', { 
-        keywords: query.split(' ').filter(Boolean) 
+      // Only what agents may rely on, even when a reviewer is searching
+      const response = await apiRequest('POST', '/api/sop/search?published=true', {
+        query,
+        category: category ?? undefined
       });
       return response.json();
     },
-    enabled: query.length >= 2
+    enabled: query.trim().length >= 2,
+    placeholderData: (previous) => previous
   });
+  const searchResults = data?.hits ?? [];
 
   useEffect(() => {
-    setIsSearching(query.length >= 2);
+    setIsSearching(query.trim().length >= 2);
   }, [query]);
 
-  const highlightText = (text: string, searchQuery: string) => {
-    if (!searchQuery) return text;
-    
-    const regex = new RegExp(`(${searchQuery})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 dark:bg-yellow-800">{part}</mark>
-      ) : part
-    );
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setCategory(null);
   };
 
   return (
@@ -52,7 +49,7 @@ export default function SOPSearch({ onSelectSOP, className }: SOPSearchProps) {
         <Input
           placeholder="Search SOPs by keywords..."
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => handleQueryChange(e.target.value)}
           className="pl-10"
           data-testid="input-sop-search-query"
         />
@@ -63,6 +60,22 @@ export default function SOPSearch({ onSelectSOP, className }: SOPSearchProps) {
         )}
       </div>
 
+      {isSearching && data && data.facets.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-3" data-testid="sop-search-facets">
+          {data.facets.map(facet => (
+            <Badge
+              key={facet.category}
+              variant={facet.category === category ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => setCategory(facet.category === category ? null : facet.category)}
+              data-testid={`facet-${facet.category}`}
+            >
+              {facet.category} ({facet.count})
+            </Badge>
+          ))}
+        </div>
+      )}
+
       {isSearching && (
         <div className="border border-border rounded-lg max-h-96 overflow-y-auto" data-testid="search-results-container">
           {searchResults.length === 0 ? (
@@ -81,7 +94,7 @@ export default function SOPSearch({ onSelectSOP, className }: SOPSearchProps) {
             </div>
           ) : (
             <div className="divide-y divide-border">
-              {searchResults.map((sop: SOPDocument) => (
+              {searchResults.map(({ sop, title, snippet }) => (
                 <div
                   key={sop.id}
                   className="p-4 hover:bg-muted/50 cursor-pointer transition-colors"
@@ -91,18 +104,18 @@ export default function SOPSearch({ onSelectSOP, className }: SOPSearchProps) {
                   <div className="flex items-start justify-between">
                     <div className="flex-1 min-w-0">
                       <h4 className="font-medium text-foreground mb-1" data-testid={`result-title-${sop.id}`}>
-                        {highlightText(sop.title, query)}
+                        <Highlighted segments={title} />
                       </h4>
                       <p className="text-sm text-muted-foreground mb-2" data-testid={`result-category-${sop.id}`}>
                         Category: {sop.category}
                       </p>
                       <p className="text-sm text-foreground line-clamp-2 mb-2">
-                        {highlightText(sop.content.substring(0, 150) + '...', query)}
+                        <Highlighted segments={snippet} />
                       </p>
                       <div className="flex items-center space-x-2">
                         {sop.keywords?.slice(0, 3).map((keyword) => (
                           <Badge key={keyword} variant="secondary" className="text-xs">
-                            {highlightText(keyword, query)}
+                            {keyword}
                           </Badge>
                         ))}
                         <span className="text-xs text-muted-foreground">
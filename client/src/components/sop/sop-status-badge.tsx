@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { SopStatus } from "@shared/schema";
+
+export const SOP_STATUS_LABELS: Record<SopStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+const STATUS_STYLES: Record<SopStatus, string> = {
+  draft: 'text-muted-foreground',
+  in_review: 'border-warning text-warning',
+  published: 'border-primary text-primary',
+  archived: 'text-muted-foreground',
+};
+
+export default function SOPStatusBadge({ status, className }: { status: string; className?: string }) {
+  const known = status as SopStatus;
+  return (
+    <Badge variant="outline" className={cn("text-xs", STATUS_STYLES[known], className)} data-testid="badge-sop-status">
+      {SOP_STATUS_LABELS[known] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTickets, ticketsKey } from "@/hooks/use-tickets";
+import { Mail, Send, Archive, RotateCcw, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  chatTopics, ticketStatuses,
+  type OfflineTicketDetail, type OfflineTicketWithCustomer, type TicketReplyWithAuthor, type TicketStatus
+} from "@shared/schema";
+
+const STATUS_BADGES: Record<TicketStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'border-warning text-warning' },
+  replied: { label: 'Replied', className: 'text-muted-foreground' },
+  closed: { label: 'Closed', className: 'text-muted-foreground' },
+};
+
+const topicLabel = (topic: string | null) => chatTopics.find(t => t.id === topic)?.label;
+const formatTime = (date: Date | string) => new Date(date).toLocaleString();
+
+export default function OfflineInbox() {
+  const [status, setStatus] = useState<TicketStatus | 'all'>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const { toast } = useToast();
+
+  const { data: tickets, isLoading } = useTickets(status === 'all' ? undefined : status);
+  // The default query function fetches /api/tickets/<id>
+  const { data: ticket } = useQuery<OfflineTicketDetail>({
+    queryKey: [...ticketsKey, selectedId],
+    enabled: !!selectedId
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: string, content: string }) => {
+      const response = await apiRequest('POST', `/api/tickets/${id}/replies`, { content });
+      return response.json() as Promise<TicketReplyWithAuthor>;
+    },
+    onSuccess: (sent) => {
+      if (sent.emailStatus === 'failed') {
+        toast({
+          title: "Reply saved but not emailed",
+          description: sent.emailError ?? 'The mail server rejected the message.',
+          variant: "destructive"
+        });
+      } else {
+        toast({ title: "Reply sent", description: `Emailed to ${ticket?.customerEmail}` });
+        setReply('');
+      }
+      queryClient.invalidateQueries({ queryKey: ticketsKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to send reply", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string, status: TicketStatus }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/${id}`, { status });
+      return response.json() as Promise<OfflineTicketWithCustomer>;
+    },
+    onSuccess: (updated) => {
+      toast({ title: updated.status === 'closed' ? 'Ticket closed' : 'Ticket reopened' });
+      queryClient.invalidateQueries({ queryKey: ticketsKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update ticket", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setReply('');
+  };
+
+  const handleReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ticket || !reply.trim()) return;
+    replyMutation.mutate({ id: ticket.id, content: reply.trim() });
+  };
+
+  const renderTicket = (item: OfflineTicketWithCustomer) => {
+    const badge = STATUS_BADGES[item.status as TicketStatus] ?? STATUS_BADGES.open;
+    return (
+      <button
+        key={item.id}
+        type="button"
+        onClick={() => handleSelect(item.id)}
+        className={cn(
+          "w-full text-left border border-border rounded-lg p-3 space-y-1 hover:bg-accent",
+          item.id === selectedId && "border-primary bg-accent"
+        )}
+        data-testid={`ticket-${item.id}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium text-foreground truncate">{item.customerName}</span>
+          <Badge variant="outline" className={cn("text-xs shrink-0", badge.className)}>
+            {badge.label}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground line-clamp-2">{item.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {topicLabel(item.topic) && `${topicLabel(item.topic)} · `}{formatTime(item.createdAt)}
+        </p>
+      </button>
+    );
+  };
+
+  const renderDetail = (detail: OfflineTicketDetail) => (
+    <Card data-testid="ticket-detail">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">{detail.customerName}</CardTitle>
+            <a href={`mailto:${detail.customerEmail}`} className="flex items-center text-sm text-primary hover:underline">
+              <Mail className="h-3 w-3 mr-1" />
+              {detail.customerEmail}
+            </a>
+          </div>
+          {detail.status === 'closed' ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => statusMutation.mutate({ id: detail.id, status: detail.lastReplyAt ? 'replied' : 'open' })}
+              disabled={statusMutation.isPending}
+              data-testid="button-reopen-ticket"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reopen
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => statusMutation.mutate({ id: detail.id, status: 'closed' })}
+              disabled={statusMutation.isPending}
+              data-testid="button-close-ticket"
+            >
+              <Archive className="h-4 w-4 mr-1" />
+              Close
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-lg bg-muted p-3">
+          <p className="text-xs text-muted-foreground mb-1">
+            {topicLabel(detail.topic) && `${topicLabel(detail.topic)} · `}{formatTime(detail.createdAt)}
+          </p>
+          <p className="text-sm text-foreground whitespace-pre-wrap" data-testid="text-ticket-message">{detail.message}</p>
+        </div>
+
+        {detail.replies.map(sent => (
+          <div key={sent.id} className="border-l-2 border-primary pl-3" data-testid={`ticket-reply-${sent.id}`}>
+            <p className="text-xs text-muted-foreground mb-1">
+              {sent.authorName} · {formatTime(sent.createdAt)}
+              {sent.emailStatus === 'failed' && (
+                <span className="inline-flex items-center text-destructive ml-2" title={sent.emailError ?? undefined}>
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  Not delivered
+                </span>
+              )}
+            </p>
+            <p className="text-sm text-foreground whitespace-pre-wrap">{sent.content}</p>
+          </div>
+        ))}
+
+        {detail.status === 'closed' ? (
+          <p className="text-sm text-muted-foreground">Reopen this ticket to reply.</p>
+        ) : (
+          <form onSubmit={handleReply} className="space-y-2">
+            <Textarea
+              placeholder={`Reply to ${detail.customerName} by email…`}
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              maxLength={10000}
+              rows={5}
+              data-testid="textarea-ticket-reply"
+            />
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!reply.trim() || replyMutation.isPending} data-testid="button-send-ticket-reply">
+                <Send className="h-4 w-4 mr-1" />
+                Send email
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="flex-1 p-6 bg-background overflow-y-auto" data-testid="offline-inbox">
+      <div className="space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground" data-testid="title-offline-inbox">
+              Offline Messages
+            </h2>
+            <p className="text-muted-foreground mt-2">
+              Messages customers left while nobody was online. Replies are sent to them by email.
+            </p>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as TicketStatus | 'all')}>
+            <SelectTrigger className="w-36" data-testid="select-ticket-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ticketStatuses.map(s => (
+                <SelectItem key={s} value={s}>{STATUS_BADGES[s].label}</SelectItem>
+              ))}
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-6">
+          <div className="space-y-2" data-testid="list-tickets">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : !tickets?.length ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No messages here.</p>
+            ) : (
+              tickets.map(renderTicket)
+            )}
+          </div>
+          <div>
+            {ticket && ticket.id === selectedId ? (
+              renderDetail(ticket)
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">Select a message to read and reply.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
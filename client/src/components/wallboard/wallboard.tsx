@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Eye, MessageSquare, Clock, Users, Hourglass } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { chatTopics, type SessionListItem } from "@shared/schema";
+
+// GET /api/dashboard/stats, kept current by stats_update pushes
+export interface DashboardStats {
+  activeChats: number;
+  waitingChats: number;
+  onlineAgents: number;
+  totalSessions: number;
+}
+
+interface WallboardProps {
+  sessions: SessionListItem[];
+  stats?: DashboardStats;
+  onMonitor: (sessionId: string) => void;
+}
+
+// Durations only need to move on every so often
+const CLOCK_TICK_MS = 15000;
+
+export default function Wallboard({ sessions, stats, onMonitor }: WallboardProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const waitingSince = (session: SessionListItem) => new Date(session.startTime ?? now).getTime();
+  const longestWait = sessions
+    .filter(session => session.status === 'waiting')
+    .reduce((longest, session) => Math.max(longest, now - waitingSince(session)), 0);
+
+  const formatDuration = (ms: number) => {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return '<1 min';
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const getTopicLabel = (topic?: string | null) =>
+    chatTopics.find(t => t.id === topic)?.label ?? 'General';
+
+  const getStatusColor = (status?: string | null) => {
+    switch (status) {
+      case 'active': return 'bg-secondary text-secondary-foreground';
+      case 'waiting': return 'bg-warning text-white';
+      default: return 'bg-muted text-muted-foreground';
+    }
+  };
+
+  const summary = [
+    { label: 'Active Chats', value: stats?.activeChats ?? 0, icon: MessageSquare, testId: 'wallboard-stat-active' },
+    { label: 'Waiting', value: stats?.waitingChats ?? 0, icon: Hourglass, testId: 'wallboard-stat-waiting' },
+    { label: 'Agents Online', value: stats?.onlineAgents ?? 0, icon: Users, testId: 'wallboard-stat-agents' },
+    { label: 'Longest Wait', value: longestWait ? formatDuration(longestWait) : '—', icon: Clock, testId: 'wallboard-stat-longest-wait' },
+  ];
+
+  return (
+    <div className="flex-1 p-6 bg-background overflow-y-auto" data-testid="wallboard">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground" data-testid="title-wallboard">
+            Live Wallboard
+          </h2>
+          <p className="text-muted-foreground mt-2">
+            Every open chat, longest-running first. Monitor a chat to follow it silently, whisper to its agent or barge in.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {summary.map(({ label, value, icon: Icon, testId }) => (
+            <Card key={label}>
+              <CardContent className="pt-6">
+                <div className="flex items-center space-x-2">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-2xl font-bold text-foreground" data-testid={testId}>{value}</div>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {sessions.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground" data-testid="empty-state-wallboard">
+            <p>No open chats right now</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+            {sessions.map((session) => (
+              <Card key={session.id} data-testid={`wallboard-session-${session.sessionId}`}>
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Avatar className="w-9 h-9">
+                        <AvatarFallback>{session.customer?.name.charAt(0) || 'U'}</AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <div className="font-medium text-foreground truncate">
+                          {session.customer?.name || 'Unknown Customer'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{getTopicLabel(session.topic)}</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {!!session.unreadCount && (
+                        <Badge className="text-xs bg-destructive text-destructive-foreground">
+                          {session.unreadCount}
+                        </Badge>
+                      )}
+                      <Badge className={cn("text-xs capitalize", getStatusColor(session.status))}>
+                        {session.status}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  <p className="text-sm text-muted-foreground truncate" data-testid={`wallboard-last-message-${session.sessionId}`}>
+                    {session.lastMessage?.content || 'No messages yet'}
+                  </p>
+
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Agent: {session.agent?.name || 'Unassigned'}</span>
+                    <span data-testid={`wallboard-duration-${session.sessionId}`}>
+                      {formatDuration(now - waitingSince(session))}
+                    </span>
+                  </div>
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => onMonitor(session.sessionId)}
+                    data-testid={`button-monitor-${session.sessionId}`}
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    Monitor
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CALLBACK_WINDOW_OPTIONS, callbackWindow, defaultCallbackStart, formatCallbackWindow, toDateInput, toTimeInput
+} from "@/lib/callbacks";
+import { CheckCircle, PhoneCall } from "lucide-react";
+import type { RequestCallback } from "@shared/schema";
+
+interface CallbackRequestFormProps {
+  customerName: string;
+  customerEmail: string;
+  onBack: () => void;
+}
+
+// Shown in the widget instead of a chat when nobody is online to take one
+export default function CallbackRequestForm({ customerName, customerEmail, onBack }: CallbackRequestFormProps) {
+  const [date, setDate] = useState(() => toDateInput(defaultCallbackStart()));
+  const [time, setTime] = useState(() => toTimeInput(defaultCallbackStart()));
+  const [minutes, setMinutes] = useState("60");
+  const [phone, setPhone] = useState('');
+  const [reason, setReason] = useState('');
+
+  const requestMutation = useMutation({
+    mutationFn: async (request: RequestCallback) => {
+      const response = await apiRequest('POST', '/api/callbacks/request', request);
+      return response.json() as Promise<{ id: string; windowStart: string; windowEnd: string }>;
+    }
+  });
+
+  const slot = callbackWindow(date, time, Number(minutes));
+  const canSubmit = !!slot && !!reason.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slot || !canSubmit) return;
+    requestMutation.mutate({
+      ...slot,
+      customerName,
+      customerEmail,
+      phone: phone.trim() || undefined,
+      reason: reason.trim()
+    });
+  };
+
+  if (requestMutation.data) {
+    return (
+      <div className="flex-1 p-4 flex flex-col items-center justify-center text-center space-y-2" data-testid="callback-requested">
+        <CheckCircle className="h-8 w-8 text-primary" />
+        <p className="text-sm font-medium text-foreground">We'll get back to you</p>
+        <p className="text-xs text-muted-foreground">
+          {phone.trim() ? 'Expect a call' : `Expect an email at ${customerEmail}`} on {formatCallbackWindow(requestMutation.data)}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 p-4 space-y-3 overflow-y-auto" data-testid="form-callback-request">
+      <div className="text-center">
+        <PhoneCall className="h-5 w-5 text-primary mx-auto mb-1" />
+        <h3 className="font-semibold text-foreground text-sm">No one is available to chat right now</h3>
+        <p className="text-xs text-muted-foreground">Tell us when suits you and we'll get back to you.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Input type="date" value={date} min={toDateInput(new Date())} onChange={(e) => setDate(e.target.value)} required data-testid="input-request-callback-date" />
+        <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} required data-testid="input-request-callback-time" />
+      </div>
+      <Select value={minutes} onValueChange={setMinutes}>
+        <SelectTrigger data-testid="select-request-callback-window">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CALLBACK_WINDOW_OPTIONS.map(option => (
+            <SelectItem key={option.minutes} value={String(option.minutes)}>Within {option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="tel"
+        placeholder="Phone (or we'll email you)"
+        value={phone}
+        onChange={(e) => setPhone(e.target.value)}
+        data-testid="input-request-callback-phone"
+      />
+      <Textarea
+        placeholder="What can we help with?"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={1000}
+        rows={2}
+        required
+        data-testid="textarea-request-callback-reason"
+      />
+      {requestMutation.error && (
+        <p className="text-xs text-destructive" data-testid="text-callback-error">
+          Could not request a callback. Please check the time and phone number.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={onBack} data-testid="button-back-to-message">
+          Back
+        </Button>
+        <Button type="submit" className="flex-1" disabled={!canSubmit || requestMutation.isPending} data-testid="button-request-callback">
+          Request callback
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
@@ -6,10 +6,23 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useChat } from "@/hooks/use-chat";
-import { MessageSquare, X, Send, ShoppingCart, Undo, CreditCard, HelpCircle } from "lucide-react";
+import MessageAttachments from "@/components/chat/message-attachments";
+import DeliveryStatus, { PendingStatus } from "@/components/chat/delivery-status";
+import PostChatSurvey from "@/components/widget/post-chat-survey";
+import CallbackRequestForm from "@/components/widget/callback-request-form";
+import LeaveMessageForm from "@/components/widget/leave-message-form";
+import { hasCaption, uploadAttachment, validateAttachment } from "@/lib/attachments";
+import { availabilityStatus, offersLiveChat } from "@/lib/availability";
+import { MessageSquare, X, Send, ShoppingCart, Undo, CreditCard, HelpCircle, Clock, Paperclip, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { Message } from "@shared/schema";
+import {
+  attachmentMimeTypes, chatTopics, type Availability, type Message, type MessageWithAttachments, type SurveyState
+} from "@shared/schema";
+
+// Opening hours and who is signed in change slowly, so check about once a minute while the widget is open
+const AVAILABILITY_REFRESH_MS = 60000;
 
 export default function CustomerChatWidget() {
   const [isOpen, setIsOpen] = useState(false);
@@ -19,36 +32,168 @@ export default function CustomerChatWidget() {
   });
   const [isInfoCollected, setIsInfoCollected] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [customerToken, setCustomerToken] = useState<string | null>(null);
+  const [topic, setTopic] = useState<string>('general');
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [message, setMessage] = useState('');
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [sessionEnded, setSessionEnded] = useState(false);
+  // Closed, or nobody could take the chat, so we take a message or offer a callback instead
+  const [agentsOffline, setAgentsOffline] = useState(false);
+  const [offlineMode, setOfflineMode] = useState<'message' | 'callback'>('message');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { sendChatMessage, pendingMessages, retryMessage, discardMessage, markRead, isConnected, lastMessage } = useChat(currentSessionId || '', 'customer', customerToken);
+
+  const surveyKey = ['/api/chat/sessions', currentSessionId, 'survey'];
+
+  // Queue position is pushed by the router until an agent picks the chat up
+  useEffect(() => {
+    if (!lastMessage || lastMessage.sessionId !== currentSessionId) return;
+    if (lastMessage.type === 'queue_update') {
+      setQueuePosition(lastMessage.data.position);
+    } else if (lastMessage.type === 'session_assigned') {
+      setQueuePosition(null);
+    } else if (lastMessage.type === 'session_ended') {
+      setQueuePosition(null);
+      setSessionEnded(true);
+      queryClient.invalidateQueries({ queryKey: surveyKey });
+    }
+  }, [lastMessage, currentSessionId]);
+
+  // Check again on every reconnect, in case the chat ended while we were offline
+  useEffect(() => {
+    if (isConnected && currentSessionId) {
+      queryClient.invalidateQueries({ queryKey: surveyKey });
+    }
+  }, [isConnected, currentSessionId]);
 
-  const { sendChatMessage, isConnected } = useChat(currentSessionId || '');
+  const { data: survey } = useQuery<SurveyState>({
+    queryKey: surveyKey,
+    enabled: !!currentSessionId && !!customerToken,
+    queryFn: async () => {
+      const response = await fetch(`/api/chat/sessions/${currentSessionId}/survey`, {
+        headers: { 'X-Chat-Token': customerToken! }
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    }
+  });
+  const showSurvey = !!survey && survey.status !== 'unavailable';
+  const chatEnded = sessionEnded || showSurvey;
+
+  const availabilityKey = ['/api/availability', topic];
+  const { data: availability } = useQuery<Availability>({
+    queryKey: availabilityKey,
+    enabled: isOpen && !isInfoCollected,
+    refetchInterval: AVAILABILITY_REFRESH_MS,
+    queryFn: async () => {
+      const response = await fetch(`/api/availability?${new URLSearchParams({ topic })}`);
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    }
+  });
+  const liveChatOffered = offersLiveChat(availability);
 
-  const { data: messages = [] } = useQuery({
+  const { data: messages = [] } = useQuery<MessageWithAttachments[]>({
     queryKey: ['/api/chat/sessions', currentSessionId, 'messages'],
-    enabled: !!currentSessionId,
-    refetchInterval: 1000
+    enabled: !!currentSessionId && !!customerToken,
+    queryFn: async () => {
+      const response = await fetch(`/api/chat/sessions/${currentSessionId}/messages`, {
+        headers: { 'X-Chat-Token': customerToken! }
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    }
   });
 
+  // A supervisor who barges in writes to the customer just like the agent
+  const isSupportMessage = (m: Message) => m.senderType === 'agent' || m.senderType === 'supervisor';
+  const unreadCount = messages.filter(m =>
+    isSupportMessage(m) && !(m.readBy ?? []).some(r => r.readerType === 'customer')
+  ).length;
+
+  // Agent messages count as read once the customer has the chat window open
+  useEffect(() => {
+    if (!isOpen || unreadCount === 0) return;
+    const lastAgentMessage = [...messages].reverse().find(isSupportMessage);
+    if (lastAgentMessage) markRead(lastAgentMessage.id);
+  }, [isOpen, unreadCount, messages, markRead]);
+
   const startChatMutation = useMutation({
-    mutationFn: async (customerData: { customerName: string; customerEmail: string }) => {
+    mutationFn: async (customerData: { customerName: string; customerEmail: string; topic: string }) => {
       const response = await apiRequest('POST', '/api/chat/start', customerData);
       return response.json();
     },
     onSuccess: (data) => {
       setCurrentSessionId(data.session.sessionId);
+      setCustomerToken(data.customerToken);
+      setQueuePosition(data.queuePosition);
       setIsInfoCollected(true);
       queryClient.invalidateQueries({ queryKey: ['/api/chat/sessions'] });
+    },
+    onError: (error: Error) => {
+      if (error.message.startsWith('503')) {
+        setOfflineMode('message');
+        setAgentsOffline(true);
+        queryClient.invalidateQueries({ queryKey: availabilityKey });
+      }
     }
   });
 
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadAttachment(currentSessionId!, file, customerToken),
+    onSuccess: () => {
+      setUploadError(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/sessions', currentSessionId, 'messages'] });
+    },
+    onError: (error: Error) => setUploadError(error.message)
+  });
+
+  const handleAttachFile = (file: File) => {
+    const problem = validateAttachment(file);
+    if (problem) {
+      setUploadError(problem);
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleAttachFile(file);
+    e.target.value = '';
+  };
+
+  // Screenshots can be pasted straight into the message box
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const image = Array.from(e.clipboardData.files).find(file => file.type.startsWith('image/'));
+    if (image) {
+      e.preventDefault();
+      handleAttachFile(image);
+    }
+  };
+
   const handleStartChat = (e: React.FormEvent) => {
     e.preventDefault();
-    if (customerInfo.name && customerInfo.email) {
-      startChatMutation.mutate({
-        customerName: customerInfo.name,
-        customerEmail: customerInfo.email
-      });
+    if (!customerInfo.name || !customerInfo.email) return;
+    if (!liveChatOffered) {
+      // Closed or nobody signed in: go straight to leaving a message
+      setOfflineMode('message');
+      setAgentsOffline(true);
+      return;
     }
+    startChatMutation.mutate({
+      customerName: customerInfo.name,
+      customerEmail: customerInfo.email,
+      topic
+    });
   };
 
   const handleSendMessage = (e: React.FormEvent) => {
@@ -107,10 +252,10 @@ export default function CustomerChatWidget() {
         </Button>
         
         {/* Notification Dot */}
-        {!isOpen && messages.length > 0 && (
-          <div className="absolute -top-1 -right-1 w-4 h-4 bg-destructive rounded-full flex items-center justify-center" data-testid="notification-dot">
+        {!isOpen && unreadCount > 0 && (
+          <div className="absolute -top-1 -right-1 w-4 h-4 bg-destructive rounded-full flex items-center justify-center" data-testid="badge-unread-count">
             <span className="text-white text-xs font-bold">
-              {messages.filter((m: Message) => m.senderType === 'agent').length}
+              {unreadCount}
             </span>
           </div>
         )}
@@ -130,7 +275,15 @@ export default function CustomerChatWidget() {
                 <div>
                   <div className="font-semibold" data-testid="text-support-title">Customer Support</div>
                   <div className="text-xs opacity-90" data-testid="text-support-status">
-                    {isConnected ? "We're online • Avg reply: 2 min" : "Connecting..."}
+                    {agentsOffline
+                      ? liveChatOffered ? "We're away • Leave a message" : availabilityStatus(availability)
+                      : !isConnected && isInfoCollected
+                      ? "Connecting..."
+                      : queuePosition
+                        ? `Waiting for an agent • #${queuePosition} in queue`
+                        : isInfoCollected
+                          ? "We're online"
+                          : availabilityStatus(availability)}
                   </div>
                 </div>
               </div>
@@ -148,7 +301,31 @@ export default function CustomerChatWidget() {
 
           {/* Content */}
           <div className="flex-1 flex flex-col h-80">
-            {!isInfoCollected ? (
+            {isInfoCollected && queuePosition && (
+              <div className="flex items-center space-x-2 px-4 py-2 bg-warning/10 text-xs text-foreground border-b border-border" data-testid="banner-queue-position">
+                <Clock className="h-3 w-3 text-warning" />
+                <span>
+                  You're #{queuePosition} in the queue. An agent will be with you shortly.
+                </span>
+              </div>
+            )}
+            {agentsOffline ? (
+              offlineMode === 'callback' ? (
+                <CallbackRequestForm
+                  customerName={customerInfo.name}
+                  customerEmail={customerInfo.email}
+                  onBack={() => setOfflineMode('message')}
+                />
+              ) : (
+                <LeaveMessageForm
+                  customerName={customerInfo.name}
+                  customerEmail={customerInfo.email}
+                  topic={topic}
+                  onRetryChat={() => setAgentsOffline(false)}
+                  onRequestCallback={() => setOfflineMode('callback')}
+                />
+              )
+            ) : !isInfoCollected ? (
               /* Customer Info Collection */
               <div className="flex-1 p-4">
                 <div className="text-center mb-4">
@@ -156,7 +333,9 @@ export default function CustomerChatWidget() {
                     Start a conversation
                   </h3>
                   <p className="text-sm text-muted-foreground">
-                    Please provide your details to begin chatting with our support team.
+                    {liveChatOffered
+                      ? "Please provide your details to begin chatting with our support team."
+                      : "We can't chat right now, but leave your details and we'll get back to you."}
                   </p>
                 </div>
                 
@@ -180,17 +359,29 @@ export default function CustomerChatWidget() {
                       data-testid="input-customer-email"
                     />
                   </div>
+                  <div>
+                    <Select value={topic} onValueChange={setTopic}>
+                      <SelectTrigger data-testid="select-chat-topic">
+                        <SelectValue placeholder="What can we help with?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {chatTopics.map((t) => (
+                          <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <Button 
                     type="submit" 
                     className="w-full"
                     disabled={startChatMutation.isPending || !customerInfo.name || !customerInfo.email}
                     data-testid="button-start-chat"
                   >
-                    {startChatMutation.isPending ? "Starting chat..." : "Start Chat"}
+                    {startChatMutation.isPending ? "Starting chat..." : liveChatOffered ? "Start Chat" : "Leave a message"}
                   </Button>
                 </form>
               </div>
-            ) : messages.length === 0 ? (
+            ) : messages.length === 0 && pendingMessages.length === 0 ? (
               /* Welcome Message and Quick Replies */
               <div className="flex-1 p-4 space-y-4">
                 <div className="flex items-start space-x-2">
@@ -250,7 +441,7 @@ export default function CustomerChatWidget() {
             ) : (
               /* Messages */
               <div className="flex-1 overflow-y-auto p-4 space-y-3" data-testid="messages-container">
-                {messages.map((msg: Message) => (
+                {messages.map((msg: MessageWithAttachments) => (
                   <div key={msg.id} data-testid={`message-${msg.id}`}>
                     {msg.senderType === 'system' ? (
                       <div className="flex justify-center my-2">
@@ -273,7 +464,15 @@ export default function CustomerChatWidget() {
                               ? 'bg-primary text-primary-foreground rounded-tr-sm'
                               : 'bg-muted text-foreground rounded-tl-sm'
                           }`}>
-                            <p className="text-sm">{msg.content}</p>
+                            {msg.attachments && currentSessionId && (
+                              <MessageAttachments
+                                sessionId={currentSessionId}
+                                attachments={msg.attachments}
+                                customerToken={customerToken}
+                                compact
+                              />
+                            )}
+                            {hasCaption(msg) && <p className="text-sm">{msg.content}</p>}
                           </div>
                           <div className={`flex items-center space-x-1 mt-1 text-xs text-muted-foreground ${
                             msg.senderType === 'customer' ? 'justify-end' : ''
@@ -281,39 +480,103 @@ export default function CustomerChatWidget() {
                             <span>{getMessageSender(msg)}</span>
                             <span>•</span>
                             <span>{formatTime(msg.timestamp)}</span>
+                            {msg.senderType === 'customer' && <DeliveryStatus message={msg} readerType="agent" />}
                           </div>
                         </div>
                       </div>
                     )}
                   </div>
                 ))}
+                {pendingMessages.map(entry => (
+                  <div
+                    key={entry.clientMessageId}
+                    className="flex items-start space-x-2 flex-row-reverse space-x-reverse"
+                    data-testid={`pending-message-${entry.clientMessageId}`}
+                  >
+                    <Avatar className="w-6 h-6">
+                      <AvatarFallback className="text-xs">{customerInfo.name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div className="max-w-xs ml-auto">
+                      <div className={cn(
+                        "rounded-lg p-3 bg-primary text-primary-foreground rounded-tr-sm",
+                        entry.status === 'sending' && "opacity-70"
+                      )}>
+                        <p className="text-sm">{entry.content}</p>
+                      </div>
+                      <div className="flex justify-end mt-1 text-xs text-muted-foreground">
+                        <PendingStatus entry={entry} onRetry={retryMessage} onDiscard={discardMessage} />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {showSurvey && currentSessionId && customerToken && (
+              <div className="border-t border-border" data-testid="panel-survey">
+                <PostChatSurvey
+                  sessionId={currentSessionId}
+                  customerToken={customerToken}
+                  config={survey.config}
+                  submitted={survey.status === 'submitted'}
+                  onSubmitted={() => queryClient.invalidateQueries({ queryKey: surveyKey })}
+                />
               </div>
             )}
 
-            {/* Input (only show if chat is started) */}
-            {isInfoCollected && (
+            {chatEnded && !showSurvey && (
+              <p className="p-4 border-t border-border text-xs text-muted-foreground text-center" data-testid="text-chat-ended">
+                This chat has ended.
+              </p>
+            )}
+
+            {/* Input (only show while the chat is running) */}
+            {isInfoCollected && !chatEnded && (
               <div className="p-4 border-t border-border">
                 <form onSubmit={handleSendMessage} className="flex space-x-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!isConnected || uploadMutation.isPending}
+                    data-testid="button-customer-attach"
+                  >
+                    {uploadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={attachmentMimeTypes.join(',')}
+                    className="hidden"
+                    onChange={handleFileSelected}
+                    data-testid="input-customer-attachment"
+                  />
                   <Input
                     placeholder="Type a message..."
                     value={message}
                     onChange={(e) => setMessage(e.target.value)}
+                    onPaste={handlePaste}
                     className="flex-1"
-                    disabled={!isConnected}
                     data-testid="input-customer-message"
                   />
                   <Button 
                     type="submit"
                     size="icon"
-                    disabled={!message.trim() || !isConnected}
+                    disabled={!message.trim()}
                     data-testid="button-send-customer-message"
                   >
                     <Send className="h-4 w-4" />
                   </Button>
                 </form>
+                {uploadError && (
+                  <p className="text-xs text-destructive mt-1" data-testid="text-upload-error">
+                    {uploadError}
+                  </p>
+                )}
                 {!isConnected && (
-                  <p className="text-xs text-muted-foreground mt-1 text-center">
-                    Connecting to support...
+                  <p className="text-xs text-muted-foreground mt-1 text-center" data-testid="text-reconnecting">
+                    Reconnecting… messages you send will be delivered once you are back online.
                   </p>
                 )}
               </div>
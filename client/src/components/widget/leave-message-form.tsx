@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, Mail } from "lucide-react";
+import type { CreateTicket } from "@shared/schema";
+
+interface LeaveMessageFormProps {
+  customerName: string;
+  customerEmail: string;
+  topic: string;
+  onRetryChat: () => void;
+  onRequestCallback: () => void;
+}
+
+// Shown in the widget instead of a chat when nobody is online to take one
+export default function LeaveMessageForm({ customerName, customerEmail, topic, onRetryChat, onRequestCallback }: LeaveMessageFormProps) {
+  const [message, setMessage] = useState('');
+
+  const sendMutation = useMutation({
+    mutationFn: async (ticket: CreateTicket) => {
+      const response = await apiRequest('POST', '/api/tickets', ticket);
+      return response.json() as Promise<{ id: string }>;
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+    sendMutation.mutate({ customerName, customerEmail, topic, message: message.trim() });
+  };
+
+  if (sendMutation.isSuccess) {
+    return (
+      <div className="flex-1 p-4 flex flex-col items-center justify-center text-center space-y-2" data-testid="message-left">
+        <CheckCircle className="h-8 w-8 text-primary" />
+        <p className="text-sm font-medium text-foreground">Thanks, we've got your message</p>
+        <p className="text-xs text-muted-foreground">
+          We'll reply to {customerEmail} as soon as someone is back.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 p-4 space-y-3 overflow-y-auto" data-testid="form-leave-message">
+      <div className="text-center">
+        <Mail className="h-5 w-5 text-primary mx-auto mb-1" />
+        <h3 className="font-semibold text-foreground text-sm">No one is available to chat right now</h3>
+        <p className="text-xs text-muted-foreground">Leave us a message and we'll reply by email.</p>
+      </div>
+      <Textarea
+        placeholder="How can we help?"
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        maxLength={5000}
+        rows={5}
+        required
+        data-testid="textarea-offline-message"
+      />
+      {sendMutation.error && (
+        <p className="text-xs text-destructive" data-testid="text-offline-message-error">
+          Your message could not be sent. Please try again.
+        </p>
+      )}
+      <Button type="submit" className="w-full" disabled={!message.trim() || sendMutation.isPending} data-testid="button-send-offline-message">
+        Send message
+      </Button>
+      <div className="flex justify-between text-xs">
+        <button type="button" className="text-primary hover:underline" onClick={onRetryChat} data-testid="button-retry-chat">
+          Try chat again
+        </button>
+        <button type="button" className="text-primary hover:underline" onClick={onRequestCallback} data-testid="button-offer-callback">
+          Request a callback instead
+        </button>
+      </div>
+    </form>
+  );
+}
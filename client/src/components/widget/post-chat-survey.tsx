@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Star, ThumbsUp, ThumbsDown, CheckCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SubmitSurvey, SurveyAnswers, SurveyConfig } from "@shared/schema";
+
+interface PostChatSurveyProps {
+  sessionId: string;
+  customerToken: string;
+  config: SurveyConfig;
+  submitted: boolean;
+  onSubmitted: () => void;
+}
+
+function StarRating({ value, onChange, testId }: { value?: number; onChange: (value: number) => void; testId: string }) {
+  return (
+    <div className="flex justify-center space-x-1">
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          aria-label={`${star} star${star > 1 ? 's' : ''}`}
+          data-testid={`${testId}-${star}`}
+        >
+          <Star className={cn("h-6 w-6", value && star <= value ? "fill-warning text-warning" : "text-muted-foreground")} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function PostChatSurvey({ sessionId, customerToken, config, submitted, onSubmitted }: PostChatSurveyProps) {
+  const [rating, setRating] = useState<number | undefined>();
+  const [comment, setComment] = useState('');
+  const [answers, setAnswers] = useState<SurveyAnswers>({});
+
+  const submitMutation = useMutation({
+    mutationFn: async (survey: SubmitSurvey) => {
+      const response = await fetch(`/api/chat/sessions/${sessionId}/survey`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Chat-Token': customerToken },
+        body: JSON.stringify(survey)
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    onSuccess: onSubmitted,
+    // Someone already answered for this chat, so there is nothing left to ask
+    onError: (error: Error) => {
+      if (error.message === 'Survey already submitted') onSubmitted();
+    }
+  });
+
+  const setAnswer = (id: string, value: SurveyAnswers[string]) => {
+    setAnswers(current => ({ ...current, [id]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating) return;
+    const filled = Object.fromEntries(Object.entries(answers).filter(([, value]) => value !== ''));
+    submitMutation.mutate({ rating, comment: comment.trim() || undefined, answers: filled });
+  };
+
+  if (submitted) {
+    return (
+      <div className="p-4 text-center space-y-2" data-testid="survey-thanks">
+        <CheckCircle className="h-8 w-8 mx-auto text-primary" />
+        <p className="text-sm font-medium text-foreground">Thanks for your feedback!</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 space-y-3" data-testid="form-survey">
+      <p className="text-sm font-medium text-foreground text-center">How did we do?</p>
+
+      {config.scale === 'thumbs' ? (
+        <div className="flex justify-center space-x-3">
+          <Button
+            type="button"
+            variant={rating === 5 ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => setRating(5)}
+            data-testid="button-survey-thumbs-up"
+          >
+            <ThumbsUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant={rating === 1 ? 'destructive' : 'outline'}
+            size="icon"
+            onClick={() => setRating(1)}
+            data-testid="button-survey-thumbs-down"
+          >
+            <ThumbsDown className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <StarRating value={rating} onChange={setRating} testId="button-survey-star" />
+      )}
+
+      {config.questions.map(question => (
+        <div key={question.id} className="space-y-1" data-testid={`survey-question-${question.id}`}>
+          <p className="text-xs text-muted-foreground">{question.label}</p>
+          {question.type === 'rating' && (
+            <StarRating
+              value={answers[question.id] as number | undefined}
+              onChange={value => setAnswer(question.id, value)}
+              testId={`button-survey-${question.id}`}
+            />
+          )}
+          {question.type === 'yes_no' && (
+            <div className="flex space-x-2">
+              {[true, false].map(value => (
+                <Button
+                  key={String(value)}
+                  type="button"
+                  size="sm"
+                  variant={answers[question.id] === value ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setAnswer(question.id, value)}
+                  data-testid={`button-survey-${question.id}-${value ? 'yes' : 'no'}`}
+                >
+                  {value ? 'Yes' : 'No'}
+                </Button>
+              ))}
+            </div>
+          )}
+          {question.type === 'text' && (
+            <Input
+              value={(answers[question.id] as string | undefined) ?? ''}
+              onChange={e => setAnswer(question.id, e.target.value)}
+              maxLength={1000}
+              data-testid={`input-survey-${question.id}`}
+            />
+          )}
+        </div>
+      ))}
+
+      {config.allowComment && (
+        <Textarea
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          placeholder="Tell us more (optional)"
+          rows={2}
+          maxLength={2000}
+          data-testid="textarea-survey-comment"
+        />
+      )}
+
+      {submitMutation.isError && (
+        <p className="text-xs text-destructive" data-testid="text-survey-error">{submitMutation.error.message}</p>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!rating || submitMutation.isPending}
+        data-testid="button-submit-survey"
+      >
+        {submitMutation.isPending ? 'Sending...' : 'Send feedback'}
+      </Button>
+    </form>
+  );
+}
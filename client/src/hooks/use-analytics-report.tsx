@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import type { AnalyticsRange } from "@shared/schema";
+
+export interface ReportParams {
+  days: number;
+  interval: AnalyticsRange['interval'];
+  timeZone: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Loads one of the GET /api/analytics reports for the last `days` days. The
+ * range is worked out when the request is made, so it always ends now, and the
+ * report is reloaded every time the tab is opened.
+ */
+export function useAnalyticsReport<T>(path: string, params: ReportParams, extra: Record<string, string> = {}, enabled = true) {
+  return useQuery<T>({
+    queryKey: [path, params, extra],
+    enabled,
+    refetchOnMount: 'always',
+    queryFn: async () => {
+      const to = new Date();
+      const from = new Date(to.getTime() - params.days * DAY_MS);
+      const search = new URLSearchParams({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        interval: params.interval,
+        timeZone: params.timeZone,
+        ...extra
+      });
+      const res = await fetch(`${path}?${search}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    }
+  });
+}
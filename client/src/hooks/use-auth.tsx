@@ -0,0 +1,78 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@shared/schema";
+
+export type AuthUser = Omit<User, 'password'>;
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ user: AuthUser } | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      const { user } = await response.json();
+      return user as AuthUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['/api/auth/me'], { user });
+    },
+    onError: () => {
+      toast({ title: "Login failed", description: "Invalid username or password", variant: "destructive" });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/auth/me'], null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== '/api/auth/me' });
+    },
+    onError: () => {
+      toast({ title: "Failed to log out", variant: "destructive" });
+    }
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: data?.user ?? null,
+        isLoading,
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
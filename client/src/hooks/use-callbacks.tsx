@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CallbackListQuery, CallbackWithDetails } from "@shared/schema";
+
+export const callbacksKey = ['/api/callbacks'];
+
+/** Scheduled callbacks in one of the GET /api/callbacks scopes; invalidate callbacksKey to reload them all. */
+export function useCallbacks(scope: CallbackListQuery['scope'], enabled = true) {
+  return useQuery<CallbackWithDetails[]>({
+    queryKey: [...callbacksKey, scope],
+    enabled,
+    queryFn: async () => {
+      const res = await fetch(`/api/callbacks?${new URLSearchParams({ scope, status: 'scheduled' })}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    }
+  });
+}
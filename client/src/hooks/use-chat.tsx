@@ -1,24 +1,127 @@
-import { useEffect, useCallback, useState } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import { useWebSocket } from './use-websocket';
-import type { WSMessage } from '@shared/schema';
+import { addNote, applyReadReceipt, lastCachedMessageId, mergeMessages, setSopSuggestions } from '@/lib/chat-cache';
+import { outbox, useOutbox, type OutboxEntry } from '@/lib/outbox';
+import type { WrapUp, WSMessage } from '@shared/schema';
 
-export function useChat(sessionId: string, userId?: string, userType: 'customer' | 'agent' = 'customer') {
-  const { isConnected, sendMessage, lastMessage } = useWebSocket('/ws');
+// A sent message with no ack after this long is shown as failed
+const ACK_TIMEOUT_MS = 10000;
+
+// How a supervisor takes part: silently ("monitor") or as a visible participant ("barge_in")
+export type SupervisorJoinMode = 'monitor' | 'barge_in';
+
+/**
+ * Staff sockets are authenticated by their login cookie; customers must pass the
+ * token returned by `POST /api/chat/start`. The server derives who is speaking
+ * from that, so userType on outgoing frames is informational only.
+ */
+export function useChat(
+  sessionId: string,
+  userType: 'customer' | 'agent' = 'customer',
+  customerToken?: string | null,
+  joinMode?: SupervisorJoinMode
+) {
+  const wsPath = userType === 'agent'
+    ? '/ws'
+    : customerToken ? `/ws?token=${encodeURIComponent(customerToken)}` : null;
+  const ackTimers = useRef(new Map<string, NodeJS.Timeout>());
+  const settle = (clientMessageId: string) => {
+    clearTimeout(ackTimers.current.get(clientMessageId));
+    ackTimers.current.delete(clientMessageId);
+  };
+
+  const { isConnected, sendMessage, lastMessage } = useWebSocket(wsPath, (message) => {
+    if (!sessionId || message.sessionId !== sessionId) return;
+
+    switch (message.type) {
+      case 'chat_message':
+        mergeMessages(sessionId, [message.data]);
+        // Our own broadcast usually beats the ack; either one settles the outbox entry
+        if (message.data.clientMessageId) {
+          settle(message.data.clientMessageId);
+          outbox.remove(message.data.clientMessageId);
+        }
+        break;
+      case 'message_ack':
+        settle(message.data.clientMessageId);
+        outbox.remove(message.data.clientMessageId);
+        mergeMessages(sessionId, [message.data.message]);
+        break;
+      case 'resync':
+        mergeMessages(sessionId, message.data.messages);
+        break;
+      case 'message_read':
+        applyReadReceipt(sessionId, message.data);
+        break;
+      case 'note_created':
+        addNote(sessionId, message.data);
+        break;
+      case 'sop_suggestions':
+        setSopSuggestions(sessionId, message.data);
+        break;
+      case 'error':
+        if (message.data?.clientMessageId) {
+          settle(message.data.clientMessageId);
+          outbox.markFailed(message.data.clientMessageId);
+        }
+        break;
+    }
+  });
+  const pendingMessages = useOutbox(sessionId);
+
+  // Barging in changes how we take part without rejoining; a reconnect rejoins in the current mode
+  const [activeJoinMode, setActiveJoinMode] = useState(joinMode);
+  const joinModeRef = useRef(joinMode);
+  useEffect(() => {
+    joinModeRef.current = joinMode;
+    setActiveJoinMode(joinMode);
+  }, [sessionId, joinMode]);
   const [isTyping, setIsTyping] = useState(false);
   const [remoteTyping, setRemoteTyping] = useState(false);
-  
-  // Join session when connected
+  const [lastError, setLastError] = useState<WSMessage['data'] | null>(null);
+
+  // Hands an outbox entry to the socket. While disconnected it simply stays "sending"
+  // and goes out with the next flush.
+  const deliver = useCallback((entry: OutboxEntry) => {
+    const sent = sendMessage({
+      type: entry.whisper ? 'whisper' : 'chat_message',
+      sessionId: entry.sessionId,
+      userType,
+      data: { content: entry.content, clientMessageId: entry.clientMessageId, sopId: entry.sopId }
+    });
+    if (!sent) return;
+
+    settle(entry.clientMessageId);
+    ackTimers.current.set(entry.clientMessageId, setTimeout(() => {
+      ackTimers.current.delete(entry.clientMessageId);
+      if (outbox.get(entry.clientMessageId)?.status === 'sending') {
+        outbox.markFailed(entry.clientMessageId);
+      }
+    }, ACK_TIMEOUT_MS));
+  }, [userType, sendMessage]);
+
+  // Join session when connected; after a reconnect the server replays what we missed
+  // as a resync frame, and anything still in the outbox is sent again. The server
+  // drops repeats by clientMessageId, so resending one that did arrive is harmless.
   useEffect(() => {
     if (isConnected && sessionId) {
       const joinMessage: WSMessage = {
         type: 'join_session',
         sessionId,
-        userId: userId || `${userType}-${Date.now()}`,
-        userType
+        userType,
+        data: { afterMessageId: lastCachedMessageId(sessionId), mode: joinModeRef.current }
       };
       sendMessage(joinMessage);
+      outbox.pending(sessionId).forEach(deliver);
     }
-  }, [isConnected, sessionId, userId, userType, sendMessage]);
+  }, [isConnected, sessionId, userType, joinMode, sendMessage, deliver]);
+
+  // Acks cannot arrive over a dead socket; leave those messages queued for the next flush
+  useEffect(() => {
+    if (isConnected) return;
+    ackTimers.current.forEach(timer => clearTimeout(timer));
+    ackTimers.current.clear();
+  }, [isConnected]);
 
   // Handle incoming messages
   useEffect(() => {
@@ -44,26 +147,71 @@ export function useChat(sessionId: string, userId?: string, userType: 'customer'
           // Handle session end notifications
           console.log('Session ended:', lastMessage.data);
           break;
+        case 'error':
+          console.warn('WebSocket request rejected:', lastMessage.data);
+          setLastError(lastMessage.data);
+          break;
       }
     }
   }, [lastMessage, userType]);
 
-  const sendChatMessage = useCallback((content: string, senderName?: string) => {
+  // Queues the message first, so it survives a dropped connection or a reload
+  const sendChatMessage = useCallback((content: string, sopId?: string) => {
+    if (!sessionId) return false;
+
+    deliver(outbox.add({ clientMessageId: crypto.randomUUID(), sessionId, content, sopId }));
+    return true;
+  }, [sessionId, deliver]);
+
+  const sendWhisper = useCallback((content: string) => {
+    if (!sessionId) return false;
+
+    deliver(outbox.add({ clientMessageId: crypto.randomUUID(), sessionId, content, whisper: true }));
+    return true;
+  }, [sessionId, deliver]);
+
+  // Turns a silent monitor into a visible participant; the server announces it to the customer
+  const bargeIn = useCallback(() => {
     if (!sessionId || !isConnected) return false;
+    if (!sendMessage({ type: 'barge_in', sessionId, userType })) return false;
 
-    const message: WSMessage = {
-      type: 'chat_message',
-      sessionId,
-      userId: userId || `${userType}-${Date.now()}`,
-      userType,
-      data: {
-        content,
-        senderName: senderName || (userType === 'customer' ? 'Customer' : 'Agent')
-      }
-    };
+    joinModeRef.current = 'barge_in';
+    setActiveJoinMode('barge_in');
+    return true;
+  }, [sessionId, isConnected, userType, sendMessage]);
 
-    return sendMessage(message);
-  }, [sessionId, isConnected, userId, userType, sendMessage]);
+  const retryMessage = useCallback((clientMessageId: string) => {
+    const entry = outbox.get(clientMessageId);
+    if (!entry) return;
+
+    outbox.markSending(clientMessageId);
+    deliver(entry);
+  }, [deliver]);
+
+  const discardMessage = useCallback((clientMessageId: string) => {
+    settle(clientMessageId);
+    outbox.remove(clientMessageId);
+  }, []);
+
+  // Falls back to REST while the socket is down so receipts are not lost
+  const markRead = useCallback((upToMessageId: string) => {
+    if (!sessionId) return false;
+
+    if (isConnected) {
+      return sendMessage({ type: 'message_read', sessionId, userType, data: { upToMessageId } });
+    }
+
+    fetch(`/api/chat/sessions/${sessionId}/read`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(customerToken ? { 'X-Chat-Token': customerToken } : {})
+      },
+      body: JSON.stringify({ upToMessageId }),
+      credentials: 'include'
+    }).catch((error) => console.error('Error sending read receipt:', error));
+    return true;
+  }, [sessionId, isConnected, userType, customerToken, sendMessage]);
 
   const sendTypingIndicator = useCallback((typing: boolean) => {
     if (!sessionId || !isConnected) return false;
@@ -73,13 +221,12 @@ export function useChat(sessionId: string, userId?: string, userType: 'customer'
     const message: WSMessage = {
       type: userType === 'customer' ? 'customer_typing' : 'agent_typing',
       sessionId,
-      userId: userId || `${userType}-${Date.now()}`,
       userType,
       data: { typing }
     };
 
     return sendMessage(message);
-  }, [sessionId, isConnected, userId, userType, sendMessage]);
+  }, [sessionId, isConnected, userType, sendMessage]);
 
   const transferSession = useCallback((newAgentId: string, reason?: string) => {
     if (!sessionId || !isConnected || userType !== 'agent') return false;
@@ -87,7 +234,6 @@ export function useChat(sessionId: string, userId?: string, userType: 'customer'
     const message: WSMessage = {
       type: 'session_transfer',
       sessionId,
-      userId: userId || `${userType}-${Date.now()}`,
       userType,
       data: {
         newAgentId,
@@ -96,24 +242,24 @@ export function useChat(sessionId: string, userId?: string, userType: 'customer'
     };
 
     return sendMessage(message);
-  }, [sessionId, isConnected, userId, userType, sendMessage]);
+  }, [sessionId, isConnected, userType, sendMessage]);
 
-  const endSession = useCallback((reason?: string) => {
+  // The server rejects this without a disposition when wrap-up is required
+  const endSession = useCallback((wrapUp?: Partial<WrapUp>) => {
     if (!sessionId || !isConnected) return false;
 
     const message: WSMessage = {
       type: 'session_ended',
       sessionId,
-      userId: userId || `${userType}-${Date.now()}`,
       userType,
       data: {
-        reason: reason || 'Session ended',
-        endedBy: userId || userType
+        ...wrapUp,
+        endedBy: userType
       }
     };
 
     return sendMessage(message);
-  }, [sessionId, isConnected, userId, userType, sendMessage]);
+  }, [sessionId, isConnected, userType, sendMessage]);
 
   const leaveSession = useCallback(() => {
     if (!sessionId || !isConnected) return false;
@@ -121,22 +267,29 @@ export function useChat(sessionId: string, userId?: string, userType: 'customer'
     const message: WSMessage = {
       type: 'leave_session',
       sessionId,
-      userId: userId || `${userType}-${Date.now()}`,
       userType
     };
 
     return sendMessage(message);
-  }, [sessionId, isConnected, userId, userType, sendMessage]);
+  }, [sessionId, isConnected, userType, sendMessage]);
 
   return {
     isConnected,
     isTyping,
     remoteTyping,
     sendChatMessage,
+    sendWhisper,
+    bargeIn,
+    joinMode: activeJoinMode,
+    pendingMessages,
+    retryMessage,
+    discardMessage,
+    markRead,
     sendTypingIndicator,
     transferSession,
     endSession,
     leaveSession,
-    lastMessage
+    lastMessage,
+    lastError
   };
 }
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import type { WSMessage } from '@shared/schema';
+
+const HEARTBEAT_INTERVAL = 30000;
+
+/**
+ * Keeps the agent's presence alive on the server: sends a heartbeat every 30s
+ * saying whether the agent touched the keyboard or mouse since the last one,
+ * which is what drives auto-away.
+ */
+export function usePresenceHeartbeat(isConnected: boolean, sendMessage: (message: WSMessage) => boolean) {
+  const activeRef = useRef(true);
+
+  useEffect(() => {
+    const markActive = () => {
+      activeRef.current = true;
+    };
+
+    window.addEventListener('mousemove', markActive);
+    window.addEventListener('keydown', markActive);
+    return () => {
+      window.removeEventListener('mousemove', markActive);
+      window.removeEventListener('keydown', markActive);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const beat = () => {
+      sendMessage({ type: 'heartbeat', data: { active: activeRef.current } });
+      activeRef.current = false;
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isConnected, sendMessage]);
+}
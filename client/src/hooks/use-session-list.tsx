@@ -0,0 +1,31 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { sessionListKey, sessionListUrl, type SessionListParams } from "@/lib/chat-cache";
+import type { SessionListPage } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+/**
+ * Pages through GET /api/chat/sessions. Loaded pages stay current through
+ * `session_updated` pushes (see upsertSession), so they are never refetched
+ * on their own.
+ */
+export function useSessionList(params: SessionListParams, { pageSize = PAGE_SIZE, enabled = true } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: sessionListKey(params),
+    enabled,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }): Promise<SessionListPage> => {
+      const res = await fetch(sessionListUrl(params, pageParam, pageSize), { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  return {
+    ...query,
+    sessions: query.data?.pages.flatMap(page => page.sessions) ?? [],
+  };
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { OfflineTicketWithCustomer, TicketStatus } from "@shared/schema";
+
+export const ticketsKey = ['/api/tickets'];
+
+/** Offline tickets, newest first, optionally in one status; invalidate ticketsKey to reload them all. */
+export function useTickets(status?: TicketStatus) {
+  return useQuery<OfflineTicketWithCustomer[]>({
+    queryKey: [...ticketsKey, { status }],
+    queryFn: async () => {
+      const params = new URLSearchParams(status ? { status } : {});
+      const res = await fetch(`/api/tickets?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    }
+  });
+}
@@ -1,15 +1,28 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import type { WSMessage } from '@shared/schema';
 
-export function useWebSocket(path: string) {
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Exponential backoff with full jitter, so a server restart is not met by every client at once
+function reconnectDelay(attempt: number) {
+  return Math.round(Math.random() * Math.min(1000 * Math.pow(2, attempt), MAX_RECONNECT_DELAY_MS));
+}
+
+// Pass a null path to hold off connecting (e.g. until a customer token is available).
+// `lastMessage` is React state, so frames arriving between renders can be skipped;
+// anything that must see every frame (cache updates) should use `onMessage`.
+export function useWebSocket(path: string | null, onMessage?: (message: WSMessage) => void) {
   const [isConnected, setIsConnected] = useState(false);
   const [lastMessage, setLastMessage] = useState<WSMessage | null>(null);
   const socketRef = useRef<WebSocket | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 5;
 
   const connect = useCallback(() => {
+    if (!path) return;
+
     try {
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
       const wsUrl = `${protocol}//${window.location.host}${path}`;
@@ -26,6 +39,7 @@ export function useWebSocket(path: string) {
       socket.onmessage = (event) => {
         try {
           const message: WSMessage = JSON.parse(event.data);
+          onMessageRef.current?.(message);
           setLastMessage(message);
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
@@ -37,9 +51,9 @@ export function useWebSocket(path: string) {
         setIsConnected(false);
         socketRef.current = null;
 
-        // Attempt to reconnect if not a clean close and we haven't exceeded max attempts
-        if (event.code !== 1000 && reconnectAttempts.current < maxReconnectAttempts) {
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
+        // Keep trying for as long as the page is open unless we closed the socket ourselves
+        if (event.code !== 1000) {
+          const delay = reconnectDelay(reconnectAttempts.current);
           console.log(`Attempting to reconnect in ${delay}ms...`);
           
           reconnectTimeoutRef.current = setTimeout(() => {
@@ -0,0 +1,66 @@
+import {
+  MAX_ATTACHMENT_BYTES,
+  attachmentMimeTypes,
+  imageMimeTypes,
+  type Attachment,
+  type MessageWithAttachments,
+} from "@shared/schema";
+
+// Same limits the server enforces, checked up front so the user gets a clear message
+export function validateAttachment(file: File): string | null {
+  if (!(attachmentMimeTypes as readonly string[]).includes(file.type)) {
+    return "Only images, PDFs, text, CSV, Word and Excel files can be attached.";
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `Files may be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`;
+  }
+  return null;
+}
+
+export function isImageAttachment(attachment: Attachment): boolean {
+  return (imageMimeTypes as readonly string[]).includes(attachment.mimeType);
+}
+
+// Customers authenticate links with their chat token since <img> and <a> cannot send headers
+export function attachmentUrl(
+  sessionId: string,
+  attachment: Attachment,
+  variant: "file" | "thumbnail" = "file",
+  customerToken?: string | null,
+): string {
+  const url = `/api/chat/sessions/${sessionId}/attachments/${attachment.id}/${variant}`;
+  return customerToken ? `${url}?token=${encodeURIComponent(customerToken)}` : url;
+}
+
+// File messages default their text to the file name; only show it when the sender wrote a caption
+export function hasCaption(message: MessageWithAttachments): boolean {
+  return message.messageType !== "file" || !message.attachments?.some(a => a.fileName === message.content);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function uploadAttachment(
+  sessionId: string,
+  file: File,
+  customerToken?: string | null,
+): Promise<MessageWithAttachments> {
+  const body = new FormData();
+  body.append("file", file);
+
+  const response = await fetch(`/api/chat/sessions/${sessionId}/attachments`, {
+    method: "POST",
+    body,
+    headers: customerToken ? { "X-Chat-Token": customerToken } : {},
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
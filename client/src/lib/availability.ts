@@ -0,0 +1,30 @@
+import type { Availability } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "5:00 PM" today, "Mon 9:00 AM" within the week, "Mon 5 Jan, 9:00 AM" beyond, in the browser's time zone
+export function formatOpeningTime(iso: string, now = new Date()): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === now.toDateString()) return time;
+  if (date.getTime() - now.getTime() < 6 * DAY_MS) {
+    return `${date.toLocaleDateString(undefined, { weekday: 'short' })} ${time}`;
+  }
+  return `${date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}, ${time}`;
+}
+
+// Whether starting a chat now would reach someone; until we know, let the server decide
+export function offersLiveChat(availability?: Availability): boolean {
+  return !availability || (availability.open && availability.agentsAvailable);
+}
+
+// The widget's status line before a chat starts
+export function availabilityStatus(availability?: Availability): string {
+  if (!availability) return 'Checking availability…';
+  if (!availability.open) {
+    const closed = availability.holiday ? `Closed for ${availability.holiday}` : "We're closed";
+    return availability.opensAt ? `${closed} • Opens ${formatOpeningTime(availability.opensAt)}` : `${closed} • Leave a message`;
+  }
+  if (!availability.agentsAvailable) return "We're away • Leave a message";
+  return availability.closesAt ? `We're online • Open until ${formatOpeningTime(availability.closesAt)}` : "We're online";
+}
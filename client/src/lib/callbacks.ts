@@ -0,0 +1,52 @@
+// Dates arrive from the API as ISO strings
+type CallbackWindow = { windowStart: Date | string; windowEnd: Date | string };
+
+// How long the customer should keep their phone at hand, in minutes
+export const CALLBACK_WINDOW_OPTIONS = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+] as const;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Values for <input type="date"> and <input type="time">, in the browser's time zone
+export function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function toTimeInput(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// The next quarter hour that is at least 15 minutes away
+export function defaultCallbackStart(now = new Date()): Date {
+  const start = new Date(now.getTime() + 15 * 60 * 1000);
+  start.setMinutes(Math.ceil(start.getMinutes() / 15) * 15, 0, 0);
+  return start;
+}
+
+export function callbackWindow(date: string, time: string, minutes: number): { windowStart: Date; windowEnd: Date } | null {
+  const windowStart = new Date(`${date}T${time}`);
+  if (Number.isNaN(windowStart.getTime())) return null;
+  return { windowStart, windowEnd: new Date(windowStart.getTime() + minutes * 60 * 1000) };
+}
+
+// "Tue 14 Oct, 2:00 PM – 3:00 PM"
+export function formatCallbackWindow(callback: CallbackWindow): string {
+  const start = new Date(callback.windowStart);
+  const end = new Date(callback.windowEnd);
+  const day = start.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (date: Date) => date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  const sameDay = start.toDateString() === end.toDateString();
+  return `${day}, ${time(start)} – ${sameDay ? '' : `${end.toLocaleDateString(undefined, { weekday: 'short' })} `}${time(end)}`;
+}
+
+export type CallbackTiming = 'upcoming' | 'due' | 'overdue';
+
+export function callbackTiming(callback: CallbackWindow, now = Date.now()): CallbackTiming {
+  if (new Date(callback.windowEnd).getTime() <= now) return 'overdue';
+  if (new Date(callback.windowStart).getTime() <= now) return 'due';
+  return 'upcoming';
+}
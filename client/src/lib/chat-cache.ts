@@ -0,0 +1,166 @@
+import type { InfiniteData } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+import {
+  openSessionStatuses,
+  type InternalNoteWithAuthor,
+  type MessageWithAttachments,
+  type ReadReceipt,
+  type SessionListItem,
+  type SessionListPage,
+  type SessionListSort,
+  type SopSuggestions,
+} from "@shared/schema";
+
+// Writers for the React Query caches that WebSocket events keep up to date
+
+// Query string of GET /api/chat/sessions; see sessionListQuerySchema
+export interface SessionListParams {
+  status?: string; // comma-separated, or "all"; defaults to open sessions
+  role?: string;
+  agentId?: string;
+  customerId?: string;
+  tag?: string;
+  disposition?: string;
+  search?: string;
+  sort?: SessionListSort;
+}
+
+type SessionListData = InfiniteData<SessionListPage, string | null>;
+// Pushed sessions carry no unread count; that is per agent and kept here
+type PushedSession = Omit<SessionListItem, 'unreadCount'> & { unreadCount?: number };
+
+export const messagesKey = (sessionId: string) => ['/api/chat/sessions', sessionId, 'messages'];
+export const notesKey = (sessionId: string) => ['/api/chat/sessions', sessionId, 'notes'];
+export const sopSuggestionsKey = (sessionId: string) => ['/api/chat/sessions', sessionId, 'sop-suggestions'];
+export const customerNotesKey = (customerId: string) => ['/api/customers', customerId, 'notes'];
+export const sessionListsKey = ['/api/chat/sessions', 'list'];
+export const sessionListKey = (params: SessionListParams) => [...sessionListsKey, params];
+
+export function sessionListUrl(params: SessionListParams, cursor: string | null, limit: number) {
+  const query = new URLSearchParams({ limit: String(limit) });
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  if (cursor) query.set('cursor', cursor);
+  return `/api/chat/sessions?${query}`;
+}
+
+/** Adds new or replaces known messages (by id), keeping the list in send order. */
+export function mergeMessages(sessionId: string, incoming: MessageWithAttachments[]) {
+  if (incoming.length === 0) return;
+
+  queryClient.setQueryData<MessageWithAttachments[]>(messagesKey(sessionId), (current) => {
+    // Nothing fetched yet: the initial query will return these anyway
+    if (!current) return current;
+
+    const byId = new Map(current.map(message => [message.id, message]));
+    incoming.forEach(message => byId.set(message.id, { ...byId.get(message.id), ...message }));
+    return Array.from(byId.values()).sort((a, b) =>
+      new Date(a.timestamp ?? 0).getTime() - new Date(b.timestamp ?? 0).getTime()
+    );
+  });
+}
+
+/** Adds a pushed note to the chat's notes, and to the customer's when it is pinned. */
+export function addNote(sessionId: string, note: InternalNoteWithAuthor) {
+  const append = (current?: InternalNoteWithAuthor[]) =>
+    current && !current.some(n => n.id === note.id) ? [...current, note] : current;
+
+  queryClient.setQueryData<InternalNoteWithAuthor[]>(notesKey(sessionId), append);
+  if (note.customerId) {
+    queryClient.setQueryData<InternalNoteWithAuthor[]>(customerNotesKey(note.customerId), append);
+  }
+}
+
+export function setSopSuggestions(sessionId: string, suggestions: SopSuggestions) {
+  queryClient.setQueryData<SopSuggestions>(sopSuggestionsKey(sessionId), suggestions);
+}
+
+export function applyReadReceipt(sessionId: string, receipt: ReadReceipt & { messageIds: string[] }) {
+  const { messageIds, ...entry } = receipt;
+
+  queryClient.setQueryData<MessageWithAttachments[]>(messagesKey(sessionId), (current) =>
+    current?.map(message =>
+      messageIds.includes(message.id)
+        ? { ...message, readBy: [...(message.readBy ?? []), entry] }
+        : message
+    )
+  );
+}
+
+export function lastCachedMessageId(sessionId: string): string | undefined {
+  const messages = queryClient.getQueryData<MessageWithAttachments[]>(messagesKey(sessionId));
+  return messages?.[messages.length - 1]?.id;
+}
+
+// Mirrors the server's filtering, so pushed sessions land only in the lists that would return them
+function matchesParams(session: PushedSession, params: SessionListParams): boolean {
+  const statuses = params.status === 'all' ? null : params.status?.split(',') ?? openSessionStatuses;
+  const search = params.search?.toLowerCase();
+
+  return (!statuses || statuses.includes(session.status ?? '')) &&
+    (!params.role || session.agent?.role === params.role) &&
+    (!params.agentId || session.agentId === params.agentId) &&
+    (!params.customerId || session.customerId === params.customerId) &&
+    (!params.tag || (session.tags ?? []).includes(params.tag)) &&
+    (!params.disposition || session.disposition === params.disposition) &&
+    (!search || [session.customer?.name, session.customer?.email, session.lastMessage?.content]
+      .some(field => field?.toLowerCase().includes(search)));
+}
+
+function updateSessionList(data: SessionListData, params: SessionListParams, session: PushedSession, countUnread: boolean): SessionListData {
+  const existing = data.pages.flatMap(page => page.sessions).find(s => s.id === session.id);
+  const without = data.pages.map(page => ({ ...page, sessions: page.sessions.filter(s => s.id !== session.id) }));
+  if (!matchesParams(session, params)) {
+    return existing ? { ...data, pages: without } : data;
+  }
+
+  const isNewCustomerMessage = session.lastMessage?.senderType === 'customer' &&
+    session.lastMessage.id !== existing?.lastMessage?.id;
+  const updated: SessionListItem = {
+    ...session,
+    unreadCount: (existing?.unreadCount ?? 0) + (isNewCustomerMessage && countUnread ? 1 : 0)
+  };
+
+  // Known chats keep their place unless the list is ordered by activity; new ones
+  // appear at the top, or at the end once every page is loaded when the oldest come first
+  if (existing && (params.sort ?? 'newest') !== 'recent_activity') {
+    return {
+      ...data,
+      pages: data.pages.map(page => ({ ...page, sessions: page.sessions.map(s => s.id === session.id ? updated : s) }))
+    };
+  }
+  if (params.sort === 'oldest') {
+    const last = data.pages.length - 1;
+    if (last < 0 || data.pages[last].nextCursor) return data;
+    return {
+      ...data,
+      pages: data.pages.map((page, index) => index === last ? { ...page, sessions: [...page.sessions, updated] } : page)
+    };
+  }
+  return {
+    ...data,
+    pages: without.map((page, index) => index === 0 ? { ...page, sessions: [updated, ...page.sessions] } : page)
+  };
+}
+
+/**
+ * Applies a `session_updated` event to every loaded session list. A new customer
+ * message bumps the unread count unless the agent is looking at that chat.
+ */
+export function upsertSession(session: PushedSession, { countUnread }: { countUnread: boolean }) {
+  queryClient.getQueriesData<SessionListData>({ queryKey: sessionListsKey }).forEach(([key, data]) => {
+    if (!data) return;
+    queryClient.setQueryData(key, updateSessionList(data, key[2] as SessionListParams, session, countUnread));
+  });
+}
+
+export function clearUnread(sessionId: string) {
+  queryClient.setQueriesData<SessionListData>({ queryKey: sessionListsKey }, (data) => data && {
+    ...data,
+    pages: data.pages.map(page => ({
+      ...page,
+      sessions: page.sessions.map(s => s.sessionId === sessionId ? { ...s, unreadCount: 0 } : s)
+    }))
+  });
+}
@@ -0,0 +1,87 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+// Chat messages the server has not acknowledged yet. Kept in localStorage so a
+// reload or a dropped connection does not lose what the user typed; the chat
+// hook resends everything still "sending" once it has rejoined the session.
+
+export interface OutboxEntry {
+  clientMessageId: string;
+  sessionId: string;
+  content: string;
+  whisper?: boolean; // supervisor note to the agent, sent as a "whisper" frame
+  sopId?: string; // SOP the agent's reply is based on, see messages.sopCitation
+  status: 'sending' | 'failed';
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'chat-outbox';
+// Older entries belong to chats that are long over
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+let entries: OutboxEntry[] = load();
+const listeners = new Set<() => void>();
+
+function load(): OutboxEntry[] {
+  try {
+    const stored: OutboxEntry[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return stored.filter(entry => Date.now() - entry.createdAt < MAX_AGE_MS);
+  } catch {
+    return [];
+  }
+}
+
+function commit(next: OutboxEntry[]) {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving outbox:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+function setStatus(clientMessageId: string, status: OutboxEntry['status']) {
+  commit(entries.map(entry => entry.clientMessageId === clientMessageId ? { ...entry, status } : entry));
+}
+
+export const outbox = {
+  add(entry: Omit<OutboxEntry, 'status' | 'createdAt'>): OutboxEntry {
+    const added: OutboxEntry = { ...entry, status: 'sending', createdAt: Date.now() };
+    commit([...entries, added]);
+    return added;
+  },
+
+  get(clientMessageId: string): OutboxEntry | undefined {
+    return entries.find(entry => entry.clientMessageId === clientMessageId);
+  },
+
+  pending(sessionId: string): OutboxEntry[] {
+    return entries.filter(entry => entry.sessionId === sessionId && entry.status === 'sending');
+  },
+
+  markSending(clientMessageId: string) {
+    setStatus(clientMessageId, 'sending');
+  },
+
+  markFailed(clientMessageId: string) {
+    setStatus(clientMessageId, 'failed');
+  },
+
+  remove(clientMessageId: string) {
+    if (!entries.some(entry => entry.clientMessageId === clientMessageId)) return;
+    commit(entries.filter(entry => entry.clientMessageId !== clientMessageId));
+  },
+};
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Unacknowledged messages of one session, oldest first. */
+export function useOutbox(sessionId: string): OutboxEntry[] {
+  const all = useSyncExternalStore(subscribe, () => entries);
+  return useMemo(() => all.filter(entry => entry.sessionId === sessionId), [all, sessionId]);
+}
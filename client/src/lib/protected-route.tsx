@@ -0,0 +1,26 @@
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: () => React.JSX.Element;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen" data-testid="loading-auth">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+}
@@ -1,52 +1,249 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { sessionListsKey, upsertSession, type SessionListParams } from "@/lib/chat-cache";
 import ChatSidebar from "@/components/chat/chat-sidebar";
 import ConversationView from "@/components/chat/conversation-view";
 import SOPModal from "@/components/sop/sop-modal";
 import ExportCenter from "@/components/export/export-center";
+import Wallboard, { type DashboardStats } from "@/components/wallboard/wallboard";
+import { SLA_METRIC_LABELS } from "@/components/chat/sla-badge";
+import AnalyticsDashboard from "@/components/analytics/analytics-dashboard";
+import CallbackQueue from "@/components/callbacks/callback-queue";
+import { useCallbacks, callbacksKey } from "@/hooks/use-callbacks";
+import OfflineInbox from "@/components/tickets/offline-inbox";
+import { useTickets, ticketsKey } from "@/hooks/use-tickets";
+import { callbackTiming, formatCallbackWindow } from "@/lib/callbacks";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { usePresenceHeartbeat } from "@/hooks/use-presence";
+import { useSessionList } from "@/hooks/use-session-list";
 import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Bell, MessageSquare, Book, Download, BarChart3 } from "lucide-react";
-import type { ChatSession } from "@shared/schema";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, MessageSquare, Book, Download, BarChart3, LogOut, LayoutGrid, PhoneCall, Inbox } from "lucide-react";
+import { presenceStates, roleRank, type SlaMetric } from "@shared/schema";
+
+// Every open chat, longest-running first
+const WALLBOARD_PARAMS: SessionListParams = { status: 'waiting,active', sort: 'oldest' };
 
 export default function Dashboard() {
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'conversation' | 'sop' | 'exports' | 'analytics'>('conversation');
-  const [currentUser] = useState({
-    id: 'admin-1',
-    name: 'Sarah Chen',
-    role: 'System Admin',
-    avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=32&h=32&fit=crop&crop=face'
-  });
+  // Set while a supervisor follows a chat they opened from the wallboard
+  const [monitorSessionId, setMonitorSessionId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'conversation' | 'sop' | 'exports' | 'analytics' | 'wallboard' | 'callbacks' | 'tickets'>('conversation');
+  const { user: currentUser, logoutMutation } = useAuth();
+  const isSupervisor = !!currentUser && roleRank(currentUser.role) >= roleRank('team_lead');
+  const { toast } = useToast();
 
-  const { data: stats } = useQuery({
-    queryKey: ['/api/dashboard/stats'],
-    refetchInterval: 5000
+  // Kept current by session_updated / stats_update pushes below rather than polling
+  const { data: stats } = useQuery<DashboardStats>({
+    queryKey: ['/api/dashboard/stats']
   });
 
-  const { data: sessions = [], refetch: refetchSessions } = useQuery({
-    queryKey: ['/api/chat/sessions'],
-    refetchInterval: 2000
-  });
+  const [sessionFilters, setSessionFilters] = useState<SessionListParams>({});
+  const sessionList = useSessionList(sessionFilters);
+  const sessions = sessionList.sessions;
+  const wallboard = useSessionList(WALLBOARD_PARAMS, { pageSize: 100, enabled: isSupervisor });
+  const { data: myCallbacks = [] } = useCallbacks('mine');
+  const dueCallbacks = myCallbacks.filter(callback => callbackTiming(callback) !== 'upcoming').length;
+  const { data: openTickets = [] } = useTickets('open');
 
-  const { sendMessage, lastMessage } = useWebSocket('/ws');
+  const selectedSessionRef = useRef(selectedSessionId);
+  selectedSessionRef.current = selectedSessionId;
+
+  const { sendMessage, isConnected } = useWebSocket('/ws', (message) => {
+    switch (message.type) {
+      case 'session_updated':
+        upsertSession(message.data, { countUnread: message.sessionId !== selectedSessionRef.current });
+        break;
+      case 'stats_update':
+        queryClient.setQueryData(['/api/dashboard/stats'], message.data);
+        break;
+      case 'agent_status':
+        // Presence changes (ours, or our team's when we supervise)
+        if (!message.data?.presence) break;
+        queryClient.setQueryData<{ user: typeof currentUser } | null>(['/api/auth/me'], (current) =>
+          current?.user && current.user.id === message.data.userId
+            ? { user: { ...current.user, presence: message.data.presence } }
+            : current
+        );
+        queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+        break;
+      case 'mention': {
+        // Someone @mentioned us in an internal note, possibly on a chat we are not in
+        const { note, customerName } = message.data;
+        const sessionId = message.sessionId!;
+        toast({
+          title: `${note.authorName} mentioned you`,
+          description: `${customerName}: ${note.content}`,
+          action: (
+            <ToastAction
+              altText="Open chat"
+              onClick={() => {
+                setMonitorSessionId(null);
+                setSelectedSessionId(sessionId);
+                setActiveTab('conversation');
+              }}
+              data-testid="button-open-mention"
+            >
+              Open
+            </ToastAction>
+          )
+        });
+        break;
+      }
+      case 'callback_due': {
+        // Ours, or one nobody has claimed yet
+        const callback = message.data;
+        queryClient.invalidateQueries({ queryKey: callbacksKey });
+        toast({
+          title: callback.agentId ? `Time to call ${callback.customerName} back` : `${callback.customerName} is waiting for a callback`,
+          description: `${formatCallbackWindow(callback)} · ${callback.reason}`,
+          action: (
+            <ToastAction
+              altText="Open callbacks"
+              onClick={() => setActiveTab('callbacks')}
+              data-testid="button-open-callback"
+            >
+              View
+            </ToastAction>
+          )
+        });
+        break;
+      }
+      case 'ticket_created': {
+        // Left in the widget while no one was online
+        const ticket = message.data;
+        queryClient.invalidateQueries({ queryKey: ticketsKey });
+        toast({
+          title: `New offline message from ${ticket.customerName}`,
+          description: ticket.message,
+          action: (
+            <ToastAction
+              altText="Open offline messages"
+              onClick={() => setActiveTab('tickets')}
+              data-testid="button-open-ticket"
+            >
+              View
+            </ToastAction>
+          )
+        });
+        break;
+      }
+      case 'sop_review_requested': {
+        // Only team leads and admins are sent these
+        const { title, version, requestedBy } = message.data;
+        queryClient.invalidateQueries({ queryKey: ['/api/sop'] });
+        toast({
+          title: 'SOP ready for review',
+          description: `${requestedBy} submitted "${title}" v${version} for approval.`,
+          action: (
+            <ToastAction
+              altText="Open SOP library"
+              onClick={() => setActiveTab('sop')}
+              data-testid="button-open-sop-review"
+            >
+              View
+            </ToastAction>
+          )
+        });
+        break;
+      }
+      case 'sla_breach': {
+        // Only team leads and admins are sent these
+        const { metric, customerName } = message.data;
+        const sessionId = message.sessionId!;
+        toast({
+          variant: 'destructive',
+          title: 'SLA breached',
+          description: `Chat with ${customerName ?? 'a customer'} missed its ${(SLA_METRIC_LABELS[metric as SlaMetric] ?? 'SLA').toLowerCase()} target.`,
+          action: (
+            <ToastAction
+              altText="Monitor chat"
+              onClick={() => handleMonitor(sessionId)}
+              data-testid="button-open-sla-breach"
+            >
+              Monitor
+            </ToastAction>
+          )
+        });
+        break;
+      }
+    }
+  });
+  usePresenceHeartbeat(isConnected, sendMessage);
 
+  // Anything pushed while the socket was down is lost, so refetch once it is back
+  const wasConnected = useRef(false);
   useEffect(() => {
-    if (lastMessage) {
-      refetchSessions();
+    if (isConnected && wasConnected.current) {
+      queryClient.invalidateQueries({ queryKey: sessionListsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: callbacksKey });
+      queryClient.invalidateQueries({ queryKey: ticketsKey });
     }
-  }, [lastMessage, refetchSessions]);
+    if (isConnected) wasConnected.current = true;
+  }, [isConnected]);
 
-  const selectedSession = sessions.find((s: ChatSession & { customer?: any; agent?: any }) => 
-    s.sessionId === selectedSessionId
-  );
+  const handlePresenceChange = (status: string) => {
+    sendMessage({ type: 'set_status', data: { status } });
+  };
+
+  const selectedSession = sessions.find(s => s.sessionId === selectedSessionId) ??
+    wallboard.sessions.find(s => s.sessionId === selectedSessionId);
+
+  const handleSelectSession = (sessionId: string | null) => {
+    setMonitorSessionId(null);
+    setSelectedSessionId(sessionId);
+  };
+
+  const handleMonitor = (sessionId: string) => {
+    setMonitorSessionId(sessionId);
+    setSelectedSessionId(sessionId);
+    setActiveTab('conversation');
+  };
 
   const handleTabChange = (tab: typeof activeTab) => {
     setActiveTab(tab);
   };
 
+  const getRoleLabel = (role?: string) => {
+    switch (role) {
+      case 'agent': return 'Agent';
+      case 'senior_agent': return 'Senior Agent';
+      case 'team_lead': return 'Team Lead';
+      case 'admin': return 'System Admin';
+      default: return 'Unknown';
+    }
+  };
+
+  const getPresenceLabel = (presence?: string | null) => {
+    switch (presence) {
+      case 'available': return 'Available';
+      case 'busy': return 'Busy';
+      case 'away': return 'Away';
+      case 'in_break': return 'On Break';
+      default: return 'Offline';
+    }
+  };
+
+  const getPresenceColor = (presence?: string | null) => {
+    switch (presence) {
+      case 'available': return 'bg-secondary';
+      case 'busy': return 'bg-destructive';
+      case 'away':
+      case 'in_break': return 'bg-warning';
+      default: return 'bg-muted-foreground';
+    }
+  };
+
+  const getInitials = (name?: string) =>
+    (name || '').split(' ').map(part => part.charAt(0)).join('').slice(0, 2).toUpperCase();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -93,20 +290,47 @@ export default function Dashboard() {
                 <Bell className="h-5 w-5" />
                 <span className="absolute -top-1 -right-1 w-3 h-3 bg-destructive rounded-full" data-testid="notification-dot"></span>
               </Button>
+              <Select
+                value={currentUser?.presence ?? 'offline'}
+                onValueChange={handlePresenceChange}
+                disabled={!isConnected}
+              >
+                <SelectTrigger className="w-36" data-testid="select-presence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {presenceStates.filter(state => state !== 'offline' || currentUser?.presence === 'offline').map((state) => (
+                    <SelectItem key={state} value={state} disabled={state === 'offline'} data-testid={`presence-option-${state}`}>
+                      <div className="flex items-center space-x-2">
+                        <span className={`w-2 h-2 rounded-full ${getPresenceColor(state)}`}></span>
+                        <span>{getPresenceLabel(state)}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <div className="flex items-center space-x-3 px-3 py-2 border border-border rounded-lg">
                 <Avatar className="w-8 h-8" data-testid="avatar-user">
-                  <AvatarImage src={currentUser.avatar} />
-                  <AvatarFallback>SC</AvatarFallback>
+                  <AvatarFallback>{getInitials(currentUser?.name)}</AvatarFallback>
                 </Avatar>
                 <div className="text-sm">
                   <div className="font-medium text-foreground" data-testid="text-user-name">
-                    {currentUser.name}
+                    {currentUser?.name}
                   </div>
                   <div className="text-muted-foreground text-xs" data-testid="text-user-role">
-                    {currentUser.role}
+                    {getRoleLabel(currentUser?.role)}
                   </div>
                 </div>
               </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-5 w-5" />
+              </Button>
             </div>
           </div>
         </div>
@@ -116,8 +340,13 @@ export default function Dashboard() {
         {/* Sidebar */}
         <ChatSidebar
           sessions={sessions}
+          filters={sessionFilters}
+          onFiltersChange={setSessionFilters}
+          hasMore={!!sessionList.hasNextPage}
+          isLoadingMore={sessionList.isFetchingNextPage}
+          onLoadMore={() => sessionList.fetchNextPage()}
           selectedSessionId={selectedSessionId}
-          onSelectSession={setSelectedSessionId}
+          onSelectSession={handleSelectSession}
         />
 
         {/* Main Content Area */}
@@ -161,6 +390,45 @@ export default function Dashboard() {
                 <BarChart3 className="h-4 w-4 mr-2" />
                 Analytics
               </Button>
+              <Button
+                variant={activeTab === 'callbacks' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => handleTabChange('callbacks')}
+                data-testid="tab-callbacks"
+              >
+                <PhoneCall className="h-4 w-4 mr-2" />
+                My Callbacks
+                {dueCallbacks > 0 && (
+                  <Badge className="ml-2 h-5 px-1.5 bg-destructive text-destructive-foreground" data-testid="badge-due-callbacks">
+                    {dueCallbacks}
+                  </Badge>
+                )}
+              </Button>
+              <Button
+                variant={activeTab === 'tickets' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => handleTabChange('tickets')}
+                data-testid="tab-tickets"
+              >
+                <Inbox className="h-4 w-4 mr-2" />
+                Offline Messages
+                {openTickets.length > 0 && (
+                  <Badge className="ml-2 h-5 px-1.5 bg-destructive text-destructive-foreground" data-testid="badge-open-tickets">
+                    {openTickets.length}
+                  </Badge>
+                )}
+              </Button>
+              {isSupervisor && (
+                <Button
+                  variant={activeTab === 'wallboard' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => handleTabChange('wallboard')}
+                  data-testid="tab-wallboard"
+                >
+                  <LayoutGrid className="h-4 w-4 mr-2" />
+                  Wallboard
+                </Button>
+              )}
             </div>
           </div>
 
@@ -169,20 +437,18 @@ export default function Dashboard() {
             {activeTab === 'conversation' && (
               <ConversationView 
                 session={selectedSession}
-                onSessionUpdate={refetchSessions}
+                monitor={!!selectedSessionId && monitorSessionId === selectedSessionId}
+                onSessionUpdate={() => sessionList.refetch()}
               />
             )}
             {activeTab === 'sop' && <SOPModal isOpen={true} onClose={() => setActiveTab('conversation')} />}
             {activeTab === 'exports' && <ExportCenter />}
-            {activeTab === 'analytics' && (
-              <div className="flex items-center justify-center h-full">
-                <div className="text-center">
-                  <BarChart3 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                  <h3 className="text-lg font-medium text-foreground">Analytics Dashboard</h3>
-                  <p className="text-muted-foreground">Coming soon...</p>
-                </div>
-              </div>
+            {activeTab === 'wallboard' && isSupervisor && (
+              <Wallboard sessions={wallboard.sessions} stats={stats} onMonitor={handleMonitor} />
             )}
+            {activeTab === 'analytics' && <AnalyticsDashboard canViewReports={isSupervisor} />}
+            {activeTab === 'callbacks' && <CallbackQueue />}
+            {activeTab === 'tickets' && <OfflineInbox />}
           </div>
         </div>
       </div>
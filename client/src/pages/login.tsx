@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LogIn } from "lucide-react";
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username && password) {
+      loginMutation.mutate({ username, password });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6" data-testid="login-page">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center space-y-2">
+          <div className="flex items-center justify-center space-x-2">
+            <CardTitle className="text-2xl" data-testid="title-login">ChatSupport Pro</CardTitle>
+            <Badge className="bg-secondary text-secondary-foreground">Enterprise</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">Sign in to the agent dashboard</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Username</label>
+              <Input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+                required
+                data-testid="input-username"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Password</label>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                required
+                data-testid="input-password"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loginMutation.isPending || !username || !password}
+              data-testid="button-login"
+            >
+              <LogIn className="h-4 w-4 mr-2" />
+              {loginMutation.isPending ? "Signing in..." : "Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import {
+  CSAT_SATISFIED_RATING,
+  slaMetrics,
+  type AnalyticsRange, type ChatSession, type CsatQuery, type CsatReport, type CsatSummary, type DurationStat,
+  type Message, type PerformanceMetrics, type PerformanceReport, type SlaMetric, type SurveyResponse, type User,
+  type WrapUpConfig
+} from "@shared/schema";
+
+// A survey response with the chat it rates and the agent who handled it
+export interface SurveyResult {
+  response: SurveyResponse;
+  session: ChatSession;
+  agent: User | null;
+}
+
+// A chat with its messages (oldest first) and the agent who handled it last
+export interface SessionActivity {
+  session: ChatSession;
+  agent: User | null;
+  messages: Message[];
+}
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+  interval: AnalyticsRange['interval'];
+  timeZone: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+export class InvalidRangeError extends Error {}
+
+// Fills in the default range (the last 30 days) and rejects empty or over-long ones
+export function resolveRange({ from, to, interval, timeZone }: AnalyticsRange): ReportRange {
+  const end = to ?? new Date();
+  const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (start >= end || end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new InvalidRangeError('The range must be positive and at most a year');
+  }
+  return { from: start, to: end, interval, timeZone };
+}
+
+export function summarizeRatings(ratings: number[]): CsatSummary {
+  if (ratings.length === 0) {
+    return { responses: 0, csat: null, averageRating: null };
+  }
+  const satisfied = ratings.filter(rating => rating >= CSAT_SATISFIED_RATING).length;
+  const total = ratings.reduce((sum, rating) => sum + rating, 0);
+  return {
+    responses: ratings.length,
+    csat: Math.round((satisfied / ratings.length) * 1000) / 10,
+    averageRating: Math.round((total / ratings.length) * 100) / 100
+  };
+}
+
+// Formatting is the slow part of time zone conversion, so keep one formatter per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The calendar day (as a UTC midnight) and hour of `date` on a clock in timeZone
+function localTime(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    day: new Date(Date.UTC(part('year'), part('month') - 1, part('day'))),
+    hour: part('hour')
+  };
+}
+
+// Start of the day, or of the ISO week (Monday), in timeZone
+export function periodStart(date: Date, interval: AnalyticsRange['interval'], timeZone = 'UTC'): string {
+  const { day } = localTime(date, timeZone);
+  if (interval === 'week') {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+// Every period in the range, so charts show the quiet days too
+function periodsOf({ from, to, interval, timeZone }: ReportRange): string[] {
+  const periods: string[] = [];
+  const last = periodStart(to, interval, timeZone);
+  for (let cursor = new Date(periodStart(from, interval, timeZone)); cursor.toISOString().slice(0, 10) <= last;
+    cursor = new Date(cursor.getTime() + (interval === 'week' ? 7 : 1) * DAY_MS)) {
+    periods.push(cursor.toISOString().slice(0, 10));
+  }
+  return periods;
+}
+
+/** Which groups a result counts towards; a chat with several tags counts once for each. */
+function groupsOf(result: SurveyResult, groupBy: CsatQuery['groupBy'], tagCatalog: WrapUpConfig['tags']) {
+  switch (groupBy) {
+    case 'agent':
+      return [result.agent
+        ? { key: result.agent.id, label: result.agent.name }
+        : { key: 'unassigned', label: 'Unassigned' }];
+    case 'team': {
+      const team = result.agent?.team;
+      return [team ? { key: team, label: team } : { key: 'no_team', label: 'No team' }];
+    }
+    case 'tag': {
+      const tags = result.session.tags ?? [];
+      if (tags.length === 0) return [{ key: 'untagged', label: 'Untagged' }];
+      return tags.map(tag => ({ key: tag, label: tagCatalog.find(entry => entry.id === tag)?.label ?? tag }));
+    }
+  }
+}
+
+export function buildCsatReport(
+  results: SurveyResult[],
+  range: ReportRange & { groupBy: CsatQuery['groupBy'] },
+  tagCatalog: WrapUpConfig['tags'],
+): CsatReport {
+  const groups = new Map<string, { label: string; ratings: number[] }>();
+  const periods = new Map<string, number[]>();
+
+  results.forEach((result) => {
+    const { rating, createdAt } = result.response;
+    groupsOf(result, range.groupBy, tagCatalog).forEach(({ key, label }) => {
+      const group = groups.get(key) ?? { label, ratings: [] };
+      group.ratings.push(rating);
+      groups.set(key, group);
+    });
+
+    const period = periodStart(createdAt, range.interval, range.timeZone);
+    periods.set(period, [...(periods.get(period) ?? []), rating]);
+  });
+
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    overall: summarizeRatings(results.map(result => result.response.rating)),
+    groups: Array.from(groups.entries())
+      .map(([key, group]) => ({ key, label: group.label, ...summarizeRatings(group.ratings) }))
+      .sort((a, b) => b.responses - a.responses),
+    trend: periodsOf(range).map(period => ({ period, ...summarizeRatings(periods.get(period) ?? []) }))
+  };
+}
+
+// What one chat contributes to the performance metrics; durations in seconds
+interface ChatFacts {
+  firstResponseTime?: number;
+  waitTime?: number;
+  handleTime?: number;
+  resolved: boolean;
+  transfers: number;
+  messages: number;
+  slaBreaches: SlaMetric[];
+}
+
+const secondsBetween = (start?: Date | null, end?: Date | null) =>
+  start && end ? Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000)) : undefined;
+
+/**
+ * Only public replies from agents count as a response: whispers, supervisors
+ * barging in and system messages do not stop the clock.
+ */
+function factsOf({ session, messages }: SessionActivity): ChatFacts {
+  const firstReply = messages.find(m => m.senderType === 'agent' && m.visibility === 'public');
+  return {
+    firstResponseTime: secondsBetween(session.startTime, firstReply?.timestamp),
+    waitTime: secondsBetween(session.startTime, session.assignedAt),
+    handleTime: session.endTime ? secondsBetween(session.assignedAt, session.endTime) : undefined,
+    resolved: session.status === 'resolved',
+    transfers: Array.isArray(session.transferHistory) ? session.transferHistory.length : 0,
+    messages: messages.filter(m => m.visibility === 'public' && m.senderType !== 'system').length,
+    slaBreaches: (session.slaBreaches ?? []).map(breach => breach.metric)
+  };
+}
+
+function durationStat(values: (number | undefined)[]): DurationStat {
+  const measured = values.filter((value): value is number => value !== undefined).sort((a, b) => a - b);
+  if (measured.length === 0) {
+    return { average: null, median: null };
+  }
+  const middle = Math.floor(measured.length / 2);
+  return {
+    average: Math.round(measured.reduce((sum, value) => sum + value, 0) / measured.length),
+    median: measured.length % 2 ? measured[middle] : Math.round((measured[middle - 1] + measured[middle]) / 2)
+  };
+}
+
+function summarizeChats(facts: ChatFacts[]): PerformanceMetrics {
+  const perChat = (total: number) => facts.length ? Math.round((total / facts.length) * 100) / 100 : null;
+  return {
+    chats: facts.length,
+    firstResponseTime: durationStat(facts.map(f => f.firstResponseTime)),
+    waitTime: durationStat(facts.map(f => f.waitTime)),
+    handleTime: durationStat(facts.map(f => f.handleTime)),
+    resolutionRate: facts.length
+      ? Math.round((facts.filter(f => f.resolved).length / facts.length) * 1000) / 10
+      : null,
+    transfersPerChat: perChat(facts.reduce((sum, f) => sum + f.transfers, 0)),
+    messagesPerChat: perChat(facts.reduce((sum, f) => sum + f.messages, 0)),
+    slaBreaches: Object.fromEntries(slaMetrics.map(metric => [
+      metric,
+      facts.reduce((sum, f) => sum + f.slaBreaches.filter(m => m === metric).length, 0)
+    ])) as Record<SlaMetric, number>,
+    breachedChats: facts.filter(f => f.slaBreaches.length > 0).length
+  };
+}
+
+/** Contact-center metrics over the chats started in the range, overall, per agent, by hour and over time. */
+export function buildPerformanceReport(activity: SessionActivity[], range: ReportRange): PerformanceReport {
+  const agents = new Map<string, { name: string; facts: ChatFacts[] }>();
+  const periods = new Map<string, ChatFacts[]>();
+  const hourly = Array.from({ length: 24 }, (_, hour) => ({ hour, chats: 0 }));
+  const all: ChatFacts[] = [];
+
+  activity.forEach((chat) => {
+    const facts = factsOf(chat);
+    all.push(facts);
+
+    if (chat.agent) {
+      const agent = agents.get(chat.agent.id) ?? { name: chat.agent.name, facts: [] };
+      agent.facts.push(facts);
+      agents.set(chat.agent.id, agent);
+    }
+
+    const started = chat.session.startTime;
+    if (started) {
+      hourly[localTime(started, range.timeZone).hour].chats++;
+      const period = periodStart(started, range.interval, range.timeZone);
+      periods.set(period, [...(periods.get(period) ?? []), facts]);
+    }
+  });
+
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    overall: summarizeChats(all),
+    agents: Array.from(agents.entries())
+      .map(([agentId, agent]) => ({ agentId, name: agent.name, ...summarizeChats(agent.facts) }))
+      .sort((a, b) => b.chats - a.chats),
+    hourly,
+    trend: periodsOf(range).map((period) => {
+      const facts = periods.get(period) ?? [];
+      return {
+        period,
+        chats: facts.length,
+        firstResponseTime: durationStat(facts.map(f => f.firstResponseTime)).average,
+        handleTime: durationStat(facts.map(f => f.handleTime)).average
+      };
+    })
+  };
+}
@@ -0,0 +1,117 @@
+import type { RequestHandler } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  MAX_ATTACHMENT_BYTES,
+  attachmentMimeTypes,
+  imageMimeTypes,
+  type Attachment,
+  type InsertAttachment,
+  type Message,
+  type MessageWithAttachments,
+} from "@shared/schema";
+import type { FileStore } from "./file-store";
+import type { IStorage } from "./storage";
+
+const THUMBNAIL_SIZE = 320;
+
+export class InvalidUploadError extends Error {}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (!(attachmentMimeTypes as readonly string[]).includes(file.mimetype)) {
+      return cb(new InvalidUploadError(`Files of type ${file.mimetype} are not allowed`));
+    }
+    cb(null, true);
+  },
+});
+
+/** Parses a single multipart `file` field into `req.file`, answering 400/413 itself on bad uploads. */
+export const receiveAttachment: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ error: `Files may be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` });
+    }
+    if (error instanceof multer.MulterError || error instanceof InvalidUploadError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error) return next(error);
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required' });
+    }
+    next();
+  });
+};
+
+/**
+ * Writes an uploaded file (and, for images, a WebP thumbnail) to the file store
+ * and returns the attachment row to create. Images that sharp cannot decode are
+ * rejected, so a renamed executable cannot pass as a screenshot.
+ */
+export async function storeAttachment(
+  fileStore: FileStore,
+  file: Express.Multer.File,
+  sessionId: string,
+  uploadedBy: string | null,
+): Promise<InsertAttachment> {
+  const storageKey = `${sessionId}/${randomUUID()}`;
+  const fileName = path.basename(file.originalname).slice(0, 255) || "attachment";
+  let thumbnailKey: string | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+
+  if ((imageMimeTypes as readonly string[]).includes(file.mimetype)) {
+    let thumbnail: Buffer;
+    try {
+      const image = sharp(file.buffer);
+      const metadata = await image.metadata();
+      width = metadata.width ?? null;
+      height = metadata.height ?? null;
+      thumbnail = await image
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+    } catch {
+      throw new InvalidUploadError('File is not a valid image');
+    }
+
+    thumbnailKey = `${storageKey}-thumb.webp`;
+    await fileStore.put(thumbnailKey, thumbnail, "image/webp");
+  }
+
+  await fileStore.put(storageKey, file.buffer, file.mimetype);
+
+  return {
+    sessionId,
+    uploadedBy,
+    fileName,
+    mimeType: file.mimetype,
+    size: file.size,
+    storageKey,
+    thumbnailKey,
+    width,
+    height,
+  };
+}
+
+/** Images open inline in the browser; everything else downloads. */
+export function contentDisposition(attachment: Attachment): string {
+  const disposition = (imageMimeTypes as readonly string[]).includes(attachment.mimeType) ? "inline" : "attachment";
+  return `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`;
+}
+
+/** Attach the files of any "file" messages, as the messages API and resync frames return them. */
+export async function withAttachments(storage: IStorage, messages: Message[]): Promise<MessageWithAttachments[]> {
+  const fileMessageIds = messages.filter(m => m.messageType === 'file').map(m => m.id);
+  const attachments = await storage.getAttachmentsByMessages(fileMessageIds);
+
+  return messages.map(message => ({
+    ...message,
+    attachments: attachments.filter(a => a.messageId === message.id)
+  }));
+}
@@ -0,0 +1,197 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual, createHmac } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { chatEvents } from "./events";
+import { roleRank, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// passport keeps the logged-in user's id here; the WebSocket upgrade reads it directly
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const sessionSecret = process.env.SESSION_SECRET || "chatsupport-dev-secret";
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function sanitizeUser(user: SelectUser) {
+  return { ...user, password: undefined };
+}
+
+export function setupAuth(app: Express): RequestHandler {
+  if (!process.env.SESSION_SECRET && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionMiddleware = session({
+    secret: sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 1000 * 60 * 60 * 12, // one shift
+    },
+  });
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        chatEvents.emit('agent:login', user.id);
+        res.json({ user: sanitizeUser(user) });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    const user = req.user;
+    req.logout((error) => {
+      if (error) return next(error);
+      if (user) {
+        chatEvents.emit('agent:logout', user.id);
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json({ user: sanitizeUser(req.user!) });
+  });
+
+  return sessionMiddleware;
+}
+
+function signChatSession(sessionId: string): string {
+  return createHmac("sha256", sessionSecret).update(`chat:${sessionId}`).digest("base64url");
+}
+
+/**
+ * Customers have no account; instead `POST /api/chat/start` hands them a token
+ * that proves they own one chat session.
+ */
+export function createCustomerToken(sessionId: string): string {
+  return `${Buffer.from(sessionId).toString("base64url")}.${signChatSession(sessionId)}`;
+}
+
+/** Returns the chat session id a customer token was issued for, or null if it was tampered with. */
+export function verifyCustomerToken(token: string | undefined | null): string | null {
+  if (!token) return null;
+  const [encodedSessionId, signature] = token.split(".");
+  if (!encodedSessionId || !signature) return null;
+
+  const sessionId = Buffer.from(encodedSessionId, "base64url").toString();
+  const expected = Buffer.from(signChatSession(sessionId));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return null;
+  }
+  return sessionId;
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  next();
+};
+
+/**
+ * Allow the request through when the caller's role is at least `minimumRole`
+ * in the agent → senior_agent → team_lead → admin hierarchy.
+ */
+export function requireRole(minimumRole: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (roleRank(req.user!.role) < roleRank(minimumRole)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    next();
+  };
+}
+
+/**
+ * Staff may read any chat; customers only the one their `X-Chat-Token` header
+ * was issued for (matched against the `:sessionId` route param). Plain links
+ * such as `<img src>` cannot set headers, so `?token=` is accepted as well.
+ */
+export const requireSessionAccess: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+
+  const queryToken = typeof req.query.token === "string" ? req.query.token : undefined;
+  const tokenSessionId = verifyCustomerToken(req.get("x-chat-token") ?? queryToken);
+  if (!tokenSessionId) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (tokenSessionId !== req.params.sessionId) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
+  next();
+};
@@ -0,0 +1,197 @@
+import { weekdays, type Availability, type BusinessHoursConfig, type BusinessSchedule } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const BUSINESS_HOURS_SETTINGS_KEY = "business_hours";
+
+const nineToFive = [{ open: '09:00', close: '17:00' }];
+
+// Off until an admin sets the hours, so chats are taken around the clock as before
+export const defaultBusinessHoursConfig: BusinessHoursConfig = {
+  enabled: false,
+  default: {
+    timeZone: 'UTC',
+    hours: { sun: [], mon: nineToFive, tue: nineToFive, wed: nineToFive, thu: nineToFive, fri: nineToFive, sat: [] },
+    holidays: [],
+  },
+  teams: [],
+};
+
+export async function getBusinessHoursConfig(storage: IStorage): Promise<BusinessHoursConfig> {
+  const stored = await storage.getSetting<Partial<BusinessHoursConfig>>(BUSINESS_HOURS_SETTINGS_KEY);
+  return { ...defaultBusinessHoursConfig, ...stored };
+}
+
+export async function setBusinessHoursConfig(storage: IStorage, config: BusinessHoursConfig): Promise<BusinessHoursConfig> {
+  await storage.setSetting(BUSINESS_HOURS_SETTINGS_KEY, config);
+  return config;
+}
+
+/** The hours that apply to chats on `topic`: those of the team handling it, or the default ones. */
+export function scheduleFor(config: BusinessHoursConfig, topic?: string | null): BusinessSchedule {
+  return config.teams.find(team => !!topic && team.topics.includes(topic)) ?? config.default;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// A schedule without any hours never opens, so stop looking after a year or so
+const LOOKAHEAD_DAYS = 400;
+// Open for longer than this without a break counts as open around the clock
+const ROUND_THE_CLOCK_MS = 7 * DAY_MS;
+
+// Formatting is the slow part of time zone conversion, so keep one formatter per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// How far clocks in timeZone are ahead of UTC at `time`, in milliseconds
+function zoneOffset(time: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wall = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wall - Math.floor(time / 1000) * 1000;
+}
+
+// The calendar day (as a UTC midnight) that `time` falls on in timeZone
+function localDay(time: number, timeZone: string): number {
+  const wall = time + zoneOffset(time, timeZone);
+  return Math.floor(wall / DAY_MS) * DAY_MS;
+}
+
+// When clocks in timeZone show `minutes` past midnight on `day` (a UTC midnight)
+function zonedTime(day: number, minutes: number, timeZone: string): number {
+  const wall = day + minutes * MINUTE_MS;
+  const guess = wall - zoneOffset(wall, timeZone);
+  // Near a daylight saving change the offset at the answer can differ from the one we guessed with
+  return wall - zoneOffset(guess, timeZone);
+}
+
+const toMinutes = (clock: string) => Number(clock.slice(0, 2)) * 60 + Number(clock.slice(3, 5));
+const dateOf = (day: number) => new Date(day).toISOString().slice(0, 10);
+
+interface OpenPeriod {
+  start: number;
+  end: number;
+}
+
+/**
+ * The schedule's open periods that end after `from`, soonest first. Periods
+ * are merged within a day but not across midnight, so back-to-back days come
+ * out as separate periods where one ends as the next starts.
+ */
+function* openPeriods(schedule: BusinessSchedule, from: number): Generator<OpenPeriod> {
+  const { timeZone } = schedule;
+  const holidays = new Set(schedule.holidays.map(holiday => holiday.date));
+  const firstDay = localDay(from, timeZone) - DAY_MS;
+
+  for (let i = 0; i <= LOOKAHEAD_DAYS; i++) {
+    const day = firstDay + i * DAY_MS;
+    if (holidays.has(dateOf(day))) continue;
+
+    const hours = [...schedule.hours[weekdays[new Date(day).getUTCDay()]]].sort((a, b) => a.open.localeCompare(b.open));
+    let current: OpenPeriod | null = null;
+    for (const { open, close } of hours) {
+      const start = zonedTime(day, toMinutes(open), timeZone);
+      const end = zonedTime(day, toMinutes(close), timeZone);
+      if (current && start <= current.end) {
+        current.end = Math.max(current.end, end);
+        continue;
+      }
+      if (current && current.end > from) yield current;
+      current = { start, end };
+    }
+    if (current && current.end > from) yield current;
+  }
+}
+
+export interface ScheduleStatus {
+  open: boolean;
+  closesAt: Date | null;
+  opensAt: Date | null;
+  holiday: string | null;
+}
+
+export function scheduleStatus(schedule: BusinessSchedule, now = new Date()): ScheduleStatus {
+  const time = now.getTime();
+  const periods = openPeriods(schedule, time);
+  const first = periods.next();
+
+  if (first.done || first.value.start > time) {
+    const today = dateOf(localDay(time, schedule.timeZone));
+    return {
+      open: false,
+      closesAt: null,
+      opensAt: first.done ? null : new Date(first.value.start),
+      holiday: schedule.holidays.find(holiday => holiday.date === today)?.name ?? null
+    };
+  }
+
+  // Follow periods that carry straight on from each other, e.g. through midnight
+  let closesAt = first.value.end;
+  for (let next = periods.next(); !next.done; next = periods.next()) {
+    if (next.value.start > closesAt || closesAt - time > ROUND_THE_CLOCK_MS) break;
+    closesAt = Math.max(closesAt, next.value.end);
+  }
+  return {
+    open: true,
+    closesAt: closesAt - time > ROUND_THE_CLOCK_MS ? null : new Date(closesAt),
+    opensAt: null,
+    holiday: null
+  };
+}
+
+/**
+ * When `minutes` of business time will have passed since `from`; time outside
+ * the schedule's hours does not count. Null if the schedule never opens.
+ */
+export function addBusinessMinutes(schedule: BusinessSchedule, from: Date, minutes: number): Date | null {
+  let remaining = minutes * MINUTE_MS;
+  const periods = openPeriods(schedule, from.getTime());
+  for (let next = periods.next(); !next.done; next = periods.next()) {
+    const start = Math.max(next.value.start, from.getTime());
+    if (start + remaining <= next.value.end) return new Date(start + remaining);
+    remaining -= next.value.end - start;
+  }
+  return null;
+}
+
+const earliest = (dates: (Date | null)[]) =>
+  dates.reduce<Date | null>((min, date) => date && (!min || date < min) ? date : min, null);
+const latest = (dates: (Date | null)[]) =>
+  dates.reduce<Date | null>((max, date) => date && (!max || date > max) ? date : max, null);
+
+/**
+ * Whether chats on `topic` are within business hours. Without a topic we are
+ * open while any team is, which is what the widget shows before one is chosen.
+ */
+export function businessHoursAvailability(
+  config: BusinessHoursConfig,
+  topic?: string | null,
+  now = new Date(),
+): Omit<Availability, 'agentsAvailable'> {
+  const team = topic ? config.teams.find(team => team.topics.includes(topic)) : undefined;
+  const timeZone = (team ?? config.default).timeZone;
+  if (!config.enabled) {
+    return { open: true, team: null, timeZone, closesAt: null, opensAt: null, holiday: null };
+  }
+
+  const statuses = (topic ? [team ?? config.default] : [config.default, ...config.teams])
+    .map(schedule => scheduleStatus(schedule, now));
+  const open = statuses.filter(status => status.open);
+
+  return {
+    open: open.length > 0,
+    team: team?.team ?? null,
+    timeZone,
+    closesAt: open.length > 0 && open.every(status => status.closesAt)
+      ? latest(open.map(status => status.closesAt))?.toISOString() ?? null
+      : null,
+    opensAt: open.length > 0 ? null : earliest(statuses.map(status => status.opensAt))?.toISOString() ?? null,
+    holiday: open.length > 0 ? null : statuses.find(status => status.holiday)?.holiday ?? null
+  };
+}
@@ -0,0 +1,126 @@
+import {
+  roleRank,
+  type Callback, type CallbackWithDetails, type Customer, type UpdateCallback, type User
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const MAX_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export class InvalidCallbackError extends Error {}
+
+export async function withDetails(storage: IStorage, callbacks: Callback[]): Promise<CallbackWithDetails[]> {
+  const customerIds = Array.from(new Set(callbacks.map(callback => callback.customerId)));
+  const agentIds = Array.from(new Set(callbacks.flatMap(callback => callback.agentId ? [callback.agentId] : [])));
+  const [customers, agents] = await Promise.all([
+    Promise.all(customerIds.map(id => storage.getCustomer(id))),
+    Promise.all(agentIds.map(id => storage.getUser(id)))
+  ]);
+  const customerNames = new Map(customers.filter((c): c is Customer => !!c).map(c => [c.id, c.name]));
+  const agentNames = new Map(agents.filter((a): a is User => !!a).map(a => [a.id, a.name]));
+  return callbacks.map(callback => ({
+    ...callback,
+    customerName: customerNames.get(callback.customerId) ?? 'Unknown',
+    agentName: callback.agentId ? agentNames.get(callback.agentId) ?? 'Unknown' : null
+  }));
+}
+
+/**
+ * Whoever a callback is assigned to may work it and anyone may claim an unassigned
+ * one, but only team leads may hand callbacks to someone else.
+ */
+export function canManageCallback(user: User, callback: Callback | null, agentId?: string | null): boolean {
+  if (roleRank(user.role) >= roleRank('team_lead')) return true;
+  if (callback && callback.agentId && callback.agentId !== user.id) return false;
+  return agentId === undefined || agentId === user.id;
+}
+
+export async function resolveCallbackAgent(storage: IStorage, agentId: string): Promise<User> {
+  const agent = await storage.getUser(agentId);
+  if (!agent || roleRank(agent.role) === -1) {
+    throw new InvalidCallbackError('Unknown agent');
+  }
+  return agent;
+}
+
+/**
+ * Turns a PATCH into the fields to store: moving the window or the owner re-arms
+ * the reminder, and closing the callback stamps completedAt. Throws
+ * InvalidCallbackError; check canManageCallback first.
+ */
+export async function resolveCallbackUpdate(
+  storage: IStorage,
+  callback: Callback,
+  update: UpdateCallback,
+): Promise<Partial<Callback>> {
+  const changes: Partial<Callback> = {};
+
+  if (update.agentId !== undefined && update.agentId !== callback.agentId) {
+    changes.agentId = update.agentId === null ? null : (await resolveCallbackAgent(storage, update.agentId)).id;
+    // The new owner has not heard about it yet
+    changes.remindedAt = null;
+  }
+
+  if (update.windowStart || update.windowEnd) {
+    const windowStart = update.windowStart ?? callback.windowStart;
+    const windowEnd = update.windowEnd ?? callback.windowEnd;
+    if (windowEnd <= windowStart) {
+      throw new InvalidCallbackError('The window must end after it starts');
+    }
+    if (windowEnd.getTime() - windowStart.getTime() > MAX_WINDOW_MS) {
+      throw new InvalidCallbackError('The window can be at most a day long');
+    }
+    Object.assign(changes, { windowStart, windowEnd, remindedAt: null });
+  }
+
+  if (update.notes !== undefined) {
+    changes.notes = update.notes || null;
+  }
+
+  if (update.status && update.status !== callback.status) {
+    if (callback.status !== 'scheduled') {
+      throw new InvalidCallbackError(`This callback has already been ${callback.status}`);
+    }
+    changes.status = update.status;
+    changes.completedAt = update.status === 'completed' ? new Date() : null;
+  } else if (callback.status !== 'scheduled' && Object.keys(changes).some(key => key !== 'notes')) {
+    throw new InvalidCallbackError(`This callback has already been ${callback.status}`);
+  }
+
+  return changes;
+}
+
+/**
+ * Sends `callback_due` once a scheduled callback's window opens: to its agent
+ * wherever they are signed in, or to all staff while nobody has claimed it.
+ * Each callback is announced once per assignment or reschedule.
+ */
+export class CallbackReminders {
+  private sweeping = false;
+
+  constructor(private storage: IStorage, private hub: ChatHub) {
+    setInterval(() => {
+      this.sweep().catch((error) => console.error('Callback reminder error:', error));
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async sweep() {
+    if (this.sweeping) return;
+    this.sweeping = true;
+    try {
+      const due = await this.storage.getDueCallbacks(new Date());
+      for (const callback of await withDetails(this.storage, due)) {
+        const message = { type: 'callback_due' as const, data: callback };
+        if (callback.agentId) {
+          this.hub.sendToUser(callback.agentId, message);
+        } else {
+          this.hub.broadcastToStaff(message);
+        }
+        await this.storage.updateCallback(callback.id, { remindedAt: new Date() });
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { pool } from "./db";
+import { storage } from "./storage";
+import { seedDatabase } from "./seed";
+
+// Entry point for `npm run db:seed`; run `npm run db:push` first so the tables exist
+(async () => {
+  if (!pool) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  try {
+    await seedDatabase(storage);
+    console.log("Database seeded");
+  } finally {
+    await pool.end();
+  }
+})();
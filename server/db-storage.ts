@@ -0,0 +1,656 @@
+import type session from "express-session";
+import { and, arrayContains, asc, desc, eq, getTableName, gt, gte, ilike, inArray, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  users, customers, chatSessions, messages, attachments, sopDocuments, sopRevisions, sopComments, sopSearchIndex, quickReplies, appSettings, agentStatusHistory, supervisionLog, internalNotes, surveyResponses, callbacks, offlineTickets, ticketReplies,
+  type User, type InsertUser,
+  type Customer, type InsertCustomer,
+  type ChatSession, type InsertChatSession,
+  type Message, type InsertMessage,
+  type Attachment, type InsertAttachment,
+  type ReadReceipt,
+  type SOPDocument, type InsertSOPDocument, type SOPRevision, type InsertSOPRevision, type SOPComment, type InsertSOPComment,
+  type QuickReply, type InsertQuickReply,
+  type AgentStatusHistory, type PresenceState,
+  type SupervisionLogEntry, type InsertSupervisionLogEntry,
+  type InternalNote, type InsertInternalNote,
+  type SurveyResponse, type InsertSurveyResponse,
+  type Callback, type InsertCallback, type CallbackStatus,
+  type OfflineTicket, type InsertOfflineTicket, type TicketReply, type InsertTicketReply, type TicketStatus,
+  type SessionListFilters, type SopSearchMatch
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+import { sessionSortKey, type EnrichedSessionPage, type SessionPageRequest } from "./session-list";
+import type { SessionActivity, SurveyResult } from "./analytics";
+import { FUZZY_WEIGHT, expandTerms, parseMarkedText } from "./sop-search";
+import { asPublished } from "./sop-workflow";
+
+// messages.readBy is a jsonb array of ReadReceipt; containment finds the reader's entry
+function notReadBy(readerId: string) {
+  return sql`not (coalesce(${messages.readBy}, '[]'::jsonb) @> ${JSON.stringify([{ readerId }])}::jsonb)`;
+}
+
+// User input inside an ILIKE pattern must match literally
+function containsPattern(text: string) {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// SOP text as Postgres searches it: titles count most, then keywords, then the body
+function sopSearchVector(title: SQL, keywords: SQL, content: SQL) {
+  return sql<string>`setweight(to_tsvector('english', ${title}), 'A')
+    || setweight(to_tsvector('english', coalesce(array_to_string(${keywords}, ' '), '')), 'B')
+    || setweight(to_tsvector('english', ${content}), 'D')`;
+}
+
+// ts_rank weights for D, C, B and A, in the same proportions as the in-memory index's field boosts
+const SOP_RANK_WEIGHTS = '{0.3, 0.3, 0.6, 0.9}';
+
+// ts_headline marks matches with control characters, which cannot occur in SOP text
+const MATCH_START = '\u0002';
+const MATCH_STOP = '\u0003';
+const TITLE_HEADLINE = `StartSel=${MATCH_START}, StopSel=${MATCH_STOP}, HighlightAll=true`;
+const SNIPPET_HEADLINE = `StartSel=${MATCH_START}, StopSel=${MATCH_STOP}, MaxWords=30, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// A tsquery accepting any of the lexemes, quoted so they are taken as they are
+function anyLexeme(lexemes: string[]) {
+  return lexemes.map(lexeme => `'${lexeme.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`).join(' | ');
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void> {
+    await this.db.update(users).set({ isOnline }).where(eq(users.id, id));
+  }
+
+  async setUserPresence(id: string, presence: PresenceState): Promise<User | undefined> {
+    const now = new Date();
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.update(users)
+        .set({ presence, presenceUpdatedAt: now, isOnline: presence !== 'offline' })
+        .where(eq(users.id, id))
+        .returning();
+      if (!user) return undefined;
+
+      await tx.update(agentStatusHistory)
+        .set({ endedAt: now })
+        .where(and(eq(agentStatusHistory.userId, id), isNull(agentStatusHistory.endedAt)));
+      await tx.insert(agentStatusHistory).values({ userId: id, status: presence, startedAt: now });
+      return user;
+    });
+  }
+
+  async getPresenceHistory(userId: string, from: Date, to: Date): Promise<AgentStatusHistory[]> {
+    return this.db.select().from(agentStatusHistory)
+      .where(and(
+        eq(agentStatusHistory.userId, userId),
+        lt(agentStatusHistory.startedAt, to),
+        or(isNull(agentStatusHistory.endedAt), gt(agentStatusHistory.endedAt, from))
+      ))
+      .orderBy(asc(agentStatusHistory.startedAt));
+  }
+
+  async getAgentsByRole(role: string): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.role, role));
+  }
+
+  async getOnlineAgents(): Promise<User[]> {
+    return this.db.select().from(users).where(
+      and(ne(users.role, 'customer'), eq(users.isOnline, true))
+    );
+  }
+
+  // Customer methods
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomerByEmail(email: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.email, email));
+    return customer;
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db.insert(customers).values(insertCustomer).returning();
+    return customer;
+  }
+
+  async updateCustomer(id: string, updates: Partial<Customer>): Promise<Customer | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [customer] = await this.db.update(customers).set(changes).where(eq(customers.id, id)).returning();
+    return customer;
+  }
+
+  // Chat session methods
+  async getChatSession(id: string): Promise<ChatSession | undefined> {
+    const [session] = await this.db.select().from(chatSessions).where(eq(chatSessions.id, id));
+    return session;
+  }
+
+  async getChatSessionBySessionId(sessionId: string): Promise<ChatSession | undefined> {
+    const [session] = await this.db.select().from(chatSessions).where(eq(chatSessions.sessionId, sessionId));
+    return session;
+  }
+
+  async createChatSession(insertSession: InsertChatSession): Promise<ChatSession> {
+    const [session] = await this.db.insert(chatSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [session] = await this.db.update(chatSessions).set(changes).where(eq(chatSessions.id, id)).returning();
+    return session;
+  }
+
+  async getChatSessions(): Promise<ChatSession[]> {
+    return this.db.select().from(chatSessions).orderBy(desc(chatSessions.startTime));
+  }
+
+  async getActiveSessions(): Promise<ChatSession[]> {
+    return this.db.select().from(chatSessions).where(
+      inArray(chatSessions.status, ["active", "waiting"])
+    );
+  }
+
+  async getWaitingSessions(): Promise<ChatSession[]> {
+    return this.db.select().from(chatSessions)
+      .where(eq(chatSessions.status, "waiting"))
+      .orderBy(asc(chatSessions.startTime));
+  }
+
+  async getSessionsByAgent(agentId: string): Promise<ChatSession[]> {
+    return this.db.select().from(chatSessions).where(eq(chatSessions.agentId, agentId));
+  }
+
+  async getSessionsByCustomer(customerId: string): Promise<ChatSession[]> {
+    return this.db.select().from(chatSessions).where(eq(chatSessions.customerId, customerId));
+  }
+
+  async listSessions(filters: SessionListFilters, page: SessionPageRequest): Promise<EnrichedSessionPage> {
+    const lastMessage = alias(messages, 'last_message');
+    // Cursors carry JS dates, so compare at millisecond precision
+    const sortKey = filters.sort === 'recent_activity'
+      ? sql`date_trunc('milliseconds', coalesce(${lastMessage.timestamp}, ${chatSessions.startTime}, 'epoch'))`
+      : sql`date_trunc('milliseconds', coalesce(${chatSessions.startTime}, 'epoch'))`;
+    const descending = filters.sort !== 'oldest';
+
+    const conditions: (SQL | undefined)[] = [
+      filters.status ? inArray(chatSessions.status, filters.status) : undefined,
+      filters.role ? eq(users.role, filters.role) : undefined,
+      filters.agentId ? eq(chatSessions.agentId, filters.agentId) : undefined,
+      filters.customerId ? eq(chatSessions.customerId, filters.customerId) : undefined,
+      filters.tag ? arrayContains(chatSessions.tags, [filters.tag]) : undefined,
+      filters.disposition ? eq(chatSessions.disposition, filters.disposition) : undefined,
+      filters.search ? or(
+        ilike(customers.name, containsPattern(filters.search)),
+        ilike(customers.email, containsPattern(filters.search)),
+        ilike(lastMessage.content, containsPattern(filters.search))
+      ) : undefined,
+      page.after
+        ? sql`(${sortKey}, ${chatSessions.id}) ${sql.raw(descending ? '<' : '>')} (${sql.param(page.after.sortKey, chatSessions.startTime)}, ${page.after.id})`
+        : undefined,
+    ];
+
+    const rows = await this.db.select({
+      session: chatSessions,
+      customer: customers,
+      agent: users,
+      lastMessage,
+      unreadCount: sql<number>`(select count(*)::int from ${messages} where ${and(
+        eq(messages.sessionId, chatSessions.id),
+        ne(messages.senderType, 'agent'),
+        ne(messages.senderType, 'system'),
+        notReadBy(page.readerId)
+      )})`,
+    })
+      .from(chatSessions)
+      .leftJoin(customers, eq(chatSessions.customerId, customers.id))
+      .leftJoin(users, eq(chatSessions.agentId, users.id))
+      .leftJoin(lastMessage, eq(lastMessage.id, sql`(
+        select ${messages.id} from ${messages}
+        where ${messages.sessionId} = ${chatSessions.id}
+        order by ${messages.timestamp} desc limit 1
+      )`))
+      .where(and(...conditions))
+      .orderBy(...(descending ? [desc(sortKey), desc(chatSessions.id)] : [asc(sortKey), asc(chatSessions.id)]))
+      .limit(page.limit + 1);
+
+    const sessions = rows.slice(0, page.limit).map(row => ({
+      ...row.session,
+      customer: row.customer,
+      agent: row.agent,
+      lastMessage: row.lastMessage,
+      unreadCount: row.unreadCount
+    }));
+    const last = sessions[sessions.length - 1];
+    return {
+      sessions,
+      next: rows.length > page.limit
+        ? { sortKey: sessionSortKey(last, last.lastMessage, filters.sort), id: last.id }
+        : null
+    };
+  }
+
+  // Message methods
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessagesBySession(sessionId: string): Promise<Message[]> {
+    return this.db.select().from(messages)
+      .where(eq(messages.sessionId, sessionId))
+      .orderBy(asc(messages.timestamp));
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db.insert(messages).values(insertMessage).onConflictDoNothing().returning();
+    if (message) return message;
+
+    // Only a repeated clientMessageId can conflict; hand back the original
+    return (await this.getMessageByClientId(insertMessage.sessionId!, insertMessage.clientMessageId!))!;
+  }
+
+  async getMessageByClientId(sessionId: string, clientMessageId: string): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(and(
+      eq(messages.sessionId, sessionId),
+      eq(messages.clientMessageId, clientMessageId)
+    ));
+    return message;
+  }
+
+  async getRecentMessages(sessionId: string, limit: number): Promise<Message[]> {
+    const recent = await this.db.select().from(messages)
+      .where(eq(messages.sessionId, sessionId))
+      .orderBy(desc(messages.timestamp))
+      .limit(limit);
+    return recent.reverse();
+  }
+
+  async markMessagesRead(sessionId: string, receipt: ReadReceipt, upTo: Date): Promise<string[]> {
+    const marked = await this.db.update(messages)
+      .set({ readBy: sql`coalesce(${messages.readBy}, '[]'::jsonb) || ${JSON.stringify([receipt])}::jsonb` })
+      .where(and(
+        eq(messages.sessionId, sessionId),
+        ne(messages.senderType, receipt.readerType),
+        ne(messages.senderType, 'system'),
+        receipt.readerType === 'customer' ? eq(messages.visibility, 'public') : undefined,
+        lte(messages.timestamp, upTo),
+        notReadBy(receipt.readerId)
+      ))
+      .returning({ id: messages.id });
+    return marked.map(row => row.id);
+  }
+
+  async countUnreadMessages(sessionId: string, readerId: string, readerType: ReadReceipt['readerType']): Promise<number> {
+    const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(messages)
+      .where(and(
+        eq(messages.sessionId, sessionId),
+        ne(messages.senderType, readerType),
+        ne(messages.senderType, 'system'),
+        readerType === 'customer' ? eq(messages.visibility, 'public') : undefined,
+        notReadBy(readerId)
+      ));
+    return row?.count ?? 0;
+  }
+
+  // Supervision methods
+  async logSupervision(entry: InsertSupervisionLogEntry): Promise<SupervisionLogEntry> {
+    const [logged] = await this.db.insert(supervisionLog).values(entry).returning();
+    return logged;
+  }
+
+  async getSupervisionLog(sessionId: string): Promise<SupervisionLogEntry[]> {
+    return this.db.select().from(supervisionLog)
+      .where(eq(supervisionLog.sessionId, sessionId))
+      .orderBy(asc(supervisionLog.createdAt));
+  }
+
+  // Internal note methods
+  async createInternalNote(note: InsertInternalNote): Promise<InternalNote> {
+    const [created] = await this.db.insert(internalNotes).values(note).returning();
+    return created;
+  }
+
+  async getNotesBySession(sessionId: string): Promise<InternalNote[]> {
+    return this.db.select().from(internalNotes)
+      .where(eq(internalNotes.sessionId, sessionId))
+      .orderBy(asc(internalNotes.createdAt));
+  }
+
+  async getNotesByCustomer(customerId: string): Promise<InternalNote[]> {
+    return this.db.select().from(internalNotes)
+      .where(eq(internalNotes.customerId, customerId))
+      .orderBy(asc(internalNotes.createdAt));
+  }
+
+  // Survey methods
+  async createSurveyResponse(response: InsertSurveyResponse): Promise<SurveyResponse | undefined> {
+    const [created] = await this.db.insert(surveyResponses).values(response)
+      .onConflictDoNothing({ target: surveyResponses.sessionId })
+      .returning();
+    return created;
+  }
+
+  async getSurveyResponse(sessionId: string): Promise<SurveyResponse | undefined> {
+    const [response] = await this.db.select().from(surveyResponses).where(eq(surveyResponses.sessionId, sessionId));
+    return response;
+  }
+
+  async listSurveyResults(from: Date, to: Date): Promise<SurveyResult[]> {
+    return this.db.select({ response: surveyResponses, session: chatSessions, agent: users })
+      .from(surveyResponses)
+      .innerJoin(chatSessions, eq(surveyResponses.sessionId, chatSessions.id))
+      .leftJoin(users, eq(chatSessions.agentId, users.id))
+      .where(and(gte(surveyResponses.createdAt, from), lt(surveyResponses.createdAt, to)))
+      .orderBy(asc(surveyResponses.createdAt));
+  }
+
+  // Callback methods
+  async createCallback(callback: InsertCallback): Promise<Callback> {
+    const [created] = await this.db.insert(callbacks).values(callback).returning();
+    return created;
+  }
+
+  async getCallback(id: string): Promise<Callback | undefined> {
+    const [callback] = await this.db.select().from(callbacks).where(eq(callbacks.id, id));
+    return callback;
+  }
+
+  async updateCallback(id: string, updates: Partial<Callback>): Promise<Callback | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [callback] = await this.db.update(callbacks).set(changes).where(eq(callbacks.id, id)).returning();
+    return callback;
+  }
+
+  async listCallbacks(filters: { agentId?: string | null; status?: CallbackStatus }): Promise<Callback[]> {
+    const conditions: SQL[] = [];
+    if (filters.agentId === null) conditions.push(isNull(callbacks.agentId));
+    else if (filters.agentId !== undefined) conditions.push(eq(callbacks.agentId, filters.agentId));
+    if (filters.status) conditions.push(eq(callbacks.status, filters.status));
+    return this.db.select().from(callbacks)
+      .where(and(...conditions))
+      .orderBy(asc(callbacks.windowStart));
+  }
+
+  async getDueCallbacks(now: Date): Promise<Callback[]> {
+    return this.db.select().from(callbacks)
+      .where(and(eq(callbacks.status, 'scheduled'), isNull(callbacks.remindedAt), lte(callbacks.windowStart, now)))
+      .orderBy(asc(callbacks.windowStart));
+  }
+
+  // Offline ticket methods
+  async createOfflineTicket(ticket: InsertOfflineTicket): Promise<OfflineTicket> {
+    const [created] = await this.db.insert(offlineTickets).values(ticket).returning();
+    return created;
+  }
+
+  async getOfflineTicket(id: string): Promise<OfflineTicket | undefined> {
+    const [ticket] = await this.db.select().from(offlineTickets).where(eq(offlineTickets.id, id));
+    return ticket;
+  }
+
+  async updateOfflineTicket(id: string, updates: Partial<OfflineTicket>): Promise<OfflineTicket | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [ticket] = await this.db.update(offlineTickets).set(changes).where(eq(offlineTickets.id, id)).returning();
+    return ticket;
+  }
+
+  async listOfflineTickets(status?: TicketStatus): Promise<OfflineTicket[]> {
+    return this.db.select().from(offlineTickets)
+      .where(status ? eq(offlineTickets.status, status) : undefined)
+      .orderBy(desc(offlineTickets.createdAt));
+  }
+
+  async createTicketReply(reply: InsertTicketReply): Promise<TicketReply> {
+    const [created] = await this.db.insert(ticketReplies).values(reply).returning();
+    return created;
+  }
+
+  async getTicketReplies(ticketId: string): Promise<TicketReply[]> {
+    return this.db.select().from(ticketReplies)
+      .where(eq(ticketReplies.ticketId, ticketId))
+      .orderBy(asc(ticketReplies.createdAt));
+  }
+
+  // Reporting methods
+  async listSessionActivity(from: Date, to: Date): Promise<SessionActivity[]> {
+    const startedInRange = and(gte(chatSessions.startTime, from), lt(chatSessions.startTime, to));
+    const rows = await this.db.select({ session: chatSessions, agent: users })
+      .from(chatSessions)
+      .leftJoin(users, eq(chatSessions.agentId, users.id))
+      .where(startedInRange)
+      .orderBy(asc(chatSessions.startTime));
+    const sessionMessages = await this.db.select({ message: messages })
+      .from(messages)
+      .innerJoin(chatSessions, eq(messages.sessionId, chatSessions.id))
+      .where(startedInRange)
+      .orderBy(asc(messages.timestamp));
+
+    const bySession = new Map<string, Message[]>();
+    sessionMessages.forEach(({ message }) => {
+      const list = bySession.get(message.sessionId!) ?? [];
+      list.push(message);
+      bySession.set(message.sessionId!, list);
+    });
+    return rows.map(row => ({ ...row, messages: bySession.get(row.session.id) ?? [] }));
+  }
+
+  // Attachment methods
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
+  async getAttachmentsByMessages(messageIds: string[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.select().from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(asc(attachments.createdAt));
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await this.db.insert(attachments).values(insertAttachment).returning();
+    return attachment;
+  }
+
+  async updateAttachment(id: string, updates: Partial<Attachment>): Promise<Attachment | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [attachment] = await this.db.update(attachments).set(changes).where(eq(attachments.id, id)).returning();
+    return attachment;
+  }
+
+  // SOP methods
+  async getSOPDocument(id: string): Promise<SOPDocument | undefined> {
+    const [sop] = await this.db.select().from(sopDocuments).where(eq(sopDocuments.id, id));
+    return sop;
+  }
+
+  async getSOPDocuments(): Promise<SOPDocument[]> {
+    return this.db.select().from(sopDocuments);
+  }
+
+  async getSOPByCategory(category: string): Promise<SOPDocument[]> {
+    return this.db.select().from(sopDocuments).where(eq(sopDocuments.category, category));
+  }
+
+  async searchSOPs(query: string, options: { published?: boolean } = {}): Promise<SopSearchMatch[]> {
+    await this.ensureSOPSearchIndex();
+    const document = options.published ? sopSearchIndex.publishedDocument : sopSearchIndex.document;
+
+    // Postgres stems the query the way it stemmed the SOPs; typos and unfinished
+    // words are then matched against every word it has indexed
+    const lexemes = await this.db.select({ lexeme: sql<string>`lexeme` })
+      .from(sql`unnest(to_tsvector('english', ${query}))`);
+    const vocabulary = await this.db.select({ word: sql<string>`word` })
+      .from(sql`ts_stat(${`select ${document.name} from ${getTableName(sopSearchIndex)}`})`);
+    const expanded = expandTerms(lexemes.map(row => row.lexeme), vocabulary.map(row => row.word));
+
+    // Each query term counts through its best match, as in the in-memory index
+    const matchesPerTerm = Array.from(expanded.values()).filter(matches => matches.size > 0);
+    if (matchesPerTerm.length === 0) return [];
+    const termRanks = matchesPerTerm.map(matches => {
+      const words = Array.from(matches.entries());
+      const exact = words.filter(([, weight]) => weight === 1).map(([word]) => word);
+      const fuzzy = words.filter(([, weight]) => weight < 1).map(([word]) => word);
+      const ranks = [
+        exact.length > 0 ? sql`ts_rank(${SOP_RANK_WEIGHTS}, ${document}, ${anyLexeme(exact)}::tsquery, 1)` : null,
+        fuzzy.length > 0 ? sql`${FUZZY_WEIGHT} * ts_rank(${SOP_RANK_WEIGHTS}, ${document}, ${anyLexeme(fuzzy)}::tsquery, 1)` : null,
+      ].filter((rank): rank is SQL => !!rank);
+      return sql`greatest(${sql.join(ranks, sql`, `)})`;
+    });
+    const score = sql<number>`${sql.join(termRanks, sql` + `)}`.mapWith(Number);
+    const anyTerm = anyLexeme(matchesPerTerm.flatMap(matches => Array.from(matches.keys())));
+
+    // Agents see the published revision while an edit awaits approval
+    const field = (column: 'title' | 'content') => options.published
+      ? sql`coalesce(${sopRevisions[column]}, ${sopDocuments[column]})`
+      : sql`${sopDocuments[column]}`;
+    const rows = await this.db.select({
+      sop: sopDocuments,
+      published: sopRevisions,
+      score,
+      title: sql<string>`ts_headline('english', ${field('title')}, ${anyTerm}::tsquery, ${TITLE_HEADLINE})`,
+      snippet: sql<string>`ts_headline('english', ${field('content')}, ${anyTerm}::tsquery, ${SNIPPET_HEADLINE})`,
+    })
+      .from(sopSearchIndex)
+      .innerJoin(sopDocuments, eq(sopDocuments.id, sopSearchIndex.sopId))
+      .leftJoin(sopRevisions, and(eq(sopRevisions.id, sopDocuments.publishedRevisionId), ne(sopDocuments.status, 'published')))
+      .where(sql`${document} @@ ${anyTerm}::tsquery`)
+      .orderBy(desc(score));
+
+    return rows.map(row => ({
+      sop: options.published ? asPublished(row.sop, row.published ?? undefined)! : row.sop,
+      score: row.score,
+      title: parseMarkedText(row.title, MATCH_START, MATCH_STOP),
+      snippet: parseMarkedText(row.snippet, MATCH_START, MATCH_STOP),
+    }));
+  }
+
+  // Recomputes the search vectors of the SOPs matching `where`
+  private async indexSOPs(where: SQL) {
+    const vector = (table: typeof sopDocuments | typeof sopRevisions) =>
+      sopSearchVector(sql`${table.title}`, sql`${table.keywords}`, sql`${table.content}`);
+    await this.db.insert(sopSearchIndex)
+      .select(qb => qb.select({
+        sopId: sopDocuments.id,
+        document: vector(sopDocuments).as('document'),
+        publishedDocument: sql<string | null>`case
+          when ${sopDocuments.status} = 'published' then ${vector(sopDocuments)}
+          when ${sopDocuments.status} <> 'archived' then (
+            select ${vector(sopRevisions)} from ${sopRevisions} where ${sopRevisions.id} = ${sopDocuments.publishedRevisionId}
+          ) end`.as('published_document'),
+      }).from(sopDocuments).where(where))
+      .onConflictDoUpdate({
+        target: sopSearchIndex.sopId,
+        set: { document: sql`excluded.document`, publishedDocument: sql`excluded.published_document` }
+      });
+  }
+
+  private sopSearchIndexReady?: Promise<void>;
+
+  // SOPs saved before the search index existed are indexed on the first search
+  private ensureSOPSearchIndex() {
+    this.sopSearchIndexReady ??= this.indexSOPs(
+      sql`not exists (select 1 from ${sopSearchIndex} where ${sopSearchIndex.sopId} = ${sopDocuments.id})`
+    ).catch(error => {
+      this.sopSearchIndexReady = undefined;
+      throw error;
+    });
+    return this.sopSearchIndexReady;
+  }
+
+  async createSOPDocument(insertSOP: InsertSOPDocument): Promise<SOPDocument> {
+    const [sop] = await this.db.insert(sopDocuments).values(insertSOP).returning();
+    await this.indexSOPs(eq(sopDocuments.id, sop.id));
+    return sop;
+  }
+
+  async updateSOPDocument(id: string, updates: Partial<SOPDocument>): Promise<SOPDocument | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [sop] = await this.db.update(sopDocuments)
+      .set({ ...changes, lastUpdated: new Date() })
+      .where(eq(sopDocuments.id, id))
+      .returning();
+    if (sop) await this.indexSOPs(eq(sopDocuments.id, id));
+    return sop;
+  }
+
+  async createSOPRevision(insertRevision: InsertSOPRevision): Promise<SOPRevision> {
+    const [revision] = await this.db.insert(sopRevisions).values(insertRevision).returning();
+    return revision;
+  }
+
+  async getSOPRevision(id: string): Promise<SOPRevision | undefined> {
+    const [revision] = await this.db.select().from(sopRevisions).where(eq(sopRevisions.id, id));
+    return revision;
+  }
+
+  async getSOPRevisions(sopId: string): Promise<SOPRevision[]> {
+    return this.db.select().from(sopRevisions)
+      .where(eq(sopRevisions.sopId, sopId))
+      .orderBy(desc(sopRevisions.createdAt));
+  }
+
+  async createSOPComment(insertComment: InsertSOPComment): Promise<SOPComment> {
+    const [comment] = await this.db.insert(sopComments).values(insertComment).returning();
+    return comment;
+  }
+
+  async getSOPComments(sopId: string): Promise<SOPComment[]> {
+    return this.db.select().from(sopComments)
+      .where(eq(sopComments.sopId, sopId))
+      .orderBy(asc(sopComments.createdAt));
+  }
+
+  // Quick reply methods
+  async getQuickReplies(): Promise<QuickReply[]> {
+    return this.db.select().from(quickReplies);
+  }
+
+  async getQuickRepliesByCategory(category: string): Promise<QuickReply[]> {
+    return this.db.select().from(quickReplies).where(eq(quickReplies.category, category));
+  }
+
+  async createQuickReply(insertReply: InsertQuickReply): Promise<QuickReply> {
+    const [reply] = await this.db.insert(quickReplies).values(insertReply).returning();
+    return reply;
+  }
+
+  // Settings methods
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await this.db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value as T | undefined;
+  }
+
+  async setSetting<T>(key: string, value: T): Promise<void> {
+    await this.db.insert(appSettings)
+      .values({ key, value, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+  }
+}
@@ -0,0 +1,14 @@
+import { Pool } from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Postgres-flavoured drizzle instance (node-postgres, pglite, ...) can back DbStorage
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Only connect when a database is provisioned; otherwise the app falls back to MemStorage
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db: Database | null = pool ? drizzle(pool, { schema }) : null;
@@ -0,0 +1,98 @@
+import type { EscalationConfig, EscalationRule, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { EscalationError, type ChatRouter } from "./routing";
+import { scoreSentiment } from "./sentiment";
+import { chatEvents } from "./events";
+
+export const ESCALATION_SETTINGS_KEY = "escalation";
+
+export const defaultEscalationConfig: EscalationConfig = {
+  enabled: true,
+  keywords: ['lawyer', 'attorney', 'legal action', 'sue', 'chargeback', 'complaint'],
+  unansweredMessages: 3,
+  sentimentThreshold: -4,
+};
+
+export async function getEscalationConfig(storage: IStorage): Promise<EscalationConfig> {
+  const stored = await storage.getSetting<Partial<EscalationConfig>>(ESCALATION_SETTINGS_KEY);
+  return { ...defaultEscalationConfig, ...stored };
+}
+
+export async function setEscalationConfig(storage: IStorage, config: EscalationConfig): Promise<EscalationConfig> {
+  await storage.setSetting(ESCALATION_SETTINGS_KEY, config);
+  return config;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isAgentReply = (message: Message) => message.senderType === 'agent' && message.visibility === 'public';
+
+export interface RuleMatch {
+  rule: Exclude<EscalationRule, 'manual'>;
+  reason: string;
+}
+
+/**
+ * The first automatic rule the customer's latest message trips, if any.
+ * `messages` is the chat so far, including `message`.
+ */
+export function matchRule(config: EscalationConfig, message: Message, messages: Message[], agentAssigned: boolean): RuleMatch | undefined {
+  const keyword = config.keywords.find(keyword =>
+    new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(message.content)
+  );
+  if (keyword) {
+    return { rule: 'keyword', reason: `Customer mentioned "${keyword}"` };
+  }
+
+  // Waiting in the queue is the SLA's business; this is about an agent not answering
+  if (config.unansweredMessages !== null && agentAssigned) {
+    const lastReplyIndex = messages.map(isAgentReply).lastIndexOf(true);
+    const unanswered = messages.slice(lastReplyIndex + 1).filter(m => m.senderType === 'customer').length;
+    if (unanswered >= config.unansweredMessages) {
+      return { rule: 'unanswered', reason: `${unanswered} customer messages without a reply` };
+    }
+  }
+
+  if (config.sentimentThreshold !== null) {
+    const score = scoreSentiment(message.content);
+    if (score <= config.sentimentThreshold) {
+      return { rule: 'sentiment', reason: `Negative customer sentiment (score ${score})` };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Escalates a chat on its own when a customer message trips one of the rules in
+ * the escalation config. Rules only fire for chats that have not been escalated
+ * yet; from there on it is up to the staff to escalate further.
+ */
+export class EscalationRules {
+  constructor(private storage: IStorage, private router: ChatRouter) {
+    chatEvents.on('message:created', (message) => {
+      if (message.senderType !== 'customer' || message.visibility !== 'public' || !message.sessionId) return;
+      this.check(message).catch((error) => console.error('Escalation rule error:', error));
+    });
+  }
+
+  private async check(message: Message) {
+    const session = await this.storage.getChatSession(message.sessionId!);
+    if (!session || session.escalationLevel) return;
+    if (session.status !== 'active' && session.status !== 'waiting') return;
+
+    const config = await getEscalationConfig(this.storage);
+    if (!config.enabled) return;
+
+    const messages = await this.storage.getMessagesBySession(session.id);
+    const match = matchRule(config, message, messages, session.status === 'active' && !!session.agentId);
+    if (!match) return;
+
+    try {
+      await this.router.escalate(session.id, { reason: match.reason, rule: match.rule, escalatedBy: null });
+    } catch (error) {
+      // Someone escalated or ended the chat in the meantime
+      if (!(error instanceof EscalationError)) throw error;
+    }
+  }
+}
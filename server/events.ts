@@ -0,0 +1,21 @@
+import { EventEmitter } from "events";
+import type { ChatSession, Message, PresenceState } from "@shared/schema";
+
+// Domain events shared between the REST routes, the WebSocket hub and background services
+interface ChatEventMap {
+  'session:updated': [session: ChatSession];
+  'session:ended': [session: ChatSession];
+  'session:transferred': [session: ChatSession];
+  'customer:joined': [session: ChatSession];
+  'message:created': [message: Message];
+  'agent:online': [userId: string];
+  'agent:login': [userId: string];
+  'agent:logout': [userId: string];
+  'agent:connected': [userId: string];
+  'agent:disconnected': [userId: string];
+  'agent:heartbeat': [userId: string, active: boolean];
+  'agent:status_requested': [userId: string, status: PresenceState];
+  'agent:presence': [userId: string, presence: PresenceState];
+}
+
+export const chatEvents = new EventEmitter<ChatEventMap>();
@@ -0,0 +1,51 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+
+/**
+ * Where uploaded bytes live. Only the local-disk store exists today; an object
+ * storage backend (S3, GCS, ...) just needs to implement the same three calls.
+ */
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStore implements FileStore {
+  constructor(private rootDir: string) {}
+
+  // Keys are generated by us, but never let one escape the upload directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      await stat(filePath);
+    } catch {
+      return undefined;
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export const fileStore: FileStore = new LocalFileStore(
+  process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads")
+);
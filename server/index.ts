@@ -1,8 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { db } from "./db";
+import { storage } from "./storage";
+import { seedDatabase } from "./seed";
+import { MAX_SOP_IMPORT_BYTES } from "@shared/schema";
 
 const app = express();
+// Imports carry the full text of every document, converted from uploads of up to the same size
+app.use('/api/sop/import', express.json({ limit: MAX_SOP_IMPORT_BYTES }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -37,6 +43,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // The in-memory store starts empty on every boot; a database is seeded via `npm run db:seed`
+  if (!db) {
+    await seedDatabase(storage);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
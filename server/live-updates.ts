@@ -0,0 +1,86 @@
+import type { ChatSession, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+import { chatEvents } from "./events";
+import { sanitizeUser } from "./auth";
+
+// Bursts of activity (a busy queue draining, many messages) collapse into one stats push
+const STATS_DEBOUNCE_MS = 500;
+
+/** A session as the dashboard sidebar shows it. */
+export async function enrichSession(storage: IStorage, session: ChatSession, lastMessage?: Message) {
+  const customer = session.customerId ? await storage.getCustomer(session.customerId) : null;
+  const agent = session.agentId ? await storage.getUser(session.agentId) : null;
+  const latest = lastMessage ?? (await storage.getRecentMessages(session.id, 1))[0];
+
+  return {
+    ...session,
+    customer,
+    agent: agent ? sanitizeUser(agent) : null,
+    lastMessage: latest ?? null
+  };
+}
+
+export async function getDashboardStats(storage: IStorage) {
+  const activeSessions = await storage.getActiveSessions();
+  const onlineAgents = await storage.getOnlineAgents();
+
+  return {
+    activeChats: activeSessions.filter(s => s.status === 'active').length,
+    waitingChats: activeSessions.filter(s => s.status === 'waiting').length,
+    onlineAgents: onlineAgents.length,
+    totalSessions: activeSessions.length
+  };
+}
+
+/**
+ * Pushes session list and dashboard stats changes to every staff socket so the
+ * dashboard can update its caches instead of polling.
+ */
+export class LiveUpdates {
+  private statsTimer: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage, private hub: ChatHub) {
+    const publish = (session: ChatSession) => this.publishSession(session);
+    chatEvents.on('session:updated', publish);
+    chatEvents.on('session:transferred', publish);
+    chatEvents.on('session:ended', publish);
+    chatEvents.on('message:created', (message) => this.publishMessage(message));
+    chatEvents.on('agent:presence', () => this.scheduleStats());
+  }
+
+  private async publishMessage(message: Message) {
+    if (!message.sessionId) return;
+    try {
+      const session = await this.storage.getChatSession(message.sessionId);
+      if (session) await this.publishSession(session, message);
+    } catch (error) {
+      console.error('Live update error:', error);
+    }
+  }
+
+  private async publishSession(session: ChatSession, lastMessage?: Message) {
+    try {
+      this.hub.broadcastToStaff({
+        type: 'session_updated',
+        sessionId: session.sessionId,
+        data: await enrichSession(this.storage, session, lastMessage)
+      });
+    } catch (error) {
+      console.error('Live update error:', error);
+    }
+    this.scheduleStats();
+  }
+
+  private scheduleStats() {
+    if (this.statsTimer) return;
+    this.statsTimer = setTimeout(async () => {
+      this.statsTimer = null;
+      try {
+        this.hub.broadcastToStaff({ type: 'stats_update', data: await getDashboardStats(this.storage) });
+      } catch (error) {
+        console.error('Live update error:', error);
+      }
+    }, STATS_DEBOUNCE_MS);
+  }
+}
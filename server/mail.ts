@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import net from "net";
+import path from "path";
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * How email leaves the server. The file transport (the default) writes each
+ * message to MAIL_DIR for inspection; the SMTP transport hands it to a relay
+ * such as a local test sink. A provider API only needs to implement send().
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || "support@chatsupport.local";
+
+// Header values must not carry line breaks into the message
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, " ");
+
+/** The message as RFC 5322 text with CRLF line endings. */
+export function formatMessage(mail: OutgoingMail, from = MAIL_FROM): string {
+  const headers = [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(mail.to)}`,
+    `Subject: ${headerValue(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${from.split("@")[1] ?? "localhost"}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${mail.text.replace(/\r?\n/g, "\r\n")}\r\n`;
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+    await writeFile(path.join(this.dir, name), formatMessage(mail));
+  }
+}
+
+const SMTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Plain SMTP without TLS or authentication: enough for a test sink (MailHog,
+ * smtp4dev, ...) or a relay on a private network, not for the open internet.
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private host: string, private port: number) {}
+
+  send(mail: OutgoingMail): Promise<void> {
+    // Lines starting with "." are escaped by doubling the dot
+    const data = formatMessage(mail).replace(/^\./gm, "..");
+    const commands = [
+      `EHLO ${MAIL_FROM.split("@")[1] ?? "localhost"}`,
+      `MAIL FROM:<${MAIL_FROM}>`,
+      `RCPT TO:<${headerValue(mail.to)}>`,
+      "DATA",
+      `${data}.`,
+      "QUIT",
+    ];
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.port, this.host);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+      socket.setEncoding("utf8");
+
+      let buffer = "";
+      let step = 0; // replies seen: the greeting, then one per command
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        // A reply is complete once its last line has a space after the code ("250 OK", not "250-...")
+        let end: number;
+        while ((end = buffer.search(/^\d{3} .*\r?\n/m)) !== -1) {
+          const line = buffer.slice(end).match(/^\d{3} .*\r?\n/m)![0];
+          buffer = buffer.slice(end + line.length);
+          const code = Number(line.slice(0, 3));
+          const expected = commands[step - 1] === "DATA" ? 354 : step === commands.length ? 221 : undefined;
+          if (code >= 400 || (expected !== undefined && code !== expected)) {
+            socket.destroy(new Error(`SMTP error: ${line.trim()}`));
+            return;
+          }
+          if (step === commands.length) {
+            socket.end();
+            resolve();
+            return;
+          }
+          socket.write(`${commands[step]}\r\n`);
+          step++;
+        }
+      });
+      socket.on("error", reject);
+      socket.on("close", () => reject(new Error("SMTP connection closed early")));
+    });
+  }
+}
+
+function createMailTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "smtp") {
+    return new SmtpMailTransport(process.env.SMTP_HOST || "localhost", Number(process.env.SMTP_PORT) || 1025);
+  }
+  return new FileMailTransport(process.env.MAIL_DIR || path.resolve(process.cwd(), "mail-outbox"));
+}
+
+export const mailTransport: MailTransport = createMailTransport();
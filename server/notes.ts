@@ -0,0 +1,55 @@
+import {
+  extractMentions,
+  type ChatSession, type InternalNote, type InternalNoteWithAuthor, type User
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+
+/** Staff accounts named by the note's @mentions; unknown usernames are left as plain text. */
+export async function resolveMentions(storage: IStorage, content: string): Promise<User[]> {
+  const users = await Promise.all(extractMentions(content).map(username => storage.getUserByUsername(username)));
+  return users.filter((user): user is User => !!user);
+}
+
+export async function withAuthors(storage: IStorage, notes: InternalNote[]): Promise<InternalNoteWithAuthor[]> {
+  const authorIds = Array.from(new Set(notes.map(note => note.authorId)));
+  const authors = await Promise.all(authorIds.map(id => storage.getUser(id)));
+  const names = new Map(authors.filter((user): user is User => !!user).map(user => [user.id, user.name]));
+  return notes.map(note => ({ ...note, authorName: names.get(note.authorId) ?? 'Unknown' }));
+}
+
+/**
+ * Stores a note on `session` and tells staff about it: everyone in the chat gets
+ * `note_created`, and each mentioned user other than the author a `mention`
+ * wherever they are signed in. Nothing is ever sent to the customer.
+ */
+export async function addNote(
+  storage: IStorage,
+  hub: ChatHub,
+  session: ChatSession,
+  author: User,
+  { content, pinToCustomer }: { content: string; pinToCustomer: boolean },
+): Promise<InternalNoteWithAuthor> {
+  const mentioned = await resolveMentions(storage, content);
+  const note = await storage.createInternalNote({
+    sessionId: session.id,
+    customerId: pinToCustomer ? session.customerId : null,
+    authorId: author.id,
+    content,
+    mentions: mentioned.map(user => user.id)
+  });
+  const payload: InternalNoteWithAuthor = { ...note, authorName: author.name };
+
+  hub.broadcastToSession(session.sessionId, { type: 'note_created', sessionId: session.sessionId, data: payload }, { staffOnly: true });
+
+  const customer = session.customerId ? await storage.getCustomer(session.customerId) : undefined;
+  mentioned
+    .filter(user => user.id !== author.id)
+    .forEach(user => hub.sendToUser(user.id, {
+      type: 'mention',
+      sessionId: session.sessionId,
+      data: { note: payload, customerName: customer?.name ?? 'Customer' }
+    }));
+
+  return payload;
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { deflateSync } from "zlib";
+import { PdfReadError, readPdfText } from "./pdf-text";
+
+const MAX_INFLATED_BYTES = 1024 * 1024;
+
+// A one-page PDF whose page content, and optionally an object stream, are the given streams
+function buildPdf(content: Buffer, objectStream?: Buffer): Buffer {
+  const stream = (num: number, dict: string, data: Buffer) => Buffer.concat([
+    Buffer.from(`${num} 0 obj\n<< ${dict} /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n', 'latin1'),
+  ]);
+  return Buffer.concat([
+    Buffer.from([
+      '%PDF-1.5',
+      '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj',
+      '2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj',
+      '3 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>\nendobj',
+      '5 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj',
+      '',
+    ].join('\n'), 'latin1'),
+    stream(4, '', deflateSync(content)),
+    ...(objectStream ? [stream(6, '/Type /ObjStm /N 1 /First 4', deflateSync(objectStream))] : []),
+    Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+const rejectsAsTooLarge = (pdf: Buffer) => assert.throws(
+  () => readPdfText(pdf, MAX_INFLATED_BYTES),
+  (error: unknown) => error instanceof PdfReadError && /at most 1 MB/.test(error.message),
+);
+
+// Entry point for `npm run pdf:check`
+const text = Buffer.from('BT /F1 12 Tf 72 700 Td (Returns policy) Tj ET');
+assert.equal(readPdfText(buildPdf(text), MAX_INFLATED_BYTES).text, 'Returns policy');
+
+// A few KB that inflate to 16 MB, as page content or as an object stream
+const bomb = Buffer.alloc(16 * 1024 * 1024, ' ');
+rejectsAsTooLarge(buildPdf(bomb));
+rejectsAsTooLarge(buildPdf(text, bomb));
+
+// Streams that each fit still count towards one budget per document
+const half = Buffer.alloc(MAX_INFLATED_BYTES / 2 + 1, ' ');
+rejectsAsTooLarge(buildPdf(half, half));
+
+console.log("PDF reader checks passed");
@@ -0,0 +1,479 @@
+import { constants, inflateSync } from "zlib";
+
+/*
+ * Reads the text layer of a PDF without rendering it: enough for documents a
+ * word processor exported, not for scans, which have no text to read. Handles
+ * compressed object streams and fonts with a ToUnicode map; text in other
+ * simple fonts is read as Latin-1.
+ */
+
+export class PdfReadError extends Error {}
+
+class PdfName {
+  constructor(public name: string) {}
+}
+
+class PdfRef {
+  constructor(public num: number) {}
+}
+
+// Content stream operators, and keywords such as `R` or `endobj` while reading objects
+class PdfOperator {
+  constructor(public op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+// Strings are kept as bytes (one char per byte); what they mean depends on where they are used
+type PdfValue = number | boolean | null | string | PdfName | PdfRef | PdfOperator | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+const WHITESPACE = '\x00\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+const isRegular = (char: string | undefined) => !!char && !WHITESPACE.includes(char) && !DELIMITERS.includes(char);
+
+// Reads PDF values from latin1 text, where every char is one byte of the file
+class Lexer {
+  constructor(private src: string, public pos = 0) {}
+
+  private skipSpace() {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos];
+      if (WHITESPACE.includes(char)) this.pos++;
+      else if (char === '%') while (this.pos < this.src.length && !'\r\n'.includes(this.src[this.pos])) this.pos++;
+      else break;
+    }
+  }
+
+  startsWith(text: string) {
+    this.skipSpace();
+    return this.src.startsWith(text, this.pos);
+  }
+
+  /** The next value, or undefined at the end or at a closing `]` or `>>`. */
+  read(): PdfValue | undefined {
+    this.skipSpace();
+    const src = this.src;
+    const char = src[this.pos];
+    if (char === undefined) return undefined;
+
+    if (src.startsWith('<<', this.pos)) {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      for (;;) {
+        const key = this.read();
+        if (!(key instanceof PdfName)) break;
+        dict.set(key.name, this.read() ?? null);
+      }
+      if (this.startsWith('>>')) this.pos += 2;
+      return dict;
+    }
+    if (src.startsWith('>>', this.pos) || char === ']') return undefined;
+    if (char === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (let item = this.read(); item !== undefined; item = this.read()) items.push(item);
+      if (this.startsWith(']')) this.pos++;
+      return items;
+    }
+    if (char === '(') return this.readLiteralString();
+    if (char === '<') {
+      const end = src.indexOf('>', this.pos);
+      const hex = src.slice(this.pos + 1, end < 0 ? src.length : end).replace(/[^0-9A-Fa-f]/g, '');
+      this.pos = end < 0 ? src.length : end + 1;
+      return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1');
+    }
+    if (char === '/') {
+      const start = ++this.pos;
+      while (isRegular(src[this.pos])) this.pos++;
+      return new PdfName(src.slice(start, this.pos).replace(/#([0-9A-Fa-f]{2})/g, (_, code) => String.fromCharCode(parseInt(code, 16))));
+    }
+
+    const start = this.pos;
+    while (isRegular(src[this.pos])) this.pos++;
+    if (this.pos === start) {
+      this.pos++; // a stray delimiter such as `)` or `{`
+      return this.read();
+    }
+    const token = src.slice(start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return this.readNumberOrRef(Number(token));
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (token === 'null') return null;
+    return new PdfOperator(token);
+  }
+
+  // `12 0 R` is a reference; anything else after a number is left for the next read
+  private readNumberOrRef(value: number): PdfValue {
+    const match = /^\s+(\d+)\s+R(?![^\x00\t\n\f\r ()<>[\]{}/%])/.exec(this.src.slice(this.pos, this.pos + 32));
+    if (!Number.isInteger(value) || !match) return value;
+    this.pos += match[0].length;
+    return new PdfRef(value);
+  }
+
+  private readLiteralString(): string {
+    const src = this.src;
+    let depth = 0;
+    let text = '';
+    this.pos++;
+    while (this.pos < src.length) {
+      const char = src[this.pos++];
+      if (char === '\\') {
+        const next = src[this.pos++];
+        if (next in ESCAPES) text += ESCAPES[next];
+        else if (/[0-7]/.test(next)) {
+          const octal = /^[0-7]{1,3}/.exec(src.slice(this.pos - 1, this.pos + 2))![0];
+          text += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          this.pos += octal.length - 1;
+        } else if (next === '\r') {
+          if (src[this.pos] === '\n') this.pos++;
+        } else if (next !== '\n') text += next;
+      } else if (char === '(') {
+        depth++;
+        text += char;
+      } else if (char === ')') {
+        if (depth-- === 0) break;
+        text += char;
+      } else text += char;
+    }
+    return text;
+  }
+
+  /** Skips the binary data of an inline image, which sits between the ID and EI operators. */
+  skipInlineImage() {
+    const end = /\sEI(?![^\x00\t\n\f\r ()<>[\]{}/%])/g;
+    end.lastIndex = this.pos;
+    const match = end.exec(this.src);
+    this.pos = match ? match.index + match[0].length : this.src.length;
+  }
+}
+
+const nameOf = (value: PdfValue | undefined) => value instanceof PdfName ? value.name : undefined;
+
+// Text strings in the document info are UTF-16 with a byte order mark, or close enough to Latin-1
+function decodeTextString(bytes: string): string {
+  if (!bytes.startsWith('\xfe\xff')) return bytes;
+  let text = '';
+  for (let i = 2; i + 1 < bytes.length; i += 2) text += String.fromCharCode(bytes.charCodeAt(i) * 256 + bytes.charCodeAt(i + 1));
+  return text;
+}
+
+// --- Fonts
+
+interface FontDecoder {
+  codeLength: number; // bytes per character code
+  map: Map<number, string> | null; // from the font's ToUnicode CMap, if it has one
+}
+
+const LATIN1: FontDecoder = { codeLength: 1, map: null };
+
+const hexToUtf16 = (hex: string) => decodeTextString(`\xfe\xff${Buffer.from(hex, 'hex').toString('latin1')}`);
+
+function parseToUnicode(cmap: string): FontDecoder {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9A-Fa-f]+)>/.exec(cmap);
+  const codeLength = codespace ? Math.max(1, codespace[1].length / 2) : 2;
+
+  const sections = /begin(bfchar|bfrange)([\s\S]*?)end\1/g;
+  let section: RegExpExecArray | null;
+  while ((section = sections.exec(cmap))) {
+    if (section[1] === 'bfchar') {
+      const pairs = /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g;
+      let pair: RegExpExecArray | null;
+      while ((pair = pairs.exec(section[2]))) map.set(parseInt(pair[1], 16), hexToUtf16(pair[2]));
+      continue;
+    }
+    const ranges = /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g;
+    let range: RegExpExecArray | null;
+    while ((range = ranges.exec(section[2]))) {
+      const low = parseInt(range[1], 16);
+      const high = parseInt(range[2], 16);
+      if (range[3].startsWith('[')) {
+        const targets = range[3].match(/<[0-9A-Fa-f]*>/g) ?? [];
+        targets.forEach((target, i) => map.set(low + i, hexToUtf16(target.slice(1, -1))));
+      } else {
+        // Consecutive codes map to consecutive characters, counting up in the last one
+        const start = hexToUtf16(range[3].slice(1, -1));
+        for (let code = low; code <= high && code - low < 0x10000; code++) {
+          map.set(code, start.slice(0, -1) + String.fromCharCode(start.charCodeAt(start.length - 1) + code - low));
+        }
+      }
+    }
+  }
+  return { codeLength, map };
+}
+
+function decodeText(bytes: string, font: FontDecoder): string {
+  if (!font.map) return bytes;
+  let text = '';
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    let code = 0;
+    for (let j = 0; j < font.codeLength; j++) code = code * 256 + bytes.charCodeAt(i + j);
+    text += font.map.get(code) ?? '';
+  }
+  return text;
+}
+
+// --- Documents
+
+export interface PdfText {
+  text: string; // a line per line of text, with a blank line between pages
+  title?: string;
+  subject?: string;
+  keywords?: string;
+}
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private fontCache = new Map<PdfValue, FontDecoder>();
+  private inflatedBytes = 0;
+
+  constructor(private src: string, private maxInflatedBytes: number) {
+    const starts = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = starts.exec(src))) {
+      const lexer = new Lexer(src, starts.lastIndex);
+      const value = lexer.read() ?? null;
+      const object: PdfObject = { value };
+      if (value instanceof Map && lexer.startsWith('stream')) {
+        const start = lexer.pos + 6 + (src.startsWith('\r\n', lexer.pos + 6) ? 2 : 1);
+        const length = value.get('Length');
+        const end = typeof length === 'number' && src.startsWith('endstream', this.skipEol(start + length))
+          ? start + length
+          : src.indexOf('endstream', start);
+        object.stream = Buffer.from(src.slice(start, end < 0 ? src.length : end), 'latin1');
+        starts.lastIndex = end < 0 ? src.length : end;
+      } else {
+        starts.lastIndex = lexer.pos;
+      }
+      // Later definitions are incremental updates and replace earlier ones
+      this.objects.set(Number(match[1]), object);
+    }
+    Array.from(this.objects.values()).forEach(object => this.unpackObjectStream(object));
+  }
+
+  private skipEol(pos: number) {
+    while ('\r\n'.includes(this.src[pos] ?? '')) pos++;
+    return pos;
+  }
+
+  // Objects may be packed into compressed streams; those found directly in the file take precedence
+  private unpackObjectStream(object: PdfObject) {
+    if (!(object.value instanceof Map) || nameOf(object.value.get('Type')) !== 'ObjStm') return;
+    const data = this.decodeStream(object);
+    const count = object.value.get('N');
+    const first = object.value.get('First');
+    if (data === null || typeof count !== 'number' || typeof first !== 'number') return;
+    const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count && 2 * i + 1 < header.length; i++) {
+      const num = header[2 * i];
+      if (this.objects.has(num)) continue;
+      this.objects.set(num, { value: new Lexer(data, first + header[2 * i + 1]).read() ?? null });
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num)?.value : value;
+  }
+
+  private dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return resolved instanceof Map ? resolved : undefined;
+  }
+
+  /** The decoded stream as latin1 text, or null when it uses a filter we cannot undo. */
+  private decodeStream(object: PdfObject | undefined): string | null {
+    if (!object?.stream || !(object.value instanceof Map)) return null;
+    const filter = this.resolve(object.value.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(nameOf);
+    let data = object.stream;
+    for (const name of filters) {
+      if (name !== 'FlateDecode') return null;
+      try {
+        // Tolerate streams cut short or missing their checksum, which some producers write
+        data = inflateSync(data, {
+          finishFlush: constants.Z_SYNC_FLUSH,
+          maxOutputLength: Math.max(1, this.maxInflatedBytes - this.inflatedBytes),
+        });
+      } catch (error) {
+        if (error instanceof RangeError) throw this.tooLarge();
+        return null;
+      }
+      this.inflatedBytes += data.length;
+      if (this.inflatedBytes > this.maxInflatedBytes) throw this.tooLarge();
+    }
+    return data.toString('latin1');
+  }
+
+  private tooLarge() {
+    return new PdfReadError(`PDFs may unpack to at most ${this.maxInflatedBytes / (1024 * 1024)} MB`);
+  }
+
+  private streamOf(value: PdfValue | undefined): string | null {
+    return value instanceof PdfRef ? this.decodeStream(this.objects.get(value.num)) : null;
+  }
+
+  // The dictionary at the end of the file, or of the cross-reference stream that replaces it
+  private trailer(): PdfDict | undefined {
+    const at = this.src.lastIndexOf('trailer');
+    const trailer = at >= 0 ? new Lexer(this.src, at + 7).read() : undefined;
+    if (trailer instanceof Map) return trailer;
+    const xrefs = Array.from(this.objects.values())
+      .map(object => object.value)
+      .filter((value): value is PdfDict => value instanceof Map && nameOf(value.get('Type')) === 'XRef');
+    return xrefs[xrefs.length - 1];
+  }
+
+  private pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const trailer = this.trailer();
+    if (trailer?.has('Encrypt')) throw new PdfReadError('Encrypted PDFs cannot be read');
+    const catalog = this.dict(trailer?.get('Root'))
+      ?? Array.from(this.objects.values()).map(object => object.value)
+        .find((value): value is PdfDict => value instanceof Map && nameOf(value.get('Type')) === 'Catalog');
+
+    const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited?: PdfDict) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = this.dict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) kids.forEach(kid => walk(this.dict(kid), resources));
+      else if (nameOf(node.get('Type')) === 'Page' || node.has('Contents')) pages.push({ page: node, resources });
+    };
+    walk(this.dict(catalog?.get('Pages')));
+    return pages;
+  }
+
+  private fonts(resources?: PdfDict): Map<string, FontDecoder> {
+    const fonts = new Map<string, FontDecoder>();
+    const fontDict = this.dict(resources?.get('Font'));
+    if (!fontDict) return fonts;
+    Array.from(fontDict.entries()).forEach(([name, ref]) => {
+      let decoder = this.fontCache.get(ref);
+      if (!decoder) {
+        const font = this.dict(ref);
+        const toUnicode = this.streamOf(font?.get('ToUnicode'));
+        // Two-byte fonts without a map use glyph numbers that say nothing about the text
+        decoder = toUnicode ? parseToUnicode(toUnicode)
+          : nameOf(font?.get('Subtype')) === 'Type0' ? { codeLength: 2, map: new Map() }
+          : LATIN1;
+        this.fontCache.set(ref, decoder);
+      }
+      fonts.set(name, decoder);
+    });
+    return fonts;
+  }
+
+  private pageText(page: PdfDict, resources?: PdfDict): string {
+    const contents = page.get('Contents');
+    const parts = Array.isArray(this.resolve(contents)) ? this.resolve(contents) as PdfValue[] : [contents];
+    const content = parts.map(part => this.streamOf(part) ?? '').join('\n');
+    const fonts = this.fonts(resources);
+
+    let font = LATIN1;
+    let text = '';
+    let lineY: number | undefined;
+    const newline = () => {
+      if (text && !text.endsWith('\n')) text += '\n';
+    };
+    const space = () => {
+      if (text && !/\s$/.test(text)) text += ' ';
+    };
+    const show = (value: PdfValue | undefined) => {
+      if (typeof value === 'string') text += decodeText(value, font);
+    };
+
+    const lexer = new Lexer(content);
+    let operands: PdfValue[] = [];
+    for (;;) {
+      const value = lexer.read();
+      if (value === undefined) {
+        if (lexer.startsWith(']') || lexer.startsWith('>>')) {
+          lexer.pos += lexer.startsWith(']') ? 1 : 2;
+          continue;
+        }
+        break;
+      }
+      if (!(value instanceof PdfOperator)) {
+        operands.push(value);
+        continue;
+      }
+      const [a, b] = operands;
+      switch (value.op) {
+        case 'Tf':
+          font = fonts.get(nameOf(a) ?? '') ?? LATIN1;
+          break;
+        case 'Tj':
+          show(a);
+          break;
+        case "'":
+          newline();
+          show(a);
+          break;
+        case '"':
+          newline();
+          show(operands[2]);
+          break;
+        case 'TJ':
+          // Large negative adjustments are the gaps between words
+          if (Array.isArray(a)) a.forEach(item => typeof item === 'number' ? item < -200 && space() : show(item));
+          break;
+        case 'Td':
+        case 'TD':
+          if (typeof b === 'number' && Math.abs(b) > 0.01) newline();
+          else if (typeof a === 'number' && a > 0) space();
+          break;
+        case 'T*':
+          newline();
+          break;
+        case 'Tm': {
+          const y = operands[5];
+          if (typeof y === 'number') {
+            if (lineY !== undefined && Math.abs(y - lineY) > 0.5) newline();
+            else space();
+            lineY = y;
+          }
+          break;
+        }
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+      }
+      operands = [];
+    }
+    return text;
+  }
+
+  read(): PdfText {
+    const text = this.pages()
+      .map(({ page, resources }) => this.pageText(page, resources)
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n'))
+      .filter(Boolean)
+      .join('\n\n');
+
+    const info = this.dict(this.trailer()?.get('Info'));
+    const field = (key: string) => {
+      const value = this.resolve(info?.get(key));
+      return typeof value === 'string' ? decodeTextString(value).trim() || undefined : undefined;
+    };
+    return { text, title: field('Title'), subject: field('Subject'), keywords: field('Keywords') };
+  }
+}
+
+/**
+ * The text and document info of a PDF. Throws PdfReadError for files it cannot read,
+ * or whose compressed streams add up to more than maxInflatedBytes once inflated.
+ */
+export function readPdfText(data: Buffer, maxInflatedBytes: number): PdfText {
+  const src = data.toString('latin1');
+  if (!src.startsWith('%PDF-')) throw new PdfReadError('Not a PDF file');
+  return new PdfDocument(src, maxInflatedBytes).read();
+}
@@ -0,0 +1,174 @@
+import type { AgentStatusHistory, PresenceState, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+import { chatEvents } from "./events";
+
+const SWEEP_INTERVAL_MS = 30 * 1000;
+// A dashboard heartbeats every 30s; after three missed beats with no socket left we call it offline
+const HEARTBEAT_TIMEOUT_MS = 90 * 1000;
+const AUTO_AWAY_MS = parseInt(process.env.AUTO_AWAY_MINUTES || '5', 10) * 60 * 1000;
+
+interface AgentActivity {
+  sockets: number;
+  lastHeartbeat: number;
+  lastActivity: number;
+  // Set when we moved the agent to "away" ourselves, so activity may move them back
+  autoAway: boolean;
+}
+
+/**
+ * Drives `users.presence` from WebSocket connections, heartbeats and explicit
+ * status changes, records every transition in agent_status_history and
+ * announces it to supervisors as an `agent_status` event.
+ */
+export class PresenceTracker {
+  private activity = new Map<string, AgentActivity>();
+
+  constructor(private storage: IStorage, private hub: ChatHub) {
+    chatEvents.on('agent:login', (userId) => {
+      this.setStatus(userId, 'available').catch((error) => console.error('Presence error:', error));
+    });
+    chatEvents.on('agent:logout', (userId) => {
+      this.activity.delete(userId);
+      this.setStatus(userId, 'offline').catch((error) => console.error('Presence error:', error));
+    });
+    chatEvents.on('agent:connected', (userId) => {
+      this.handleConnected(userId).catch((error) => console.error('Presence error:', error));
+    });
+    chatEvents.on('agent:disconnected', (userId) => {
+      const entry = this.activity.get(userId);
+      if (entry) entry.sockets = Math.max(0, entry.sockets - 1);
+    });
+    chatEvents.on('agent:heartbeat', (userId, active) => {
+      this.handleHeartbeat(userId, active).catch((error) => console.error('Presence error:', error));
+    });
+    chatEvents.on('agent:status_requested', (userId, status) => {
+      this.setStatus(userId, status).catch((error) => console.error('Presence error:', error));
+    });
+
+    this.trackPreviouslyOnline().catch((error) => console.error('Presence init error:', error));
+    setInterval(() => {
+      this.sweep().catch((error) => console.error('Presence sweep error:', error));
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  /** Explicit change from the agent (or a supervisor). */
+  async setStatus(userId: string, status: PresenceState): Promise<User | undefined> {
+    const user = await this.storage.getUser(userId);
+    if (!user) return undefined;
+
+    const entry = this.activity.get(userId);
+    if (entry) entry.autoAway = false;
+    return this.transition(user, status);
+  }
+
+  private async transition(user: User, status: PresenceState): Promise<User | undefined> {
+    if (user.presence === status) return user;
+
+    const updated = await this.storage.setUserPresence(user.id, status);
+    if (!updated) return undefined;
+
+    const event = {
+      type: 'agent_status' as const,
+      data: {
+        userId: user.id,
+        presence: status,
+        previous: user.presence,
+        changedAt: updated.presenceUpdatedAt
+      }
+    };
+    this.hub.broadcastToStaff(event, 'team_lead');
+    this.hub.sendToUser(user.id, event);
+
+    chatEvents.emit('agent:presence', user.id, status);
+    if (status === 'available') {
+      chatEvents.emit('agent:online', user.id);
+    }
+    return updated;
+  }
+
+  // Presence persisted before a restart is stale until those agents reconnect
+  private async trackPreviouslyOnline() {
+    const now = Date.now();
+    const online = await this.storage.getOnlineAgents();
+    online.forEach((agent) => {
+      if (!this.activity.has(agent.id)) {
+        this.activity.set(agent.id, { sockets: 0, lastHeartbeat: now, lastActivity: now, autoAway: false });
+      }
+    });
+  }
+
+  private async handleConnected(userId: string) {
+    const now = Date.now();
+    const entry = this.activity.get(userId) ?? { sockets: 0, lastHeartbeat: now, lastActivity: now, autoAway: false };
+    entry.sockets++;
+    entry.lastHeartbeat = now;
+    this.activity.set(userId, entry);
+
+    const user = await this.storage.getUser(userId);
+    if (user && user.presence === 'offline') {
+      await this.transition(user, 'available');
+    }
+  }
+
+  private async handleHeartbeat(userId: string, active: boolean) {
+    const now = Date.now();
+    const entry = this.activity.get(userId) ?? { sockets: 0, lastHeartbeat: now, lastActivity: now, autoAway: false };
+    entry.lastHeartbeat = now;
+    if (active) entry.lastActivity = now;
+    this.activity.set(userId, entry);
+
+    if (active && entry.autoAway) {
+      entry.autoAway = false;
+      const user = await this.storage.getUser(userId);
+      if (user && user.presence === 'away') {
+        await this.transition(user, 'available');
+      }
+    }
+  }
+
+  private async sweep() {
+    const now = Date.now();
+    const entries = Array.from(this.activity.entries());
+
+    for (const [userId, entry] of entries) {
+      const user = await this.storage.getUser(userId);
+      if (!user) {
+        this.activity.delete(userId);
+        continue;
+      }
+
+      if (entry.sockets === 0 && now - entry.lastHeartbeat > HEARTBEAT_TIMEOUT_MS) {
+        this.activity.delete(userId);
+        await this.transition(user, 'offline');
+      } else if (user.presence === 'available' && now - entry.lastActivity > AUTO_AWAY_MS) {
+        entry.autoAway = true;
+        await this.transition(user, 'away');
+      }
+    }
+  }
+}
+
+/**
+ * Seconds spent in each presence state between `from` and `to`, plus occupancy:
+ * the share of logged-in, non-break time the agent was busy.
+ */
+export function summarizePresence(history: AgentStatusHistory[], from: Date, to: Date) {
+  const seconds: Record<string, number> = {};
+  const now = new Date();
+
+  history.forEach((entry) => {
+    const start = Math.max(entry.startedAt.getTime(), from.getTime());
+    const end = Math.min((entry.endedAt ?? now).getTime(), to.getTime());
+    if (end > start) {
+      seconds[entry.status] = (seconds[entry.status] || 0) + Math.round((end - start) / 1000);
+    }
+  });
+
+  const busy = seconds.busy || 0;
+  const staffed = busy + (seconds.available || 0) + (seconds.away || 0);
+  return {
+    seconds,
+    occupancy: staffed > 0 ? busy / staffed : 0,
+  };
+}
@@ -0,0 +1,41 @@
+import type { ChatSession, ReadReceipt, WSMessage } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export interface Reader {
+  id: string;
+  type: ReadReceipt['readerType'];
+}
+
+// Customers have no account; their customer record (or, failing that, the chat) identifies them
+export function customerReader(session: ChatSession): Reader {
+  return { id: session.customerId ?? session.sessionId, type: 'customer' };
+}
+
+/**
+ * Records that `reader` has seen the other party's messages in `session`, up to
+ * and including `upToMessageId` (or everything so far when omitted). Returns the
+ * `message_read` event to broadcast, or null when nothing new was marked.
+ */
+export async function recordRead(
+  storage: IStorage,
+  session: ChatSession,
+  reader: Reader,
+  upToMessageId?: string,
+): Promise<WSMessage | null> {
+  let upTo = new Date();
+  if (upToMessageId) {
+    const message = await storage.getMessage(upToMessageId);
+    if (!message || message.sessionId !== session.id) return null;
+    upTo = message.timestamp ?? upTo;
+  }
+
+  const receipt: ReadReceipt = { readerId: reader.id, readerType: reader.type, readAt: new Date().toISOString() };
+  const messageIds = await storage.markMessagesRead(session.id, receipt, upTo);
+  if (messageIds.length === 0) return null;
+
+  return {
+    type: 'message_read',
+    sessionId: session.sessionId,
+    data: { ...receipt, messageIds }
+  };
+}
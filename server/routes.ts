@@ -1,237 +1,344 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, requireRole, requireSessionAccess, sanitizeUser, createCustomerToken } from "./auth";
+import { setupWebSocket } from "./websocket";
+import { ChatRouter, EscalationError } from "./routing";
+import { TransferError, transferChat } from "./transfers";
+import { canMessageCustomer } from "./supervision";
+import { PresenceTracker, summarizePresence } from "./presence";
+import { fileStore } from "./file-store";
+import { receiveAttachment, storeAttachment, contentDisposition, withAttachments, InvalidUploadError } from "./attachments";
+import { customerReader, recordRead } from "./read-receipts";
+import { LiveUpdates, getDashboardStats } from "./live-updates";
+import { decodeSessionCursor, encodeSessionCursor } from "./session-list";
+import { addNote, withAuthors } from "./notes";
+import { getWrapUpConfig, setWrapUpConfig, resolveWrapUp, InvalidWrapUpError } from "./wrap-up";
+import { getSurveyConfig, setSurveyConfig, validateSurvey, InvalidSurveyError } from "./survey";
+import { SlaMonitor } from "./sla";
+import { businessHoursAvailability, getBusinessHoursConfig, setBusinessHoursConfig } from "./business-hours";
+import { EscalationRules, getEscalationConfig, setEscalationConfig } from "./escalation";
+import { withCustomers, repliesWithAuthors, replyToTicket } from "./tickets";
+import { InvalidRevisionError, createSop, currentRevision, diffLines, reviseSop, revisionsWithAuthors, rollbackSop } from "./sop-revisions";
+import { canReviewSops, changeSopStatus, commentsWithAuthors, publishedVersions, requiredRoleFor } from "./sop-workflow";
+import { SopSuggestionFeed, suggestSops } from "./sop-suggestions";
+import { exportSops, importSops, previewSopFiles, receiveSopFiles } from "./sop-files";
+import { mailTransport } from "./mail";
+import { CallbackReminders, InvalidCallbackError, canManageCallback, resolveCallbackAgent, resolveCallbackUpdate, withDetails } from "./callbacks";
+import { buildCsatReport, buildPerformanceReport, resolveRange, InvalidRangeError } from "./analytics";
+import { chatEvents } from "./events";
 import { z } from "zod";
 import { 
   insertMessageSchema, 
   insertChatSessionSchema, 
   insertCustomerSchema,
   insertSOPSchema,
-  type WSMessage,
+  updateSOPSchema,
+  sopRollbackSchema,
+  sopStatusChangeSchema,
+  sopCommentSchema,
+  sopListQuerySchema,
+  sopSearchSchema,
+  sopImportSchema,
+  routingConfigSchema,
+  wrapUpConfigSchema,
+  wrapUpSchema,
+  slaConfigSchema,
+  businessHoursConfigSchema,
+  escalateSchema,
+  escalationConfigSchema,
+  scheduleCallbackSchema,
+  requestCallbackSchema,
+  updateCallbackSchema,
+  callbackListQuerySchema,
+  createTicketSchema,
+  ticketReplySchema,
+  updateTicketSchema,
+  ticketStatuses,
+  surveyConfigSchema,
+  submitSurveySchema,
+  csatQuerySchema,
+  analyticsRangeSchema,
+  chatTopics,
+  presenceStates,
+  sessionListQuerySchema,
+  createNoteSchema,
+  isVisibleToCustomer,
+  roleRank,
+  userRoles,
+  canManageChat,
+  type SessionListPage,
+  type SurveyState,
+  type SopDiff,
+  type SopListQuery,
+  type SopSearchResult,
+  type SopImportPreview,
+  type SOPDocument,
+  type Availability,
   type User,
   type ChatSession 
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
-interface ConnectedClient {
-  ws: WebSocket;
-  userId?: string;
-  userType: 'customer' | 'agent';
-  sessionId?: string;
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
+  const sessionMiddleware = setupAuth(app);
+
   const httpServer = createServer(app);
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  const connectedClients = new Map<string, ConnectedClient>();
-
-  // WebSocket connection handling
-  wss.on('connection', (ws) => {
-    const clientId = randomUUID();
-    connectedClients.set(clientId, { ws, userType: 'customer' });
-
-    ws.on('message', async (data) => {
-      try {
-        const message: WSMessage = JSON.parse(data.toString());
-        const client = connectedClients.get(clientId);
-        if (!client) return;
-
-        switch (message.type) {
-          case 'join_session':
-            client.userId = message.userId;
-            client.userType = message.userType as 'customer' | 'agent';
-            client.sessionId = message.sessionId;
-            
-            // Broadcast user joined
-            broadcastToSession(message.sessionId!, {
-              type: 'agent_status',
-              data: { status: 'joined', userId: message.userId, userType: message.userType }
-            });
-            break;
-
-          case 'chat_message':
-            if (message.sessionId && message.data) {
-              // Save message to storage
-              const newMessage = await storage.createMessage({
-                sessionId: message.sessionId,
-                senderId: message.userId!,
-                senderType: message.userType!,
-                content: message.data.content,
-                messageType: 'text'
-              });
-
-              // Broadcast to all clients in session
-              broadcastToSession(message.sessionId, {
-                type: 'chat_message',
-                sessionId: message.sessionId,
-                data: {
-                  ...newMessage,
-                  senderName: message.data.senderName
-                }
-              });
-            }
-            break;
-
-          case 'agent_typing':
-          case 'customer_typing':
-            if (message.sessionId) {
-              broadcastToSession(message.sessionId, message, clientId);
-            }
-            break;
-
-          case 'session_transfer':
-            if (message.sessionId && message.data) {
-              // Update session in storage
-              const session = await storage.getChatSessionBySessionId(message.sessionId);
-              if (session) {
-                const transferHistory = Array.isArray(session.transferHistory) ? session.transferHistory : [];
-                transferHistory.push({
-                  fromAgent: session.agentId,
-                  toAgent: message.data.newAgentId,
-                  timestamp: new Date(),
-                  reason: message.data.reason
-                });
-
-                await storage.updateChatSession(session.id, {
-                  agentId: message.data.newAgentId,
-                  transferHistory
-                });
-
-                // Broadcast transfer
-                broadcastToSession(message.sessionId, {
-                  type: 'session_transfer',
-                  sessionId: message.sessionId,
-                  data: message.data
-                });
-              }
-            }
-            break;
-
-          case 'session_ended':
-            if (message.sessionId) {
-              const session = await storage.getChatSessionBySessionId(message.sessionId);
-              if (session) {
-                await storage.updateChatSession(session.id, {
-                  status: 'resolved',
-                  endTime: new Date()
-                });
-
-                broadcastToSession(message.sessionId, {
-                  type: 'session_ended',
-                  sessionId: message.sessionId,
-                  data: { endedBy: message.userId }
-                });
-              }
-            }
-            break;
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
+  const hub = setupWebSocket(httpServer, sessionMiddleware);
+  const router = new ChatRouter(storage, hub);
+  const presence = new PresenceTracker(storage, hub);
+  new LiveUpdates(storage, hub);
+  const sla = new SlaMonitor(storage, hub);
+  new EscalationRules(storage, router);
+  new CallbackReminders(storage, hub);
+  new SopSuggestionFeed(storage, hub);
+
+  // Customers are known by email; the widget creates them on first contact
+  const findOrCreateCustomer = async (name: string, email: string) =>
+    (await storage.getCustomerByEmail(email)) ?? storage.createCustomer({
+      name,
+      email,
+      customerId: `CUS-${Date.now()}`,
+      totalOrders: 0,
+      status: 'regular'
     });
 
-    ws.on('close', () => {
-      const client = connectedClients.get(clientId);
-      if (client && client.sessionId) {
-        broadcastToSession(client.sessionId, {
-          type: 'agent_status',
-          data: { status: 'left', userId: client.userId, userType: client.userType }
-        });
+  // Chat session endpoints
+  app.post('/api/chat/start', async (req, res) => {
+    try {
+      const { customerEmail, customerName } = req.body;
+      const topic = chatTopics.some(t => t.id === req.body.topic) ? req.body.topic : 'general';
+      
+      // Turned-away customers are not recorded
+      const hours = businessHoursAvailability(await getBusinessHoursConfig(storage), topic);
+      if (!hours.open) {
+        return res.status(503).json({ error: 'Outside business hours', opensAt: hours.opensAt });
       }
-      connectedClients.delete(clientId);
-    });
+      if (!(await router.hasAvailableAgents())) {
+        return res.status(503).json({ error: 'No agents available' });
+      }
+
+      const customer = await findOrCreateCustomer(customerName, customerEmail);
+
+      // Every chat enters the queue; the router assigns it straight away if someone has capacity
+      const sessionId = `CHT-${Date.now()}-${randomUUID().slice(0, 8)}`;
+      const created = await storage.createChatSession({
+        sessionId,
+        customerId: customer.id,
+        status: 'waiting',
+        topic
+      });
+      chatEvents.emit('session:updated', created);
+      await router.processQueue();
+
+      const session = (await storage.getChatSession(created.id)) ?? created;
+      const agent = session.agentId ? await storage.getUser(session.agentId) : undefined;
+
+      res.json({
+        session,
+        customer,
+        agent: agent ? sanitizeUser(agent) : null,
+        queuePosition: await router.getQueuePosition(sessionId),
+        customerToken: createCustomerToken(session.sessionId)
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to start chat session' });
+    }
+  });
+
+  // Routing & queue endpoints
+  app.get('/api/routing/queue', requireAuth, async (req, res) => {
+    try {
+      const waiting = await storage.getWaitingSessions();
+      const queue = await Promise.all(
+        waiting.map(async (session, index) => ({
+          ...session,
+          position: index + 1,
+          customer: session.customerId ? await storage.getCustomer(session.customerId) : null
+        }))
+      );
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch queue' });
+    }
+  });
+
+  app.get('/api/routing/config', requireAuth, async (req, res) => {
+    try {
+      res.json(await router.getConfig());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch routing config' });
+    }
   });
 
-  function broadcastToSession(sessionId: string, message: WSMessage, excludeClientId?: string) {
-    for (const [clientId, client] of connectedClients.entries()) {
-      if (client.sessionId === sessionId && clientId !== excludeClientId && client.ws.readyState === WebSocket.OPEN) {
-        client.ws.send(JSON.stringify(message));
+  app.put('/api/routing/config', requireRole('admin'), async (req, res) => {
+    try {
+      const config = routingConfigSchema.parse(req.body);
+      res.json(await router.setConfig(config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid routing config', details: error.errors });
       }
+      res.status(500).json({ error: 'Failed to update routing config' });
     }
-  }
+  });
 
-  // Authentication endpoint
-  app.post('/api/auth/login', async (req, res) => {
+  // SLA targets per customer status
+  app.get('/api/sla/config', requireAuth, async (req, res) => {
     try {
-      const { username, password } = req.body;
-      const user = await storage.getUserByUsername(username);
-      
-      if (!user || user.password !== password) {
-        return res.status(401).json({ error: 'Invalid credentials' });
+      res.json(await sla.getConfig());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch SLA config' });
+    }
+  });
+
+  app.put('/api/sla/config', requireRole('admin'), async (req, res) => {
+    try {
+      const config = slaConfigSchema.parse(req.body);
+      res.json(await sla.setConfig(config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SLA config', details: error.errors });
       }
+      res.status(500).json({ error: 'Failed to update SLA config' });
+    }
+  });
 
-      await storage.updateUserOnlineStatus(user.id, true);
-      res.json({ user: { ...user, password: undefined } });
+  // Opening hours per team; outside them the widget takes messages and SLA clocks stop
+  app.get('/api/business-hours/config', requireAuth, async (req, res) => {
+    try {
+      res.json(await getBusinessHoursConfig(storage));
     } catch (error) {
-      res.status(500).json({ error: 'Internal server error' });
+      res.status(500).json({ error: 'Failed to fetch business hours' });
     }
   });
 
-  // Chat session endpoints
-  app.post('/api/chat/start', async (req, res) => {
+  app.put('/api/business-hours/config', requireRole('admin'), async (req, res) => {
     try {
-      const { customerEmail, customerName } = req.body;
-      
-      let customer = await storage.getCustomerByEmail(customerEmail);
-      if (!customer) {
-        customer = await storage.createCustomer({
-          name: customerName,
-          email: customerEmail,
-          customerId: `CUS-${Date.now()}`,
-          totalOrders: 0,
-          status: 'regular'
-        });
+      const config = businessHoursConfigSchema.parse(req.body);
+      const saved = await setBusinessHoursConfig(storage, config);
+      await sla.recalculate();
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid business hours', details: error.errors });
       }
+      res.status(500).json({ error: 'Failed to update business hours' });
+    }
+  });
 
-      // Find available agent
-      const availableAgents = await storage.getAgentsByRole('agent');
-      const onlineAgent = availableAgents.find(agent => agent.isOnline);
+  // Public: the widget asks before offering a live chat
+  app.get('/api/availability', async (req, res) => {
+    try {
+      const { topic } = z.object({ topic: z.string().optional() }).parse(req.query);
+      const availability: Availability = {
+        ...businessHoursAvailability(await getBusinessHoursConfig(storage), topic),
+        agentsAvailable: await router.hasAvailableAgents()
+      };
+      res.json(availability);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid availability query', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to fetch availability' });
+    }
+  });
 
-      if (!onlineAgent) {
-        return res.status(503).json({ error: 'No agents available' });
+  // Rules that escalate a chat without waiting for the agent
+  app.get('/api/escalation/config', requireAuth, async (req, res) => {
+    try {
+      res.json(await getEscalationConfig(storage));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch escalation config' });
+    }
+  });
+
+  app.put('/api/escalation/config', requireRole('admin'), async (req, res) => {
+    try {
+      const config = escalationConfigSchema.parse(req.body);
+      res.json(await setEscalationConfig(storage, config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid escalation config', details: error.errors });
       }
+      res.status(500).json({ error: 'Failed to update escalation config' });
+    }
+  });
 
-      const sessionId = `CHT-${Date.now()}-${randomUUID().slice(0, 8)}`;
-      const session = await storage.createChatSession({
-        sessionId,
-        customerId: customer.id,
-        agentId: onlineAgent.id,
-        status: 'active'
+  // Wrap-up catalogs (tags, dispositions) and whether agents must wrap up before ending a chat
+  app.get('/api/wrap-up/config', requireAuth, async (req, res) => {
+    try {
+      res.json(await getWrapUpConfig(storage));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch wrap-up config' });
+    }
+  });
+
+  app.put('/api/wrap-up/config', requireRole('admin'), async (req, res) => {
+    try {
+      const config = wrapUpConfigSchema.parse(req.body);
+      res.json(await setWrapUpConfig(storage, config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid wrap-up config', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to update wrap-up config' });
+    }
+  });
+
+  app.put('/api/agents/:id/routing', requireRole('team_lead'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { skills, maxConcurrentChats, team } = z.object({
+        skills: z.array(z.string()).optional(),
+        maxConcurrentChats: z.number().int().min(0).max(20).optional(),
+        team: z.string().trim().min(1).max(100).nullable().optional(),
+      }).parse(req.body);
+
+      const agent = await storage.updateUser(id, {
+        ...(skills !== undefined && { skills }),
+        ...(maxConcurrentChats !== undefined && { maxConcurrentChats }),
+        ...(team !== undefined && { team }),
       });
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
 
-      res.json({ session, customer, agent: onlineAgent });
+      await router.processQueue();
+      res.json(sanitizeUser(agent));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to start chat session' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid routing profile', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to update agent routing profile' });
     }
   });
 
-  app.get('/api/chat/sessions', async (req, res) => {
+  app.get('/api/chat/sessions', requireAuth, async (req, res) => {
     try {
-      const sessions = await storage.getActiveSessions();
-      const enrichedSessions = await Promise.all(
-        sessions.map(async (session) => {
-          const customer = session.customerId ? await storage.getCustomer(session.customerId) : null;
-          const agent = session.agentId ? await storage.getUser(session.agentId) : null;
-          const messages = await storage.getRecentMessages(session.id, 1);
-          
-          return {
-            ...session,
-            customer,
-            agent,
-            lastMessage: messages[0]
-          };
-        })
-      );
-      
-      res.json(enrichedSessions);
+      const { cursor, limit, ...filters } = sessionListQuerySchema.parse(req.query);
+      const after = cursor ? decodeSessionCursor(cursor) : undefined;
+      if (cursor && !after) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+
+      const page = await storage.listSessions(filters, { readerId: req.user!.id, limit, after });
+      res.json({
+        sessions: page.sessions.map(session => ({
+          ...session,
+          agent: session.agent ? sanitizeUser(session.agent) : null
+        })),
+        nextCursor: page.next ? encodeSessionCursor(page.next) : null
+      } satisfies SessionListPage);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
       res.status(500).json({ error: 'Failed to fetch chat sessions' });
     }
   });
 
-  app.get('/api/chat/sessions/:sessionId/messages', async (req, res) => {
+  app.get('/api/chat/sessions/:sessionId/messages', requireSessionAccess, async (req, res) => {
     try {
       const { sessionId } = req.params;
       const session = await storage.getChatSessionBySessionId(sessionId);
@@ -240,170 +347,927 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Session not found' });
       }
 
-      const messages = await storage.getMessagesBySession(session.id);
-      res.json(messages);
+      // Customers (token holders) never see supervisor whispers
+      const messages = (await storage.getMessagesBySession(session.id))
+        .filter(message => req.isAuthenticated() || isVisibleToCustomer(message));
+      res.json(await withAttachments(storage, messages));
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch messages' });
     }
   });
 
-  app.post('/api/chat/transfer', async (req, res) => {
+  app.get('/api/chat/sessions/:sessionId/supervision', requireRole('team_lead'), async (req, res) => {
     try {
-      const { sessionId, newAgentId, reason } = req.body;
-      const session = await storage.getChatSessionBySessionId(sessionId);
-      
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
       if (!session) {
         return res.status(404).json({ error: 'Session not found' });
       }
 
-      const newAgent = await storage.getUser(newAgentId);
-      if (!newAgent) {
-        return res.status(404).json({ error: 'Agent not found' });
+      res.json(await storage.getSupervisionLog(session.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch supervision log' });
+    }
+  });
+
+  // Post-chat survey. The widget asks for its state once the chat has ended (or after
+  // reconnecting, in case the end was missed) and the customer answers it once.
+  app.get('/api/survey/config', requireAuth, async (req, res) => {
+    try {
+      res.json(await getSurveyConfig(storage));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch survey config' });
+    }
+  });
+
+  app.put('/api/survey/config', requireRole('admin'), async (req, res) => {
+    try {
+      const config = surveyConfigSchema.parse(req.body);
+      res.json(await setSurveyConfig(storage, config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid survey config', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to update survey config' });
+    }
+  });
+
+  app.get('/api/chat/sessions/:sessionId/survey', requireSessionAccess, async (req, res) => {
+    try {
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
       }
 
-      // Update transfer history
-      const transferHistory = Array.isArray(session.transferHistory) ? session.transferHistory : [];
-      transferHistory.push({
-        fromAgent: session.agentId,
-        toAgent: newAgentId,
-        timestamp: new Date(),
-        reason
+      const config = await getSurveyConfig(storage);
+      const ended = session.status === 'resolved' || session.status === 'terminated';
+      const status: SurveyState['status'] = await storage.getSurveyResponse(session.id)
+        ? 'submitted'
+        : config.enabled && ended ? 'open' : 'unavailable';
+      res.json({ config, status } satisfies SurveyState);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch survey' });
+    }
+  });
+
+  app.post('/api/chat/sessions/:sessionId/survey', requireSessionAccess, async (req, res) => {
+    try {
+      if (req.isAuthenticated()) {
+        return res.status(403).json({ error: 'Only the customer can answer the survey' });
+      }
+      const { rating, comment, answers } = submitSurveySchema.parse(req.body);
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status !== 'resolved' && session.status !== 'terminated') {
+        return res.status(409).json({ error: 'Chat has not ended yet' });
+      }
+
+      const config = await getSurveyConfig(storage);
+      if (!config.enabled) {
+        return res.status(409).json({ error: 'Surveys are turned off' });
+      }
+      validateSurvey(config, rating, answers);
+
+      const response = await storage.createSurveyResponse({
+        sessionId: session.id,
+        rating,
+        comment: config.allowComment ? comment || null : null,
+        answers
       });
+      if (!response) {
+        return res.status(409).json({ error: 'Survey already submitted' });
+      }
 
-      const updatedSession = await storage.updateChatSession(session.id, {
-        agentId: newAgentId,
-        transferHistory
+      const updatedSession = await storage.updateChatSession(session.id, { rating });
+      if (updatedSession) chatEvents.emit('session:updated', updatedSession);
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid survey', details: error.errors });
+      }
+      if (error instanceof InvalidSurveyError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to submit survey' });
+    }
+  });
+
+  // Internal notes are staff-only, so unlike messages they are never served to customer tokens
+  app.get('/api/chat/sessions/:sessionId/notes', requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.json(await withAuthors(storage, await storage.getNotesBySession(session.id)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch notes' });
+    }
+  });
+
+  // SOPs matching what the customer has been asking about; later changes are pushed as sop_suggestions
+  app.get('/api/chat/sessions/:sessionId/sop-suggestions', requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.json(await suggestSops(storage, session));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to suggest SOPs' });
+    }
+  });
+
+  app.post('/api/chat/sessions/:sessionId/notes', requireAuth, async (req, res) => {
+    try {
+      const input = createNoteSchema.parse(req.body);
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.status(201).json(await addNote(storage, hub, session, req.user!, input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid note', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to add note' });
+    }
+  });
+
+  app.get('/api/customers/:customerId/notes', requireAuth, async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.customerId);
+      if (!customer) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      res.json(await withAuthors(storage, await storage.getNotesByCustomer(customer.id)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch notes' });
+    }
+  });
+
+  // Callbacks: requested by customers from the widget, scheduled by staff from a chat
+  app.post('/api/callbacks/request', async (req, res) => {
+    try {
+      const { customerName, customerEmail, phone, email, windowStart, windowEnd, reason } = requestCallbackSchema.parse(req.body);
+      const customer = await findOrCreateCustomer(customerName, customerEmail);
+
+      const callback = await storage.createCallback({
+        customerId: customer.id,
+        phone,
+        email: email ?? customerEmail,
+        reason,
+        windowStart,
+        windowEnd
       });
+      res.status(201).json({ id: callback.id, windowStart: callback.windowStart, windowEnd: callback.windowEnd });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid callback request', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to request callback' });
+    }
+  });
+
+  app.post('/api/callbacks', requireAuth, async (req, res) => {
+    try {
+      const { sessionId, agentId, ...details } = scheduleCallbackSchema.parse(req.body);
+      if (!canManageCallback(req.user!, null, agentId)) {
+        return res.status(403).json({ error: 'Only team leads can schedule callbacks for someone else' });
+      }
 
-      // Create system message
-      await storage.createMessage({
+      const session = await storage.getChatSessionBySessionId(sessionId);
+      if (!session?.customerId) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      const agent = agentId ? await resolveCallbackAgent(storage, agentId) : req.user!;
+
+      const callback = await storage.createCallback({
+        ...details,
+        customerId: session.customerId,
         sessionId: session.id,
-        senderId: 'system',
-        senderType: 'system',
-        content: `Chat transferred to ${newAgent.name} (${newAgent.role.replace('_', ' ')})`,
-        messageType: 'system'
+        agentId: agent.id,
+        createdBy: req.user!.id
       });
+      const [created] = await withDetails(storage, [callback]);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid callback', details: error.errors });
+      }
+      if (error instanceof InvalidCallbackError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to schedule callback' });
+    }
+  });
 
-      res.json(updatedSession);
+  app.get('/api/callbacks', requireAuth, async (req, res) => {
+    try {
+      const { scope, status } = callbackListQuerySchema.parse(req.query);
+      if (scope === 'all' && roleRank(req.user!.role) < roleRank('team_lead')) {
+        return res.status(403).json({ error: 'Only team leads can see every callback' });
+      }
+
+      const agentId = scope === 'mine' ? req.user!.id : scope === 'unassigned' ? null : undefined;
+      res.json(await withDetails(storage, await storage.listCallbacks({ agentId, status })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to fetch callbacks' });
+    }
+  });
+
+  app.patch('/api/callbacks/:id', requireAuth, async (req, res) => {
+    try {
+      const update = updateCallbackSchema.parse(req.body);
+      const callback = await storage.getCallback(req.params.id);
+      if (!callback) {
+        return res.status(404).json({ error: 'Callback not found' });
+      }
+      if (!canManageCallback(req.user!, callback, update.agentId)) {
+        return res.status(403).json({ error: 'This callback belongs to someone else' });
+      }
+
+      const updated = await storage.updateCallback(callback.id, await resolveCallbackUpdate(storage, callback, update));
+      const [detailed] = await withDetails(storage, [updated ?? callback]);
+      res.json(detailed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid callback update', details: error.errors });
+      }
+      if (error instanceof InvalidCallbackError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to update callback' });
+    }
+  });
+
+  // Offline tickets: messages left in the widget while nobody was online, answered by email
+  app.post('/api/tickets', async (req, res) => {
+    try {
+      const { customerName, customerEmail, topic, message } = createTicketSchema.parse(req.body);
+      const customer = await findOrCreateCustomer(customerName, customerEmail);
+
+      const ticket = await storage.createOfflineTicket({
+        customerId: customer.id,
+        topic: chatTopics.some(t => t.id === topic) ? topic : 'general',
+        message
+      });
+      const [detailed] = await withCustomers(storage, [ticket]);
+      hub.broadcastToStaff({ type: 'ticket_created', data: detailed });
+      res.status(201).json({ id: ticket.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid message', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to send message' });
+    }
+  });
+
+  app.get('/api/tickets', requireAuth, async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(ticketStatuses).optional() }).parse(req.query);
+      res.json(await withCustomers(storage, await storage.listOfflineTickets(status)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to fetch tickets' });
+    }
+  });
+
+  app.get('/api/tickets/:id', requireAuth, async (req, res) => {
+    try {
+      const ticket = await storage.getOfflineTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: 'Ticket not found' });
+      }
+
+      const [detailed] = await withCustomers(storage, [ticket]);
+      res.json({ ...detailed, replies: await repliesWithAuthors(storage, ticket.id) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch ticket' });
+    }
+  });
+
+  app.post('/api/tickets/:id/replies', requireAuth, async (req, res) => {
+    try {
+      const { content } = ticketReplySchema.parse(req.body);
+      const ticket = await storage.getOfflineTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: 'Ticket not found' });
+      }
+      if (ticket.status === 'closed') {
+        return res.status(409).json({ error: 'Reopen the ticket to reply' });
+      }
+
+      res.status(201).json(await replyToTicket(storage, mailTransport, ticket, req.user!, content));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid reply', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to reply' });
+    }
+  });
+
+  app.patch('/api/tickets/:id', requireAuth, async (req, res) => {
+    try {
+      const { status } = updateTicketSchema.parse(req.body);
+      const updated = await storage.updateOfflineTicket(req.params.id, { status });
+      if (!updated) {
+        return res.status(404).json({ error: 'Ticket not found' });
+      }
+
+      const [detailed] = await withCustomers(storage, [updated]);
+      res.json(detailed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid ticket update', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to update ticket' });
+    }
+  });
+
+  // REST fallback for the message_read WebSocket frame
+  app.post('/api/chat/sessions/:sessionId/read', requireSessionAccess, async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { upToMessageId } = z.object({ upToMessageId: z.string().optional() }).parse(req.body ?? {});
+      const session = await storage.getChatSessionBySessionId(sessionId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      const reader = req.isAuthenticated()
+        ? { id: req.user!.id, type: 'agent' as const }
+        : customerReader(session);
+      const receipt = await recordRead(storage, session, reader, upToMessageId);
+      if (receipt) hub.broadcastToSession(sessionId, receipt);
+
+      res.json({ messageIds: receipt?.data.messageIds ?? [] });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid read receipt', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to record read receipt' });
+    }
+  });
+
+  // Attachment endpoints; an upload is sent straight away as a "file" message
+  app.post('/api/chat/sessions/:sessionId/attachments', requireSessionAccess, receiveAttachment, async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const session = await storage.getChatSessionBySessionId(sessionId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status === 'resolved' || session.status === 'terminated') {
+        return res.status(409).json({ error: 'Chat session has ended' });
+      }
+
+      const isAgent = req.isAuthenticated();
+      if (isAgent && !(await canMessageCustomer(storage, req.user!, session))) {
+        return res.status(403).json({ error: 'Only the assigned agent or a supervisor who has barged in can send files' });
+      }
+      const senderId = isAgent ? req.user!.id : session.customerId;
+      const caption = typeof req.body.caption === 'string' ? req.body.caption.trim() : '';
+
+      const stored = await storeAttachment(fileStore, req.file!, session.id, senderId);
+      const message = await storage.createMessage({
+        sessionId: session.id,
+        senderId,
+        senderType: !isAgent ? 'customer' : session.agentId === req.user!.id ? 'agent' : 'supervisor',
+        content: caption || stored.fileName,
+        messageType: 'file'
+      });
+      const attachment = await storage.createAttachment({ ...stored, messageId: message.id });
+      chatEvents.emit('message:created', message);
+
+      const senderName = isAgent
+        ? req.user!.name
+        : (session.customerId ? (await storage.getCustomer(session.customerId))?.name : undefined) || 'Customer';
+      const payload = { ...message, attachments: [attachment] };
+
+      hub.broadcastToSession(sessionId, {
+        type: 'chat_message',
+        sessionId,
+        data: { ...payload, senderName }
+      });
+      res.status(201).json(payload);
+    } catch (error) {
+      if (error instanceof InvalidUploadError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to upload attachment' });
+    }
+  });
+
+  app.get('/api/chat/sessions/:sessionId/attachments/:id/:variant(file|thumbnail)', requireSessionAccess, async (req, res) => {
+    try {
+      const { sessionId, id, variant } = req.params;
+      const session = await storage.getChatSessionBySessionId(sessionId);
+      const attachment = await storage.getAttachment(id);
+
+      if (!session || !attachment || attachment.sessionId !== session.id) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      const key = variant === 'thumbnail' ? attachment.thumbnailKey : attachment.storageKey;
+      const stream = key ? await fileStore.get(key) : undefined;
+      if (!stream) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      res.setHeader('Content-Type', variant === 'thumbnail' ? 'image/webp' : attachment.mimeType);
+      res.setHeader('Content-Disposition', contentDisposition(attachment));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      stream.pipe(res);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch attachment' });
+    }
+  });
+
+  app.post('/api/chat/transfer', requireRole('agent'), async (req, res) => {
+    try {
+      const { sessionId, newAgentId, reason } = req.body;
+      const session = await storage.getChatSessionBySessionId(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (!canManageChat(req.user!, session)) {
+        return res.status(403).json({ error: 'Only the assigned agent or a team lead can transfer this chat' });
+      }
+
+      const newAgent = await storage.getUser(newAgentId);
+      if (!newAgent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      res.json(await transferChat(storage, hub, session, newAgent, reason));
+    } catch (error) {
+      if (error instanceof TransferError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to transfer chat' });
     }
   });
 
-  app.post('/api/chat/end/:sessionId', async (req, res) => {
+  // Hands the chat to the next level up: agent, senior agent, team lead
+  app.post('/api/chat/sessions/:sessionId/escalate', requireAuth, async (req, res) => {
+    try {
+      const { reason } = escalateSchema.parse(req.body);
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (!canManageChat(req.user!, session)) {
+        return res.status(403).json({ error: 'Only the assigned agent or a team lead can escalate this chat' });
+      }
+      if (session.status === 'resolved' || session.status === 'terminated') {
+        return res.status(409).json({ error: 'Chat session has ended' });
+      }
+
+      res.json(await router.escalate(session.id, { reason, rule: 'manual', escalatedBy: req.user!.id }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid escalation', details: error.errors });
+      }
+      if (error instanceof EscalationError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to escalate chat' });
+    }
+  });
+
+  app.post('/api/chat/end/:sessionId', requireAuth, async (req, res) => {
     try {
       const { sessionId } = req.params;
+      const wrapUp = wrapUpSchema.parse(req.body ?? {});
       const session = await storage.getChatSessionBySessionId(sessionId);
       
       if (!session) {
         return res.status(404).json({ error: 'Session not found' });
       }
+      if (!canManageChat(req.user!, session)) {
+        return res.status(403).json({ error: 'Only the assigned agent or a team lead can end this chat' });
+      }
+      if (session.status === 'resolved' || session.status === 'terminated') {
+        return res.status(409).json({ error: 'Chat session has ended' });
+      }
 
       const updatedSession = await storage.updateChatSession(session.id, {
+        ...await resolveWrapUp(storage, wrapUp),
         status: 'resolved',
         endTime: new Date()
       });
 
+      if (updatedSession) chatEvents.emit('session:ended', updatedSession);
+      hub.broadcastToSession(sessionId, { type: 'session_ended', sessionId, data: { endedBy: req.user!.id } });
       res.json(updatedSession);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid wrap-up', details: error.errors });
+      }
+      if (error instanceof InvalidWrapUpError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to end chat session' });
     }
   });
 
-  // Agent management endpoints
-  app.get('/api/agents', async (req, res) => {
+  // Wrap-up for a chat that has already ended, e.g. because the customer left
+  app.put('/api/chat/sessions/:sessionId/wrap-up', requireAuth, async (req, res) => {
+    try {
+      const wrapUp = wrapUpSchema.parse(req.body);
+      const session = await storage.getChatSessionBySessionId(req.params.sessionId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status !== 'resolved' && session.status !== 'terminated') {
+        return res.status(409).json({ error: 'Chat is still open; end it to wrap up' });
+      }
+
+      const updatedSession = await storage.updateChatSession(session.id, await resolveWrapUp(storage, wrapUp));
+      if (updatedSession) chatEvents.emit('session:updated', updatedSession);
+      res.json(updatedSession);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid wrap-up', details: error.errors });
+      }
+      if (error instanceof InvalidWrapUpError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to save wrap-up' });
+    }
+  });
+
+  // Agent management endpoints. Any staff member may list who is online to hand a chat over;
+  // the full roster by role is for team leads
+  app.get('/api/agents', requireRole('agent'), async (req, res) => {
     try {
       const agents = await storage.getOnlineAgents();
-      res.json(agents.map(agent => ({ ...agent, password: undefined })));
+      res.json(agents.map(sanitizeUser));
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch agents' });
     }
   });
 
-  app.get('/api/agents/by-role/:role', async (req, res) => {
+  app.get('/api/agents/by-role/:role', requireRole('team_lead'), async (req, res) => {
     try {
       const { role } = req.params;
+      if (!(userRoles as readonly string[]).includes(role)) {
+        return res.status(400).json({ error: 'Unknown role' });
+      }
       const agents = await storage.getAgentsByRole(role);
-      res.json(agents.map(agent => ({ ...agent, password: undefined })));
+      res.json(agents.map(sanitizeUser));
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch agents by role' });
     }
   });
 
-  // SOP endpoints
-  app.get('/api/sop', async (req, res) => {
+  // Presence endpoints; the dashboard normally uses the set_status WebSocket frame instead
+  app.put('/api/agents/me/status', requireAuth, async (req, res) => {
     try {
+      const { status } = z.object({
+        status: z.enum(presenceStates).exclude(['offline']),
+      }).parse(req.body);
+
+      const agent = await presence.setStatus(req.user!.id, status);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      res.json(sanitizeUser(agent));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid status', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to update status' });
+    }
+  });
+
+  app.get('/api/agents/:id/presence-history', requireRole('team_lead'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ error: 'Invalid date range' });
+      }
+
+      const history = await storage.getPresenceHistory(id, from, to);
+      res.json({ from, to, history, ...summarizePresence(history, from, to) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch presence history' });
+    }
+  });
+
+  // SOP endpoints. Agents only see published versions; see sop-workflow.ts
+  const visibleSops = async (user: User, sops: SOPDocument[], query: SopListQuery) => {
+    if (!canReviewSops(user) || query.published) return publishedVersions(storage, sops);
+    return query.status
+      ? sops.filter(sop => sop.status === query.status)
+      : sops.filter(sop => sop.status !== 'archived');
+  };
+
+  app.get('/api/sop', requireAuth, async (req, res) => {
+    try {
+      const query = sopListQuerySchema.parse(req.query);
       const sops = await storage.getSOPDocuments();
-      res.json(sops);
+      res.json(await visibleSops(req.user!, sops, query));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SOP query', details: error.errors });
+      }
       res.status(500).json({ error: 'Failed to fetch SOP documents' });
     }
   });
 
-  app.get('/api/sop/category/:category', async (req, res) => {
+  app.get('/api/sop/category/:category', requireAuth, async (req, res) => {
     try {
-      const { category } = req.params;
-      const sops = await storage.getSOPByCategory(decodeURIComponent(category));
-      res.json(sops);
+      const query = sopListQuerySchema.parse(req.query);
+      const category = decodeURIComponent(req.params.category);
+      // Published versions may be filed under a category the draft has since left
+      const sops = canReviewSops(req.user!) && !query.published
+        ? await storage.getSOPByCategory(category)
+        : await storage.getSOPDocuments();
+      res.json((await visibleSops(req.user!, sops, query)).filter(sop => sop.category === category));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SOP query', details: error.errors });
+      }
       res.status(500).json({ error: 'Failed to fetch SOP documents by category' });
     }
   });
 
-  app.post('/api/sop/search', async (req, res) => {
+  // Ranked by relevance, with category counts and highlighted titles and snippets; see sop-search.ts
+  app.post('/api/sop/search', requireAuth, async (req, res) => {
     try {
-      const { keywords } = req.body;
-      const keywordArray = Array.isArray(keywords) ? keywords : [keywords];
-      const sops = await storage.searchSOPs(keywordArray);
-      res.json(sops);
+      const query = sopListQuerySchema.parse(req.query);
+      const search = sopSearchSchema.parse(req.body);
+      const published = !canReviewSops(req.user!) || query.published;
+      const matches = (await storage.searchSOPs(search.query, { published })).filter(({ sop }) =>
+        published || (query.status ? sop.status === query.status : sop.status !== 'archived')
+      );
+
+      const counts = new Map<string, number>();
+      matches.forEach(({ sop }) => counts.set(sop.category, (counts.get(sop.category) ?? 0) + 1));
+      const facets = Array.from(counts.entries())
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+      const inCategory = search.category ? matches.filter(({ sop }) => sop.category === search.category) : matches;
+
+      const result: SopSearchResult = { hits: inCategory.slice(0, search.limit), facets, total: inCategory.length };
+      res.json(result);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SOP query', details: error.errors });
+      }
       res.status(500).json({ error: 'Failed to search SOP documents' });
     }
   });
 
-  app.post('/api/sop', async (req, res) => {
+  // Reads uploaded Markdown, HTML, Word, PDF and zip files without saving anything, so the
+  // detected metadata can be checked first; see sop-files.ts
+  app.post('/api/sop/import/preview', requireRole('senior_agent'), receiveSopFiles, async (req, res) => {
+    try {
+      const files = (req.files as Express.Multer.File[]).map(file => ({ name: file.originalname, data: file.buffer }));
+      const category = typeof req.body.category === 'string' && req.body.category.trim()
+        ? req.body.category.trim().slice(0, 100)
+        : 'General';
+      const titles = (await storage.getSOPDocuments()).map(sop => sop.title);
+      const preview: SopImportPreview = { files: previewSopFiles(files, category, titles) };
+      res.json(preview);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to read SOP files' });
+    }
+  });
+
+  // Imported documents become drafts; each one succeeds or fails on its own
+  app.post('/api/sop/import', requireRole('senior_agent'), async (req, res) => {
     try {
-      const sopData = insertSOPSchema.parse(req.body);
-      const sop = await storage.createSOPDocument(sopData);
+      const { documents } = sopImportSchema.parse(req.body);
+      res.json(await importSops(storage, documents, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SOP import', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to import SOP documents' });
+    }
+  });
+
+  // The whole library, archived SOPs included, as Markdown files that can be imported again
+  app.get('/api/sop/export', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const archive = exportSops(await storage.getSOPDocuments());
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="sop-library-${new Date().toISOString().slice(0, 10)}.zip"`);
+      res.send(Buffer.from(archive));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to export SOP documents' });
+    }
+  });
+
+  // New SOPs are drafts until a team lead approves them
+  app.post('/api/sop', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const sopData = insertSOPSchema.parse({ ...req.body, uploadedBy: req.user!.id, status: 'draft' });
+      const sop = await createSop(storage, sopData);
       res.json(sop);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SOP document', details: error.errors });
+      }
       res.status(500).json({ error: 'Failed to create SOP document' });
     }
   });
 
-  app.put('/api/sop/:id', async (req, res) => {
+  // Every save is kept as a revision; the version is bumped according to how much changed
+  app.put('/api/sop/:id', requireRole('senior_agent'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      const sop = await storage.updateSOPDocument(id, updates);
+      const update = updateSOPSchema.parse(req.body);
+      const sop = await storage.getSOPDocument(req.params.id);
       
       if (!sop) {
         return res.status(404).json({ error: 'SOP document not found' });
       }
       
-      res.json(sop);
+      res.json(await reviseSop(storage, sop, update, req.user!));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid SOP update', details: error.errors });
+      }
+      if (error instanceof InvalidRevisionError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to update SOP document' });
     }
   });
 
-  app.delete('/api/sop/:id', async (req, res) => {
+  // Review workflow: submit, approve, send back, archive and restore
+  app.patch('/api/sop/:id', requireRole('senior_agent'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const deleted = await storage.deleteSOPDocument(id);
+      const { status, comment } = sopStatusChangeSchema.parse(req.body);
+      const sop = await storage.getSOPDocument(req.params.id);
+      if (!sop) {
+        return res.status(404).json({ error: 'SOP document not found' });
+      }
+
+      const requiredRole = requiredRoleFor(sop.status, status);
+      if (!requiredRole) {
+        return res.status(409).json({ error: `A ${sop.status.replace('_', ' ')} SOP cannot be moved to ${status.replace('_', ' ')}` });
+      }
+      if (roleRank(req.user!.role) < roleRank(requiredRole)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const updated = await changeSopStatus(storage, sop, status, req.user!, comment);
+      if (status === 'in_review') {
+        hub.broadcastToStaff({
+          type: 'sop_review_requested',
+          data: { sopId: updated.id, title: updated.title, version: updated.version, requestedBy: req.user!.name }
+        }, 'team_lead');
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid status change', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to change SOP status' });
+    }
+  });
+
+  app.get('/api/sop/:id/comments', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const sop = await storage.getSOPDocument(req.params.id);
+      if (!sop) {
+        return res.status(404).json({ error: 'SOP document not found' });
+      }
+      res.json(await commentsWithAuthors(storage, await storage.getSOPComments(sop.id)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch SOP comments' });
+    }
+  });
+
+  app.post('/api/sop/:id/comments', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const { content } = sopCommentSchema.parse(req.body);
+      const sop = await storage.getSOPDocument(req.params.id);
+      if (!sop) {
+        return res.status(404).json({ error: 'SOP document not found' });
+      }
+      const revision = await currentRevision(storage, sop);
+      const comment = await storage.createSOPComment({ sopId: sop.id, revisionId: revision.id, authorId: req.user!.id, content });
+      const [withAuthor] = await commentsWithAuthors(storage, [comment]);
+      res.status(201).json(withAuthor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid comment', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to add SOP comment' });
+    }
+  });
+
+  app.get('/api/sop/:id/revisions', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const sop = await storage.getSOPDocument(req.params.id);
+      if (!sop) {
+        return res.status(404).json({ error: 'SOP document not found' });
+      }
+      res.json(await revisionsWithAuthors(storage, await storage.getSOPRevisions(sop.id)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch SOP revisions' });
+    }
+  });
+
+  app.get('/api/sop/:id/revisions/:revisionId', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const revision = await storage.getSOPRevision(req.params.revisionId);
+      if (!revision || revision.sopId !== req.params.id) {
+        return res.status(404).json({ error: 'SOP revision not found' });
+      }
+      const [withAuthor] = await revisionsWithAuthors(storage, [revision]);
+      res.json(withAuthor);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch SOP revision' });
+    }
+  });
+
+  // ?from=<revisionId>&to=<revisionId>; "to" defaults to the current revision
+  app.get('/api/sop/:id/diff', requireRole('senior_agent'), async (req, res) => {
+    try {
+      const { from, to } = z.object({ from: z.string().min(1), to: z.string().min(1).optional() }).parse(req.query);
+      const revisions = await storage.getSOPRevisions(req.params.id);
+      const older = revisions.find(revision => revision.id === from);
+      const newer = to ? revisions.find(revision => revision.id === to) : revisions[0];
+      if (!older || !newer) {
+        return res.status(404).json({ error: 'SOP revision not found' });
+      }
+
+      const [fromRevision, toRevision] = await revisionsWithAuthors(storage, [older, newer]);
+      const diff: SopDiff = { from: fromRevision, to: toRevision, rows: diffLines(older.content, newer.content) };
+      res.json(diff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid diff query', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to compare SOP revisions' });
+    }
+  });
+
+  app.post('/api/sop/:id/rollback', requireRole('team_lead'), async (req, res) => {
+    try {
+      const { revisionId, changeNote } = sopRollbackSchema.parse(req.body);
+      const sop = await storage.getSOPDocument(req.params.id);
+      const revision = await storage.getSOPRevision(revisionId);
+      if (!sop || !revision || revision.sopId !== sop.id) {
+        return res.status(404).json({ error: !sop ? 'SOP document not found' : 'SOP revision not found' });
+      }
+      res.json(await rollbackSop(storage, sop, revision, req.user!, changeNote));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollback', details: error.errors });
+      }
+      if (error instanceof InvalidRevisionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to roll back SOP document' });
+    }
+  });
+
+  // SOPs are archived rather than deleted, so citations and history keep working
+  app.delete('/api/sop/:id', requireRole('team_lead'), async (req, res) => {
+    try {
+      const sop = await storage.getSOPDocument(req.params.id);
       
-      if (!deleted) {
+      if (!sop) {
         return res.status(404).json({ error: 'SOP document not found' });
       }
+      if (sop.status === 'archived') {
+        return res.json(sop);
+      }
       
-      res.json({ success: true });
+      res.json(await changeSopStatus(storage, sop, 'archived', req.user!));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to delete SOP document' });
+      res.status(500).json({ error: 'Failed to archive SOP document' });
     }
   });
 
   // Export endpoints
-  app.get('/api/export/conversations/:type', async (req, res) => {
+  app.get('/api/export/conversations/:type', requireRole('team_lead'), async (req, res) => {
     try {
       const { type } = req.params; // customer-wise, agent-wise, all
       const { format = 'json' } = req.query;
@@ -411,7 +1275,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let sessions: ChatSession[] = [];
       
       if (type === 'all') {
-        sessions = Array.from((storage as any).chatSessions.values());
+        sessions = await storage.getChatSessions();
       } else if (type === 'customer-wise') {
         const { customerId } = req.query;
         if (customerId) {
@@ -435,7 +1299,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             session: {
               ...session,
               customer: customer ? { ...customer } : null,
-              agent: agent ? { ...agent, password: undefined } : null
+              agent: agent ? sanitizeUser(agent) : null
             },
             messages
           };
@@ -453,19 +1317,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
             agentRole: session.agent?.role || 'Unknown',
             messageContent: message.content,
             senderType: message.senderType,
+            visibility: message.visibility,
             timestamp: message.timestamp,
             sessionStart: session.startTime,
             sessionEnd: session.endTime,
-            sessionStatus: session.status
+            sessionStatus: session.status,
+            tags: (session.tags ?? []).join('; '),
+            disposition: session.disposition ?? '',
+            wrapUpNotes: session.wrapUpNotes ?? '',
+            slaBreaches: (session.slaBreaches ?? []).map(breach => breach.metric).join('; ')
           }))
         );
 
         res.setHeader('Content-Type', 'text/csv');
         res.setHeader('Content-Disposition', `attachment; filename="conversations-${type}-${Date.now()}.csv"`);
         
-        // Simple CSV generation
+        // Every value is quoted, so commas and line breaks in messages and notes stay inside their cell.
+        // Customers write names and messages, so text a spreadsheet would run as a formula starts with '
+        const csvCell = (val: unknown) => {
+          const text = val == null ? '' : val instanceof Date ? val.toISOString() : String(val);
+          const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+          return `"${safe.replace(/"/g, '""')}"`;
+        };
         const headers = Object.keys(csvData[0] || {}).join(',');
-        const rows = csvData.map(row => Object.values(row).map(val => `"${val}"`).join(','));
+        const rows = csvData.map(row => Object.values(row).map(csvCell).join(','));
         res.send([headers, ...rows].join('\n'));
       } else {
         res.setHeader('Content-Type', 'application/json');
@@ -478,7 +1353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Quick replies endpoints
-  app.get('/api/quick-replies', async (req, res) => {
+  app.get('/api/quick-replies', requireAuth, async (req, res) => {
     try {
       const replies = await storage.getQuickReplies();
       res.json(replies);
@@ -487,7 +1362,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/quick-replies/category/:category', async (req, res) => {
+  app.get('/api/quick-replies/category/:category', requireAuth, async (req, res) => {
     try {
       const { category } = req.params;
       const replies = await storage.getQuickRepliesByCategory(category);
@@ -497,21 +1372,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Analytics endpoints
+  app.get('/api/analytics/csat', requireRole('team_lead'), async (req, res) => {
+    try {
+      const query = csatQuerySchema.parse(req.query);
+      const range = resolveRange(query);
+
+      const results = await storage.listSurveyResults(range.from, range.to);
+      const { tags } = await getWrapUpConfig(storage);
+      res.json(buildCsatReport(results, { ...range, groupBy: query.groupBy }, tags));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
+      if (error instanceof InvalidRangeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to fetch CSAT report' });
+    }
+  });
+
+  app.get('/api/analytics/performance', requireRole('team_lead'), async (req, res) => {
+    try {
+      const range = resolveRange(analyticsRangeSchema.parse(req.query));
+      const activity = await storage.listSessionActivity(range.from, range.to);
+      res.json(buildPerformanceReport(activity, range));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
+      if (error instanceof InvalidRangeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to fetch performance report' });
+    }
+  });
+
   // Dashboard stats endpoint
-  app.get('/api/dashboard/stats', async (req, res) => {
+  app.get('/api/dashboard/stats', requireAuth, async (req, res) => {
     try {
-      const activeSessions = await storage.getActiveSessions();
-      const onlineAgents = await storage.getOnlineAgents();
-      
-      const activeChats = activeSessions.filter(s => s.status === 'active').length;
-      const waitingChats = activeSessions.filter(s => s.status === 'waiting').length;
-      
-      res.json({
-        activeChats,
-        waitingChats,
-        onlineAgents: onlineAgents.length,
-        totalSessions: activeSessions.length
-      });
+      res.json(await getDashboardStats(storage));
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch dashboard stats' });
     }
@@ -0,0 +1,313 @@
+import { escalationRoles, roleRank, type ChatSession, type EscalationRule, type RoutingConfig, type TransferRecord, type User, type UserRole } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+import { chatEvents } from "./events";
+import { sanitizeUser } from "./auth";
+
+export const ROUTING_SETTINGS_KEY = "routing";
+
+export const defaultRoutingConfig: RoutingConfig = {
+  strategy: (process.env.ROUTING_STRATEGY as RoutingConfig['strategy']) || 'least_active',
+  eligibleRoles: ['agent'],
+};
+
+interface Candidate {
+  agent: User;
+  load: number;
+}
+
+export interface Escalation {
+  reason: string;
+  rule: EscalationRule;
+  escalatedBy: string | null; // null when a rule escalated the chat
+}
+
+export class EscalationError extends Error {}
+
+const isEscalationRole = (role: string) => (escalationRoles as readonly string[]).includes(role);
+
+const roleLabel = (role: string) => role.replace('_', ' ');
+
+/**
+ * Owns the waiting queue: new chats start as `waiting` and are handed to an
+ * agent with spare capacity according to the configured strategy. The queue is
+ * re-drained whenever capacity may have changed (chat ended or transferred,
+ * agent came online, capacity edited).
+ */
+export class ChatRouter {
+  private draining: Promise<void> = Promise.resolve();
+  private lastAssignedAgentId: string | null = null;
+
+  constructor(private storage: IStorage, private hub: ChatHub) {
+    chatEvents.on('session:ended', () => this.processQueue());
+    chatEvents.on('session:transferred', () => this.processQueue());
+    chatEvents.on('agent:online', () => this.processQueue());
+    chatEvents.on('customer:joined', (session) => {
+      if (session.status === 'waiting') {
+        this.publishQueuePositions().catch((error) => console.error('Queue position error:', error));
+      }
+    });
+  }
+
+  async getConfig(): Promise<RoutingConfig> {
+    const stored = await this.storage.getSetting<Partial<RoutingConfig>>(ROUTING_SETTINGS_KEY);
+    return { ...defaultRoutingConfig, ...stored };
+  }
+
+  async setConfig(config: RoutingConfig): Promise<RoutingConfig> {
+    await this.storage.setSetting(ROUTING_SETTINGS_KEY, config);
+    await this.processQueue();
+    return config;
+  }
+
+  /**
+   * Whether any agent who could take a chat is signed in at all, even if busy
+   * or away for now; the chat then waits in the queue until they are available.
+   */
+  async hasAvailableAgents(): Promise<boolean> {
+    const config = await this.getConfig();
+    const agents = await this.getStaffedAgents(config);
+    return agents.length > 0;
+  }
+
+  /** 1-based position of a waiting chat, or null once it has been assigned. */
+  async getQueuePosition(sessionId: string): Promise<number | null> {
+    const waiting = await this.storage.getWaitingSessions();
+    const index = waiting.findIndex(session => session.sessionId === sessionId);
+    return index === -1 ? null : index + 1;
+  }
+
+  // Serialised so two triggers can never hand the same chat or the same free slot out twice
+  processQueue(): Promise<void> {
+    this.draining = this.draining
+      .then(() => this.drainQueue())
+      .catch((error) => console.error('Chat routing error:', error));
+    return this.draining;
+  }
+
+  private async getStaffedAgents(config: RoutingConfig): Promise<User[]> {
+    const online = await this.storage.getOnlineAgents();
+    return online.filter(agent => (config.eligibleRoles as string[]).includes(agent.role));
+  }
+
+  // Only agents who set themselves "available" are handed new chats
+  private async getEligibleAgents(config: RoutingConfig): Promise<User[]> {
+    const staffed = await this.getStaffedAgents(config);
+    return staffed.filter(agent => agent.presence === 'available');
+  }
+
+  /**
+   * Moves a chat one step up escalationRoles: straight to the least busy
+   * colleague of the next level (or above) who can take a hand-over, otherwise
+   * back into the queue, where only that level may pick it up.
+   */
+  escalate(sessionId: string, escalation: Escalation): Promise<ChatSession> {
+    const escalated = this.draining.then(() => this.escalateNow(sessionId, escalation));
+    this.draining = escalated
+      .then(() => this.drainQueue(), () => undefined)
+      .catch((error) => console.error('Chat routing error:', error));
+    return escalated;
+  }
+
+  private async escalateNow(sessionId: string, { reason, rule, escalatedBy }: Escalation): Promise<ChatSession> {
+    const session = await this.storage.getChatSession(sessionId);
+    if (!session || (session.status !== 'active' && session.status !== 'waiting')) {
+      throw new EscalationError('Only open chats can be escalated');
+    }
+    // Two quick customer messages can both trip a rule; only the first one counts
+    if (rule !== 'manual' && session.escalationLevel) {
+      throw new EscalationError('This chat has already been escalated');
+    }
+
+    const current = session.agentId ? await this.storage.getUser(session.agentId) : undefined;
+    const levels = [session.escalationLevel, current?.role].filter((role): role is string => !!role && isEscalationRole(role));
+    const currentRank = Math.max(roleRank('agent'), ...levels.map(roleRank));
+    const level = escalationRoles.find(role => roleRank(role) > currentRank);
+    if (!level) {
+      throw new EscalationError('This chat is already with a team lead');
+    }
+
+    const target = await this.pickEscalationTarget(session, level);
+    const record: TransferRecord = {
+      fromAgent: session.agentId,
+      toAgent: target?.id ?? null,
+      timestamp: new Date(),
+      reason,
+      escalation: { level, rule, escalatedBy }
+    };
+
+    const updated = await this.storage.updateChatSession(session.id, {
+      escalationLevel: level,
+      agentId: target?.id ?? null,
+      status: target ? 'active' : 'waiting',
+      transferHistory: [...(session.transferHistory ?? []), record],
+      ...(target && { assignedAt: new Date() })
+    });
+    if (!updated) {
+      throw new EscalationError('Only open chats can be escalated');
+    }
+    chatEvents.emit('session:transferred', updated);
+
+    // The customer sees where the chat went; only staff see why
+    const notice = await this.storage.createMessage({
+      sessionId: session.id,
+      senderId: 'system',
+      senderType: 'system',
+      content: target
+        ? `Chat escalated to ${target.name} (${roleLabel(target.role)})`
+        : `Chat escalated, waiting for the next available ${roleLabel(level)}`,
+      messageType: 'system'
+    });
+    const why = await this.storage.createMessage({
+      sessionId: session.id,
+      senderId: 'system',
+      senderType: 'system',
+      content: `Escalation reason: ${reason}`,
+      messageType: 'system',
+      visibility: 'staff'
+    });
+    [notice, why].forEach(message => chatEvents.emit('message:created', message));
+
+    this.hub.broadcastToSession(updated.sessionId, { type: 'chat_message', sessionId: updated.sessionId, data: notice });
+    this.hub.broadcastToSession(updated.sessionId, { type: 'chat_message', sessionId: updated.sessionId, data: why }, { staffOnly: true });
+    this.hub.broadcastToSession(updated.sessionId, {
+      type: 'session_transfer',
+      sessionId: updated.sessionId,
+      data: { newAgentId: target?.id ?? null, reason, escalation: record.escalation }
+    }, { staffOnly: true });
+    if (target) {
+      this.hub.sendToUser(target.id, {
+        type: 'session_assigned',
+        sessionId: updated.sessionId,
+        data: { session: updated, agent: sanitizeUser(target) }
+      });
+    }
+    return updated;
+  }
+
+  // Like a transfer, busy or away colleagues can take an escalation; the exact level is preferred over those above it
+  private async pickEscalationTarget(session: ChatSession, level: UserRole): Promise<User | undefined> {
+    const online = await this.storage.getOnlineAgents();
+    const activeSessions = await this.storage.getActiveSessions();
+    const candidates = online
+      .filter(agent => isEscalationRole(agent.role) && roleRank(agent.role) >= roleRank(level))
+      .filter(agent => agent.id !== session.agentId && agent.presence !== 'offline' && agent.presence !== 'in_break')
+      .map(agent => ({
+        agent,
+        load: activeSessions.filter(s => s.status === 'active' && s.agentId === agent.id).length,
+      }));
+
+    const full = (c: Candidate) => c.load >= (c.agent.maxConcurrentChats ?? 3);
+    candidates.sort((a, b) =>
+      Number(full(a)) - Number(full(b)) ||
+      roleRank(a.agent.role) - roleRank(b.agent.role) ||
+      a.load - b.load
+    );
+    return candidates[0]?.agent;
+  }
+
+  private async drainQueue(): Promise<void> {
+    const waiting = await this.storage.getWaitingSessions();
+    if (waiting.length === 0) return;
+
+    const config = await this.getConfig();
+    const agents = await this.getEligibleAgents(config);
+    const activeSessions = await this.storage.getActiveSessions();
+
+    // Escalated chats wait for someone of their level, whether or not that role takes new chats
+    if (waiting.some(session => session.escalationLevel)) {
+      const online = await this.storage.getOnlineAgents();
+      agents.push(...online.filter(agent =>
+        agent.presence === 'available' && isEscalationRole(agent.role) && !agents.some(a => a.id === agent.id)
+      ));
+    }
+
+    const candidates: Candidate[] = agents.map(agent => ({
+      agent,
+      load: activeSessions.filter(s => s.status === 'active' && s.agentId === agent.id).length,
+    }));
+
+    for (const session of waiting) {
+      const candidate = this.pickAgent(config, session, candidates);
+      if (!candidate) continue;
+
+      const assigned = await this.storage.updateChatSession(session.id, {
+        agentId: candidate.agent.id,
+        status: 'active',
+        assignedAt: new Date(),
+      });
+      if (!assigned) continue;
+      chatEvents.emit('session:updated', assigned);
+
+      candidate.load++;
+      this.lastAssignedAgentId = candidate.agent.id;
+      await this.announceAssignment(assigned, candidate.agent);
+    }
+
+    await this.publishQueuePositions();
+  }
+
+  private pickAgent(config: RoutingConfig, session: ChatSession, candidates: Candidate[]): Candidate | undefined {
+    const level = session.escalationLevel;
+    let pool = candidates
+      .filter(c => c.load < (c.agent.maxConcurrentChats ?? 3))
+      .filter(c => level
+        ? isEscalationRole(c.agent.role) && roleRank(c.agent.role) >= roleRank(level)
+        : (config.eligibleRoles as string[]).includes(c.agent.role));
+
+    if (config.strategy === 'skills' && session.topic) {
+      const skilled = candidates.filter(c => c.agent.skills?.includes(session.topic!));
+      // Only fall back to unskilled agents when nobody with the skill is online at all
+      if (skilled.length > 0) {
+        pool = pool.filter(c => skilled.includes(c));
+      }
+    }
+
+    if (pool.length === 0) return undefined;
+
+    if (config.strategy === 'round_robin') {
+      return this.nextInRotation(pool);
+    }
+
+    // least_active, and the tie-break for skills: fewest open chats, then rotation order
+    const minLoad = Math.min(...pool.map(c => c.load));
+    return this.nextInRotation(pool.filter(c => c.load === minLoad));
+  }
+
+  private nextInRotation(pool: Candidate[]): Candidate {
+    const ordered = [...pool].sort((a, b) => a.agent.id.localeCompare(b.agent.id));
+    if (!this.lastAssignedAgentId) return ordered[0];
+    return ordered.find(c => c.agent.id > this.lastAssignedAgentId!) ?? ordered[0];
+  }
+
+  private async announceAssignment(session: ChatSession, agent: User) {
+    const notice = await this.storage.createMessage({
+      sessionId: session.id,
+      senderId: 'system',
+      senderType: 'system',
+      content: `You're now chatting with ${agent.name}`,
+      messageType: 'system'
+    });
+    chatEvents.emit('message:created', notice);
+
+    const event = {
+      type: 'session_assigned' as const,
+      sessionId: session.sessionId,
+      data: { session, agent: sanitizeUser(agent) }
+    };
+    this.hub.broadcastToSession(session.sessionId, { type: 'chat_message', sessionId: session.sessionId, data: notice });
+    this.hub.broadcastToSession(session.sessionId, event);
+    this.hub.sendToUser(agent.id, event);
+  }
+
+  private async publishQueuePositions() {
+    const waiting = await this.storage.getWaitingSessions();
+    waiting.forEach((session, index) => {
+      this.hub.broadcastToSession(session.sessionId, {
+        type: 'queue_update',
+        sessionId: session.sessionId,
+        data: { position: index + 1, queueLength: waiting.length }
+      });
+    });
+  }
+}
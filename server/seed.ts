@@ -0,0 +1,141 @@
+import type { IStorage } from "./storage";
+import { hashPassword } from "./auth";
+import { createSop } from "./sop-revisions";
+
+const seedUsers = [
+  { username: "admin", password: "admin123", role: "admin", name: "Sarah Chen", email: "sarah.chen@company.com" },
+  { username: "teamlead1", password: "password123", role: "team_lead", name: "Jennifer Park", email: "jennifer.park@company.com", team: "Customer Care" },
+  { username: "senior1", password: "password123", role: "senior_agent", name: "David Kim", email: "david.kim@company.com", team: "Customer Care", skills: ["orders", "returns", "billing", "general"] },
+  { username: "agent1", password: "password123", role: "agent", name: "Mike Thompson", email: "mike.thompson@company.com", team: "Customer Care", skills: ["orders", "returns", "general"] },
+  { username: "agent2", password: "password123", role: "agent", name: "Anna Martinez", email: "anna.martinez@company.com", team: "Billing", skills: ["billing", "general"] },
+];
+
+const seedCustomers = [
+  {
+    name: "Emma Wilson",
+    email: "emma.wilson@email.com",
+    customerId: "CUS-2024-5678",
+    memberSince: new Date('2023-01-15'),
+    totalOrders: 24,
+    status: "premium",
+  },
+  {
+    name: "Alex Kumar",
+    email: "alex.kumar@email.com",
+    customerId: "CUS-2024-1234",
+    memberSince: new Date('2023-03-20'),
+    totalOrders: 12,
+    status: "regular",
+  }
+];
+
+const seedSOPs = [
+  {
+    title: "Payment Issue Resolution",
+    category: "Payment & Billing",
+    content: `## When customer reports payment not processed:
+1. Verify customer identity using order number and email
+2. Check payment status in the admin panel
+3. If payment shows "pending", explain 24-48 hour processing time
+4. If payment failed, guide customer to retry payment
+5. For successful payments not reflected, escalate to senior agent
+
+### Quick Response Templates:
+**Payment Processing:** "I can see your payment is being processed. It typically takes 24-48 hours to reflect in our system. You'll receive an email confirmation once it's complete."
+
+**Payment Failed:** "It looks like your payment didn't go through. This can happen due to insufficient funds or card restrictions. Please try again or use an alternative payment method."`,
+    keywords: ["payment", "billing", "transaction", "failed payment", "pending"],
+    version: "2.1",
+    uploadedBy: "admin",
+  },
+  {
+    title: "Refund Policy Guidelines",
+    category: "Payment & Billing",
+    content: `## Refund Processing Guidelines:
+1. Check order date (must be within 30 days)
+2. Verify item condition requirements
+3. Process refund through admin panel
+4. Send confirmation email to customer
+5. Update order status
+
+### Refund Timeframes:
+- Credit card: 3-5 business days
+- Digital wallet: 1-2 business days
+- Bank transfer: 5-7 business days`,
+    keywords: ["refund", "return", "money back", "cancellation"],
+    version: "1.5",
+    uploadedBy: "admin",
+  },
+  {
+    title: "Shipping Delay Procedures",
+    category: "Shipping & Returns",
+    content: `## Handling Shipping Delays:
+1. Check tracking information in system
+2. Provide realistic delivery estimates
+3. Offer compensation if delay exceeds 7 days
+4. Update customer with regular communication
+5. Escalate to logistics team if needed`,
+    keywords: ["shipping", "delivery", "delay", "tracking", "logistics"],
+    version: "1.0",
+    uploadedBy: "teamlead1",
+  }
+];
+
+const seedQuickReplies = [
+  {
+    title: "Welcome Message",
+    content: "Hello! Thank you for contacting our support team. How can I assist you today?",
+    category: "greetings",
+    createdBy: "admin",
+  },
+  {
+    title: "Order Status Check",
+    content: "I'll be happy to check your order status. Could you please provide your order number?",
+    category: "orders",
+    createdBy: "admin",
+  },
+  {
+    title: "Escalation Notice",
+    content: "I'm transferring your chat to a senior agent who can better assist you with this issue. Please hold on for a moment.",
+    category: "escalation",
+    createdBy: "admin",
+  }
+];
+
+/**
+ * Insert the demo users, customers, SOPs and quick replies. Every record is
+ * looked up by its natural key first, so running this repeatedly is safe.
+ */
+export async function seedDatabase(storage: IStorage): Promise<void> {
+  const userIds = new Map<string, string>();
+
+  for (const seedUser of seedUsers) {
+    let user = await storage.getUserByUsername(seedUser.username);
+    if (!user) {
+      user = await storage.createUser({ ...seedUser, password: await hashPassword(seedUser.password) });
+    }
+    userIds.set(user.username, user.id);
+  }
+
+  for (const { memberSince, ...seedCustomer } of seedCustomers) {
+    const existing = await storage.getCustomerByEmail(seedCustomer.email);
+    if (!existing) {
+      const customer = await storage.createCustomer(seedCustomer);
+      await storage.updateCustomer(customer.id, { memberSince });
+    }
+  }
+
+  const existingSOPs = new Set((await storage.getSOPDocuments()).map(sop => sop.title));
+  for (const { uploadedBy, ...seedSOP } of seedSOPs) {
+    if (!existingSOPs.has(seedSOP.title)) {
+      await createSop(storage, { ...seedSOP, uploadedBy: userIds.get(uploadedBy) });
+    }
+  }
+
+  const existingReplies = new Set((await storage.getQuickReplies()).map(reply => reply.title));
+  for (const { createdBy, ...seedReply } of seedQuickReplies) {
+    if (!existingReplies.has(seedReply.title)) {
+      await storage.createQuickReply({ ...seedReply, createdBy: userIds.get(createdBy) });
+    }
+  }
+}
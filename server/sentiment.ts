@@ -0,0 +1,23 @@
+// A small AFINN-style lexicon: enough to spot an unhappy customer, not to grade prose
+const lexicon: Record<string, number> = {
+  angry: -3, annoyed: -2, awful: -3, bad: -2, broken: -2, cancel: -1, disappointed: -2, disappointing: -2,
+  disgusting: -3, frustrated: -2, frustrating: -2, furious: -4, garbage: -3, hate: -3, horrible: -3,
+  incompetent: -3, joke: -2, lied: -3, ridiculous: -3, rubbish: -3, scam: -4, shame: -2, terrible: -3,
+  unacceptable: -3, unhappy: -2, upset: -2, useless: -3, waste: -2, worst: -3, wrong: -2,
+  fraud: -4, pathetic: -3, nightmare: -3,
+  thanks: 2, thank: 2, great: 3, good: 2, happy: 2, helpful: 2, love: 3, perfect: 3, excellent: 3, awesome: 3,
+};
+
+const negations = new Set(['not', "don't", 'dont', "isn't", 'isnt', 'no', "wasn't", 'wasnt', 'never']);
+
+/**
+ * Sums the lexicon scores of the words in `text`; a word right after a negation
+ * ("not good") counts the other way. Below zero is negative.
+ */
+export function scoreSentiment(text: string): number {
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  return words.reduce((score, word, index) => {
+    const value = lexicon[word] ?? 0;
+    return score + (index > 0 && negations.has(words[index - 1]) ? -value : value);
+  }, 0);
+}
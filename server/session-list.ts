@@ -0,0 +1,58 @@
+import type { ChatSession, Customer, Message, SessionListItem, SessionListSort, User } from "@shared/schema";
+
+// Keyset pagination for GET /api/chat/sessions. Rows are ordered by a sort key
+// (start time, or latest activity) with the id as tie-break, and a cursor holds
+// both values of the last row a page returned.
+
+export interface SessionCursor {
+  sortKey: Date;
+  id: string;
+}
+
+export interface SessionPageRequest {
+  readerId: string; // whose unread counts to include
+  limit: number;
+  after?: SessionCursor;
+}
+
+// The storage layer returns the full agent row; routes strip the password
+export type EnrichedSession = Omit<SessionListItem, 'agent'> & { agent: User | null };
+
+export interface EnrichedSessionPage {
+  sessions: EnrichedSession[];
+  next: SessionCursor | null;
+}
+
+export function sessionSortKey(session: ChatSession, lastMessage: Message | null, sort: SessionListSort): Date {
+  const activity = sort === 'recent_activity' ? lastMessage?.timestamp ?? session.startTime : session.startTime;
+  return activity ?? new Date(0);
+}
+
+/** Orders sessions as a page lists them: oldest first, otherwise newest first. */
+export function compareSessions(a: SessionCursor, b: SessionCursor, sort: SessionListSort): number {
+  const direction = sort === 'oldest' ? 1 : -1;
+  const byKey = a.sortKey.getTime() - b.sortKey.getTime();
+  return direction * (byKey !== 0 ? byKey : a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+export function matchesSessionSearch(customer: Customer | null, lastMessage: Message | null, search: string): boolean {
+  const needle = search.toLowerCase();
+  return [customer?.name, customer?.email, lastMessage?.content]
+    .some(field => field?.toLowerCase().includes(needle));
+}
+
+export function encodeSessionCursor(cursor: SessionCursor): string {
+  return Buffer.from(JSON.stringify({ k: cursor.sortKey.toISOString(), id: cursor.id })).toString('base64url');
+}
+
+/** Returns undefined for anything that is not a cursor we issued. */
+export function decodeSessionCursor(value: string): SessionCursor | undefined {
+  try {
+    const { k, id } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const sortKey = new Date(k);
+    if (typeof id !== 'string' || typeof k !== 'string' || isNaN(sortKey.getTime())) return undefined;
+    return { sortKey, id };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  customerStatuses,
+  type BusinessSchedule, type ChatSession, type CustomerStatus, type Message, type SlaBreach, type SlaConfig, type SlaMetric,
+  type SlaPolicy
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { addBusinessMinutes, getBusinessHoursConfig, scheduleFor } from "./business-hours";
+import type { ChatHub } from "./websocket";
+import { chatEvents } from "./events";
+
+export const SLA_SETTINGS_KEY = "sla";
+
+const SWEEP_INTERVAL_MS = 15 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const defaultSlaConfig: SlaConfig = {
+  enabled: true,
+  policies: {
+    regular: { first_response: 5, next_response: 10, resolution: 60 },
+    premium: { first_response: 2, next_response: 5, resolution: 45 },
+    vip: { first_response: 1, next_response: 3, resolution: 30 },
+  },
+};
+
+export interface SlaClock {
+  metric: SlaMetric;
+  dueAt: Date;
+}
+
+const isOpen = (session: ChatSession) => session.status === 'active' || session.status === 'waiting';
+
+// Whispers, supervisors and system notices neither start nor stop a clock
+const isAgentReply = (message: Message) => message.senderType === 'agent' && message.visibility === 'public';
+
+/**
+ * The SLA clocks running for an open chat under the given policy, soonest
+ * first. With a schedule, the clocks only run during its business hours.
+ */
+export function runningClocks(session: ChatSession, messages: Message[], policy: SlaPolicy, schedule?: BusinessSchedule | null): SlaClock[] {
+  if (!isOpen(session) || !session.startTime) return [];
+
+  const clocks: SlaClock[] = [];
+  const due = (from: Date, minutes: number | null) => {
+    if (minutes === null) return null;
+    return schedule ? addBusinessMinutes(schedule, from, minutes) : new Date(from.getTime() + minutes * MINUTE_MS);
+  };
+  const lastReplyIndex = messages.map(isAgentReply).lastIndexOf(true);
+
+  if (lastReplyIndex === -1) {
+    const dueAt = due(session.startTime, policy.first_response);
+    if (dueAt) clocks.push({ metric: 'first_response', dueAt });
+  } else {
+    // The customer has been waiting since their first message after the agent last replied
+    const waitingSince = messages.slice(lastReplyIndex + 1).find(message => message.senderType === 'customer');
+    const dueAt = waitingSince?.timestamp && due(waitingSince.timestamp, policy.next_response);
+    if (dueAt) clocks.push({ metric: 'next_response', dueAt });
+  }
+
+  const resolutionDue = due(session.startTime, policy.resolution);
+  if (resolutionDue) clocks.push({ metric: 'resolution', dueAt: resolutionDue });
+
+  return clocks.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+const sameBreach = (breach: SlaBreach, clock: SlaClock) =>
+  breach.metric === clock.metric && breach.dueAt === clock.dueAt.toISOString();
+
+/**
+ * Keeps each open chat's next SLA deadline (`slaMetric`/`slaDueAt`) current as
+ * messages arrive, and sweeps for deadlines that have passed: each miss is
+ * recorded once in `slaBreaches` and announced to team leads as `sla_breach`.
+ */
+export class SlaMonitor {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private storage: IStorage, private hub: ChatHub) {
+    chatEvents.on('message:created', (message) => {
+      if (message.sessionId) this.enqueue(message.sessionId);
+    });
+    // New chats have no deadline yet; later updates are ours or do not move the clocks
+    chatEvents.on('session:updated', (session) => {
+      if (isOpen(session) && !session.slaDueAt && !session.slaBreaches?.length) this.enqueue(session.id);
+    });
+    chatEvents.on('session:ended', (session) => this.enqueue(session.id));
+
+    setInterval(() => {
+      this.sweep().catch((error) => console.error('SLA sweep error:', error));
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async getConfig(): Promise<SlaConfig> {
+    const stored = await this.storage.getSetting<Partial<SlaConfig>>(SLA_SETTINGS_KEY);
+    return { ...defaultSlaConfig, ...stored };
+  }
+
+  async setConfig(config: SlaConfig): Promise<SlaConfig> {
+    await this.storage.setSetting(SLA_SETTINGS_KEY, config);
+    await this.recalculate();
+    return config;
+  }
+
+  /** Works out every open chat's deadlines again, e.g. after the business hours change. */
+  async recalculate() {
+    const open = await this.storage.getActiveSessions();
+    open.forEach(session => this.enqueue(session.id));
+  }
+
+  // One session at a time, so a sweep and a new message cannot record the same breach twice
+  private enqueue(sessionId: string) {
+    this.pending = this.pending
+      .then(() => this.refresh(sessionId))
+      .catch((error) => console.error('SLA refresh error:', error));
+  }
+
+  private async sweep() {
+    const now = Date.now();
+    const open = await this.storage.getActiveSessions();
+    open
+      .filter(session => session.slaDueAt && session.slaDueAt.getTime() <= now)
+      .forEach(session => this.enqueue(session.id));
+  }
+
+  private async policyFor(session: ChatSession, config: SlaConfig): Promise<SlaPolicy> {
+    const customer = session.customerId ? await this.storage.getCustomer(session.customerId) : undefined;
+    const status = (customerStatuses as readonly string[]).includes(customer?.status ?? '')
+      ? customer!.status as CustomerStatus
+      : 'regular';
+    return config.policies[status];
+  }
+
+  private async refresh(sessionId: string) {
+    const session = await this.storage.getChatSession(sessionId);
+    if (!session) return;
+
+    const config = await this.getConfig();
+    const hours = await getBusinessHoursConfig(this.storage);
+    const clocks = config.enabled
+      ? runningClocks(
+          session,
+          await this.storage.getMessagesBySession(session.id),
+          await this.policyFor(session, config),
+          hours.enabled ? scheduleFor(hours, session.topic) : null
+        )
+      : [];
+
+    const now = new Date();
+    const breaches = session.slaBreaches ?? [];
+    const missed = clocks
+      .filter(clock => clock.dueAt <= now && !breaches.some(breach => sameBreach(breach, clock)))
+      .map(clock => ({ metric: clock.metric, dueAt: clock.dueAt.toISOString(), breachedAt: now.toISOString() }));
+    const next = clocks.find(clock => clock.dueAt > now);
+
+    const slaMetric = next?.metric ?? null;
+    const slaDueAt = next?.dueAt ?? null;
+    if (missed.length === 0 && slaMetric === session.slaMetric && slaDueAt?.getTime() === session.slaDueAt?.getTime()) {
+      return;
+    }
+
+    const updated = await this.storage.updateChatSession(session.id, {
+      slaMetric,
+      slaDueAt,
+      slaBreaches: [...breaches, ...missed]
+    });
+    if (!updated) return;
+    chatEvents.emit('session:updated', updated);
+
+    if (missed.length > 0) {
+      const customer = updated.customerId ? await this.storage.getCustomer(updated.customerId) : undefined;
+      missed.forEach(breach => this.hub.broadcastToStaff({
+        type: 'sla_breach',
+        sessionId: updated.sessionId,
+        data: { ...breach, agentId: updated.agentId, customerName: customer?.name ?? null }
+      }, 'team_lead'));
+    }
+  }
+}
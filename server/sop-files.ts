@@ -0,0 +1,477 @@
+import type { RequestHandler } from "express";
+import multer from "multer";
+import path from "path";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import {
+  MAX_SOP_CONTENT_LENGTH,
+  MAX_SOP_IMPORT_BYTES,
+  MAX_SOP_IMPORT_FILES,
+  sopImportDocumentSchema,
+  sopImportFileTypes,
+  type SOPDocument,
+  type SopImportDocument,
+  type SopImportPreviewFile,
+  type SopImportResult,
+  type User,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { PdfReadError, readPdfText } from "./pdf-text";
+import { createSop } from "./sop-revisions";
+import { extractKeywords } from "./sop-search";
+
+// Keeps a zip, a Word document or a PDF from unpacking into more than the server should hold at once
+const MAX_ZIP_ENTRIES = 200;
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+const GUESSED_KEYWORDS = 5;
+
+class UnreadableFileError extends Error {}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SOP_IMPORT_BYTES, files: MAX_SOP_IMPORT_FILES },
+  // Browsers send file names as UTF-8; the names matter here since they end up in reports and titles
+  defParamCharset: 'utf8',
+});
+
+/** Parses the multipart `files` field into `req.files`, answering 400/413 itself on bad uploads. */
+export const receiveSopFiles: RequestHandler = (req, res, next) => {
+  upload.array("files", MAX_SOP_IMPORT_FILES)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ error: `Files may be at most ${MAX_SOP_IMPORT_BYTES / (1024 * 1024)} MB` });
+    }
+    if (error instanceof multer.MulterError && (error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE")) {
+      return res.status(400).json({ error: `At most ${MAX_SOP_IMPORT_FILES} files can be imported at once` });
+    }
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error) return next(error);
+    if (!Array.isArray(req.files) || req.files.length === 0) {
+      return res.status(400).json({ error: 'At least one file is required' });
+    }
+    next();
+  });
+};
+
+// --- Text helpers
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+  euro: '€', pound: '£', deg: '°', times: '×',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+// Trims every line and keeps at most one blank line in a row
+function tidy(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const splitList = (value: string) => value.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+
+// --- Detecting documents
+
+// What a file says about itself; whatever is missing is filled in by previewSopFiles
+interface DetectedDocument {
+  content: string; // Markdown
+  title?: string;
+  category?: string;
+  keywords?: string[];
+  version?: string;
+}
+
+function unquote(value: string): string {
+  if (value.startsWith('"')) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+
+/**
+ * The front matter of a Markdown file: `key: value` lines between `---`
+ * fences, where a value may be quoted or a list, written `[a, b]` or as
+ * `- item` lines. Enough YAML for what editors and our export write.
+ */
+function parseFrontMatter(text: string): { fields: Map<string, string | string[]>; body: string } {
+  const fields = new Map<string, string | string[]>();
+  const match = /^---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)/.exec(text);
+  if (!match) return { fields, body: text };
+
+  let listKey: string | undefined;
+  for (const line of match[1].split('\n')) {
+    const item = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = fields.get(listKey);
+      fields.set(listKey, [...(Array.isArray(list) ? list : []), unquote((item[1] ?? item[2]).trim())]);
+      continue;
+    }
+    const field = /^([A-Za-z][\w-]*)\s*:\s*(.*)$/.exec(line);
+    if (!field) continue;
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    listKey = value === '' ? key : undefined;
+    if (value.startsWith('[') && value.endsWith(']')) {
+      let list: unknown;
+      try {
+        list = JSON.parse(value);
+      } catch {
+        list = value.slice(1, -1).split(',').map(entry => unquote(entry.trim()));
+      }
+      fields.set(key, Array.isArray(list) ? list.map(String).filter(Boolean) : []);
+    } else if (value !== '') {
+      fields.set(key, unquote(value));
+    }
+  }
+  return { fields, body: text.slice(match[0].length) };
+}
+
+function readMarkdown(text: string): DetectedDocument {
+  const { fields, body } = parseFrontMatter(text);
+  const field = (key: string) => {
+    const value = fields.get(key);
+    return typeof value === 'string' ? value : undefined;
+  };
+  const keywords = fields.get('keywords') ?? fields.get('tags');
+  return {
+    content: body,
+    title: field('title'),
+    category: field('category'),
+    keywords: typeof keywords === 'string' ? splitList(keywords) : keywords,
+    version: field('version'),
+  };
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, '');
+
+function readHtml(html: string): DetectedDocument {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const meta = (name: string) => {
+    const tag = new RegExp(`<meta\\s[^>]*name\\s*=\\s*["']?${name}["']?[^>]*>`, 'i').exec(html);
+    const content = tag && /content\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i.exec(tag[0]);
+    return content ? decodeEntities(content[1].replace(/^["']|["']$/g, '')) : undefined;
+  };
+  const keywords = meta('keywords');
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+
+  const markdown = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|template|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Line breaks in the source mean nothing; the tags below decide where lines end
+    .replace(/\s+/g, ' ')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${stripTags(text).trim()}\n\n`)
+    .replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      let number = 0;
+      return `\n${items.replace(/<li[^>]*>/gi, () => `\n${++number}. `)}\n`;
+    })
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<(b|strong)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, tag, text) => stripTags(text).trim() ? `**${stripTags(text).trim()}**` : text)
+    .replace(/<(i|em)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, tag, text) => stripTags(text).trim() ? `_${stripTags(text).trim()}_` : text)
+    .replace(/<a\b[^>]*href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) =>
+      /^(https?:|mailto:)/i.test(href) ? `[${stripTags(text).trim()}](${href})` : text)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<\/?(p|div|section|article|header|footer|ul|ol|table|tr|blockquote|pre|hr)\b[^>]*>/gi, '\n\n');
+
+  return {
+    content: decodeEntities(stripTags(markdown))
+      .split('\n')
+      .map(line => line.trim().replace(/\s*\|$/, ''))
+      .join('\n'),
+    title: title ? decodeEntities(stripTags(title[1])).trim() : undefined,
+    keywords: keywords ? splitList(keywords) : undefined,
+  };
+}
+
+const xmlText = (xml: string | undefined, tag: string) => {
+  const match = xml && new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? decodeEntities(match[1]).trim() || undefined : undefined;
+};
+
+/**
+ * The entries of a zip (or a .docx, which is one) that `keep` picks. Entries are
+ * unpacked into buffers of their declared size, so adding those sizes up caps
+ * the memory even a crafted archive can take.
+ */
+function unzipWithinLimits(data: Uint8Array, keep: (name: string) => boolean): Record<string, Uint8Array> {
+  let entries = 0;
+  let unzippedBytes = 0;
+  return unzipSync(data, {
+    filter: file => {
+      if (!keep(file.name)) return false;
+      entries++;
+      unzippedBytes += file.originalSize;
+      if (entries > MAX_ZIP_ENTRIES || unzippedBytes > MAX_UNZIPPED_BYTES) {
+        throw new UnreadableFileError(`Files may unpack to at most ${MAX_ZIP_ENTRIES} entries and ${MAX_UNZIPPED_BYTES / (1024 * 1024)} MB`);
+      }
+      return true;
+    },
+  });
+}
+
+/** Paragraphs of a Word document as Markdown, keeping headings, list items and bold text. */
+function readDocx(data: Uint8Array): DetectedDocument {
+  const parts = unzipWithinLimits(data, name => ['word/document.xml', 'word/styles.xml', 'docProps/core.xml'].includes(name));
+  if (!parts['word/document.xml']) throw new UnreadableFileError('Not a Word document');
+  const documentXml = strFromU8(parts['word/document.xml']);
+  const stylesXml = parts['word/styles.xml'] ? strFromU8(parts['word/styles.xml']) : '';
+  const coreXml = parts['docProps/core.xml'] ? strFromU8(parts['docProps/core.xml']) : undefined;
+
+  // Style ids differ between languages and templates; their names say which are headings
+  const headingLevels = new Map<string, number>();
+  const styles = /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g;
+  let style: RegExpExecArray | null;
+  while ((style = styles.exec(stylesXml))) {
+    const name = /<w:name w:val="([^"]+)"/.exec(style[2])?.[1].toLowerCase() ?? '';
+    const level = name === 'title' ? 1 : Number(/^heading (\d)$/.exec(name)?.[1]);
+    if (level) headingLevels.set(style[1], level);
+  }
+  const headingLevel = (styleId: string) =>
+    headingLevels.get(styleId) ?? (styleId === 'Title' ? 1 : Number(/^Heading(\d)$/.exec(styleId)?.[1]) || 0);
+
+  const lines = (documentXml.match(/<w:p\b[^>]*\/>|<w:p\b[^>]*>[\s\S]*?<\/w:p>/g) ?? []).map(paragraph => {
+    const level = headingLevel(/<w:pStyle w:val="([^"]+)"/.exec(paragraph)?.[1] ?? '');
+    const runs = (paragraph.match(/<w:r\b[^>]*>[\s\S]*?<\/w:r>/g) ?? []).map(run => ({
+      bold: /<w:b\/>|<w:b w:val="(true|1|on)"\/>/.test(run),
+      text: (run.match(/<w:t\b[^>]*>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>|<w:cr\/>/g) ?? [])
+        .map(piece => piece.startsWith('<w:t') ? decodeEntities(piece.replace(/<[^>]*>/g, '')) : piece === '<w:tab/>' ? '\t' : '\n')
+        .join(''),
+    }));
+
+    // Adjacent bold runs become one bold span, with the spaces around it left outside
+    const spans: { bold: boolean; text: string }[] = [];
+    runs.forEach(run => {
+      const last = spans[spans.length - 1];
+      if (last && last.bold === run.bold) last.text += run.text;
+      else spans.push({ ...run });
+    });
+    const text = spans
+      .map(({ bold, text }) => bold && !level && text.trim()
+        ? text.replace(/^(\s*)([\s\S]*?)(\s*)$/, '$1**$2**$3')
+        : text)
+      .join('')
+      .trim();
+
+    if (!text) return '';
+    if (level) return `\n${'#'.repeat(level)} ${text}\n`;
+    return /<w:numPr>/.test(paragraph) ? `- ${text}` : text;
+  });
+
+  return {
+    content: lines.join('\n'),
+    title: xmlText(coreXml, 'dc:title'),
+    category: xmlText(coreXml, 'cp:category'),
+    keywords: xmlText(coreXml, 'cp:keywords') ? splitList(xmlText(coreXml, 'cp:keywords')!) : undefined,
+  };
+}
+
+function readPdf(data: Uint8Array): DetectedDocument {
+  const pdf = readPdfText(Buffer.from(data), MAX_UNZIPPED_BYTES);
+  if (!pdf.text) throw new UnreadableFileError('No text found; scanned PDFs need text recognition before they can be imported');
+  // Without a title in the document info, a short first line that is not a sentence is most likely the title
+  const [firstLine, ...rest] = pdf.text.split('\n');
+  const titleLine = !pdf.title && rest.length > 0 && firstLine.length <= 100 && !/[.:;,]$/.test(firstLine);
+  return {
+    content: titleLine ? rest.join('\n') : pdf.text,
+    title: titleLine ? firstLine : pdf.title,
+    keywords: pdf.keywords ? splitList(pdf.keywords) : undefined,
+  };
+}
+
+const fileType = (name: string) => path.extname(name).toLowerCase();
+
+function readFile(name: string, data: Uint8Array): DetectedDocument {
+  const text = () => strFromU8(data).replace(/^\uFEFF/, '');
+  switch (fileType(name)) {
+    case '.md':
+    case '.markdown':
+    case '.txt':
+      return readMarkdown(text());
+    case '.html':
+    case '.htm':
+      return readHtml(text());
+    case '.docx':
+      return readDocx(data);
+    case '.pdf':
+      return readPdf(data);
+    default:
+      throw new UnreadableFileError(`Only ${sopImportFileTypes.join(', ')} files can be imported`);
+  }
+}
+
+interface SourceFile {
+  name: string; // for a file inside a zip, the zip's name followed by its path inside
+  data: Uint8Array;
+  folder?: string; // the folder it was in inside a zip, taken as its category if it names none
+}
+
+// The files inside a zip, skipping folders and what macOS and editors leave behind
+function unpackZip(name: string, data: Uint8Array): SourceFile[] {
+  const files = unzipWithinLimits(data, entry =>
+    !entry.endsWith('/') && !entry.split('/').some(part => part.startsWith('.') || part === '__MACOSX'));
+  return Object.keys(files).sort().map(entry => ({
+    name: `${name}/${entry}`,
+    data: files[entry],
+    folder: entry.includes('/') ? path.posix.basename(path.posix.dirname(entry)) : undefined,
+  }));
+}
+
+const titleFromFileName = (name: string) =>
+  path.posix.basename(name, path.extname(name)).replace(/[-_]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+function previewFile(file: SourceFile, defaultCategory: string, titlesTaken: Set<string>): SopImportPreviewFile {
+  const warnings: string[] = [];
+  let detected: DetectedDocument;
+  try {
+    detected = readFile(file.name, file.data);
+  } catch (error) {
+    const readable = error instanceof UnreadableFileError || error instanceof PdfReadError;
+    return { fileName: file.name, warnings, error: readable ? error.message : 'The file could not be read' };
+  }
+
+  // A leading H1 is the title, unless the file names a different one
+  let content = tidy(detected.content);
+  let title = detected.title?.trim();
+  const heading = /^# (.+)(?:\n|$)/.exec(content);
+  if (heading && (!title || heading[1].trim() === title)) {
+    title = heading[1].trim();
+    content = content.slice(heading[0].length).trim();
+  }
+  if (!content) {
+    return { fileName: file.name, warnings, error: 'The file has no text to import' };
+  }
+  if (content.length > MAX_SOP_CONTENT_LENGTH) {
+    return { fileName: file.name, warnings, error: `The text is longer than ${MAX_SOP_CONTENT_LENGTH.toLocaleString('en-US')} characters` };
+  }
+  if (!title) {
+    title = titleFromFileName(file.name);
+    warnings.push('No title found; the file name is used');
+  }
+  if (title.length > 200) {
+    title = title.slice(0, 200).trim();
+    warnings.push('The title was shortened to 200 characters');
+  }
+
+  let keywords = Array.from(new Set((detected.keywords ?? []).map(keyword => keyword.trim().slice(0, 50)).filter(Boolean)));
+  if (keywords.length > 30) {
+    keywords = keywords.slice(0, 30);
+    warnings.push('Only the first 30 keywords are kept');
+  }
+  if (keywords.length === 0) {
+    keywords = extractKeywords([title, content], GUESSED_KEYWORDS);
+    if (keywords.length) warnings.push('No keywords found; these were picked from the text');
+  }
+
+  if (titlesTaken.has(title.toLowerCase())) {
+    warnings.push(`An SOP titled "${title}" already exists or is in this import`);
+  }
+  titlesTaken.add(title.toLowerCase());
+
+  const document: SopImportDocument = {
+    sourceName: file.name.slice(0, 255),
+    title,
+    category: (detected.category?.trim() || file.folder || defaultCategory).slice(0, 100),
+    content,
+    keywords,
+    version: detected.version?.trim().slice(0, 20) || undefined,
+  };
+  return { fileName: file.name, document, warnings };
+}
+
+/**
+ * Reads uploaded files, and the files in uploaded zips, into documents ready
+ * to import, reporting files that cannot be read rather than failing them all.
+ */
+export function previewSopFiles(
+  files: { name: string; data: Uint8Array }[],
+  defaultCategory: string,
+  existingTitles: string[],
+): SopImportPreviewFile[] {
+  const titlesTaken = new Set(existingTitles.map(title => title.toLowerCase()));
+  return files.flatMap(file => {
+    if (fileType(file.name) !== '.zip') return [previewFile(file, defaultCategory, titlesTaken)];
+    let entries: SourceFile[];
+    try {
+      entries = unpackZip(file.name, file.data);
+    } catch (error) {
+      const message = error instanceof UnreadableFileError ? error.message : 'The zip file could not be read';
+      return [{ fileName: file.name, warnings: [], error: message }];
+    }
+    if (entries.length === 0) return [{ fileName: file.name, warnings: [], error: 'The zip file is empty' }];
+    return entries.map(entry => fileType(entry.name) === '.zip'
+      ? { fileName: entry.name, warnings: [], error: 'Zip files inside zip files are not imported' }
+      : previewFile(entry, defaultCategory, titlesTaken));
+  });
+}
+
+/** Creates a draft for each document, reporting the ones that are invalid instead of stopping at them. */
+export async function importSops(storage: IStorage, documents: unknown[], author: User): Promise<SopImportResult[]> {
+  const results: SopImportResult[] = [];
+  for (let index = 0; index < documents.length; index++) {
+    const document = documents[index];
+    const parsed = sopImportDocumentSchema.safeParse(document);
+    if (!parsed.success) {
+      const sourceName = (document as { sourceName?: unknown } | null)?.sourceName;
+      results.push({
+        sourceName: typeof sourceName === 'string' && sourceName ? sourceName : `Document ${index + 1}`,
+        error: parsed.error.errors.map(issue => `${issue.path.join('.') || 'document'}: ${issue.message}`).join('; '),
+      });
+      continue;
+    }
+    const { sourceName, ...sop } = parsed.data;
+    try {
+      const created = await createSop(storage, { ...sop, uploadedBy: author.id, status: 'draft' }, `Imported from ${sourceName}`);
+      results.push({ sourceName, sop: created });
+    } catch (error) {
+      console.error('SOP import error:', error);
+      results.push({ sourceName, error: 'Failed to create SOP document' });
+    }
+  }
+  return results;
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 80);
+
+/**
+ * The SOPs as Markdown files in a zip, one folder per category. Their front
+ * matter keeps the metadata, so the zip can be imported again as it is.
+ */
+export function exportSops(sops: SOPDocument[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  sops.forEach(sop => {
+    const folder = slug(sop.category) || 'uncategorized';
+    const base = slug(sop.title) || sop.id;
+    let name = `${folder}/${base}.md`;
+    for (let copy = 2; name in files; copy++) name = `${folder}/${base}-${copy}.md`;
+
+    const frontMatter = [
+      '---',
+      `title: ${JSON.stringify(sop.title)}`,
+      `category: ${JSON.stringify(sop.category)}`,
+      `keywords: ${JSON.stringify(sop.keywords ?? [])}`,
+      `version: ${JSON.stringify(sop.version ?? '1.0.0')}`,
+      `status: ${sop.status}`,
+      ...(sop.lastUpdated ? [`updated: ${new Date(sop.lastUpdated).toISOString()}`] : []),
+      '---',
+    ];
+    files[name] = strToU8(`${frontMatter.join('\n')}\n\n${sop.content.trim()}\n`);
+  });
+  return zipSync(files, { level: 6 });
+}
@@ -0,0 +1,244 @@
+import type {
+  InsertSOPDocument, SOPDocument, SOPRevision, SOPRevisionWithAuthor, SopCitation, SopDiffRow, UpdateSOP, User
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export class InvalidRevisionError extends Error {}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+// Versions are major.minor.patch; older documents may have "1.5" or free text
+export function parseVersion(version: string | null | undefined): [number, number, number] {
+  const match = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?$/.exec(version?.trim() ?? '');
+  if (!match) return [1, 0, 0];
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+export function bumpVersion(version: string | null | undefined, bump: VersionBump): string {
+  const [major, minor, patch] = parseVersion(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+// Beyond this many line pairs the changed middle of a document is shown as one replaced block
+const MAX_DIFF_CELLS = 4000000;
+
+type Edit = { op: 'same' | 'removed' | 'added'; line: string };
+
+function editScript(before: string[], after: string[]): Edit[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const middle: Edit[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach(line => middle.push({ op: 'removed', line }));
+    b.forEach(line => middle.push({ op: 'added', line }));
+  } else {
+    // Longest common subsequence, filled from the end so the walk below can go forwards
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ op: 'same', line: a[i++] });
+        j++;
+      } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        middle.push({ op: 'added', line: b[j++] });
+      } else {
+        middle.push({ op: 'removed', line: a[i++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, start).map(line => ({ op: 'same' as const, line })),
+    ...middle,
+    ...before.slice(endBefore).map(line => ({ op: 'same' as const, line })),
+  ];
+}
+
+/** Line-by-line comparison of two texts, laid out for showing them side by side. */
+export function diffLines(before: string, after: string): SopDiffRow[] {
+  const edits = editScript(before.split('\n'), after.split('\n'));
+  const rows: SopDiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  // Removed and added lines between two unchanged ones are paired up as changes
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? removed[k] : null;
+      const right = k < added.length ? added[k] : null;
+      rows.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+        leftLine: left !== null ? leftLine++ : null,
+        rightLine: right !== null ? rightLine++ : null
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const edit of edits) {
+    if (edit.op === 'removed') {
+      removed.push(edit.line);
+    } else if (edit.op === 'added') {
+      added.push(edit.line);
+    } else {
+      flush();
+      rows.push({ type: 'same', left: edit.line, right: edit.line, leftLine: leftLine++, rightLine: rightLine++ });
+    }
+  }
+  flush();
+  return rows;
+}
+
+type SopFields = Pick<SOPDocument, 'title' | 'category' | 'content' | 'keywords'>;
+
+const sameKeywords = (a: string[] | null, b: string[] | null) => (a ?? []).join('\n') === (b ?? []).join('\n');
+
+/**
+ * How big a change is: a new category or more than half the lines rewritten
+ * is major, any other content change minor, and a new title or keywords a
+ * patch. Null when nothing changed at all.
+ */
+export function classifyChange(before: SopFields, after: SopFields): VersionBump | null {
+  if (before.category !== after.category) return 'major';
+  if (before.content !== after.content) {
+    const rows = diffLines(before.content, after.content);
+    const changed = rows.filter(row => row.type !== 'same').length;
+    return changed / rows.length > 0.5 ? 'major' : 'minor';
+  }
+  if (before.title !== after.title || !sameKeywords(before.keywords, after.keywords)) return 'patch';
+  return null;
+}
+
+function recordRevision(storage: IStorage, sop: SOPDocument, authorId: string | null, changeNote: string) {
+  return storage.createSOPRevision({
+    sopId: sop.id,
+    version: sop.version ?? '1.0.0',
+    title: sop.title,
+    category: sop.category,
+    content: sop.content,
+    keywords: sop.keywords,
+    changeNote,
+    authorId
+  });
+}
+
+/** The revision matching the SOP as it is now, recorded first for SOPs saved before revisions were kept. */
+export async function currentRevision(storage: IStorage, sop: SOPDocument): Promise<SOPRevision> {
+  const [revision] = await storage.getSOPRevisions(sop.id);
+  return revision ?? recordRevision(storage, sop, sop.uploadedBy, 'Earliest recorded version');
+}
+
+/** Creates an SOP together with its first revision. */
+export async function createSop(storage: IStorage, sop: InsertSOPDocument, changeNote = 'Created'): Promise<SOPDocument> {
+  const [major, minor, patch] = parseVersion(sop.version);
+  const created = await storage.createSOPDocument({ ...sop, version: `${major}.${minor}.${patch}` });
+  await recordRevision(storage, created, created.uploadedBy, changeNote);
+  return created;
+}
+
+/**
+ * Saves an edit as a new revision with the next version. Returns the SOP
+ * unchanged if the edit changes nothing. Editing a published SOP turns it back
+ * into a draft, and agents keep seeing the published revision until the edit
+ * is approved.
+ */
+export async function reviseSop(storage: IStorage, sop: SOPDocument, update: UpdateSOP, author: User): Promise<SOPDocument> {
+  if (sop.status === 'archived') {
+    throw new InvalidRevisionError('Restore the SOP before editing it');
+  }
+  const { changeNote, ...changes } = update;
+  const next: SopFields = {
+    title: changes.title ?? sop.title,
+    category: changes.category ?? sop.category,
+    content: changes.content ?? sop.content,
+    keywords: changes.keywords ?? sop.keywords
+  };
+  const bump = classifyChange(sop, next);
+  if (!bump) return sop;
+
+  const previous = await currentRevision(storage, sop);
+  const updated = await storage.updateSOPDocument(sop.id, {
+    ...next,
+    version: bumpVersion(sop.version, bump),
+    ...(sop.status === 'published' && { status: 'draft', publishedRevisionId: previous.id })
+  });
+  if (!updated) throw new InvalidRevisionError('SOP document not found');
+  await recordRevision(storage, updated, author.id, changeNote || `Updated ${bump === 'patch' ? 'details' : 'content'}`);
+  return updated;
+}
+
+/** Makes an earlier revision current again, as a new revision so the history stays intact. */
+export async function rollbackSop(
+  storage: IStorage,
+  sop: SOPDocument,
+  revision: SOPRevision,
+  author: User,
+  changeNote?: string,
+): Promise<SOPDocument> {
+  if (revision.sopId !== sop.id) {
+    throw new InvalidRevisionError('That revision belongs to another SOP');
+  }
+  const { title, category, content, keywords } = revision;
+  if (!classifyChange(sop, { title, category, content, keywords })) {
+    throw new InvalidRevisionError(`The SOP already matches version ${revision.version}`);
+  }
+  return reviseSop(storage, sop, {
+    title,
+    category,
+    content,
+    keywords: keywords ?? [],
+    changeNote: changeNote || `Rolled back to version ${revision.version}`
+  }, author);
+}
+
+export async function revisionsWithAuthors(storage: IStorage, revisions: SOPRevision[]): Promise<SOPRevisionWithAuthor[]> {
+  const authorIds = Array.from(new Set(revisions.map(revision => revision.authorId).filter((id): id is string => !!id)));
+  const authors = await Promise.all(authorIds.map(id => storage.getUser(id)));
+  const names = new Map(authors.filter((user): user is User => !!user).map(user => [user.id, user.name]));
+  return revisions.map(revision => ({
+    ...revision,
+    authorName: (revision.authorId && names.get(revision.authorId)) || 'Unknown'
+  }));
+}
+
+/**
+ * What a reply citing the SOP records: the published revision agents were
+ * shown, so later edits do not change it. Unpublished SOPs cannot be cited.
+ */
+export async function citeSop(storage: IStorage, sopId: string): Promise<SopCitation | undefined> {
+  const sop = await storage.getSOPDocument(sopId);
+  if (!sop) return undefined;
+  const revision = sop.status === 'published'
+    ? await currentRevision(storage, sop)
+    : sop.status !== 'archived' && sop.publishedRevisionId
+      ? await storage.getSOPRevision(sop.publishedRevisionId)
+      : undefined;
+  if (!revision) return undefined;
+  return { sopId: sop.id, revisionId: revision.id, title: revision.title, version: revision.version };
+}
@@ -0,0 +1,415 @@
+import type { HighlightSegment } from "@shared/schema";
+
+// Words too common to say anything about which SOP is meant
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+// Letters (including accented Latin ones) and digits; everything else separates words
+const WORD = /[A-Za-z0-9\u00C0-\u024F]+/g;
+
+interface Token {
+  term: string; // stemmed, or empty for stop words
+  start: number;
+  end: number;
+}
+
+// --- Porter stemmer (M.F. Porter, 1980), so "refunds", "refunded" and "refunding" all match "refund"
+
+const isConsonant = (word: string, i: number): boolean => {
+  const c = word[i];
+  if ('aeiou'.includes(c)) return false;
+  return c === 'y' ? i === 0 || !isConsonant(word, i - 1) : true;
+};
+
+// The number of vowel-consonant sequences, Porter's m
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+const hasVowel = (stem: string) => stem.split('').some((_, i) => !isConsonant(stem, i));
+const endsWithDouble = (word: string) =>
+  word.length > 1 && word[word.length - 1] === word[word.length - 2] && isConsonant(word, word.length - 1);
+// consonant-vowel-consonant, where the last is not w, x or y
+const endsCvc = (word: string) => {
+  const n = word.length;
+  return n >= 3 && isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1) && !'wxy'.includes(word[n - 1]);
+};
+
+type SuffixRules = [string, string][];
+
+const byLength = (rules: SuffixRules) => rules.sort((a, b) => b[0].length - a[0].length);
+
+const STEP2 = byLength([
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['abli', 'able'],
+  ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'],
+  ['iviti', 'ive'], ['biliti', 'ble'],
+]);
+const STEP3 = byLength([
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+]);
+const STEP4 = byLength([
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou', 'ism', 'ate',
+  'iti', 'ous', 'ive', 'ize',
+].map((suffix): [string, string] => [suffix, '']));
+
+// Applies the longest matching rule if what is left before the suffix measures more than minMeasure
+function replaceSuffix(word: string, rules: SuffixRules, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (suffix === 'ion' && !/[st]$/.test(stem)) return word;
+    return measure(stem) > minMeasure ? stem + replacement : word;
+  }
+  return word;
+}
+
+export function stem(word: string): string {
+  if (word.length <= 2 || /\d/.test(word)) return word;
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (/(at|bl|iz)$/.test(w)) w += 'e';
+      else if (endsWithDouble(w) && !/[lsz]$/.test(w)) w = w.slice(0, -1);
+      else if (measure(w) === 1 && endsCvc(w)) w += 'e';
+    }
+  }
+
+  // Step 1c: -y after a vowel somewhere
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) w = w.slice(0, -1) + 'i';
+
+  w = replaceSuffix(w, STEP2, 0);
+  w = replaceSuffix(w, STEP3, 0);
+  w = replaceSuffix(w, STEP4, 1);
+
+  // Step 5: a final -e, and -ll
+  if (w.endsWith('e')) {
+    const rest = w.slice(0, -1);
+    const m = measure(rest);
+    if (m > 1 || (m === 1 && !endsCvc(rest))) w = rest;
+  }
+  if (w.endsWith('ll') && measure(w) > 1) w = w.slice(0, -1);
+  return w;
+}
+
+// --- Text analysis
+
+const fold = (word: string) => word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(WORD.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const word = fold(match[0]);
+    tokens.push({ term: STOP_WORDS.has(word) ? '' : stem(word), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+/** The stemmed search terms in `text`, without stop words. */
+export function analyze(text: string): string[] {
+  return tokenize(text).map(token => token.term).filter(Boolean);
+}
+
+// --- Fuzzy matching
+
+// Edits (including swapping two letters) between a and b, or max + 1 once it is certain to exceed max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos allowed for a term of this length: none for short words, where one edit makes another word
+const allowedEdits = (term: string) => term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+// Close matches and completions count for less than the word itself
+export const FUZZY_WEIGHT = 0.5;
+
+/**
+ * Each query term with the indexed terms it should match and how much each
+ * counts: the term itself, then misspellings of it and words it starts (so
+ * results show up while someone is still typing).
+ */
+export function expandTerms(terms: string[], vocabulary: Iterable<string>): Map<string, Map<string, number>> {
+  const words = Array.from(vocabulary);
+  const known = new Set(words);
+  const expanded = new Map<string, Map<string, number>>();
+  for (const term of terms) {
+    if (expanded.has(term)) continue;
+    const matches = new Map<string, number>();
+    if (known.has(term)) matches.set(term, 1);
+    const edits = allowedEdits(term);
+    for (const word of words) {
+      if (word === term) continue;
+      if ((term.length >= 3 && word.startsWith(term)) || (edits > 0 && editDistance(term, word, edits) <= edits)) {
+        matches.set(word, FUZZY_WEIGHT);
+      }
+    }
+    expanded.set(term, matches);
+  }
+  return expanded;
+}
+
+// --- Highlighting
+
+function toSegments(text: string, marks: [number, number][]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const [start, end] of marks) {
+    if (start > position) segments.push({ text: text.slice(position, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+  return segments;
+}
+
+/** `text` split into the parts that match any of `terms` and the parts that do not. */
+export function highlight(text: string, terms: Set<string>): HighlightSegment[] {
+  const marks = tokenize(text)
+    .filter(token => token.term && terms.has(token.term))
+    .map((token): [number, number] => [token.start, token.end]);
+  return toSegments(text, marks);
+}
+
+const SNIPPET_WORDS = 30;
+
+/**
+ * The stretch of `text` with the most matches of `terms`, about SNIPPET_WORDS
+ * words long and highlighted. The start of the text if nothing matches.
+ */
+export function snippet(text: string, terms: Set<string>): HighlightSegment[] {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return [];
+  const matches = tokens.map(token => !!token.term && terms.has(token.term));
+
+  let bestStart = 0;
+  let bestCount = -1;
+  let count = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (matches[i]) count++;
+    if (i >= SNIPPET_WORDS && matches[i - SNIPPET_WORDS]) count--;
+    const start = Math.max(0, i - SNIPPET_WORDS + 1);
+    // Prefer windows that open on a match, so it is not cut off mid-sentence for nothing
+    if (count > bestCount || (count === bestCount && matches[start] && !matches[bestStart])) {
+      bestCount = count;
+      bestStart = start;
+    }
+  }
+  if (bestCount > 0) {
+    // Start a few words before the first match in the window, or as early as still fills it
+    let first = bestStart;
+    while (!matches[first]) first++;
+    bestStart = Math.max(0, Math.min(first - 5, tokens.length - SNIPPET_WORDS));
+  }
+
+  const last = Math.min(tokens.length, bestStart + SNIPPET_WORDS) - 1;
+  const from = bestStart === 0 ? 0 : tokens[bestStart].start;
+  const to = last === tokens.length - 1 ? text.length : tokens[last].end;
+  const excerpt = text.slice(from, to).replace(/\s+/g, ' ');
+  const segments = highlight(excerpt, terms);
+  if (from > 0) segments.unshift({ text: '… ', match: false });
+  if (to < text.length) segments.push({ text: ' …', match: false });
+  return segments;
+}
+
+/** Segments from text a database marked up with the given start and stop markers. */
+export function parseMarkedText(text: string, startMark: string, stopMark: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const parts = text.split(startMark);
+  if (parts[0]) segments.push({ text: parts[0], match: false });
+  for (const part of parts.slice(1)) {
+    const [matched, rest] = part.split(stopMark);
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  }
+  return segments;
+}
+
+// --- Keywords and excerpts
+
+// Said all the time in chats without saying anything about the problem
+const FILLER_WORDS = new Set([
+  'hello', 'hi', 'hey', 'thanks', 'thank', 'please', 'help', 'need', 'want', 'just', 'get', 'got', 'would',
+  'could', 'like', 'know', 'still', 'yes', 'ok', 'okay', 'hope', 'sorry', 'already', 'again', 'also',
+]);
+
+// Each message back counts for this much less, so keywords follow the conversation
+const RECENCY_DECAY = 0.7;
+
+/**
+ * The words that say most about what `texts` (oldest first) are about: the ones
+ * used most, with recent texts counting more. One word per stem, as written.
+ */
+export function extractKeywords(texts: string[], limit: number): string[] {
+  const candidates = new Map<string, { word: string; score: number; last: number }>();
+  texts.forEach((text, index) => {
+    const weight = Math.pow(RECENCY_DECAY, texts.length - 1 - index);
+    for (const token of tokenize(text)) {
+      const word = fold(text.slice(token.start, token.end));
+      // Order numbers and the like are no use for finding a procedure
+      if (!token.term || word.length < 3 || /^\d+$/.test(word) || FILLER_WORDS.has(word)) continue;
+      const candidate = candidates.get(token.term) ?? { word, score: 0, last: index };
+      candidate.score += weight;
+      candidate.last = index;
+      candidates.set(token.term, candidate);
+    }
+  });
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score || b.last - a.last || b.word.length - a.word.length)
+    .slice(0, limit)
+    .map(candidate => candidate.word);
+}
+
+/**
+ * The sentence of `text` that best matches `terms`, and the next one if that
+ * matches too, as plain text to quote in a reply. The first sentence if none match.
+ */
+export function excerpt(text: string, terms: Set<string>): string {
+  const sentences = text.split('\n')
+    // SOPs are written in Markdown; headings and bold labels are for agents, not customers
+    .filter(line => !/^\s*#/.test(line))
+    .map(line => line
+      .replace(/^\s*(?:\d+[.)]|[-*\u2022])\s+/, '')
+      .replace(/^\*\*[^*]+\*\*\s*/, '')
+      .replace(/\*\*/g, '')
+      // Reply templates are quoted, and a sentence taken out of one would keep just half the quotes
+      .replace(/["\u201c\u201d]/g, '')
+      .trim())
+    .filter(Boolean)
+    .flatMap(line => line.replace(/([.!?])\s+/g, '$1\n').split('\n'));
+  if (sentences.length === 0) return '';
+  const matches = sentences.map(sentence => analyze(sentence).filter(term => terms.has(term)).length);
+  const best = Math.max(0, matches.indexOf(Math.max(...matches)));
+  if (!(matches[best] > 0 && matches[best + 1] > 0)) return sentences[best];
+  // Steps on separate lines often have no full stop of their own
+  const first = /[.!?:]$/.test(sentences[best]) ? sentences[best] : `${sentences[best]}.`;
+  return `${first} ${sentences[best + 1]}`;
+}
+
+// --- In-memory index with BM25F ranking
+
+export interface SearchableFields {
+  title: string;
+  keywords: string[];
+  content: string;
+}
+
+// How much a match in each field counts; titles and keywords say most about what an SOP is for
+const FIELD_BOOSTS = [3, 2, 1];
+const FIELD_COUNT = FIELD_BOOSTS.length;
+// BM25 term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+export interface IndexMatch {
+  id: string;
+  score: number;
+  terms: Set<string>; // indexed terms that matched, for highlighting
+}
+
+export class SopSearchIndex {
+  private lengths = new Map<string, number[]>();
+  private totalLengths = new Array<number>(FIELD_COUNT).fill(0);
+  // term -> document id -> occurrences per field
+  private postings = new Map<string, Map<string, number[]>>();
+
+  set(id: string, fields: SearchableFields) {
+    this.delete(id);
+    const analyzed = [analyze(fields.title), analyze(fields.keywords.join(' ')), analyze(fields.content)];
+    this.lengths.set(id, analyzed.map(terms => terms.length));
+    analyzed.forEach((terms, field) => {
+      this.totalLengths[field] += terms.length;
+      for (const term of terms) {
+        let documents = this.postings.get(term);
+        if (!documents) this.postings.set(term, documents = new Map());
+        let counts = documents.get(id);
+        if (!counts) documents.set(id, counts = new Array<number>(FIELD_COUNT).fill(0));
+        counts[field]++;
+      }
+    });
+  }
+
+  delete(id: string) {
+    const lengths = this.lengths.get(id);
+    if (!lengths) return;
+    lengths.forEach((length, field) => this.totalLengths[field] -= length);
+    this.lengths.delete(id);
+    Array.from(this.postings.entries()).forEach(([term, documents]) => {
+      if (documents.delete(id) && documents.size === 0) this.postings.delete(term);
+    });
+  }
+
+  search(query: string): IndexMatch[] {
+    const count = this.lengths.size;
+    if (count === 0) return [];
+    const averages = this.totalLengths.map(total => Math.max(total / count, 1));
+    const expanded = expandTerms(analyze(query), this.postings.keys());
+    const results = new Map<string, IndexMatch>();
+
+    Array.from(expanded.values()).forEach(matches => {
+      // Each query term counts once per document, through its best matching indexed term
+      const best = new Map<string, { score: number; term: string }>();
+      Array.from(matches.entries()).forEach(([term, weight]) => {
+        const documents = this.postings.get(term)!;
+        const idf = Math.log(1 + (count - documents.size + 0.5) / (documents.size + 0.5));
+        Array.from(documents.entries()).forEach(([id, counts]) => {
+          const lengths = this.lengths.get(id)!;
+          const frequency = counts.reduce((sum, occurrences, field) =>
+            sum + FIELD_BOOSTS[field] * occurrences / (1 - B + B * lengths[field] / averages[field]), 0);
+          const score = weight * idf * frequency * (K1 + 1) / (frequency + K1);
+          if (score > (best.get(id)?.score ?? 0)) best.set(id, { score, term });
+        });
+      });
+      Array.from(best.entries()).forEach(([id, { score, term }]) => {
+        const result = results.get(id) ?? { id, score: 0, terms: new Set<string>() };
+        result.score += score;
+        result.terms.add(term);
+        results.set(id, result);
+      });
+    });
+
+    return Array.from(results.values()).sort((a, b) => b.score - a.score);
+  }
+}
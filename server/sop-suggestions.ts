@@ -0,0 +1,78 @@
+import type { ChatSession, Message, SopSuggestions } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+import { chatEvents } from "./events";
+import { analyze, excerpt, extractKeywords } from "./sop-search";
+
+// What the customer said last says most about what they need now
+const MESSAGES_CONSIDERED = 5;
+const KEYWORDS_USED = 8;
+const SUGGESTIONS_SHOWN = 3;
+// A customer often sends a few short messages in a row; search once they pause
+const SUGGESTION_DEBOUNCE_MS = 1000;
+
+const isCustomerMessage = (message: Message) => message.senderType === 'customer' && message.visibility === 'public';
+
+/**
+ * The published SOPs that best match keywords from the customer's latest
+ * messages, each with an excerpt an agent can start a reply from.
+ */
+export async function suggestSops(storage: IStorage, session: ChatSession): Promise<SopSuggestions> {
+  const messages = (await storage.getMessagesBySession(session.id)).filter(isCustomerMessage);
+  const keywords = extractKeywords(messages.slice(-MESSAGES_CONSIDERED).map(message => message.content), KEYWORDS_USED);
+  if (keywords.length === 0) return { keywords, suggestions: [] };
+
+  const matches = await storage.searchSOPs(keywords.join(' '), { published: true });
+  const suggestions = matches.slice(0, SUGGESTIONS_SHOWN).map(({ sop, score, title, snippet }) => {
+    const matched = Array.from(new Set(
+      [...title, ...snippet].filter(segment => segment.match).map(segment => segment.text.toLowerCase())
+    ));
+    return { sop, score, matched, snippet, excerpt: excerpt(sop.content, new Set(analyze(matched.join(' ')))) };
+  });
+  return { keywords, suggestions };
+}
+
+/**
+ * Pushes fresh SOP suggestions to the staff in a chat whenever the customer
+ * writes, as long as they differ from what was pushed before.
+ */
+export class SopSuggestionFeed {
+  private timers = new Map<string, NodeJS.Timeout>();
+  // Session id -> the suggestions last pushed, so unchanged ones are not sent again
+  private lastPushed = new Map<string, string>();
+
+  constructor(private storage: IStorage, private hub: ChatHub) {
+    chatEvents.on('message:created', (message) => {
+      if (isCustomerMessage(message) && message.sessionId) this.schedule(message.sessionId);
+    });
+    chatEvents.on('session:ended', (session) => {
+      clearTimeout(this.timers.get(session.id));
+      this.timers.delete(session.id);
+      this.lastPushed.delete(session.id);
+    });
+  }
+
+  private schedule(sessionId: string) {
+    clearTimeout(this.timers.get(sessionId));
+    this.timers.set(sessionId, setTimeout(() => {
+      this.timers.delete(sessionId);
+      this.push(sessionId).catch((error) => console.error('SOP suggestion error:', error));
+    }, SUGGESTION_DEBOUNCE_MS));
+  }
+
+  private async push(sessionId: string) {
+    const session = await this.storage.getChatSession(sessionId);
+    if (!session || (session.status !== 'active' && session.status !== 'waiting')) return;
+
+    const suggestions = await suggestSops(this.storage, session);
+    const fingerprint = JSON.stringify(suggestions.suggestions.map(({ sop, excerpt }) => [sop.id, sop.version, excerpt]));
+    if (this.lastPushed.get(sessionId) === fingerprint) return;
+    this.lastPushed.set(sessionId, fingerprint);
+
+    this.hub.broadcastToSession(session.sessionId, {
+      type: 'sop_suggestions',
+      sessionId: session.sessionId,
+      data: suggestions
+    }, { staffOnly: true });
+  }
+}
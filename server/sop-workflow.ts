@@ -0,0 +1,94 @@
+import {
+  roleRank, sopTransitions,
+  type SOPComment, type SOPCommentWithAuthor, type SOPDocument, type SOPRevision, type SopStatus, type User, type UserRole
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { currentRevision } from "./sop-revisions";
+
+// Senior agents and up write and review SOPs; agents only ever see published versions
+export const canReviewSops = (user: User) => roleRank(user.role) >= roleRank('senior_agent');
+
+/** The role needed to move an SOP between the two statuses, or undefined if it cannot be done at all. */
+export function requiredRoleFor(from: string, to: SopStatus): UserRole | undefined {
+  return sopTransitions[from as SopStatus]?.[to];
+}
+
+const defaultNotes: Record<SopStatus, string> = {
+  draft: 'Moved back to draft',
+  in_review: 'Submitted for review',
+  published: 'Approved and published',
+  archived: 'Archived',
+};
+
+/**
+ * Moves an SOP to `status` and records it in the review discussion. Publishing
+ * makes the current revision the one agents see; archiving hides the SOP from
+ * them, and it has to be reviewed again after being restored.
+ */
+export async function changeSopStatus(
+  storage: IStorage,
+  sop: SOPDocument,
+  status: SopStatus,
+  user: User,
+  comment?: string,
+): Promise<SOPDocument> {
+  const revision = await currentRevision(storage, sop);
+  const updates: Partial<SOPDocument> = { status };
+  if (status === 'published') {
+    updates.publishedRevisionId = revision.id;
+  } else if (status === 'archived') {
+    updates.publishedRevisionId = null;
+    updates.archivedAt = new Date();
+  } else if (sop.status === 'archived') {
+    updates.archivedAt = null;
+  }
+
+  const updated = await storage.updateSOPDocument(sop.id, updates);
+  if (!updated) throw new Error('SOP document not found');
+  await storage.createSOPComment({
+    sopId: sop.id,
+    revisionId: revision.id,
+    authorId: user.id,
+    content: comment || defaultNotes[status],
+    action: status
+  });
+  return updated;
+}
+
+/**
+ * An SOP as agents see it: as it is when published, as it was when last
+ * published (`published`, its publishedRevisionId) while an edit awaits
+ * approval, and null otherwise.
+ */
+export function asPublished(sop: SOPDocument, published?: SOPRevision): SOPDocument | null {
+  if (sop.status === 'published') return sop;
+  if (sop.status === 'archived' || !published) return null;
+  const { title, category, content, keywords, version } = published;
+  return { ...sop, title, category, content, keywords, version, status: 'published', lastUpdated: published.createdAt };
+}
+
+export async function publishedVersions(storage: IStorage, sops: SOPDocument[]): Promise<SOPDocument[]> {
+  const versions = await Promise.all(sops.map(async sop => {
+    const published = sop.status !== 'published' && sop.publishedRevisionId
+      ? await storage.getSOPRevision(sop.publishedRevisionId)
+      : undefined;
+    return asPublished(sop, published);
+  }));
+  return versions.filter((sop): sop is SOPDocument => !!sop);
+}
+
+export async function commentsWithAuthors(storage: IStorage, comments: SOPComment[]): Promise<SOPCommentWithAuthor[]> {
+  const authorIds = Array.from(new Set(comments.map(comment => comment.authorId)));
+  const revisionIds = Array.from(new Set(comments.map(comment => comment.revisionId).filter((id): id is string => !!id)));
+  const [authors, revisions] = await Promise.all([
+    Promise.all(authorIds.map(id => storage.getUser(id))),
+    Promise.all(revisionIds.map(id => storage.getSOPRevision(id))),
+  ]);
+  const names = new Map(authors.filter((user): user is User => !!user).map(user => [user.id, user.name]));
+  const versions = new Map(revisions.map((revision, i) => [revisionIds[i], revision?.version ?? null]));
+  return comments.map(comment => ({
+    ...comment,
+    authorName: names.get(comment.authorId) ?? 'Unknown',
+    version: (comment.revisionId && versions.get(comment.revisionId)) || null
+  }));
+}
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { createRequire } from "module";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { pool } from "./db";
+import { DbStorage } from "./db-storage";
+import { MemStorage, storage as configuredStorage, type IStorage } from "./storage";
+import { seedDatabase } from "./seed";
+
+// The ESM build of drizzle-kit/api does not load under tsx
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+/**
+ * Exercises the IStorage contract the routes rely on. Every name it creates is
+ * unique, so it can run against a database that already holds data.
+ */
+async function checkStorage(storage: IStorage): Promise<void> {
+  const run = randomUUID().slice(0, 8);
+
+  // Seeding twice adds nothing the second time
+  await seedDatabase(storage);
+  const seededSops = (await storage.getSOPDocuments()).length;
+  await seedDatabase(storage);
+  assert.equal((await storage.getSOPDocuments()).length, seededSops);
+  assert.ok((await storage.searchSOPs('payment')).length > 0);
+
+  const agent = await storage.createUser({ username: `check-${run}`, password: 'x', name: 'Check Agent', email: `check-${run}@example.com`, role: 'agent' });
+  assert.equal((await storage.getUserByUsername(agent.username))?.id, agent.id);
+  assert.equal((await storage.setUserPresence(agent.id, 'available'))?.presence, 'available');
+  assert.ok((await storage.getOnlineAgents()).some(user => user.id === agent.id));
+  assert.ok((await storage.getPresenceHistory(agent.id, new Date(0), new Date(Date.now() + 60000))).length > 0);
+
+  const customer = await storage.createCustomer({ name: 'Check Customer', email: `customer-${run}@example.com`, customerId: `CUS-${run}` });
+  assert.equal((await storage.getCustomerByEmail(customer.email))?.id, customer.id);
+
+  const chat = await storage.createChatSession({ sessionId: `chat-${run}`, customerId: customer.id, status: 'waiting' });
+  assert.ok((await storage.getWaitingSessions()).some(s => s.id === chat.id));
+  await storage.updateChatSession(chat.id, { agentId: agent.id, status: 'active', assignedAt: new Date() });
+  assert.ok((await storage.getActiveSessions()).some(s => s.id === chat.id));
+  assert.deepEqual((await storage.getSessionsByAgent(agent.id)).map(s => s.id), [chat.id]);
+  assert.equal((await storage.getChatSessionBySessionId(chat.sessionId))?.agentId, agent.id);
+
+  // A retried send returns the message already stored
+  const first = await storage.createMessage({ sessionId: chat.id, senderId: customer.id, senderType: 'customer', content: 'Hello', clientMessageId: `m-${run}` });
+  const retried = await storage.createMessage({ sessionId: chat.id, senderId: customer.id, senderType: 'customer', content: 'Hello', clientMessageId: `m-${run}` });
+  assert.equal(retried.id, first.id);
+  await storage.createMessage({ sessionId: chat.id, senderId: agent.id, senderType: 'agent', content: 'Hi there' });
+  assert.equal((await storage.getMessagesBySession(chat.id)).length, 2);
+  assert.deepEqual((await storage.getRecentMessages(chat.id, 1)).map(m => m.content), ['Hi there']);
+
+  assert.equal(await storage.countUnreadMessages(chat.id, agent.id, 'agent'), 1);
+  const receipt = { readerId: agent.id, readerType: 'agent' as const, readAt: new Date().toISOString() };
+  assert.deepEqual(await storage.markMessagesRead(chat.id, receipt, new Date()), [first.id]);
+  assert.deepEqual(await storage.markMessagesRead(chat.id, receipt, new Date()), []);
+  assert.equal(await storage.countUnreadMessages(chat.id, agent.id, 'agent'), 0);
+
+  const page = await storage.listSessions({ status: ['active'], customerId: customer.id, sort: 'newest' }, { readerId: agent.id, limit: 10 });
+  assert.deepEqual(page.sessions.map(s => s.id), [chat.id]);
+  assert.equal(page.sessions[0].lastMessage?.content, 'Hi there');
+
+  await storage.logSupervision({ sessionId: chat.id, supervisorId: agent.id, mode: 'monitor' });
+  assert.deepEqual((await storage.getSupervisionLog(chat.id)).map(entry => entry.mode), ['monitor']);
+
+  await storage.createInternalNote({ sessionId: chat.id, customerId: customer.id, authorId: agent.id, content: 'Pinned' });
+  assert.equal((await storage.getNotesByCustomer(customer.id)).length, 1);
+
+  // A session is rated once
+  assert.ok(await storage.createSurveyResponse({ sessionId: chat.id, rating: 5 }));
+  assert.equal(await storage.createSurveyResponse({ sessionId: chat.id, rating: 1 }), undefined);
+  assert.equal((await storage.getSurveyResponse(chat.id))?.rating, 5);
+
+  const callback = await storage.createCallback({
+    customerId: customer.id, agentId: agent.id, reason: 'Follow up',
+    windowStart: new Date(Date.now() - 60000), windowEnd: new Date(Date.now() + 3600000),
+  });
+  assert.ok((await storage.getDueCallbacks(new Date())).some(due => due.id === callback.id));
+  await storage.updateCallback(callback.id, { remindedAt: new Date() });
+  assert.ok(!(await storage.getDueCallbacks(new Date())).some(due => due.id === callback.id));
+
+  const ticket = await storage.createOfflineTicket({ customerId: customer.id, message: 'Are you open?' });
+  await storage.createTicketReply({ ticketId: ticket.id, authorId: agent.id, content: 'Yes', emailStatus: 'sent' });
+  assert.equal((await storage.getTicketReplies(ticket.id)).length, 1);
+  assert.ok((await storage.listOfflineTickets('open')).some(open => open.id === ticket.id));
+
+  await storage.setSetting(`check-${run}`, { enabled: true });
+  assert.deepEqual(await storage.getSetting(`check-${run}`), { enabled: true });
+}
+
+// Entry point for `npm run db:check`: MemStorage, then DbStorage against DATABASE_URL
+// (run `npm run db:push` first) or, without one, an in-memory pglite database
+(async () => {
+  await checkStorage(new MemStorage());
+  console.log("MemStorage passed");
+
+  if (pool) {
+    try {
+      await checkStorage(configuredStorage);
+      console.log("DbStorage passed against DATABASE_URL");
+    } finally {
+      await pool.end();
+    }
+    return;
+  }
+
+  const client = new PGlite();
+  try {
+    for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+      await client.exec(statement);
+    }
+    await checkStorage(new DbStorage(drizzle(client, { schema }), new session.MemoryStore()));
+    console.log("DbStorage passed against pglite");
+  } finally {
+    await client.close();
+  }
+})();
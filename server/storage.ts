@@ -3,17 +3,49 @@ import {
   type Customer, type InsertCustomer,
   type ChatSession, type InsertChatSession,
   type Message, type InsertMessage,
-  type SOPDocument, type InsertSOPDocument,
-  type QuickReply, type InsertQuickReply
+  type Attachment, type InsertAttachment,
+  type ReadReceipt,
+  type SOPDocument, type InsertSOPDocument, type SOPRevision, type InsertSOPRevision, type SOPComment, type InsertSOPComment,
+  type QuickReply, type InsertQuickReply,
+  type AppSetting,
+  type AgentStatusHistory, type PresenceState,
+  type SupervisionLogEntry, type InsertSupervisionLogEntry,
+  type InternalNote, type InsertInternalNote,
+  type SurveyResponse, type InsertSurveyResponse,
+  type Callback, type InsertCallback, type CallbackStatus,
+  type OfflineTicket, type InsertOfflineTicket, type TicketReply, type InsertTicketReply, type TicketStatus,
+  type SessionListFilters, type SessionStatus, type SopSearchMatch,
+  isVisibleToCustomer
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { db, pool } from "./db";
+import { DbStorage } from "./db-storage";
+import {
+  compareSessions, matchesSessionSearch, sessionSortKey,
+  type EnrichedSession, type EnrichedSessionPage, type SessionPageRequest
+} from "./session-list";
+import type { SessionActivity, SurveyResult } from "./analytics";
+import { SopSearchIndex, highlight, snippet } from "./sop-search";
+import { asPublished } from "./sop-workflow";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  // Backing store for express-session
+  sessionStore: session.Store;
+
   // User management
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void>;
+  setUserPresence(id: string, presence: PresenceState): Promise<User | undefined>;
+  getPresenceHistory(userId: string, from: Date, to: Date): Promise<AgentStatusHistory[]>;
   getAgentsByRole(role: string): Promise<User[]>;
   getOnlineAgents(): Promise<User[]>;
 
@@ -28,29 +60,88 @@ export interface IStorage {
   getChatSessionBySessionId(sessionId: string): Promise<ChatSession | undefined>;
   createChatSession(session: InsertChatSession): Promise<ChatSession>;
   updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | undefined>;
+  getChatSessions(): Promise<ChatSession[]>;
   getActiveSessions(): Promise<ChatSession[]>;
+  getWaitingSessions(): Promise<ChatSession[]>;
   getSessionsByAgent(agentId: string): Promise<ChatSession[]>;
   getSessionsByCustomer(customerId: string): Promise<ChatSession[]>;
+  // One page of the dashboard's session list, with customer, agent, last message and unread count
+  listSessions(filters: SessionListFilters, page: SessionPageRequest): Promise<EnrichedSessionPage>;
 
   // Message management
   getMessage(id: string): Promise<Message | undefined>;
   getMessagesBySession(sessionId: string): Promise<Message[]>;
+  // Idempotent by (sessionId, clientMessageId): a retried send returns the message already stored
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessageByClientId(sessionId: string, clientMessageId: string): Promise<Message | undefined>;
   getRecentMessages(sessionId: string, limit: number): Promise<Message[]>;
+  // Adds the receipt to every message from the other party sent up to `upTo`; returns the ids newly marked
+  markMessagesRead(sessionId: string, receipt: ReadReceipt, upTo: Date): Promise<string[]>;
+  countUnreadMessages(sessionId: string, readerId: string, readerType: ReadReceipt['readerType']): Promise<number>;
+
+  // Supervision
+  logSupervision(entry: InsertSupervisionLogEntry): Promise<SupervisionLogEntry>;
+  getSupervisionLog(sessionId: string): Promise<SupervisionLogEntry[]>;
+
+  // Internal notes, oldest first
+  createInternalNote(note: InsertInternalNote): Promise<InternalNote>;
+  getNotesBySession(sessionId: string): Promise<InternalNote[]>;
+  // Notes pinned to the customer, from any of their chats
+  getNotesByCustomer(customerId: string): Promise<InternalNote[]>;
+
+  // Post-chat surveys; undefined when the session has already been rated
+  createSurveyResponse(response: InsertSurveyResponse): Promise<SurveyResponse | undefined>;
+  getSurveyResponse(sessionId: string): Promise<SurveyResponse | undefined>;
+  // Responses submitted in [from, to), oldest first
+  listSurveyResults(from: Date, to: Date): Promise<SurveyResult[]>;
+
+  // Callbacks, soonest window first; agentId null lists the unassigned ones
+  createCallback(callback: InsertCallback): Promise<Callback>;
+  getCallback(id: string): Promise<Callback | undefined>;
+  updateCallback(id: string, updates: Partial<Callback>): Promise<Callback | undefined>;
+  listCallbacks(filters: { agentId?: string | null; status?: CallbackStatus }): Promise<Callback[]>;
+  // Scheduled callbacks whose window has opened by `now` and that nobody has been reminded of
+  getDueCallbacks(now: Date): Promise<Callback[]>;
+
+  // Offline tickets, newest first; replies oldest first
+  createOfflineTicket(ticket: InsertOfflineTicket): Promise<OfflineTicket>;
+  getOfflineTicket(id: string): Promise<OfflineTicket | undefined>;
+  updateOfflineTicket(id: string, updates: Partial<OfflineTicket>): Promise<OfflineTicket | undefined>;
+  listOfflineTickets(status?: TicketStatus): Promise<OfflineTicket[]>;
+  createTicketReply(reply: InsertTicketReply): Promise<TicketReply>;
+  getTicketReplies(ticketId: string): Promise<TicketReply[]>;
+
+  // Reporting: chats started in [from, to), oldest first, with their messages and last agent
+  listSessionActivity(from: Date, to: Date): Promise<SessionActivity[]>;
+
+  // Attachments
+  getAttachment(id: string): Promise<Attachment | undefined>;
+  getAttachmentsByMessages(messageIds: string[]): Promise<Attachment[]>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  updateAttachment(id: string, updates: Partial<Attachment>): Promise<Attachment | undefined>;
 
   // SOP management
   getSOPDocument(id: string): Promise<SOPDocument | undefined>;
   getSOPDocuments(): Promise<SOPDocument[]>;
   getSOPByCategory(category: string): Promise<SOPDocument[]>;
-  searchSOPs(keywords: string[]): Promise<SOPDocument[]>;
+  // Every match, best first; `published` searches what agents see instead of the working copies
+  searchSOPs(query: string, options?: { published?: boolean }): Promise<SopSearchMatch[]>;
   createSOPDocument(sop: InsertSOPDocument): Promise<SOPDocument>;
   updateSOPDocument(id: string, updates: Partial<SOPDocument>): Promise<SOPDocument | undefined>;
-  deleteSOPDocument(id: string): Promise<boolean>;
+  createSOPRevision(revision: InsertSOPRevision): Promise<SOPRevision>;
+  getSOPRevision(id: string): Promise<SOPRevision | undefined>;
+  getSOPRevisions(sopId: string): Promise<SOPRevision[]>; // newest first
+  createSOPComment(comment: InsertSOPComment): Promise<SOPComment>;
+  getSOPComments(sopId: string): Promise<SOPComment[]>; // oldest first
 
   // Quick replies
   getQuickReplies(): Promise<QuickReply[]>;
   getQuickRepliesByCategory(category: string): Promise<QuickReply[]>;
   createQuickReply(reply: InsertQuickReply): Promise<QuickReply>;
+
+  // Settings
+  getSetting<T>(key: string): Promise<T | undefined>;
+  setSetting<T>(key: string, value: T): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
@@ -58,187 +149,23 @@ export class MemStorage implements IStorage {
   private customers: Map<string, Customer> = new Map();
   private chatSessions: Map<string, ChatSession> = new Map();
   private messages: Map<string, Message> = new Map();
+  private attachments: Map<string, Attachment> = new Map();
   private sopDocuments: Map<string, SOPDocument> = new Map();
+  private sopRevisions: Map<string, SOPRevision> = new Map();
+  private sopComments: Map<string, SOPComment> = new Map();
+  private sopIndex = new SopSearchIndex();
+  private publishedSopIndex = new SopSearchIndex();
   private quickReplies: Map<string, QuickReply> = new Map();
+  private settings: Map<string, AppSetting> = new Map();
+  private statusHistory: Map<string, AgentStatusHistory> = new Map();
+  private supervisionLog: Map<string, SupervisionLogEntry> = new Map();
+  private internalNotes: Map<string, InternalNote> = new Map();
+  private surveyResponses: Map<string, SurveyResponse> = new Map();
+  private callbacks: Map<string, Callback> = new Map();
+  private offlineTickets: Map<string, OfflineTicket> = new Map();
+  private ticketReplies: Map<string, TicketReply> = new Map();
 
-  constructor() {
-    this.seedData();
-  }
-
-  private seedData() {
-    // Create admin user
-    const admin: User = {
-      id: randomUUID(),
-      username: "admin",
-      password: "admin123",
-      role: "admin",
-      name: "Sarah Chen",
-      email: "sarah.chen@company.com",
-      isOnline: true,
-      createdAt: new Date(),
-    };
-    this.users.set(admin.id, admin);
-
-    // Create team lead
-    const teamLead: User = {
-      id: randomUUID(),
-      username: "teamlead1",
-      password: "password123",
-      role: "team_lead",
-      name: "Jennifer Park",
-      email: "jennifer.park@company.com",
-      isOnline: true,
-      createdAt: new Date(),
-    };
-    this.users.set(teamLead.id, teamLead);
-
-    // Create senior agent
-    const seniorAgent: User = {
-      id: randomUUID(),
-      username: "senior1",
-      password: "password123",
-      role: "senior_agent",
-      name: "David Kim",
-      email: "david.kim@company.com",
-      isOnline: true,
-      createdAt: new Date(),
-    };
-    this.users.set(seniorAgent.id, seniorAgent);
-
-    // Create regular agents
-    const agents = [
-      {
-        id: randomUUID(),
-        username: "agent1",
-        password: "password123",
-        role: "agent",
-        name: "Mike Thompson",
-        email: "mike.thompson@company.com",
-        isOnline: true,
-        createdAt: new Date(),
-      },
-      {
-        id: randomUUID(),
-        username: "agent2",
-        password: "password123",
-        role: "agent",
-        name: "Anna Martinez",
-        email: "anna.martinez@company.com",
-        isOnline: true,
-        createdAt: new Date(),
-      }
-    ];
-    agents.forEach(agent => this.users.set(agent.id, agent));
-
-    // Create sample customers
-    const customers = [
-      {
-        id: randomUUID(),
-        name: "Emma Wilson",
-        email: "emma.wilson@email.com",
-        customerId: "CUS-2024-5678",
-        memberSince: new Date('2023-01-15'),
-        totalOrders: 24,
-        status: "premium",
-      },
-      {
-        id: randomUUID(),
-        name: "Alex Kumar",
-        email: "alex.kumar@email.com",
-        customerId: "CUS-2024-1234",
-        memberSince: new Date('2023-03-20'),
-        totalOrders: 12,
-        status: "regular",
-      }
-    ];
-    customers.forEach(customer => this.customers.set(customer.id, customer));
-
-    // Create sample SOP documents
-    const sopDocs = [
-      {
-        id: randomUUID(),
-        title: "Payment Issue Resolution",
-        category: "Payment & Billing",
-        content: `## When customer reports payment not processed:
-1. Verify customer identity using order number and email
-2. Check payment status in the admin panel
-3. If payment shows "pending", explain 24-48 hour processing time
-4. If payment failed, guide customer to retry payment
-5. For successful payments not reflected, escalate to senior agent
-
-### Quick Response Templates:
-**Payment Processing:** "I can see your payment is being processed. It typically takes 24-48 hours to reflect in our system. You'll receive an email confirmation once it's complete."
-
-**Payment Failed:** "It looks like your payment didn't go through. This can happen due to insufficient funds or card restrictions. Please try again or use an alternative payment method."`,
-        keywords: ["payment", "billing", "transaction", "failed payment", "pending"],
-        version: "2.1",
-        lastUpdated: new Date(),
-        uploadedBy: admin.id,
-      },
-      {
-        id: randomUUID(),
-        title: "Refund Policy Guidelines",
-        category: "Payment & Billing",
-        content: `## Refund Processing Guidelines:
-1. Check order date (must be within 30 days)
-2. Verify item condition requirements
-3. Process refund through admin panel
-4. Send confirmation email to customer
-5. Update order status
-
-### Refund Timeframes:
-- Credit card: 3-5 business days
-- Digital wallet: 1-2 business days
-- Bank transfer: 5-7 business days`,
-        keywords: ["refund", "return", "money back", "cancellation"],
-        version: "1.5",
-        lastUpdated: new Date(),
-        uploadedBy: admin.id,
-      },
-      {
-        id: randomUUID(),
-        title: "Shipping Delay Procedures",
-        category: "Shipping & Returns",
-        content: `## Handling Shipping Delays:
-1. Check tracking information in system
-2. Provide realistic delivery estimates
-3. Offer compensation if delay exceeds 7 days
-4. Update customer with regular communication
-5. Escalate to logistics team if needed`,
-        keywords: ["shipping", "delivery", "delay", "tracking", "logistics"],
-        version: "1.0",
-        lastUpdated: new Date(),
-        uploadedBy: teamLead.id,
-      }
-    ];
-    sopDocs.forEach(sop => this.sopDocuments.set(sop.id, sop));
-
-    // Create quick replies
-    const replies = [
-      {
-        id: randomUUID(),
-        title: "Welcome Message",
-        content: "Hello! Thank you for contacting our support team. How can I assist you today?",
-        category: "greetings",
-        createdBy: admin.id,
-      },
-      {
-        id: randomUUID(),
-        title: "Order Status Check",
-        content: "I'll be happy to check your order status. Could you please provide your order number?",
-        category: "orders",
-        createdBy: admin.id,
-      },
-      {
-        id: randomUUID(),
-        title: "Escalation Notice",
-        content: "I'm transferring your chat to a senior agent who can better assist you with this issue. Please hold on for a moment.",
-        category: "escalation",
-        createdBy: admin.id,
-      }
-    ];
-    replies.forEach(reply => this.quickReplies.set(reply.id, reply));
-  }
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 86400000 });
 
   // User methods
   async getUser(id: string): Promise<User | undefined> {
@@ -255,6 +182,11 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       role: insertUser.role || 'agent',
+      presence: 'offline',
+      presenceUpdatedAt: null,
+      skills: insertUser.skills || [],
+      maxConcurrentChats: insertUser.maxConcurrentChats ?? 3,
+      team: insertUser.team ?? null,
       isOnline: false,
       createdAt: new Date()
     };
@@ -262,6 +194,16 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (user) {
+      const updated = { ...user, ...updates, id };
+      this.users.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
   async updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void> {
     const user = this.users.get(id);
     if (user) {
@@ -270,6 +212,32 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async setUserPresence(id: string, presence: PresenceState): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const now = new Date();
+    Array.from(this.statusHistory.values())
+      .filter(entry => entry.userId === id && !entry.endedAt)
+      .forEach(entry => { entry.endedAt = now; });
+    const entryId = randomUUID();
+    this.statusHistory.set(entryId, { id: entryId, userId: id, status: presence, startedAt: now, endedAt: null });
+
+    const updated = { ...user, presence, presenceUpdatedAt: now, isOnline: presence !== 'offline' };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getPresenceHistory(userId: string, from: Date, to: Date): Promise<AgentStatusHistory[]> {
+    return Array.from(this.statusHistory.values())
+      .filter(entry =>
+        entry.userId === userId &&
+        entry.startedAt < to &&
+        (!entry.endedAt || entry.endedAt > from)
+      )
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
   async getAgentsByRole(role: string): Promise<User[]> {
     return Array.from(this.users.values()).filter(user => user.role === role);
   }
@@ -330,10 +298,19 @@ export class MemStorage implements IStorage {
       customerId: insertSession.customerId || null,
       agentId: insertSession.agentId || null,
       status: insertSession.status || "active",
+      topic: insertSession.topic || null,
       startTime: new Date(),
+      assignedAt: insertSession.agentId ? new Date() : null,
       endTime: null,
       transferHistory: [],
-      rating: null
+      rating: null,
+      tags: [],
+      disposition: null,
+      wrapUpNotes: null,
+      slaMetric: null,
+      slaDueAt: null,
+      slaBreaches: [],
+      escalationLevel: null
     };
     this.chatSessions.set(id, session);
     return session;
@@ -349,12 +326,23 @@ export class MemStorage implements IStorage {
     return undefined;
   }
 
+  async getChatSessions(): Promise<ChatSession[]> {
+    return Array.from(this.chatSessions.values())
+      .sort((a, b) => (b.startTime?.getTime() || 0) - (a.startTime?.getTime() || 0));
+  }
+
   async getActiveSessions(): Promise<ChatSession[]> {
     return Array.from(this.chatSessions.values()).filter(session => 
       session.status === "active" || session.status === "waiting"
     );
   }
 
+  async getWaitingSessions(): Promise<ChatSession[]> {
+    return Array.from(this.chatSessions.values())
+      .filter(session => session.status === "waiting")
+      .sort((a, b) => (a.startTime?.getTime() || 0) - (b.startTime?.getTime() || 0));
+  }
+
   async getSessionsByAgent(agentId: string): Promise<ChatSession[]> {
     return Array.from(this.chatSessions.values()).filter(session => session.agentId === agentId);
   }
@@ -363,6 +351,42 @@ export class MemStorage implements IStorage {
     return Array.from(this.chatSessions.values()).filter(session => session.customerId === customerId);
   }
 
+  async listSessions(filters: SessionListFilters, page: SessionPageRequest): Promise<EnrichedSessionPage> {
+    const candidates = Array.from(this.chatSessions.values()).filter(session =>
+      (!filters.status || filters.status.includes(session.status as SessionStatus)) &&
+      (!filters.agentId || session.agentId === filters.agentId) &&
+      (!filters.customerId || session.customerId === filters.customerId) &&
+      (!filters.tag || (session.tags ?? []).includes(filters.tag)) &&
+      (!filters.disposition || session.disposition === filters.disposition)
+    );
+
+    const enriched: EnrichedSession[] = await Promise.all(candidates.map(async (session) => ({
+      ...session,
+      customer: (session.customerId && this.customers.get(session.customerId)) || null,
+      agent: (session.agentId && this.users.get(session.agentId)) || null,
+      lastMessage: (await this.getRecentMessages(session.id, 1))[0] ?? null,
+      unreadCount: await this.countUnreadMessages(session.id, page.readerId, 'agent')
+    })));
+
+    const cursorOf = (session: EnrichedSession) => ({
+      sortKey: sessionSortKey(session, session.lastMessage, filters.sort),
+      id: session.id
+    });
+    const matching = enriched
+      .filter(session =>
+        (!filters.role || session.agent?.role === filters.role) &&
+        (!filters.search || matchesSessionSearch(session.customer, session.lastMessage, filters.search)) &&
+        (!page.after || compareSessions(cursorOf(session), page.after, filters.sort) > 0)
+      )
+      .sort((a, b) => compareSessions(cursorOf(a), cursorOf(b), filters.sort));
+
+    const sessions = matching.slice(0, page.limit);
+    return {
+      sessions,
+      next: matching.length > page.limit ? cursorOf(sessions[sessions.length - 1]) : null
+    };
+  }
+
   // Message methods
   async getMessage(id: string): Promise<Message | undefined> {
     return this.messages.get(id);
@@ -375,6 +399,12 @@ export class MemStorage implements IStorage {
   }
 
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    // Looked up without awaiting, so two concurrent sends cannot both insert
+    const existing = insertMessage.clientMessageId && Array.from(this.messages.values()).find(message =>
+      message.sessionId === insertMessage.sessionId && message.clientMessageId === insertMessage.clientMessageId
+    );
+    if (existing) return existing;
+
     const id = randomUUID();
     const message: Message = {
       ...insertMessage,
@@ -382,6 +412,9 @@ export class MemStorage implements IStorage {
       sessionId: insertMessage.sessionId || null,
       senderId: insertMessage.senderId || null,
       messageType: insertMessage.messageType || "text",
+      clientMessageId: insertMessage.clientMessageId || null,
+      visibility: insertMessage.visibility || 'public',
+      sopCitation: insertMessage.sopCitation || null,
       timestamp: new Date(),
       readBy: []
     };
@@ -389,11 +422,266 @@ export class MemStorage implements IStorage {
     return message;
   }
 
+  async getMessageByClientId(sessionId: string, clientMessageId: string): Promise<Message | undefined> {
+    return Array.from(this.messages.values()).find(message =>
+      message.sessionId === sessionId && message.clientMessageId === clientMessageId
+    );
+  }
+
   async getRecentMessages(sessionId: string, limit: number): Promise<Message[]> {
     const messages = await this.getMessagesBySession(sessionId);
     return messages.slice(-limit);
   }
 
+  async markMessagesRead(sessionId: string, receipt: ReadReceipt, upTo: Date): Promise<string[]> {
+    const messages = await this.getMessagesBySession(sessionId);
+    const marked: string[] = [];
+
+    messages.forEach(message => {
+      const readBy = message.readBy ?? [];
+      if (
+        message.senderType !== receipt.readerType &&
+        message.senderType !== 'system' &&
+        (receipt.readerType !== 'customer' || isVisibleToCustomer(message)) &&
+        (message.timestamp?.getTime() || 0) <= upTo.getTime() &&
+        !readBy.some(r => r.readerId === receipt.readerId)
+      ) {
+        this.messages.set(message.id, { ...message, readBy: [...readBy, receipt] });
+        marked.push(message.id);
+      }
+    });
+    return marked;
+  }
+
+  async countUnreadMessages(sessionId: string, readerId: string, readerType: ReadReceipt['readerType']): Promise<number> {
+    const messages = await this.getMessagesBySession(sessionId);
+    return messages.filter(message =>
+      message.senderType !== readerType &&
+      message.senderType !== 'system' &&
+      (readerType !== 'customer' || isVisibleToCustomer(message)) &&
+      !(message.readBy ?? []).some(r => r.readerId === readerId)
+    ).length;
+  }
+
+  // Supervision methods
+  async logSupervision(entry: InsertSupervisionLogEntry): Promise<SupervisionLogEntry> {
+    const id = randomUUID();
+    const logged: SupervisionLogEntry = { ...entry, id, createdAt: new Date() };
+    this.supervisionLog.set(id, logged);
+    return logged;
+  }
+
+  async getSupervisionLog(sessionId: string): Promise<SupervisionLogEntry[]> {
+    return Array.from(this.supervisionLog.values())
+      .filter(entry => entry.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Internal note methods
+  async createInternalNote(note: InsertInternalNote): Promise<InternalNote> {
+    const id = randomUUID();
+    const created: InternalNote = {
+      ...note,
+      id,
+      customerId: note.customerId ?? null,
+      mentions: note.mentions ?? [],
+      createdAt: new Date()
+    };
+    this.internalNotes.set(id, created);
+    return created;
+  }
+
+  async getNotesBySession(sessionId: string): Promise<InternalNote[]> {
+    return Array.from(this.internalNotes.values())
+      .filter(note => note.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getNotesByCustomer(customerId: string): Promise<InternalNote[]> {
+    return Array.from(this.internalNotes.values())
+      .filter(note => note.customerId === customerId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Survey methods
+  async createSurveyResponse(response: InsertSurveyResponse): Promise<SurveyResponse | undefined> {
+    // Checked and stored without awaiting in between, so a double submit cannot store two
+    if (Array.from(this.surveyResponses.values()).some(r => r.sessionId === response.sessionId)) {
+      return undefined;
+    }
+    const id = randomUUID();
+    const created: SurveyResponse = {
+      ...response,
+      id,
+      comment: response.comment ?? null,
+      answers: response.answers ?? {},
+      createdAt: new Date()
+    };
+    this.surveyResponses.set(id, created);
+    return created;
+  }
+
+  async getSurveyResponse(sessionId: string): Promise<SurveyResponse | undefined> {
+    return Array.from(this.surveyResponses.values()).find(r => r.sessionId === sessionId);
+  }
+
+  async listSurveyResults(from: Date, to: Date): Promise<SurveyResult[]> {
+    return Array.from(this.surveyResponses.values())
+      .filter(r => r.createdAt >= from && r.createdAt < to)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .flatMap((response) => {
+        const session = this.chatSessions.get(response.sessionId);
+        if (!session) return [];
+        const agent = session.agentId ? this.users.get(session.agentId) ?? null : null;
+        return [{ response, session, agent }];
+      });
+  }
+
+  // Callback methods
+  async createCallback(callback: InsertCallback): Promise<Callback> {
+    const id = randomUUID();
+    const created: Callback = {
+      ...callback,
+      id,
+      sessionId: callback.sessionId ?? null,
+      agentId: callback.agentId ?? null,
+      createdBy: callback.createdBy ?? null,
+      phone: callback.phone ?? null,
+      email: callback.email ?? null,
+      status: callback.status ?? 'scheduled',
+      notes: callback.notes ?? null,
+      remindedAt: callback.remindedAt ?? null,
+      completedAt: callback.completedAt ?? null,
+      createdAt: new Date()
+    };
+    this.callbacks.set(id, created);
+    return created;
+  }
+
+  async getCallback(id: string): Promise<Callback | undefined> {
+    return this.callbacks.get(id);
+  }
+
+  async updateCallback(id: string, updates: Partial<Callback>): Promise<Callback | undefined> {
+    const callback = this.callbacks.get(id);
+    if (!callback) return undefined;
+    const updated = { ...callback, ...updates };
+    this.callbacks.set(id, updated);
+    return updated;
+  }
+
+  async listCallbacks(filters: { agentId?: string | null; status?: CallbackStatus }): Promise<Callback[]> {
+    return Array.from(this.callbacks.values())
+      .filter(callback => filters.agentId === undefined || callback.agentId === filters.agentId)
+      .filter(callback => !filters.status || callback.status === filters.status)
+      .sort((a, b) => a.windowStart.getTime() - b.windowStart.getTime());
+  }
+
+  async getDueCallbacks(now: Date): Promise<Callback[]> {
+    return Array.from(this.callbacks.values())
+      .filter(callback => callback.status === 'scheduled' && !callback.remindedAt && callback.windowStart <= now)
+      .sort((a, b) => a.windowStart.getTime() - b.windowStart.getTime());
+  }
+
+  // Offline ticket methods
+  async createOfflineTicket(ticket: InsertOfflineTicket): Promise<OfflineTicket> {
+    const id = randomUUID();
+    const created: OfflineTicket = {
+      ...ticket,
+      id,
+      topic: ticket.topic ?? null,
+      status: ticket.status ?? 'open',
+      lastReplyAt: ticket.lastReplyAt ?? null,
+      createdAt: new Date()
+    };
+    this.offlineTickets.set(id, created);
+    return created;
+  }
+
+  async getOfflineTicket(id: string): Promise<OfflineTicket | undefined> {
+    return this.offlineTickets.get(id);
+  }
+
+  async updateOfflineTicket(id: string, updates: Partial<OfflineTicket>): Promise<OfflineTicket | undefined> {
+    const ticket = this.offlineTickets.get(id);
+    if (!ticket) return undefined;
+    const updated = { ...ticket, ...updates };
+    this.offlineTickets.set(id, updated);
+    return updated;
+  }
+
+  async listOfflineTickets(status?: TicketStatus): Promise<OfflineTicket[]> {
+    return Array.from(this.offlineTickets.values())
+      .filter(ticket => !status || ticket.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createTicketReply(reply: InsertTicketReply): Promise<TicketReply> {
+    const id = randomUUID();
+    const created: TicketReply = {
+      ...reply,
+      id,
+      emailError: reply.emailError ?? null,
+      createdAt: new Date()
+    };
+    this.ticketReplies.set(id, created);
+    return created;
+  }
+
+  async getTicketReplies(ticketId: string): Promise<TicketReply[]> {
+    return Array.from(this.ticketReplies.values())
+      .filter(reply => reply.ticketId === ticketId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Reporting methods
+  async listSessionActivity(from: Date, to: Date): Promise<SessionActivity[]> {
+    const sessions = Array.from(this.chatSessions.values())
+      .filter(session => session.startTime && session.startTime >= from && session.startTime < to)
+      .sort((a, b) => a.startTime!.getTime() - b.startTime!.getTime());
+    return Promise.all(sessions.map(async session => ({
+      session,
+      agent: session.agentId ? this.users.get(session.agentId) ?? null : null,
+      messages: await this.getMessagesBySession(session.id)
+    })));
+  }
+
+  // Attachment methods
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+
+  async getAttachmentsByMessages(messageIds: string[]): Promise<Attachment[]> {
+    return Array.from(this.attachments.values())
+      .filter(attachment => attachment.messageId && messageIds.includes(attachment.messageId));
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const id = randomUUID();
+    const attachment: Attachment = {
+      ...insertAttachment,
+      id,
+      messageId: insertAttachment.messageId || null,
+      uploadedBy: insertAttachment.uploadedBy || null,
+      thumbnailKey: insertAttachment.thumbnailKey || null,
+      width: insertAttachment.width ?? null,
+      height: insertAttachment.height ?? null,
+      createdAt: new Date()
+    };
+    this.attachments.set(id, attachment);
+    return attachment;
+  }
+
+  async updateAttachment(id: string, updates: Partial<Attachment>): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(id);
+    if (attachment) {
+      const updated = { ...attachment, ...updates, id };
+      this.attachments.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
   // SOP methods
   async getSOPDocument(id: string): Promise<SOPDocument | undefined> {
     return this.sopDocuments.get(id);
@@ -407,14 +695,24 @@ export class MemStorage implements IStorage {
     return Array.from(this.sopDocuments.values()).filter(sop => sop.category === category);
   }
 
-  async searchSOPs(keywords: string[]): Promise<SOPDocument[]> {
-    return Array.from(this.sopDocuments.values()).filter(sop => 
-      keywords.some(keyword => 
-        sop.title.toLowerCase().includes(keyword.toLowerCase()) ||
-        sop.content.toLowerCase().includes(keyword.toLowerCase()) ||
-        sop.keywords?.some(k => k.toLowerCase().includes(keyword.toLowerCase()))
-      )
-    );
+  async searchSOPs(query: string, options: { published?: boolean } = {}): Promise<SopSearchMatch[]> {
+    const index = options.published ? this.publishedSopIndex : this.sopIndex;
+    return index.search(query).map(({ id, score, terms }) => {
+      const sop = options.published ? this.publishedSOP(this.sopDocuments.get(id)!)! : this.sopDocuments.get(id)!;
+      return { sop, score, title: highlight(sop.title, terms), snippet: snippet(sop.content, terms) };
+    });
+  }
+
+  private publishedSOP(sop: SOPDocument): SOPDocument | null {
+    return asPublished(sop, sop.publishedRevisionId ? this.sopRevisions.get(sop.publishedRevisionId) : undefined);
+  }
+
+  private indexSOP(sop: SOPDocument) {
+    const fields = (document: SOPDocument) => ({ title: document.title, keywords: document.keywords ?? [], content: document.content });
+    this.sopIndex.set(sop.id, fields(sop));
+    const published = this.publishedSOP(sop);
+    if (published) this.publishedSopIndex.set(sop.id, fields(published));
+    else this.publishedSopIndex.delete(sop.id);
   }
 
   async createSOPDocument(insertSOP: InsertSOPDocument): Promise<SOPDocument> {
@@ -425,9 +723,13 @@ export class MemStorage implements IStorage {
       keywords: insertSOP.keywords || null,
       uploadedBy: insertSOP.uploadedBy || null,
       version: insertSOP.version || "1.0",
-      lastUpdated: new Date()
+      lastUpdated: new Date(),
+      status: insertSOP.status || "published",
+      publishedRevisionId: null,
+      archivedAt: null
     };
     this.sopDocuments.set(id, sop);
+    this.indexSOP(sop);
     return sop;
   }
 
@@ -436,13 +738,55 @@ export class MemStorage implements IStorage {
     if (sop) {
       const updated = { ...sop, ...updates, lastUpdated: new Date() };
       this.sopDocuments.set(id, updated);
+      this.indexSOP(updated);
       return updated;
     }
     return undefined;
   }
 
-  async deleteSOPDocument(id: string): Promise<boolean> {
-    return this.sopDocuments.delete(id);
+  async createSOPRevision(insertRevision: InsertSOPRevision): Promise<SOPRevision> {
+    const id = randomUUID();
+    const revision: SOPRevision = {
+      ...insertRevision,
+      id,
+      keywords: insertRevision.keywords || null,
+      changeNote: insertRevision.changeNote || null,
+      authorId: insertRevision.authorId || null,
+      createdAt: new Date()
+    };
+    this.sopRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getSOPRevision(id: string): Promise<SOPRevision | undefined> {
+    return this.sopRevisions.get(id);
+  }
+
+  async getSOPRevisions(sopId: string): Promise<SOPRevision[]> {
+    // Insertion order breaks ties between revisions saved in the same millisecond
+    return Array.from(this.sopRevisions.values())
+      .filter(revision => revision.sopId === sopId)
+      .reverse()
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async createSOPComment(insertComment: InsertSOPComment): Promise<SOPComment> {
+    const id = randomUUID();
+    const comment: SOPComment = {
+      ...insertComment,
+      id,
+      revisionId: insertComment.revisionId || null,
+      action: insertComment.action || null,
+      createdAt: new Date()
+    };
+    this.sopComments.set(id, comment);
+    return comment;
+  }
+
+  async getSOPComments(sopId: string): Promise<SOPComment[]> {
+    return Array.from(this.sopComments.values())
+      .filter(comment => comment.sopId === sopId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
   // Quick reply methods
@@ -465,6 +809,18 @@ export class MemStorage implements IStorage {
     this.quickReplies.set(id, reply);
     return reply;
   }
+
+  // Settings methods
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    return this.settings.get(key)?.value as T | undefined;
+  }
+
+  async setSetting<T>(key: string, value: T): Promise<void> {
+    this.settings.set(key, { key, value, updatedAt: new Date() });
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = db && pool
+  ? new DbStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }))
+  : new MemStorage();
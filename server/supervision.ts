@@ -0,0 +1,12 @@
+import type { ChatSession, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+/**
+ * Whether a member of staff may post what the customer sees in a chat, over the
+ * WebSocket or as an upload: the assigned agent, or a supervisor who has barged in.
+ */
+export async function canMessageCustomer(storage: IStorage, user: Pick<User, 'id'>, session: ChatSession): Promise<boolean> {
+  if (session.agentId === user.id) return true;
+  const log = await storage.getSupervisionLog(session.id);
+  return log.some(entry => entry.supervisorId === user.id && entry.mode === 'barge_in');
+}
@@ -0,0 +1,47 @@
+import type { SurveyAnswers, SurveyConfig } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const SURVEY_SETTINGS_KEY = "survey";
+
+export const defaultSurveyConfig: SurveyConfig = {
+  enabled: true,
+  scale: 'stars',
+  allowComment: true,
+  questions: [],
+};
+
+export class InvalidSurveyError extends Error {}
+
+export async function getSurveyConfig(storage: IStorage): Promise<SurveyConfig> {
+  const stored = await storage.getSetting<Partial<SurveyConfig>>(SURVEY_SETTINGS_KEY);
+  return { ...defaultSurveyConfig, ...stored };
+}
+
+export async function setSurveyConfig(storage: IStorage, config: SurveyConfig): Promise<SurveyConfig> {
+  await storage.setSetting(SURVEY_SETTINGS_KEY, config);
+  return config;
+}
+
+/**
+ * Checks a submitted survey against the configured scale and questions. Throws
+ * InvalidSurveyError for a rating the scale cannot produce, unknown questions
+ * or answers of the wrong type.
+ */
+export function validateSurvey(config: SurveyConfig, rating: number, answers: SurveyAnswers): void {
+  if (config.scale === 'thumbs' && rating !== 1 && rating !== 5) {
+    throw new InvalidSurveyError('A thumbs rating must be 1 (down) or 5 (up)');
+  }
+
+  Object.entries(answers).forEach(([id, value]) => {
+    const question = config.questions.find(q => q.id === id);
+    if (!question) {
+      throw new InvalidSurveyError(`Unknown question: ${id}`);
+    }
+    const valid = question.type === 'rating'
+      ? typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5
+      : question.type === 'yes_no' ? typeof value === 'boolean' : typeof value === 'string';
+    if (!valid) {
+      throw new InvalidSurveyError(`Invalid answer to "${question.label}"`);
+    }
+  });
+}
@@ -0,0 +1,74 @@
+import {
+  chatTopics,
+  type Customer, type OfflineTicket, type OfflineTicketWithCustomer, type TicketReplyWithAuthor, type User
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MailTransport } from "./mail";
+
+export async function withCustomers(storage: IStorage, tickets: OfflineTicket[]): Promise<OfflineTicketWithCustomer[]> {
+  const customerIds = Array.from(new Set(tickets.map(ticket => ticket.customerId)));
+  const customers = await Promise.all(customerIds.map(id => storage.getCustomer(id)));
+  const byId = new Map(customers.filter((c): c is Customer => !!c).map(c => [c.id, c]));
+  return tickets.map(ticket => ({
+    ...ticket,
+    customerName: byId.get(ticket.customerId)?.name ?? 'Unknown',
+    customerEmail: byId.get(ticket.customerId)?.email ?? ''
+  }));
+}
+
+export async function repliesWithAuthors(storage: IStorage, ticketId: string): Promise<TicketReplyWithAuthor[]> {
+  const replies = await storage.getTicketReplies(ticketId);
+  const authorIds = Array.from(new Set(replies.map(reply => reply.authorId)));
+  const authors = await Promise.all(authorIds.map(id => storage.getUser(id)));
+  const names = new Map(authors.filter((user): user is User => !!user).map(user => [user.id, user.name]));
+  return replies.map(reply => ({ ...reply, authorName: names.get(reply.authorId) ?? 'Unknown' }));
+}
+
+function replyEmail(ticket: OfflineTicketWithCustomer, author: User, content: string) {
+  const topic = chatTopics.find(t => t.id === ticket.topic)?.label;
+  const quoted = ticket.message.split('\n').map(line => `> ${line}`).join('\n');
+  return {
+    to: ticket.customerEmail,
+    subject: `Re: ${topic ?? 'Your message to customer support'}`,
+    text: `Hi ${ticket.customerName},\n\n${content}\n\n${author.name}\nCustomer Support\n\n` +
+      `On ${ticket.createdAt.toUTCString()} you wrote:\n${quoted}\n`
+  };
+}
+
+/**
+ * Emails `content` to the customer who left the ticket and records the reply.
+ * The reply is kept even when the email cannot be sent, with the error, so
+ * the agent can see it failed; only a delivered reply marks the ticket replied.
+ */
+export async function replyToTicket(
+  storage: IStorage,
+  mail: MailTransport,
+  ticket: OfflineTicket,
+  author: User,
+  content: string,
+): Promise<TicketReplyWithAuthor> {
+  const [detailed] = await withCustomers(storage, [ticket]);
+
+  let emailError: string | null = null;
+  try {
+    await mail.send(replyEmail(detailed, author, content));
+  } catch (error) {
+    console.error('Ticket reply email error:', error);
+    emailError = error instanceof Error ? error.message : String(error);
+  }
+
+  const reply = await storage.createTicketReply({
+    ticketId: ticket.id,
+    authorId: author.id,
+    content,
+    emailStatus: emailError ? 'failed' : 'sent',
+    emailError
+  });
+  if (!emailError) {
+    await storage.updateOfflineTicket(ticket.id, {
+      lastReplyAt: reply.createdAt,
+      ...(ticket.status === 'open' && { status: 'replied' })
+    });
+  }
+  return { ...reply, authorName: author.name };
+}
@@ -0,0 +1,54 @@
+import type { ChatSession, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ChatHub } from "./websocket";
+import { chatEvents } from "./events";
+
+export class TransferError extends Error {}
+
+/**
+ * Hands a chat to another agent, as asked for over REST or the WebSocket.
+ * Callers check that whoever asks may transfer it (see canManageChat).
+ */
+export async function transferChat(
+  storage: IStorage,
+  hub: ChatHub,
+  session: ChatSession,
+  newAgent: User,
+  reason?: string,
+): Promise<ChatSession> {
+  if (session.status === 'resolved' || session.status === 'terminated') {
+    throw new TransferError('Chat session has ended');
+  }
+  if (newAgent.presence === 'offline' || newAgent.presence === 'in_break') {
+    throw new TransferError('Agent is not accepting transfers');
+  }
+
+  const transferHistory = Array.isArray(session.transferHistory) ? session.transferHistory : [];
+  const updated = await storage.updateChatSession(session.id, {
+    agentId: newAgent.id,
+    // A queued chat handed to someone directly is assigned now; other statuses stay as they are
+    ...(session.status === 'waiting' && { status: 'active', assignedAt: new Date() }),
+    transferHistory: [...transferHistory, { fromAgent: session.agentId, toAgent: newAgent.id, timestamp: new Date(), reason }]
+  });
+  if (!updated) {
+    throw new TransferError('Chat session has ended');
+  }
+  chatEvents.emit('session:transferred', updated);
+
+  const systemMessage = await storage.createMessage({
+    sessionId: session.id,
+    senderId: 'system',
+    senderType: 'system',
+    content: `Chat transferred to ${newAgent.name} (${newAgent.role.replace('_', ' ')})`,
+    messageType: 'system'
+  });
+  chatEvents.emit('message:created', systemMessage);
+
+  hub.broadcastToSession(session.sessionId, { type: 'chat_message', sessionId: session.sessionId, data: systemMessage });
+  hub.broadcastToSession(session.sessionId, {
+    type: 'session_transfer',
+    sessionId: session.sessionId,
+    data: { newAgentId: newAgent.id, reason }
+  });
+  return updated;
+}
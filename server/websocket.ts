@@ -0,0 +1,459 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { verifyCustomerToken } from "./auth";
+import { chatEvents } from "./events";
+import { customerReader, recordRead } from "./read-receipts";
+import { withAttachments } from "./attachments";
+import { resolveWrapUp, InvalidWrapUpError } from "./wrap-up";
+import { citeSop } from "./sop-revisions";
+import { TransferError, transferChat } from "./transfers";
+import { canMessageCustomer } from "./supervision";
+import { canManageChat, isVisibleToCustomer, presenceStates, roleRank, wrapUpSchema, type PresenceState, type User, type UserRole, type WSMessage } from "@shared/schema";
+
+type ClientIdentity =
+  | { kind: 'agent'; user: User }
+  | { kind: 'customer'; sessionId: string; customerId: string | null };
+
+// How a socket takes part in the session it joined. Supervisors may join as silent
+// monitors (seen only by staff) and later barge in as a visible participant.
+type JoinMode = 'participant' | 'monitor' | 'barge_in';
+
+interface ConnectedClient {
+  ws: WebSocket;
+  identity: ClientIdentity;
+  userId?: string;
+  userType: 'customer' | 'agent';
+  sessionId?: string;
+  joinMode?: JoinMode;
+}
+
+// Which frames each identity may send; anything else is answered with an error frame
+const allowedMessageTypes: Record<ClientIdentity['kind'], WSMessage['type'][]> = {
+  customer: ['join_session', 'leave_session', 'chat_message', 'customer_typing', 'message_read'],
+  agent: ['join_session', 'leave_session', 'chat_message', 'agent_typing', 'message_read', 'session_transfer', 'session_ended', 'heartbeat', 'set_status', 'whisper', 'barge_in'],
+};
+
+function isSupervisor(identity: ClientIdentity): identity is Extract<ClientIdentity, { kind: 'agent' }> {
+  return identity.kind === 'agent' && roleRank(identity.user.role) >= roleRank('team_lead');
+}
+
+interface BroadcastOptions {
+  excludeClientId?: string;
+  // Leave out the customer, e.g. for whispers and silent monitors coming and going
+  staffOnly?: boolean;
+}
+
+// Agents may pick these themselves; "offline" only follows from logging out or disconnecting
+const selectablePresence: PresenceState[] = presenceStates.filter(state => state !== 'offline');
+
+export interface ChatHub {
+  broadcastToSession(sessionId: string, message: WSMessage, options?: BroadcastOptions): void;
+  sendToUser(userId: string, message: WSMessage): void;
+  broadcastToStaff(message: WSMessage, minimumRole?: UserRole): void;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Work out who is opening the socket: staff via their HTTP session cookie,
+ * customers via the signed token from `POST /api/chat/start` (`/ws?token=...`).
+ */
+async function authenticateUpgrade(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<ClientIdentity | null> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const token = url.searchParams.get('token');
+
+  if (token) {
+    const sessionId = verifyCustomerToken(token);
+    if (!sessionId) return null;
+    const session = await storage.getChatSessionBySessionId(sessionId);
+    return session ? { kind: 'customer', sessionId, customerId: session.customerId } : null;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware(req as Request, {} as Response, (error?: unknown) => error ? reject(error) : resolve());
+  });
+
+  const userId = (req as Request).session?.passport?.user;
+  if (!userId) return null;
+  const user = await storage.getUser(userId);
+  return user ? { kind: 'agent', user } : null;
+}
+
+export function setupWebSocket(httpServer: Server, sessionMiddleware: RequestHandler): ChatHub {
+  const wss = new WebSocketServer({ noServer: true });
+  const connectedClients = new Map<string, ConnectedClient>();
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    // Other upgrade requests (e.g. Vite HMR in development) are handled elsewhere
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/ws') return;
+
+    try {
+      const identity = await authenticateUpgrade(req, sessionMiddleware);
+      if (!identity) {
+        return rejectUpgrade(socket, 401, 'Unauthorized');
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, identity));
+    } catch (error) {
+      console.error('WebSocket upgrade error:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+  });
+
+  function sendError(client: ConnectedClient, code: string, message: string, rejected?: WSMessage) {
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+    client.ws.send(JSON.stringify({
+      type: 'error',
+      sessionId: rejected?.sessionId,
+      // Lets the sender's outbox mark that exact message as failed
+      data: { code, message, rejectedType: rejected?.type, clientMessageId: rejected?.data?.clientMessageId }
+    } satisfies WSMessage));
+  }
+
+  const hub: ChatHub = { broadcastToSession, sendToUser, broadcastToStaff };
+
+  function handleConnection(ws: WebSocket, identity: ClientIdentity) {
+    const clientId = randomUUID();
+    const client: ConnectedClient = identity.kind === 'agent'
+      ? { ws, identity, userId: identity.user.id, userType: 'agent' }
+      : { ws, identity, userId: identity.customerId ?? undefined, userType: 'customer' };
+    connectedClients.set(clientId, client);
+    if (identity.kind === 'agent') {
+      chatEvents.emit('agent:connected', identity.user.id);
+    }
+
+    ws.on('message', async (data) => {
+      let message: WSMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return sendError(client, 'bad_request', 'Malformed message');
+      }
+
+      try {
+        if (!allowedMessageTypes[identity.kind].includes(message.type)) {
+          return sendError(client, 'forbidden', `${identity.kind} clients may not send ${message.type}`, message);
+        }
+
+        // Presence frames concern the agent, not a chat, so they need no joined session
+        if (message.type === 'heartbeat') {
+          chatEvents.emit('agent:heartbeat', client.userId!, message.data?.active !== false);
+          return;
+        }
+
+        if (message.type === 'set_status') {
+          const status = message.data?.status;
+          if (!selectablePresence.includes(status)) {
+            return sendError(client, 'bad_request', `status must be one of ${selectablePresence.join(', ')}`, message);
+          }
+          chatEvents.emit('agent:status_requested', client.userId!, status);
+          return;
+        }
+
+        if (message.type === 'join_session') {
+          if (!message.sessionId) {
+            return sendError(client, 'bad_request', 'sessionId is required', message);
+          }
+          if (identity.kind === 'customer' && identity.sessionId !== message.sessionId) {
+            return sendError(client, 'forbidden', 'Token is not valid for this session', message);
+          }
+          const joinMode: JoinMode = message.data?.mode === 'monitor' || message.data?.mode === 'barge_in'
+            ? message.data.mode
+            : 'participant';
+          if (joinMode !== 'participant' && !isSupervisor(identity)) {
+            return sendError(client, 'forbidden', 'Only supervisors may monitor or barge into chats', message);
+          }
+
+          client.sessionId = message.sessionId;
+          client.joinMode = joinMode;
+
+          // Broadcast user joined
+          broadcastToSession(message.sessionId, {
+            type: 'agent_status',
+            data: { status: 'joined', userId: client.userId, userType: client.userType, mode: joinMode }
+          }, { staffOnly: joinMode === 'monitor' });
+
+          const session = await storage.getChatSessionBySessionId(message.sessionId);
+          if (session && identity.kind === 'customer') {
+            chatEvents.emit('customer:joined', session);
+          }
+          if (session && joinMode !== 'participant') {
+            await storage.logSupervision({ sessionId: session.id, supervisorId: client.userId!, mode: joinMode });
+          }
+
+          // A reconnecting client says what it last saw and gets everything it missed in one frame
+          const afterMessageId = message.data?.afterMessageId;
+          if (session && typeof afterMessageId === 'string') {
+            const messages = await storage.getMessagesBySession(session.id);
+            const seenIndex = messages.findIndex(m => m.id === afterMessageId);
+            const missed = messages.slice(seenIndex + 1)
+              .filter(m => identity.kind === 'agent' || isVisibleToCustomer(m));
+            send(client, {
+              type: 'resync',
+              sessionId: message.sessionId,
+              data: { messages: await withAttachments(storage, missed) }
+            });
+          }
+          return;
+        }
+
+        // Everything else acts on the session this socket has joined
+        if (!message.sessionId || message.sessionId !== client.sessionId) {
+          return sendError(client, 'not_joined', 'Join the session before sending to it', message);
+        }
+
+        // A silent monitor must not give itself away through typing indicators or read ticks
+        if (client.joinMode === 'monitor' && (message.type === 'agent_typing' || message.type === 'message_read')) {
+          return;
+        }
+
+        switch (message.type) {
+          case 'leave_session':
+            broadcastToSession(message.sessionId, {
+              type: 'agent_status',
+              data: { status: 'left', userId: client.userId, userType: client.userType }
+            }, { excludeClientId: clientId, staffOnly: client.joinMode === 'monitor' });
+            client.sessionId = undefined;
+            client.joinMode = undefined;
+            break;
+
+          // A whisper is a message from a supervisor that only staff in the session receive
+          case 'chat_message':
+          case 'whisper': {
+            const isWhisper = message.type === 'whisper';
+            if (isWhisper && !isSupervisor(identity)) {
+              return sendError(client, 'forbidden', 'Only supervisors may whisper', message);
+            }
+            if (!isWhisper && client.joinMode === 'monitor') {
+              return sendError(client, 'forbidden', 'Barge in before messaging the customer', message);
+            }
+
+            const content = typeof message.data?.content === 'string' ? message.data.content.trim() : '';
+            const session = await storage.getChatSessionBySessionId(message.sessionId);
+            if (!session || !content) {
+              return sendError(client, 'bad_request', 'Message content and a valid session are required', message);
+            }
+            if (!isWhisper && identity.kind === 'agent' && !(await canMessageCustomer(storage, identity.user, session))) {
+              return sendError(client, 'forbidden', 'Only the assigned agent or a supervisor who has barged in can message the customer', message);
+            }
+
+            const clientMessageId = typeof message.data?.clientMessageId === 'string'
+              ? message.data.clientMessageId.slice(0, 64)
+              : undefined;
+
+            // A resend from the outbox after a lost ack: confirm it without storing or broadcasting again
+            const duplicate = clientMessageId && await storage.getMessageByClientId(session.id, clientMessageId);
+            if (duplicate) {
+              send(client, { type: 'message_ack', sessionId: message.sessionId, data: { clientMessageId, message: duplicate } });
+              break;
+            }
+            if (session.status === 'resolved' || session.status === 'terminated') {
+              return sendError(client, 'bad_request', 'Chat session has ended', message);
+            }
+
+            // Agents may base a reply on an SOP; we record the revision they saw
+            const sopCitation = identity.kind === 'agent' && !isWhisper && typeof message.data?.sopId === 'string'
+              ? await citeSop(storage, message.data.sopId)
+              : undefined;
+
+            // Save message to storage
+            const newMessage = await storage.createMessage({
+              sessionId: session.id,
+              senderId: client.userId ?? null,
+              senderType: isWhisper || (identity.kind === 'agent' && session.agentId !== identity.user.id) ? 'supervisor' : client.userType,
+              content,
+              messageType: 'text',
+              clientMessageId,
+              visibility: isWhisper ? 'staff' : 'public',
+              sopCitation
+            });
+            chatEvents.emit('message:created', newMessage);
+            if (isWhisper) {
+              await storage.logSupervision({ sessionId: session.id, supervisorId: client.userId!, mode: 'whisper' });
+            }
+
+            const senderName = identity.kind === 'agent'
+              ? identity.user.name
+              : (session.customerId ? (await storage.getCustomer(session.customerId))?.name : undefined) || 'Customer';
+
+            // Broadcast to all clients in session
+            broadcastToSession(message.sessionId, {
+              type: 'chat_message',
+              sessionId: message.sessionId,
+              data: { ...newMessage, senderName }
+            }, { staffOnly: isWhisper });
+            if (clientMessageId) {
+              send(client, { type: 'message_ack', sessionId: message.sessionId, data: { clientMessageId, message: newMessage } });
+            }
+            break;
+          }
+
+          case 'barge_in': {
+            if (!isSupervisor(identity)) {
+              return sendError(client, 'forbidden', 'Only supervisors may barge in', message);
+            }
+            const session = await storage.getChatSessionBySessionId(message.sessionId);
+            if (!session || session.status === 'resolved' || session.status === 'terminated') {
+              return sendError(client, 'bad_request', 'Only open sessions can be barged into', message);
+            }
+            if (client.joinMode === 'barge_in') break;
+
+            client.joinMode = 'barge_in';
+            await storage.logSupervision({ sessionId: session.id, supervisorId: client.userId!, mode: 'barge_in' });
+
+            const notice = await storage.createMessage({
+              sessionId: session.id,
+              senderId: null,
+              senderType: 'system',
+              content: `${identity.user.name} (supervisor) joined the conversation`,
+              messageType: 'system'
+            });
+            chatEvents.emit('message:created', notice);
+            broadcastToSession(message.sessionId, { type: 'chat_message', sessionId: message.sessionId, data: notice });
+            broadcastToSession(message.sessionId, {
+              type: 'agent_status',
+              data: { status: 'joined', userId: client.userId, userType: client.userType, mode: 'barge_in' }
+            });
+            break;
+          }
+
+          case 'agent_typing':
+          case 'customer_typing':
+            broadcastToSession(message.sessionId, {
+              type: message.type,
+              sessionId: message.sessionId,
+              userId: client.userId,
+              userType: client.userType,
+              data: message.data
+            }, { excludeClientId: clientId });
+            break;
+
+          case 'message_read': {
+            const session = await storage.getChatSessionBySessionId(message.sessionId);
+            if (!session) {
+              return sendError(client, 'bad_request', 'Unknown session', message);
+            }
+
+            const reader = identity.kind === 'agent'
+              ? { id: identity.user.id, type: 'agent' as const }
+              : customerReader(session);
+            const receipt = await recordRead(storage, session, reader, message.data?.upToMessageId);
+            if (receipt) broadcastToSession(message.sessionId, receipt);
+            break;
+          }
+
+          case 'session_transfer': {
+            // Same rules as POST /api/chat/transfer
+            if (identity.kind !== 'agent') break;
+            const session = await storage.getChatSessionBySessionId(message.sessionId);
+            const newAgent = message.data?.newAgentId ? await storage.getUser(message.data.newAgentId) : undefined;
+            if (!session || !newAgent) {
+              return sendError(client, 'bad_request', 'Unknown session or agent', message);
+            }
+            if (!canManageChat(identity.user, session)) {
+              return sendError(client, 'forbidden', 'Only the assigned agent or a team lead can transfer this chat', message);
+            }
+
+            await transferChat(storage, hub, session, newAgent, message.data.reason);
+            break;
+          }
+
+          case 'session_ended': {
+            if (identity.kind !== 'agent') break;
+            const session = await storage.getChatSessionBySessionId(message.sessionId);
+            if (!session) {
+              return sendError(client, 'bad_request', 'Unknown session', message);
+            }
+            if (!canManageChat(identity.user, session)) {
+              return sendError(client, 'forbidden', 'Only the assigned agent or a team lead can end this chat', message);
+            }
+            if (session.status === 'resolved' || session.status === 'terminated') {
+              return sendError(client, 'bad_request', 'Chat session has ended', message);
+            }
+
+            // Same wrap-up rules as POST /api/chat/end/:sessionId
+            const wrapUp = wrapUpSchema.safeParse(message.data ?? {});
+            if (!wrapUp.success) {
+              return sendError(client, 'bad_request', 'Invalid wrap-up', message);
+            }
+
+            const ended = await storage.updateChatSession(session.id, {
+              ...await resolveWrapUp(storage, wrapUp.data),
+              status: 'resolved',
+              endTime: new Date()
+            });
+            if (ended) chatEvents.emit('session:ended', ended);
+
+            broadcastToSession(message.sessionId, {
+              type: 'session_ended',
+              sessionId: message.sessionId,
+              data: { endedBy: client.userId }
+            });
+            break;
+          }
+        }
+      } catch (error) {
+        if (error instanceof InvalidWrapUpError || error instanceof TransferError) {
+          return sendError(client, 'bad_request', error.message, message);
+        }
+        console.error('WebSocket message error:', error);
+        sendError(client, 'internal_error', 'Failed to process message', message);
+      }
+    });
+
+    ws.on('close', () => {
+      if (client.sessionId) {
+        broadcastToSession(client.sessionId, {
+          type: 'agent_status',
+          data: { status: 'left', userId: client.userId, userType: client.userType }
+        }, { excludeClientId: clientId, staffOnly: client.joinMode === 'monitor' });
+      }
+      connectedClients.delete(clientId);
+      if (identity.kind === 'agent') {
+        chatEvents.emit('agent:disconnected', identity.user.id);
+      }
+    });
+  }
+
+  function send(client: ConnectedClient, message: WSMessage) {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(JSON.stringify(message));
+    }
+  }
+
+  function broadcastToSession(sessionId: string, message: WSMessage, { excludeClientId, staffOnly }: BroadcastOptions = {}) {
+    connectedClients.forEach((client, clientId) => {
+      if (
+        client.sessionId === sessionId &&
+        clientId !== excludeClientId &&
+        (!staffOnly || client.identity.kind === 'agent')
+      ) {
+        send(client, message);
+      }
+    });
+  }
+
+  function sendToUser(userId: string, message: WSMessage) {
+    connectedClients.forEach((client) => {
+      if (client.identity.kind === 'agent' && client.userId === userId) {
+        send(client, message);
+      }
+    });
+  }
+
+  function broadcastToStaff(message: WSMessage, minimumRole: UserRole = 'agent') {
+    connectedClients.forEach((client) => {
+      if (client.identity.kind === 'agent' && roleRank(client.identity.user.role) >= roleRank(minimumRole)) {
+        send(client, message);
+      }
+    });
+  }
+
+  return hub;
+}
@@ -0,0 +1,56 @@
+import type { ChatSession, WrapUp, WrapUpConfig } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const WRAP_UP_SETTINGS_KEY = "wrap_up";
+
+export const defaultWrapUpConfig: WrapUpConfig = {
+  tags: [],
+  dispositions: [
+    { id: 'resolved', label: 'Resolved' },
+    { id: 'follow_up', label: 'Needs follow-up' },
+    { id: 'escalated', label: 'Escalated' },
+    { id: 'no_response', label: 'Customer left' },
+  ],
+  required: true,
+};
+
+export class InvalidWrapUpError extends Error {}
+
+export async function getWrapUpConfig(storage: IStorage): Promise<WrapUpConfig> {
+  const stored = await storage.getSetting<Partial<WrapUpConfig>>(WRAP_UP_SETTINGS_KEY);
+  return { ...defaultWrapUpConfig, ...stored };
+}
+
+export async function setWrapUpConfig(storage: IStorage, config: WrapUpConfig): Promise<WrapUpConfig> {
+  await storage.setSetting(WRAP_UP_SETTINGS_KEY, config);
+  return config;
+}
+
+/**
+ * Checks a wrap-up against the current catalogs and returns the session fields
+ * to store. Throws InvalidWrapUpError for unknown ids, or a missing disposition
+ * when wrap-up is required.
+ */
+export async function resolveWrapUp(
+  storage: IStorage,
+  wrapUp: WrapUp,
+): Promise<Pick<ChatSession, 'tags' | 'disposition' | 'wrapUpNotes'>> {
+  const config = await getWrapUpConfig(storage);
+
+  const unknownTags = wrapUp.tags.filter(tag => !config.tags.some(entry => entry.id === tag));
+  if (unknownTags.length > 0) {
+    throw new InvalidWrapUpError(`Unknown tag: ${unknownTags.join(', ')}`);
+  }
+  if (wrapUp.disposition && !config.dispositions.some(entry => entry.id === wrapUp.disposition)) {
+    throw new InvalidWrapUpError(`Unknown disposition: ${wrapUp.disposition}`);
+  }
+  if (config.required && !wrapUp.disposition) {
+    throw new InvalidWrapUpError('A disposition is required to wrap up this chat');
+  }
+
+  return {
+    tags: Array.from(new Set(wrapUp.tags)),
+    disposition: wrapUp.disposition ?? null,
+    wrapUpNotes: wrapUp.notes || null
+  };
+}
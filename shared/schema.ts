@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, uniqueIndex, index, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,7 +10,12 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("agent"), // agent, senior_agent, team_lead, admin
   name: text("name").notNull(),
   email: text("email").notNull(),
-  isOnline: boolean("is_online").default(false),
+  isOnline: boolean("is_online").default(false), // kept in sync with presence !== 'offline'
+  presence: text("presence").default("offline"), // available, busy, away, in_break, offline
+  presenceUpdatedAt: timestamp("presence_updated_at"),
+  skills: text("skills").array().default(sql`'{}'::text[]`), // chat topics this agent can handle
+  maxConcurrentChats: integer("max_concurrent_chats").default(3),
+  team: text("team"), // free-form team name used to group reports
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -30,22 +35,39 @@ export const chatSessions = pgTable("chat_sessions", {
   customerId: varchar("customer_id").references(() => customers.id),
   agentId: varchar("agent_id").references(() => users.id),
   status: text("status").default("active"), // active, waiting, resolved, terminated
+  topic: text("topic"), // one of chatTopics, chosen by the customer
   startTime: timestamp("start_time").defaultNow(),
+  assignedAt: timestamp("assigned_at"),
   endTime: timestamp("end_time"),
-  transferHistory: jsonb("transfer_history").default([]),
+  transferHistory: jsonb("transfer_history").$type<TransferRecord[]>().default([]),
   rating: integer("rating"),
+  // Wrap-up, recorded by the agent when the chat ends; ids come from the WrapUpConfig catalogs
+  tags: text("tags").array().default(sql`'{}'::text[]`),
+  disposition: text("disposition"),
+  wrapUpNotes: text("wrap_up_notes"),
+  // SLA: the next deadline still running (see SlaMonitor) and every target missed so far
+  slaMetric: text("sla_metric"),
+  slaDueAt: timestamp("sla_due_at"),
+  slaBreaches: jsonb("sla_breaches").$type<SlaBreach[]>().default([]),
+  // Lowest role that may take the chat once it has been escalated (see escalationRoles)
+  escalationLevel: text("escalation_level"),
 });
 
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => chatSessions.id),
   senderId: varchar("sender_id"), // can be customer or agent
-  senderType: text("sender_type").notNull(), // customer, agent, system
+  senderType: text("sender_type").notNull(), // customer, agent, supervisor, system
   content: text("content").notNull(),
   messageType: text("message_type").default("text"), // text, file, system
   timestamp: timestamp("timestamp").defaultNow(),
-  readBy: jsonb("read_by").default([]),
-});
+  readBy: jsonb("read_by").$type<ReadReceipt[]>().default([]), // who has seen this message, see ReadReceipt
+  clientMessageId: text("client_message_id"), // generated by the sender so retries are not stored twice
+  visibility: text("visibility").notNull().default("public"), // public, or staff for whispers the customer never sees
+  sopCitation: jsonb("sop_citation").$type<SopCitation>(), // the SOP revision an agent's reply was based on
+}, (table) => ({
+  clientMessageIdx: uniqueIndex("messages_session_client_message_idx").on(table.sessionId, table.clientMessageId),
+}));
 
 export const sopDocuments = pgTable("sop_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -56,8 +78,48 @@ export const sopDocuments = pgTable("sop_documents", {
   version: text("version").default("1.0"),
   lastUpdated: timestamp("last_updated").defaultNow(),
   uploadedBy: varchar("uploaded_by").references(() => users.id),
+  status: text("status").notNull().default("published"), // one of sopStatuses; new SOPs start as drafts
+  publishedRevisionId: varchar("published_revision_id"), // what agents see while a newer edit awaits approval
+  archivedAt: timestamp("archived_at"),
+});
+
+// Every saved state of an SOP, never changed once written; the newest matches sopDocuments
+export const sopRevisions = pgTable("sop_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sopId: varchar("sop_id").notNull().references(() => sopDocuments.id),
+  version: text("version").notNull(), // semantic version, see sop-revisions.ts
+  title: text("title").notNull(),
+  category: text("category").notNull(),
+  content: text("content").notNull(),
+  keywords: text("keywords").array(),
+  changeNote: text("change_note"),
+  authorId: varchar("author_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Review discussion on an SOP; status changes are recorded here too, with the action taken
+export const sopComments = pgTable("sop_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sopId: varchar("sop_id").references(() => sopDocuments.id).notNull(),
+  revisionId: varchar("revision_id").references(() => sopRevisions.id), // the version being discussed
+  authorId: varchar("author_id").references(() => users.id).notNull(),
+  content: text("content").notNull(),
+  action: text("action"), // the status the SOP moved to, for comments left with a status change
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+const tsvector = customType<{ data: string }>({ dataType: () => 'tsvector' });
+
+// Full-text search over SOPs for the database backend, kept up to date by DbStorage
+export const sopSearchIndex = pgTable("sop_search_index", {
+  sopId: varchar("sop_id").primaryKey().references(() => sopDocuments.id),
+  document: tsvector("document").notNull(), // the working copy
+  publishedDocument: tsvector("published_document"), // what agents see, if anything
+}, (table) => ({
+  documentIdx: index("sop_search_index_document_idx").using("gin", table.document),
+  publishedDocumentIdx: index("sop_search_index_published_document_idx").using("gin", table.publishedDocument),
+}));
+
 export const quickReplies = pgTable("quick_replies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -66,6 +128,127 @@ export const quickReplies = pgTable("quick_replies", {
   createdBy: varchar("created_by").references(() => users.id),
 });
 
+// One entry in messages.readBy
+export type ReadReceipt = {
+  readerId: string;
+  readerType: 'customer' | 'agent';
+  readAt: string; // ISO timestamp
+};
+
+// messages.sopCitation: the SOP revision an agent relied on, kept even after the SOP changes
+export type SopCitation = {
+  sopId: string;
+  revisionId: string;
+  title: string;
+  version: string;
+};
+
+// Files sent in a chat; the bytes live in the file store under storageKey
+export const attachments = pgTable("attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").references(() => messages.id),
+  sessionId: varchar("session_id").references(() => chatSessions.id).notNull(),
+  uploadedBy: varchar("uploaded_by"), // customer or agent id
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"), // images only
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per presence state an agent was in; endedAt is null for the current one
+export const agentStatusHistory = pgTable("agent_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Every time a supervisor monitors, whispers into or barges into a chat
+export const supervisionLog = pgTable("supervision_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => chatSessions.id).notNull(),
+  supervisorId: varchar("supervisor_id").references(() => users.id).notNull(),
+  mode: text("mode").notNull(), // one of supervisionModes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The customer's answers to the post-chat survey; at most one per session
+export const surveyResponses = pgTable("survey_responses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => chatSessions.id).notNull().unique(),
+  rating: integer("rating").notNull(), // 1-5; a thumbs up is stored as 5, a thumbs down as 1
+  comment: text("comment"),
+  answers: jsonb("answers").$type<SurveyAnswers>().default({}), // by question id, see SurveyConfig
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Staff-only context on a chat; the customer never sees these. A note pinned to the
+// customer (customerId set) is also shown on that customer's other chats.
+export const internalNotes = pgTable("internal_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => chatSessions.id).notNull(),
+  customerId: varchar("customer_id").references(() => customers.id),
+  authorId: varchar("author_id").references(() => users.id).notNull(),
+  content: text("content").notNull(),
+  mentions: text("mentions").array().default(sql`'{}'::text[]`), // ids of the users @mentioned
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A promise to call (or write to) a customer back within [windowStart, windowEnd).
+// Customers request them from the widget (createdBy null, no agent yet); staff schedule
+// them from a chat. remindedAt is set once the assigned agent has been told it is due.
+export const callbacks = pgTable("callbacks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => customers.id).notNull(),
+  sessionId: varchar("session_id").references(() => chatSessions.id), // the chat it was scheduled from
+  agentId: varchar("agent_id").references(() => users.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  phone: text("phone"),
+  email: text("email"),
+  reason: text("reason").notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  windowEnd: timestamp("window_end").notNull(),
+  status: text("status").notNull().default("scheduled"), // one of callbackStatuses
+  notes: text("notes"), // what came of it
+  remindedAt: timestamp("reminded_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A message left in the widget while nobody was online to chat. Staff answer it
+// from the offline inbox; each reply is emailed to the customer.
+export const offlineTickets = pgTable("offline_tickets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => customers.id).notNull(),
+  topic: text("topic"),
+  message: text("message").notNull(),
+  status: text("status").notNull().default("open"), // one of ticketStatuses
+  lastReplyAt: timestamp("last_reply_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const ticketReplies = pgTable("ticket_replies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticket_id").references(() => offlineTickets.id).notNull(),
+  authorId: varchar("author_id").references(() => users.id).notNull(),
+  content: text("content").notNull(),
+  emailStatus: text("email_status").notNull(), // sent, failed
+  emailError: text("email_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Key/value configuration edited by admins (routing strategy, ...)
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -73,6 +256,9 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
   name: true,
   email: true,
+  skills: true,
+  maxConcurrentChats: true,
+  team: true,
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).pick({
@@ -88,6 +274,7 @@ export const insertChatSessionSchema = createInsertSchema(chatSessions).pick({
   customerId: true,
   agentId: true,
   status: true,
+  topic: true,
 });
 
 export const insertMessageSchema = createInsertSchema(messages).pick({
@@ -96,6 +283,9 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   senderType: true,
   content: true,
   messageType: true,
+  clientMessageId: true,
+  visibility: true,
+  sopCitation: true,
 });
 
 export const insertSOPSchema = createInsertSchema(sopDocuments).pick({
@@ -105,6 +295,17 @@ export const insertSOPSchema = createInsertSchema(sopDocuments).pick({
   keywords: true,
   version: true,
   uploadedBy: true,
+  status: true,
+});
+
+export const insertSOPRevisionSchema = createInsertSchema(sopRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSOPCommentSchema = createInsertSchema(sopComments).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertQuickReplySchema = createInsertSchema(quickReplies).pick({
@@ -114,6 +315,41 @@ export const insertQuickReplySchema = createInsertSchema(quickReplies).pick({
   createdBy: true,
 });
 
+export const insertSupervisionLogSchema = createInsertSchema(supervisionLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSurveyResponseSchema = createInsertSchema(surveyResponses).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInternalNoteSchema = createInsertSchema(internalNotes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCallbackSchema = createInsertSchema(callbacks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOfflineTicketSchema = createInsertSchema(offlineTickets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketReplySchema = createInsertSchema(ticketReplies).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -130,12 +366,653 @@ export type Message = typeof messages.$inferSelect;
 export type InsertSOPDocument = z.infer<typeof insertSOPSchema>;
 export type SOPDocument = typeof sopDocuments.$inferSelect;
 
+export type InsertSOPRevision = z.infer<typeof insertSOPRevisionSchema>;
+export type SOPRevision = typeof sopRevisions.$inferSelect;
+export type SOPRevisionWithAuthor = SOPRevision & { authorName: string };
+
+export type InsertSOPComment = z.infer<typeof insertSOPCommentSchema>;
+export type SOPComment = typeof sopComments.$inferSelect;
+export type SOPCommentWithAuthor = SOPComment & { authorName: string; version: string | null };
+
 export type InsertQuickReply = z.infer<typeof insertQuickReplySchema>;
 export type QuickReply = typeof quickReplies.$inferSelect;
 
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+
+// Messages as the API returns them, with any files they carry
+export type MessageWithAttachments = Message & { attachments?: Attachment[] };
+
+export type AgentStatusHistory = typeof agentStatusHistory.$inferSelect;
+
+export type InsertSupervisionLogEntry = z.infer<typeof insertSupervisionLogSchema>;
+export type SupervisionLogEntry = typeof supervisionLog.$inferSelect;
+
+export type InsertSurveyResponse = z.infer<typeof insertSurveyResponseSchema>;
+export type SurveyResponse = typeof surveyResponses.$inferSelect;
+
+export type InsertInternalNote = z.infer<typeof insertInternalNoteSchema>;
+export type InternalNote = typeof internalNotes.$inferSelect;
+// Notes as the API returns them, with who wrote them
+export type InternalNoteWithAuthor = InternalNote & { authorName: string };
+
+export type InsertCallback = z.infer<typeof insertCallbackSchema>;
+export type Callback = typeof callbacks.$inferSelect;
+// Callbacks as the API returns them, with who to call and who is calling
+export type CallbackWithDetails = Callback & { customerName: string; agentName: string | null };
+
+export type InsertOfflineTicket = z.infer<typeof insertOfflineTicketSchema>;
+export type OfflineTicket = typeof offlineTickets.$inferSelect;
+export type OfflineTicketWithCustomer = OfflineTicket & { customerName: string; customerEmail: string };
+
+export type InsertTicketReply = z.infer<typeof insertTicketReplySchema>;
+export type TicketReply = typeof ticketReplies.$inferSelect;
+export type TicketReplyWithAuthor = TicketReply & { authorName: string };
+
+// GET /api/tickets/:id
+export type OfflineTicketDetail = OfflineTicketWithCustomer & { replies: TicketReplyWithAuthor[] };
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
+// Staff roles, lowest to highest privilege
+export const userRoles = ['agent', 'senior_agent', 'team_lead', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+
+export function roleRank(role: string): number {
+  return userRoles.indexOf(role as UserRole);
+}
+
+// Only the agent a chat is assigned to, or a team lead and up, may hand it to someone else, escalate it or end it
+export function canManageChat(user: Pick<User, 'id' | 'role'>, session: Pick<ChatSession, 'agentId'>): boolean {
+  return session.agentId === user.id || roleRank(user.role) >= roleRank('team_lead');
+}
+
+// Escalation moves a chat up this ladder one step at a time
+export const escalationRoles = ['agent', 'senior_agent', 'team_lead'] as const satisfies readonly UserRole[];
+export const escalationRules = ['manual', 'keyword', 'unanswered', 'sentiment'] as const;
+export type EscalationRule = typeof escalationRules[number];
+
+// One entry in chatSessions.transferHistory
+export interface TransferRecord {
+  fromAgent: string | null;
+  toAgent: string | null; // null while an escalated chat waits in the queue for the new level
+  timestamp: Date | string;
+  reason?: string;
+  escalation?: { level: UserRole; rule: EscalationRule; escalatedBy: string | null };
+}
+
+export const escalateSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+// Automatic escalation, stored in app_settings under "escalation" and edited by admins
+export const escalationConfigSchema = z.object({
+  enabled: z.boolean(),
+  keywords: z.array(z.string().trim().min(2).max(50)).max(100),
+  // Customer messages in a row with no reply from the agent; null turns the rule off
+  unansweredMessages: z.number().int().min(2).max(50).nullable(),
+  // A customer message scoring at or below this (see server/sentiment.ts); null turns the rule off
+  sentimentThreshold: z.number().int().min(-20).max(-1).nullable(),
+});
+export type EscalationConfig = z.infer<typeof escalationConfigSchema>;
+
+// Team leads and admins can monitor any chat silently, whisper to its agent, or barge in
+export const supervisionModes = ['monitor', 'whisper', 'barge_in'] as const;
+export type SupervisionMode = typeof supervisionModes[number];
+
+export const messageVisibilities = ['public', 'staff'] as const;
+export type MessageVisibility = typeof messageVisibilities[number];
+
+export function isVisibleToCustomer(message: Pick<Message, 'visibility'>): boolean {
+  return message.visibility === 'public';
+}
+
+// POST /api/chat/sessions/:sessionId/notes
+export const createNoteSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+  pinToCustomer: z.boolean().default(false),
+});
+
+// "@username" in a note notifies that user; the same pattern is used to highlight mentions
+export const mentionPattern = /@([\w-]+(?:\.[\w-]+)*)/g;
+
+export function extractMentions(content: string): string[] {
+  const usernames = Array.from(content.matchAll(mentionPattern), match => match[1]);
+  return Array.from(new Set(usernames));
+}
+
+// Agent presence; only "available" agents are offered new chats
+export const presenceStates = ['available', 'busy', 'away', 'in_break', 'offline'] as const;
+export type PresenceState = typeof presenceStates[number];
+
+// Topics a customer can pick when starting a chat; agent skills use the same ids
+export const chatTopics = [
+  { id: 'orders', label: 'Order status' },
+  { id: 'returns', label: 'Returns & exchanges' },
+  { id: 'billing', label: 'Billing & payments' },
+  { id: 'general', label: 'Other questions' },
+] as const;
+export type ChatTopic = typeof chatTopics[number]['id'];
+
+// Chat routing, stored in app_settings under "routing"
+export const routingStrategies = ['round_robin', 'least_active', 'skills'] as const;
+export type RoutingStrategy = typeof routingStrategies[number];
+
+export const routingConfigSchema = z.object({
+  strategy: z.enum(routingStrategies),
+  eligibleRoles: z.array(z.enum(userRoles)).min(1),
+});
+export type RoutingConfig = z.infer<typeof routingConfigSchema>;
+
+// Wrap-up catalogs and policy, stored in app_settings under "wrap_up" and edited by admins
+const catalogEntrySchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/, 'Use lowercase letters, digits, "-" and "_"').max(50),
+  label: z.string().trim().min(1).max(100),
+});
+export type CatalogEntry = z.infer<typeof catalogEntrySchema>;
+
+const uniqueIds = (entries: CatalogEntry[]) => new Set(entries.map(entry => entry.id)).size === entries.length;
+
+export const wrapUpConfigSchema = z.object({
+  tags: z.array(catalogEntrySchema).max(200).refine(uniqueIds, 'Tag ids must be unique'),
+  dispositions: z.array(catalogEntrySchema).max(100).refine(uniqueIds, 'Disposition ids must be unique'),
+  // Agents must pick a disposition before they can end a chat
+  required: z.boolean(),
+});
+export type WrapUpConfig = z.infer<typeof wrapUpConfigSchema>;
+
+export const customerStatuses = ['regular', 'premium', 'vip'] as const;
+export type CustomerStatus = typeof customerStatuses[number];
+
+// first_response: until the agent first replies; next_response: until the agent answers
+// a customer who is waiting on them; resolution: until the chat is ended
+export const slaMetrics = ['first_response', 'next_response', 'resolution'] as const;
+export type SlaMetric = typeof slaMetrics[number];
+
+export interface SlaBreach {
+  metric: SlaMetric;
+  dueAt: string;
+  breachedAt: string;
+}
+
+// Targets in minutes; null means the metric is not tracked for that tier
+const slaTargetSchema = z.number().int().min(1).max(7 * 24 * 60).nullable();
+const slaPolicySchema = z.object({
+  first_response: slaTargetSchema,
+  next_response: slaTargetSchema,
+  resolution: slaTargetSchema,
+});
+export type SlaPolicy = z.infer<typeof slaPolicySchema>;
+
+// One policy per customer status, stored in app_settings under "sla" and edited by admins
+export const slaConfigSchema = z.object({
+  enabled: z.boolean(),
+  policies: z.object({
+    regular: slaPolicySchema,
+    premium: slaPolicySchema,
+    vip: slaPolicySchema,
+  }),
+});
+export type SlaConfig = z.infer<typeof slaConfigSchema>;
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Business hours: index i of weekdays is the day Date#getDay() returns i for
+export const weekdays = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = typeof weekdays[number];
+
+// "HH:MM" on a 24-hour clock; "24:00" closes at midnight
+const clockTimeSchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Use HH:MM');
+const openingHoursSchema = z.object({
+  open: clockTimeSchema,
+  close: clockTimeSchema,
+}).refine(hours => hours.open < hours.close, 'Closing time must be after opening time');
+const dayHoursSchema = z.array(openingHoursSchema).max(4);
+
+// Holidays close for the whole day, in the schedule's time zone
+const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  name: z.string().trim().min(1).max(100),
+});
+
+export const businessScheduleSchema = z.object({
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone'),
+  hours: z.object({
+    sun: dayHoursSchema,
+    mon: dayHoursSchema,
+    tue: dayHoursSchema,
+    wed: dayHoursSchema,
+    thu: dayHoursSchema,
+    fri: dayHoursSchema,
+    sat: dayHoursSchema,
+  }),
+  holidays: z.array(holidaySchema).max(366),
+});
+export type BusinessSchedule = z.infer<typeof businessScheduleSchema>;
+
+// A team's own hours, used for chats on the topics it handles
+const teamScheduleSchema = businessScheduleSchema.extend({
+  team: z.string().trim().min(1).max(100),
+  topics: z.array(z.string().refine(id => chatTopics.some(topic => topic.id === id), 'Unknown topic')),
+});
+export type TeamSchedule = z.infer<typeof teamScheduleSchema>;
+
+// Stored in app_settings under "business_hours" and edited by admins; when disabled we are always open
+export const businessHoursConfigSchema = z.object({
+  enabled: z.boolean(),
+  default: businessScheduleSchema,
+  teams: z.array(teamScheduleSchema).max(50)
+    .refine(teams => new Set(teams.map(team => team.team)).size === teams.length, 'Team names must be unique')
+    .refine(teams => {
+      const topics = teams.flatMap(team => team.topics);
+      return new Set(topics).size === topics.length;
+    }, 'Each topic can belong to one team only'),
+});
+export type BusinessHoursConfig = z.infer<typeof businessHoursConfigSchema>;
+
+// GET /api/availability, which the widget checks before offering a live chat
+export interface Availability {
+  open: boolean; // within business hours
+  agentsAvailable: boolean; // someone who takes chats is signed in, even if busy
+  team: string | null;
+  timeZone: string;
+  closesAt: string | null; // while open, unless open around the clock for the next week
+  opensAt: string | null; // while closed
+  holiday: string | null; // when closed today for a holiday
+}
+
+// PUT /api/sop/:id: each save becomes a new revision and bumps the version
+export const updateSOPSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  category: z.string().trim().min(1).max(100).optional(),
+  content: z.string().min(1).optional(),
+  keywords: z.array(z.string().trim().min(1).max(50)).max(30).optional(),
+  changeNote: z.string().trim().max(500).optional(),
+});
+export type UpdateSOP = z.infer<typeof updateSOPSchema>;
+
+// SOPs are drafted, reviewed, then published for agents; archiving replaces deleting
+export const sopStatuses = ['draft', 'in_review', 'published', 'archived'] as const;
+export type SopStatus = typeof sopStatuses[number];
+
+// The role needed for each status change; changes not listed are not allowed
+export const sopTransitions: Record<SopStatus, Partial<Record<SopStatus, UserRole>>> = {
+  draft: { in_review: 'senior_agent', archived: 'team_lead' },
+  in_review: { published: 'team_lead', draft: 'senior_agent', archived: 'team_lead' },
+  published: { archived: 'team_lead' },
+  archived: { draft: 'team_lead' },
+};
+
+// PATCH /api/sop/:id: move an SOP through the review workflow, see sop-workflow.ts
+export const sopStatusChangeSchema = z.object({
+  status: z.enum(sopStatuses),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+// POST /api/sop/:id/comments
+export const sopCommentSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+});
+
+// GET /api/sop, /api/sop/category/:category and POST /api/sop/search. Agents always get
+// published versions; reviewers can ask for them too, or filter by status
+export const sopListQuerySchema = z.object({
+  status: z.enum(sopStatuses).optional(),
+  published: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+export type SopListQuery = z.infer<typeof sopListQuerySchema>;
+
+// POST /api/sop/search. Accepts the same query string as GET /api/sop
+export const sopSearchSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  category: z.string().trim().min(1).optional(), // applied after counting facets
+  limit: z.number().int().min(1).max(50).default(20),
+});
+export type SopSearch = z.infer<typeof sopSearchSchema>;
+
+// Part of a search result's title or snippet; matched words are flagged so clients never build patterns from input
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SopSearchMatch {
+  sop: SOPDocument;
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+export interface SopSearchResult {
+  hits: SopSearchMatch[];
+  facets: { category: string; count: number }[]; // over every match, whatever category was asked for
+  total: number; // matches in the requested category, before the limit
+}
+
+// An SOP that fits what the customer is asking about, see sop-suggestions.ts
+export interface SopSuggestion {
+  sop: SOPDocument; // as agents see it
+  score: number;
+  matched: string[]; // words in the SOP that the conversation matched
+  snippet: HighlightSegment[];
+  excerpt: string; // plain text an agent can put into a reply
+}
+
+// GET /api/chat/sessions/:sessionId/sop-suggestions, and pushed to staff in the chat as sop_suggestions
+export interface SopSuggestions {
+  keywords: string[]; // taken from the customer's latest messages
+  suggestions: SopSuggestion[];
+}
+
+// POST /api/sop/:id/rollback: saves the old revision's text as a new revision
+export const sopRollbackSchema = z.object({
+  revisionId: z.string().min(1),
+  changeNote: z.string().trim().max(500).optional(),
+});
+
+// One line of a side-by-side diff; "changed" pairs a removed line with the line that replaced it
+export interface SopDiffRow {
+  type: 'same' | 'added' | 'removed' | 'changed';
+  left: string | null;
+  right: string | null;
+  leftLine: number | null;
+  rightLine: number | null;
+}
+
+// GET /api/sop/:id/diff
+export interface SopDiff {
+  from: SOPRevisionWithAuthor;
+  to: SOPRevisionWithAuthor;
+  rows: SopDiffRow[];
+}
+
+// Bulk import: uploads are previewed first, then the reviewed documents are imported as drafts
+export const sopImportFileTypes = ['.md', '.markdown', '.txt', '.html', '.htm', '.docx', '.pdf', '.zip'] as const;
+export const MAX_SOP_IMPORT_FILES = 50;
+export const MAX_SOP_IMPORT_BYTES = 10 * 1024 * 1024; // per uploaded file, and per POST /api/sop/import body
+// POST /api/sop/import takes this many documents at a time; clients send larger previews in batches
+export const MAX_SOP_IMPORT_DOCUMENTS = 100;
+export const MAX_SOP_CONTENT_LENGTH = 1000000;
+
+export const sopImportDocumentSchema = z.object({
+  sourceName: z.string().trim().min(1).max(255), // the file, or the file inside a zip, it came from
+  title: z.string().trim().min(1).max(200),
+  category: z.string().trim().min(1).max(100),
+  content: z.string().min(1).max(MAX_SOP_CONTENT_LENGTH),
+  keywords: z.array(z.string().trim().min(1).max(50)).max(30).default([]),
+  version: z.string().trim().max(20).optional(),
+});
+export type SopImportDocument = z.infer<typeof sopImportDocumentSchema>;
+
+// POST /api/sop/import. Documents are checked one by one, so one bad document does not stop the rest
+export const sopImportSchema = z.object({
+  documents: z.array(z.unknown()).min(1).max(MAX_SOP_IMPORT_DOCUMENTS),
+});
+
+// POST /api/sop/import/preview: one entry per file read, with what was detected in it
+export interface SopImportPreviewFile {
+  fileName: string;
+  document?: SopImportDocument; // absent when the file could not be read
+  warnings: string[];
+  error?: string;
+}
+
+export interface SopImportPreview {
+  files: SopImportPreviewFile[];
+}
+
+export interface SopImportResult {
+  sourceName: string;
+  sop?: SOPDocument; // the draft created
+  error?: string;
+}
+
+// Body of POST /api/chat/end/:sessionId and PUT /api/chat/sessions/:sessionId/wrap-up
+export const wrapUpSchema = z.object({
+  tags: z.array(z.string()).max(20).default([]),
+  disposition: z.string().optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+export type WrapUp = z.infer<typeof wrapUpSchema>;
+
+export const callbackStatuses = ['scheduled', 'completed', 'cancelled'] as const;
+export type CallbackStatus = typeof callbackStatuses[number];
+
+// A window up to a day long, starting no earlier than now, with some way to reach the customer
+const callbackWindowSchema = z.object({
+  windowStart: z.coerce.date(),
+  windowEnd: z.coerce.date(),
+  phone: z.string().trim().regex(/^\+?[0-9 ()-]{6,20}$/, 'Enter a valid phone number').optional(),
+  email: z.string().trim().email().optional(),
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const MAX_CALLBACK_WINDOW_MS = 24 * 60 * 60 * 1000;
+// A minute of slack so a window starting "now" in the browser is still accepted
+const CALLBACK_CLOCK_SKEW_MS = 60 * 1000;
+
+function refineCallbackWindow<T extends z.infer<typeof callbackWindowSchema>>(schema: z.ZodType<T>) {
+  return schema
+    .refine(callback => callback.windowEnd > callback.windowStart, { message: 'The window must end after it starts', path: ['windowEnd'] })
+    .refine(callback => callback.windowEnd.getTime() - callback.windowStart.getTime() <= MAX_CALLBACK_WINDOW_MS, { message: 'The window can be at most a day long', path: ['windowEnd'] })
+    .refine(callback => callback.windowStart.getTime() >= Date.now() - CALLBACK_CLOCK_SKEW_MS, { message: 'The window cannot start in the past', path: ['windowStart'] });
+}
+
+// POST /api/callbacks, from a chat in the dashboard; agentId defaults to whoever schedules it
+export const scheduleCallbackSchema = refineCallbackWindow(callbackWindowSchema.extend({
+  sessionId: z.string(),
+  agentId: z.string().optional(),
+}).refine(callback => callback.phone || callback.email, { message: 'Add a phone number or an email address', path: ['phone'] }));
+export type ScheduleCallback = z.infer<typeof scheduleCallbackSchema>;
+
+// POST /api/callbacks/request, from the widget when nobody is online to chat
+export const requestCallbackSchema = refineCallbackWindow(callbackWindowSchema.extend({
+  customerName: z.string().trim().min(1).max(200),
+  customerEmail: z.string().trim().email(),
+}));
+export type RequestCallback = z.infer<typeof requestCallbackSchema>;
+
+// PATCH /api/callbacks/:id: claim, reassign, reschedule, or close with an outcome
+export const updateCallbackSchema = z.object({
+  agentId: z.string().nullable().optional(),
+  windowStart: z.coerce.date().optional(),
+  windowEnd: z.coerce.date().optional(),
+  status: z.enum(callbackStatuses).optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+export type UpdateCallback = z.infer<typeof updateCallbackSchema>;
+
+// GET /api/callbacks: "mine" and "unassigned" are open to every agent, "all" to team leads
+export const callbackListQuerySchema = z.object({
+  scope: z.enum(['mine', 'unassigned', 'all']).default('mine'),
+  status: z.enum(callbackStatuses).optional(),
+});
+export type CallbackListQuery = z.infer<typeof callbackListQuerySchema>;
+
+// Offline tickets are "open" until someone replies, and stay in the inbox until closed
+export const ticketStatuses = ['open', 'replied', 'closed'] as const;
+export type TicketStatus = typeof ticketStatuses[number];
+
+// POST /api/tickets, from the widget's leave-a-message form
+export const createTicketSchema = z.object({
+  customerName: z.string().trim().min(1).max(200),
+  customerEmail: z.string().trim().email(),
+  topic: z.string().optional(),
+  message: z.string().trim().min(1).max(5000),
+});
+export type CreateTicket = z.infer<typeof createTicketSchema>;
+
+// POST /api/tickets/:id/replies
+export const ticketReplySchema = z.object({
+  content: z.string().trim().min(1).max(10000),
+});
+
+// PATCH /api/tickets/:id
+export const updateTicketSchema = z.object({
+  status: z.enum(ticketStatuses),
+});
+
+// Post-chat survey shown in the widget, stored in app_settings under "survey"
+export const surveyQuestionTypes = ['rating', 'yes_no', 'text'] as const;
+export type SurveyQuestionType = typeof surveyQuestionTypes[number];
+
+export const surveyConfigSchema = z.object({
+  enabled: z.boolean(),
+  scale: z.enum(['stars', 'thumbs']),
+  allowComment: z.boolean(),
+  questions: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9_-]+$/).max(50),
+    label: z.string().trim().min(1).max(200),
+    type: z.enum(surveyQuestionTypes),
+  })).max(10).refine(questions => new Set(questions.map(q => q.id)).size === questions.length, 'Question ids must be unique'),
+});
+export type SurveyConfig = z.infer<typeof surveyConfigSchema>;
+
+export type SurveyAnswers = Record<string, number | boolean | string>;
+
+// POST /api/chat/sessions/:sessionId/survey
+export const submitSurveySchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional(),
+  answers: z.record(z.union([z.number(), z.boolean(), z.string().max(2000)])).default({}),
+});
+export type SubmitSurvey = z.infer<typeof submitSurveySchema>;
+
+// What the widget needs to know after a chat: "open" until answered, unless surveys are off
+export interface SurveyState {
+  config: SurveyConfig;
+  status: 'unavailable' | 'open' | 'submitted';
+}
+
+// A rating of 4 or 5 (or a thumbs up) counts as a satisfied customer
+export const CSAT_SATISFIED_RATING = 4;
+
+// Date range shared by the analytics endpoints; days, weeks and hours are counted in timeZone
+export const analyticsRangeSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(['day', 'week']).default('day'),
+  timeZone: z.string().default('UTC').refine(isTimeZone, 'Unknown time zone'),
+});
+export type AnalyticsRange = z.infer<typeof analyticsRangeSchema>;
+
+// GET /api/analytics/csat
+export const csatQuerySchema = analyticsRangeSchema.extend({
+  groupBy: z.enum(['agent', 'team', 'tag']).default('agent'),
+});
+export type CsatQuery = z.infer<typeof csatQuerySchema>;
+
+export interface CsatSummary {
+  responses: number;
+  csat: number | null; // percentage of satisfied responses
+  averageRating: number | null;
+}
+
+export interface CsatReport {
+  from: string;
+  to: string;
+  overall: CsatSummary;
+  groups: (CsatSummary & { key: string; label: string })[];
+  trend: (CsatSummary & { period: string })[]; // period start, YYYY-MM-DD
+}
+
+// Durations in seconds; null when no chat in the set has the timestamps to measure it
+export interface DurationStat {
+  average: number | null;
+  median: number | null;
+}
+
+export interface PerformanceMetrics {
+  chats: number;
+  firstResponseTime: DurationStat; // chat start to the first reply from the agent
+  waitTime: DurationStat; // chat start to assignment
+  handleTime: DurationStat; // assignment to the end of the chat
+  resolutionRate: number | null; // percentage of chats resolved
+  transfersPerChat: number | null;
+  messagesPerChat: number | null;
+  slaBreaches: Record<SlaMetric, number>;
+  breachedChats: number; // chats that missed at least one SLA target
+}
+
+// GET /api/analytics/performance, over the chats started in the range
+export interface PerformanceReport {
+  from: string;
+  to: string;
+  overall: PerformanceMetrics;
+  agents: (PerformanceMetrics & { agentId: string; name: string })[];
+  hourly: { hour: number; chats: number }[]; // hour of day, 0-23
+  trend: { period: string; chats: number; firstResponseTime: number | null; handleTime: number | null }[];
+}
+
+// Upload limits, checked by the widget and dashboard before sending and enforced by the server
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const imageMimeTypes = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const;
+export const attachmentMimeTypes = [
+  ...imageMimeTypes,
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+] as const;
+
+// Chat session lifecycle; "open" sessions are the ones the dashboard works on
+export const sessionStatuses = ['waiting', 'active', 'resolved', 'terminated'] as const;
+export type SessionStatus = typeof sessionStatuses[number];
+export const openSessionStatuses: SessionStatus[] = ['waiting', 'active'];
+
+// GET /api/chat/sessions: filters match the dashboard sidebar's, pages are cursor-based
+export const sessionListSorts = ['newest', 'oldest', 'recent_activity'] as const;
+export type SessionListSort = typeof sessionListSorts[number];
+
+export const sessionListQuerySchema = z.object({
+  // Comma-separated, or "all"; defaults to the open statuses
+  status: z.string().optional().transform((value, ctx) => {
+    if (value === 'all') return undefined;
+    const statuses = value ? value.split(',') : openSessionStatuses;
+    const unknown = statuses.filter(s => !(sessionStatuses as readonly string[]).includes(s));
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status: ${unknown.join(', ')}` });
+      return z.NEVER;
+    }
+    return statuses as SessionStatus[];
+  }),
+  role: z.enum(userRoles).optional(),
+  agentId: z.string().optional(),
+  customerId: z.string().optional(),
+  tag: z.string().optional(),
+  disposition: z.string().optional(),
+  search: z.string().trim().max(200).optional(),
+  sort: z.enum(sessionListSorts).default('newest'),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+export type SessionListQuery = z.infer<typeof sessionListQuerySchema>;
+export type SessionListFilters = Omit<SessionListQuery, 'cursor' | 'limit'>;
+
+// A session as the sidebar shows it; unreadCount is for the agent asking
+export type SessionListItem = ChatSession & {
+  customer: Customer | null;
+  agent: Omit<User, 'password'> | null;
+  lastMessage: Message | null;
+  unreadCount: number;
+};
+
+export interface SessionListPage {
+  sessions: SessionListItem[];
+  nextCursor: string | null;
+}
+
 // WebSocket message types
 export type WSMessage = {
-  type: 'chat_message' | 'agent_typing' | 'customer_typing' | 'session_transfer' | 'session_ended' | 'agent_status' | 'join_session' | 'leave_session';
+  type: 'chat_message' | 'agent_typing' | 'customer_typing' | 'session_transfer' | 'session_ended' | 'agent_status' | 'join_session' | 'leave_session' | 'queue_update' | 'session_assigned' | 'heartbeat' | 'set_status' | 'message_read' | 'session_updated' | 'stats_update' | 'resync' | 'message_ack' | 'whisper' | 'barge_in' | 'note_created' | 'mention' | 'sla_breach' | 'callback_due' | 'ticket_created' | 'sop_review_requested' | 'sop_suggestions' | 'error';
   sessionId?: string;
   data?: any;
   userId?: string;